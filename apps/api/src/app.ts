@@ -22,6 +22,7 @@ import { ulpcRouter } from "./routes/ulpc.js";
 import { tilesets } from "./routes/tilesets.js";   // ← add this
 import { tilesetDebug } from "./routes/tilesets.js"; // same file; different export
 import { scenes } from "./routes/scenes.js";
+import { palettes } from "./routes/palettes.js";
 
 
 
@@ -73,6 +74,7 @@ app.use(tilesetDebug);
   app.use(ulpcRouter);
   app.use(tilesets); 
   app.use(scenes);
+  app.use(palettes);
 
 
   // Unified error handler
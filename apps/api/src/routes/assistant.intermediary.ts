@@ -1,6 +1,6 @@
 // apps/api/src/routes/assistant.intermediary.ts
 import { Router, type Request, type Response } from "express";
-import { runCharIntermediaryTurn, InvalidIntermediaryPayloadError } from "@pixelart/assistants";
+import { runCharIntermediaryTurn, InvalidIntermediaryPayloadError, createLlmProvider, LlmConfigError } from "@pixelart/assistants";
 import { writeIntermediary, readProjectSettings } from "@pixelart/config";
 
 export const assistantIntermediaryRouter: import("express").Router = Router();
@@ -29,26 +29,20 @@ assistantIntermediaryRouter.post("/assistant/char-intermediary", async (req: Req
     }
 
     const proj = (await readProjectSettings()) as any;
-    const apiKey = (proj?.llm?.apiKey as string) || process.env.OPENAI_API_KEY;
-    const assistantId = (proj?.llm?.intermediaryAssistantId as string) || process.env.OPENAI_CHAR_INTERMEDIARY_ASSISTANT_ID;
-    if (!apiKey || !assistantId) {
-      return res.status(400).json({
-        ok: false,
-        error: "missing_openai_config",
-        detail: "Missing OPENAI_API_KEY or intermediary assistant id (settings.llm.intermediaryAssistantId or OPENAI_CHAR_INTERMEDIARY_ASSISTANT_ID)",
-      });
-    }
+    const llm = createLlmProvider(proj?.llm, "intermediary");
 
     const result = await runCharIntermediaryTurn({
       userMessage: message,
       baseDraft,
       thread,
-      openai: { apiKey, assistantId },
+      llm,
+      repairAttempts: proj?.llm?.repairAttempts,
     });
 
     const catCount = Array.isArray(result?.data?.categories) ? result.data.categories.length : 0;
     console.log("[assistant.char-intermediary] success", {
       categories: catCount,
+      repairs: result.attempts.length - 1,
       bodyType: result?.data?.body_type,
       headType: result?.data?.head_type,
       slug,
@@ -61,14 +55,23 @@ assistantIntermediaryRouter.post("/assistant/char-intermediary", async (req: Req
       console.error("[assistant.char-intermediary] failed_to_persist", { slug, error: err?.message });
     }
 
-    return res.json({ ok: true, data: result.data });
+    return res.json({ ok: true, data: result.data, debug: { attempts: result.attempts, repairs: result.attempts.length - 1 } });
   } catch (err: any) {
+    if (err instanceof LlmConfigError) {
+      return res.status(400).json({ ok: false, error: err.code, detail: err.detail });
+    }
     if (err instanceof InvalidIntermediaryPayloadError) {
       console.warn("[assistant.char-intermediary] invalid_payload", {
         slug: (req.body?.slug as string) ?? req.body?.baseDraft?.identity?.char_slug ?? null,
         errors: err.errors,
+        attempts: err.attempts.length,
+      });
+      return res.status(400).json({
+        ok: false,
+        code: "INVALID_INTERMEDIARY_PAYLOAD",
+        errors: err.errors,
+        debug: { attempts: err.attempts, repairs: Math.max(0, err.attempts.length - 1) },
       });
-      return res.status(400).json({ ok: false, code: "INVALID_INTERMEDIARY_PAYLOAD", errors: err.errors });
     }
     if (String(err?.message || "").startsWith("missing_schema_validator")) {
       return res.status(500).json({ ok: false, code: "MISSING_VALIDATOR", message: String(err.message) });
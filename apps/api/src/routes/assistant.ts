@@ -1,12 +1,129 @@
 // apps/api/src/routes/assistant.ts
 import { Router, type Request, type Response, type NextFunction } from "express";
-import { readFile, writeFile } from "node:fs/promises";
+import { readFile, stat, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { runAssistantTurn, InvalidAssistantPayloadError } from "@pixelart/assistants";
-import { readProjectSettings } from "@pixelart/config";
+import * as schemas from "@pixelart/schemas";
+import {
+  runAssistantTurn, runAssistantPatchTurn, applyDraftPatch, InvalidAssistantPayloadError, createLlmProvider, LlmConfigError,
+  type LlmProvider, type AssistantThreadMsg, type RepairAttempt,
+} from "@pixelart/assistants";
+import {
+  charDir, readProjectSettings, readAssistantHistory, appendAssistantHistory, clearAssistantHistory, type AssistantHistoryEntry,
+} from "@pixelart/config";
 
 export const assistantRouter: import("express").Router = Router();
 
+// Ajv validator (support both named & default export shapes)
+const validateCharacterLite =
+  (schemas as any).validateCharacterLite ??
+  (schemas as any).default?.validateCharacterLite;
+
+type PreparedTurn = {
+  ok: true;
+  llm: LlmProvider;
+  repairAttempts?: number;   // settings.llm.repairAttempts
+  draft: unknown;
+  thread?: AssistantThreadMsg[];
+  /** set when the turn belongs to an existing character: its history is replayed and appended */
+  historySlug?: string;
+};
+
+const SLUG = /^[a-z0-9._-]+$/i;
+
+function liteDefPath(slug: string) {
+  return join(charDir(slug), `char_def_lite_${slug}.json`);
+}
+
+/** Chat thread rebuilt from persisted turns; rejected replies keep the user text only, applied patches add nothing. */
+function threadFromHistory(turns: AssistantHistoryEntry[]): AssistantThreadMsg[] {
+  return turns.flatMap((t): AssistantThreadMsg[] => {
+    if (t.user === undefined) return [];
+    return t.assistant ? [{ role: "user", content: t.user }, { role: "assistant", content: t.assistant }] : [{ role: "user", content: t.user }];
+  });
+}
+
+/** Saved lite def of an existing character with its modification time, or null. */
+async function readSavedDef(slug: string): Promise<{ def: unknown; savedAt: number } | null> {
+  const path = liteDefPath(slug);
+  const [text, info] = await Promise.all([readFile(path, "utf8").catch(() => null), stat(path).catch(() => null)]);
+  return text && info ? { def: JSON.parse(text), savedAt: info.mtimeMs } : null;
+}
+
+/**
+ * Shared request handling for /assistant/turn and /assistant/turn/stream: resolves the LLM
+ * provider, the base draft and the conversation, or the JSON error response to send instead.
+ * For an existing character (`slug` with a saved lite definition) the server-side history wins
+ * over the client `thread`; without a client `draft` the base is the saved definition, or the
+ * latest history draft when that was recorded after the definition was last saved.
+ */
+async function prepareTurn(body: any): Promise<PreparedTurn | { ok: false; status: number; body: Record<string, unknown> }> {
+  const { message, draft, slug, thread } = body ?? {};
+  if (!message) {
+    return { ok: false, status: 400, body: { ok: false, code: "BAD_REQUEST", message: "message required" } };
+  }
+  if (slug !== undefined && slug !== null && slug !== "" && (typeof slug !== "string" || !SLUG.test(slug))) {
+    return { ok: false, status: 400, body: { ok: false, error: "bad_slug" } };
+  }
+
+  // Provider from project settings (settings.llm.provider); keys fall back to env vars
+  const proj = (await readProjectSettings()) as any;
+  const llm = createLlmProvider(proj?.llm, "chat");
+  const repairAttempts = proj?.llm?.repairAttempts;
+
+  const saved = slug ? await readSavedDef(slug) : null;
+  if (saved) {
+    const history = await readAssistantHistory(slug);
+    const last = [...history].reverse().find((t) => t.draft);
+    const base = last && Date.parse(last.at) > saved.savedAt ? last.draft : saved.def;
+    return { ok: true, llm, repairAttempts, draft: draft ?? base, thread: threadFromHistory(history), historySlug: slug };
+  }
+
+  // Unknown slug and no draft to work on
+  if (!draft && slug) {
+    return { ok: false, status: 404, body: { ok: false, error: "unknown slug" } };
+  }
+  if (!draft) {
+    return { ok: false, status: 400, body: { ok: false, error: "draft or slug required" } };
+  }
+  return { ok: true, llm, repairAttempts, draft, thread };
+}
+
+function validateDraft(draft: unknown): { valid: boolean; errors?: Array<{ message?: string; instancePath?: string; keyword?: string }> } {
+  if (validateCharacterLite(draft)) return { valid: true };
+  const errors = (validateCharacterLite.errors ?? []).map((e: any) => ({ message: e.message, instancePath: e.instancePath, keyword: e.keyword }));
+  return { valid: false, errors };
+}
+
+type TurnHooks = { signal?: AbortSignal; onText?: (delta: string) => void; onRepair?: (attempt: RepairAttempt) => void };
+
+/** Debug trace of a turn: every model reply, with the validation errors that triggered a repair. */
+const debugTrace = (attempts: RepairAttempt[]) => ({ attempts, repairs: Math.max(0, attempts.length - 1) });
+
+/** Patch-mode turn result: the proposed draft (every applicable op), validated by the assistant turn. */
+async function runPatchTurn(turn: PreparedTurn, message: string, hooks: TurnHooks = {}) {
+  const result = await runAssistantPatchTurn({
+    userMessage: message, draft: turn.draft, thread: turn.thread, llm: turn.llm, repairAttempts: turn.repairAttempts, ...hooks,
+  });
+  await recordTurn(turn, { user: message, assistant: result.assistantText, patch: result.patch });
+  return {
+    message: result.assistantText, patch: result.patch, changes: result.changes, draft: result.draft,
+    valid: true, debug: debugTrace(result.attempts),
+  };
+}
+
+/** Appends to the character's history; a failed write is logged, never fails the request. */
+async function recordHistory(slug: string, entry: AssistantHistoryEntry) {
+  try {
+    await appendAssistantHistory(slug, entry);
+  } catch (err) {
+    console.warn("[assistant.history] append failed:", err);
+  }
+}
+
+async function recordTurn(turn: PreparedTurn, entry: Omit<AssistantHistoryEntry, "at" | "provider">) {
+  if (turn.historySlug) await recordHistory(turn.historySlug, { at: new Date().toISOString(), provider: turn.llm.name, ...entry });
+}
+
 /**
  * POST /assistant/turn
  * body: {
@@ -14,77 +131,186 @@ export const assistantRouter: import("express").Router = Router();
  *   draft?: any;
  *   slug?: string;
  *   thread?: Array<{ role: "user" | "assistant"; content: string }>;
- *   persist?: boolean;
+ *   mode?: "draft" | "patch";
  * }
  *
  * If `slug` is provided and `draft` is absent, loads char_def_lite_<slug>.json from ASSET_ROOT.
+ * Turns on an existing character are appended to <slug>/assistant_history.jsonl, and that history
+ * (not the client `thread`) is the conversation context.
  * Calls the assistant which returns a *validated full draft* (not a JSON Patch).
- * Optionally persists the new draft to disk when `persist=true` and `slug` is provided.
+ * With mode "patch" the assistant returns RFC 6902 operations instead; the response is
+ *   { ok, mode: "patch", message, patch, changes, draft, valid, errors? }
+ * where `draft` has every applicable operation applied and `changes` lists each one with its
+ * before/after value, so the writer can accept a subset via POST /assistant/patch/apply.
+ * Replies that fail validation are sent back to the model with the errors, up to
+ * settings.llm.repairAttempts times (default 2); `debug.attempts` records every reply.
  */
-
-
 assistantRouter.post("/assistant/turn", async (req: Request, res: Response) => {
+  let turn: PreparedTurn | undefined;
   try {
-    const { message, draft, slug, thread, persist } = req.body ?? {};
-    if (!message) {
-      return res.status(400).json({ ok: false, code: "BAD_REQUEST", message: "message required" });
-    }
-
-      // Prefer project settings; fallback to env vars
-      const proj = (await readProjectSettings()) as any;
-      const apiKey = (proj?.llm?.apiKey as string) || process.env.OPENAI_API_KEY;
-      const assistantId = (proj?.llm?.chatAssistantId as string) || process.env.OPENAI_ASSISTANT_ID;
-      if (!apiKey || !assistantId) {
-        return res.status(400).json({
-          ok: false,
-          error: "missing_openai_config",
-          detail: "Missing OPENAI_API_KEY or chat assistant id (settings.llm.chatAssistantId or OPENAI_ASSISTANT_ID)",
-        });
-      }
-
-      // Load base draft from disk if slug provided and no draft passed
-      let baseDraft: unknown = draft;
-      let savePath: string | null = null;
-
-      if (!baseDraft && slug) {
-        const assetsRoot = process.env.ASSET_ROOT!;
-        savePath = join(assetsRoot, slug, `char_def_lite_${slug}.json`);
-        const json = await readFile(savePath, "utf8").catch(() => null);
-        if (!json) {
-          return res.status(404).json({ ok: false, error: "unknown slug" });
-        }
-        baseDraft = JSON.parse(json);
-      }
-
-      if (!baseDraft) {
-        return res
-          .status(400)
-          .json({ ok: false, error: "draft or slug required" });
-      }
-
+    const { message } = req.body ?? {};
+    const prepared = await prepareTurn(req.body);
+    if (!prepared.ok) return res.status(prepared.status).json(prepared.body);
+    turn = prepared;
 
+    if (req.body.mode === "patch") {
+      return res.json({ ok: true, mode: "patch", ...(await runPatchTurn(turn, message)) });
+    }
 
     const result = await runAssistantTurn({
       userMessage: message,
-      draft: draft ?? baseDraft,
-      thread,
-      openai: { apiKey, assistantId },
+      draft: turn.draft,
+      thread: turn.thread,
+      llm: turn.llm,
+      repairAttempts: turn.repairAttempts,
     });
 
-    // optionally persist result.draft here
+    await recordTurn(turn, { user: message, assistant: result.assistantText, draft: result.draft });
 
-    return res.json({ ok: true, message: result.assistantText, draft: result.draft });
+    return res.json({ ok: true, message: result.assistantText, draft: result.draft, debug: debugTrace(result.attempts) });
 
   } catch (err: any) {
+    if (err instanceof LlmConfigError) {
+      return res.status(400).json({ ok: false, error: err.code, detail: err.detail });
+    }
     if (err instanceof InvalidAssistantPayloadError) {
+      if (turn) await recordTurn(turn, { user: req.body.message, errors: err.errors });
       // ← return the validator’s summaries so we can see WHAT failed
       return res.status(400).json({
         ok: false,
         code: "INVALID_ASSISTANT_PAYLOAD",
         errors: err.errors,
+        debug: debugTrace(err.attempts),
       });
     }
     console.error("[assistant.turn] unexpected error:", err);
     return res.status(500).json({ ok: false, code: "INTERNAL_ERROR", message: "assistant_error" });
   }
 });
+
+/**
+ * POST /assistant/turn/stream
+ * Same body as /assistant/turn, answered as Server-Sent Events:
+ *   event: text     data: { delta }                 chat text as the model writes it
+ *   event: repair   data: { attempt, errors }       that reply failed validation and is being retried;
+ *                                                   text of the next attempt starts over
+ *   event: draft    data: { message, draft, debug } final validated CharacterLite draft
+ *   event: patch    data: { message, patch, changes, draft, valid, errors?, debug }   mode "patch" only
+ *   event: invalid  data: { code, errors, debug }   the reply failed validation after every repair
+ *   event: error    data: { code, message, detail? }
+ * Request errors (missing message, unknown slug, LLM config) are answered as plain JSON before
+ * the stream opens, like /assistant/turn.
+ */
+assistantRouter.post("/assistant/turn/stream", async (req: Request, res: Response) => {
+  let prepared: Awaited<ReturnType<typeof prepareTurn>>;
+  try {
+    prepared = await prepareTurn(req.body);
+  } catch (err: any) {
+    if (err instanceof LlmConfigError) {
+      return res.status(400).json({ ok: false, error: err.code, detail: err.detail });
+    }
+    console.error("[assistant.turn.stream] unexpected error:", err);
+    return res.status(500).json({ ok: false, code: "INTERNAL_ERROR", message: "assistant_error" });
+  }
+  if (!prepared.ok) return res.status(prepared.status).json(prepared.body);
+  const turn = prepared;
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const abort = new AbortController();
+  res.on("close", () => abort.abort());
+
+  try {
+    const { message, mode } = req.body ?? {};
+    const hooks: TurnHooks = {
+      signal: abort.signal,
+      onText: (delta) => send("text", { delta }),
+      onRepair: (attempt) => send("repair", { attempt: attempt.attempt, errors: attempt.errors }),
+    };
+    if (mode === "patch") {
+      send("patch", await runPatchTurn(turn, message, hooks));
+      return;
+    }
+    const result = await runAssistantTurn({
+      userMessage: message,
+      draft: turn.draft,
+      thread: turn.thread,
+      llm: turn.llm,
+      repairAttempts: turn.repairAttempts,
+      ...hooks,
+    });
+    await recordTurn(turn, { user: message, assistant: result.assistantText, draft: result.draft });
+    send("draft", { message: result.assistantText, draft: result.draft, debug: debugTrace(result.attempts) });
+  } catch (err: any) {
+    if (err instanceof InvalidAssistantPayloadError) {
+      await recordTurn(turn, { user: req.body.message, errors: err.errors });
+      send("invalid", { code: "INVALID_ASSISTANT_PAYLOAD", errors: err.errors, debug: debugTrace(err.attempts) });
+    } else if (!abort.signal.aborted) {
+      console.error("[assistant.turn.stream] unexpected error:", err);
+      send("error", { code: "INTERNAL_ERROR", message: "assistant_error" });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * GET /characters/:slug/assistant/history
+ * Persisted assistant turns of a character, oldest first: { at, user?, assistant?, draft?, patch?, applied?, errors?, provider? }.
+ * DELETE clears them (the saved definition is untouched).
+ */
+assistantRouter.get("/characters/:slug/assistant/history", async (req: Request, res: Response) => {
+  const { slug } = req.params;
+  if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+  const saved = await readFile(liteDefPath(slug), "utf8").catch(() => null);
+  if (!saved) return res.status(404).json({ ok: false, error: "unknown slug" });
+  const turns = await readAssistantHistory(slug);
+  return res.json({ ok: true, slug, turns });
+});
+
+assistantRouter.delete("/characters/:slug/assistant/history", async (req: Request, res: Response) => {
+  const { slug } = req.params;
+  if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+  const saved = await readFile(liteDefPath(slug), "utf8").catch(() => null);
+  if (!saved) return res.status(404).json({ ok: false, error: "unknown slug" });
+  await clearAssistantHistory(slug);
+  return res.json({ ok: true, slug });
+});
+
+/**
+ * POST /assistant/patch/apply
+ * body: { draft: CharacterLite; patch: RFC 6902 operations (the ones the writer accepted); slug?: string }
+ * Applies the operations to `draft` and validates the result with validateCharacterLite:
+ *   200 { ok: true, draft, changes }
+ *   400 { ok: false, code: "INVALID_PATCHED_DRAFT", errors, changes }
+ * Operations that cannot apply are skipped and flagged in `changes[].error`. With the `slug` of a
+ * saved character the valid result is appended to its history ({ applied, draft }), so the next
+ * turn builds on it.
+ */
+assistantRouter.post("/assistant/patch/apply", async (req: Request, res: Response) => {
+  const { draft, patch, slug } = req.body ?? {};
+  if (!draft || typeof draft !== "object" || !Array.isArray(patch)) {
+    return res.status(400).json({ ok: false, code: "BAD_REQUEST", message: "draft object and patch array required" });
+  }
+  if (slug !== undefined && (typeof slug !== "string" || !SLUG.test(slug))) {
+    return res.status(400).json({ ok: false, error: "bad_slug" });
+  }
+  const applied = applyDraftPatch(draft, patch);
+  const v = validateDraft(applied.draft);
+  if (!v.valid) {
+    return res.status(400).json({ ok: false, code: "INVALID_PATCHED_DRAFT", errors: v.errors, changes: applied.changes });
+  }
+  if (slug && (await readSavedDef(slug).catch(() => null))) {
+    const accepted = patch.filter((_: unknown, i: number) => !applied.changes[i].error);
+    await recordHistory(slug, { at: new Date().toISOString(), applied: accepted, draft: applied.draft });
+  }
+  return res.json({ ok: true, draft: applied.draft, changes: applied.changes });
+});
@@ -1,15 +1,39 @@
 import { Router, type Request, type Response } from "express";
 import { join } from "node:path";
 import { promises as fs } from "node:fs";
-import { ASSET_ROOT, readLiteDef, readProjectSettings, readUlpcBuild } from "@pixelart/config";
+import { ASSET_ROOT, atlasDir, readLiteDef, readProjectSettings, readUlpcBuild } from "@pixelart/config";
 import {
   generateCreature,
   generateOverworldVisual,
   generateBattleVisual,
   writeOverworldAnimMeta,
-  type CreatureInputs
+  writeSpriteFramesTres,
+  resolveEngineProfile,
+  enginePath,
+  engineResPath,
+  resolveStatSchema,
+  readStatValues,
+  computeDerivedStats,
+  readCharactersIndex,
+  mergeCharactersIndex,
+  writeCharactersIndex,
+  findNumericIdCollisions,
+  type CharacterIndexEntry,
+  type CharactersIndex,
+  type CreatureInputs,
+  type EngineProfile,
+  type StatSchema
 } from "@pixelart/godot-res";
-import { composeULPCExport } from "@pixelart/sprite-compose";
+import {
+  composeULPCExport,
+  packAtlas,
+  resolveAtlasSettings,
+  ulpcManifestSprites,
+  writeAtlas,
+  type AtlasSequence,
+  type AtlasSettings,
+  type AtlasSpriteInput,
+} from "@pixelart/sprite-compose";
 
 export const godotRouter: import("express").Router = Router();
 
@@ -24,32 +48,21 @@ function normalizeClassTag(tag: string | undefined | null): string {
   return base.length ? base : "shaper";
 }
 
-function computeDerivedStats(stats: CreatureInputs["stats"]) {
-  const kin = Number(stats.kinesthetic ?? 0);
-  const terrain = Number(stats.terrain_control ?? 0);
-  const hp = (kin * 10) + (terrain * 5);
-  const spd = 50 + (kin * 3);
-  const purge = 20 + kin;
-  const thresh = 50 + kin;
-  return {
-    hp,
-    spd,
-    acdb: spd,
-    phys_purge_rate: purge,
-    phys_thresh: thresh,
-    ment_purge_rate: purge,
-    ment_thresh: thresh,
-  };
+// One `key = value` line per stat, in schema order
+function statLines(values: Record<string, number> | undefined): string {
+  return Object.entries(values ?? {}).map(([k, v]) => `${k} = ${v}\n`).join("");
 }
 
 async function writeLocalCreatureResources(params: {
   charDir: string;
   inputs: CreatureInputs;
+  profile: EngineProfile;
 }) {
-  const { charDir, inputs } = params;
+  const { charDir, inputs, profile } = params;
   const id = inputs.id;
+  const vars = { id, name: inputs.name };
+  const creatureRes = engineResPath(profile, "character", vars, `${id}_Creature.tres`);
   const classTag = normalizeClassTag(inputs.classTag);
-  const derived = computeDerivedStats(inputs.stats);
 
   await fs.mkdir(charDir, { recursive: true });
 
@@ -58,12 +71,12 @@ async function writeLocalCreatureResources(params: {
 
   const creatureTres = `[` +
 `gd_resource type="Resource" script_class="Creature" load_steps=4 format=3]` + "\n\n" +
-`[ext_resource type="Script" path="res://Scripts/Creature.gd" id="1_creature"]` + "\n" +
-`[ext_resource type="Script" path="res://System/CombatScreen/BattleActors/CharacterVisual.gd" id="2_visual"]` + "\n\n" +
+`[ext_resource type="Script" path="${escapeTresString(profile.scripts.standaloneCreature)}" id="1_creature"]` + "\n" +
+`[ext_resource type="Script" path="${escapeTresString(profile.scripts.characterVisual)}" id="2_visual"]` + "\n\n" +
 `[sub_resource type="Resource" id="CharacterVisual_${id}"]` + "\n" +
 `script = ExtResource("2_visual")` + "\n" +
 `character_id = "${escapeTresString(id)}"` + "\n" +
-`animations_root = "res://Assets/Characters/${escapeTresString(id)}/Default/ulpc_frames"` + "\n" +
+`animations_root = "${escapeTresString(engineResPath(profile, "overworldFrames", vars))}"` + "\n" +
 `default_fps = ${Number(inputs.defaultFpsOverworld ?? 8)}` + "\n\n" +
 `[resource]` + "\n" +
 `script = ExtResource("1_creature")` + "\n" +
@@ -71,19 +84,8 @@ async function writeLocalCreatureResources(params: {
 `class_tag = "${escapeTresString(classTag)}"` + "\n" +
 `id = ${Number(inputs.numericId ?? Date.now())}` + "\n" +
 `persistence_path = ""` + "\n" +
-`creature_affinity = ${Number(inputs.stats.creature_affinity ?? 0)}` + "\n" +
-`chaos_mastery = ${Number(inputs.stats.chaos_mastery ?? 0)}` + "\n" +
-`kinesthetic = ${Number(inputs.stats.kinesthetic ?? 0)}` + "\n" +
-`lucidity = ${Number(inputs.stats.lucidity ?? 0)}` + "\n" +
-`terrain_control = ${Number(inputs.stats.terrain_control ?? 0)}` + "\n" +
-`hp = ${derived.hp}` + "\n" +
-`hp_current = ${derived.hp}` + "\n" +
-`spd = ${derived.spd}` + "\n" +
-`acdb = ${derived.acdb}` + "\n" +
-`phys_purge_rate = ${derived.phys_purge_rate}` + "\n" +
-`phys_thresh = ${derived.phys_thresh}` + "\n" +
-`ment_purge_rate = ${derived.ment_purge_rate}` + "\n" +
-`ment_thresh = ${derived.ment_thresh}` + "\n" +
+statLines(inputs.stats) +
+statLines(inputs.derived) +
 `is_fainted = false` + "\n" +
 `skip_turn_flag = false` + "\n" +
 `is_dead = false` + "\n" +
@@ -94,7 +96,7 @@ async function writeLocalCreatureResources(params: {
 `xp_current = ${Number(inputs.xp_current ?? 0)}` + "\n" +
 `xp_to_next = ${Number(inputs.xp_to_next ?? 100)}` + "\n" +
 `xp_reward_on_defeat = ${Number(inputs.xp_reward_on_defeat ?? 10)}` + "\n" +
-`persist_path = "res://Assets/Characters/${escapeTresString(id)}/${escapeTresString(id)}_Creature.tres"` + "\n" +
+`persist_path = "${escapeTresString(creatureRes)}"` + "\n" +
 `chaos_dials = {` + "\n" +
 `"alpha": 0.0,` + "\n" +
 `"clip_hi": 1.3,` + "\n" +
@@ -106,10 +108,10 @@ async function writeLocalCreatureResources(params: {
 
   const nodeName = `${id.charAt(0).toUpperCase()}${id.slice(1)}Overworld`;
   const overworldScene = `[` + `gd_scene load_steps=2 format=3]` + "\n\n" +
-`[ext_resource type="Script" path="res://Scripts/OverworldPlayer.gd" id="1_player"]` + "\n\n" +
+`[ext_resource type="Script" path="${escapeTresString(profile.scripts.overworldPlayer)}" id="1_player"]` + "\n\n" +
 `[node name="${escapeTresString(nodeName)}" type="CharacterBody2D"]` + "\n" +
 `script = ExtResource("1_player")` + "\n" +
-`creature_path = "res://Assets/Characters/${escapeTresString(id)}/${escapeTresString(id)}_Creature.tres"` + "\n" +
+`creature_path = "${escapeTresString(creatureRes)}"` + "\n" +
 `height_target_px = 96` + "\n";
 
   await fs.writeFile(creatureTresPath, creatureTres, "utf8");
@@ -123,6 +125,12 @@ function assertStringEnv(name: string, val: unknown): string | null {
   return null;
 }
 
+// Folder layout and script paths of the target game (project settings `engine_profile`)
+async function readEngineProfile(): Promise<EngineProfile> {
+  const settings = await readProjectSettings().catch(() => ({}));
+  return resolveEngineProfile((settings as any)?.engine_profile);
+}
+
 async function discoverGodotProjectRoot(): Promise<string> {
   // 1) explicit env
   const env = assertStringEnv("GODOT_PROJECT_ROOT", process.env.GODOT_PROJECT_ROOT);
@@ -136,103 +144,390 @@ async function discoverGodotProjectRoot(): Promise<string> {
   throw new Error("GODOT_PROJECT_ROOT missing. Set env GODOT_PROJECT_ROOT or project.settings.json key godot_project_root.");
 }
 
+type ExportOptions = {
+  writeBattleVisual?: boolean;
+  defaultFpsBattle?: number;
+  defaultFpsOverworld?: number;
+  atlas?: boolean | string;               // true: pack this character; string: a shared atlas from POST /atlases
+  atlasSettings?: Partial<AtlasSettings>;
+};
+
+type ExportContext = {
+  profile: EngineProfile;
+  statSchema: StatSchema;
+  godotProjectRoot: string | null;
+};
+
+// Per-character values from the request body (single export) that override the lite def
+type CharacterOverrides = {
+  name?: string;
+  classTag?: string;
+  numericId?: number;
+  stats?: Record<string, unknown>;
+};
+
+type PlannedExport = {
+  slug: string;
+  lite: any;
+  numericId: number | null;
+  overrides: CharacterOverrides;
+  previous?: CharacterIndexEntry;   // entry from the last export (name/classTag defaults)
+};
+
+const SLUG = /^[a-z0-9._-]+$/i;
+const FIRST_NUMERIC_ID = 10001;
+
+function httpError(statusCode: number, message: string, extra?: Record<string, unknown>) {
+  return Object.assign(new Error(message), { statusCode, extra });
+}
+
+async function readExportContext(): Promise<ExportContext> {
+  const settings = await readProjectSettings().catch(() => ({}));
+  let godotProjectRoot: string | null = null;
+  try {
+    godotProjectRoot = await discoverGodotProjectRoot();
+  } catch {
+    godotProjectRoot = null;
+  }
+  return {
+    profile: await readEngineProfile(),
+    statSchema: resolveStatSchema((settings as any)?.stat_schema),
+    godotProjectRoot,
+  };
+}
+
+// Slugs of every character with a lite def under ASSET_ROOT
+async function listCharacterSlugs(): Promise<string[]> {
+  const entries = await fs.readdir(ASSET_ROOT, { withFileTypes: true }).catch(() => []);
+  const slugs: string[] = [];
+  for (const e of entries) {
+    if (!e.isDirectory()) continue;
+    const ok = await fs.access(join(ASSET_ROOT, e.name, `char_def_lite_${e.name}.json`)).then(() => true, () => false);
+    if (ok) slugs.push(e.name);
+  }
+  return slugs.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Fixes the numericId of every planned character before anything is written and attaches its
+ * previous index entry. Ids come from the request or that entry (the lite def has no id field);
+ * characters without one get the next free id. Ids are checked against every indexed character,
+ * inside the batch or not: two characters sharing an id reject the whole run.
+ */
+function assignNumericIds(planned: PlannedExport[], index: CharactersIndex): void {
+  const batch = new Set(planned.map((p) => p.slug));
+  const previous = new Map(index.characters.map((c) => [c.id, c]));
+  for (const p of planned) {
+    p.previous = previous.get(p.slug);
+    const explicit = p.overrides.numericId;
+    const n = explicit !== undefined && explicit !== null ? Number(explicit) : p.previous?.numericId;
+    if (n !== undefined && (!Number.isInteger(n) || n <= 0)) {
+      throw httpError(400, "invalid_numeric_id", { slug: p.slug, numericId: explicit });
+    }
+    p.numericId = n ?? null;
+  }
+  const known = [
+    ...index.characters.filter((c) => !batch.has(c.id)).map((c) => ({ id: c.id, numericId: c.numericId })),
+    ...planned.filter((p) => p.numericId !== null).map((p) => ({ id: p.slug, numericId: p.numericId as number })),
+  ];
+  const collisions = findNumericIdCollisions(known);
+  if (collisions.length) throw httpError(409, "numeric_id_collision", { collisions });
+
+  let next = Math.max(FIRST_NUMERIC_ID - 1, ...known.map((k) => k.numericId)) + 1;
+  for (const p of planned) if (p.numericId === null) p.numericId = next++;
+}
+
+/** Composes the ULPC sheets, writes local and project resources for one character; returns its index entry. */
+async function exportCharacter(plan: PlannedExport, opts: ExportOptions, ctx: ExportContext) {
+  const { slug, lite, overrides, previous } = plan;
+  const { profile, statSchema, godotProjectRoot } = ctx;
+
+  // Where ULPC exporter places artifacts for this slug
+  const charDir = join(ASSET_ROOT, slug);
+  // Common manifest filename used by our ULPC export
+  const manifestPath = join(charDir, `${slug}_sprite_manifest.json`);
+  let manifestExists = true;
+
+  // Base stats from the body (else the lite def), validated against the project's stat schema
+  const { stats, errors: statErrors } = readStatValues(statSchema, overrides.stats ?? lite?.stats);
+  if (statErrors.length) throw httpError(400, `invalid_stats: ${statErrors.join("; ")}`, { errors: statErrors });
+  const derived = computeDerivedStats(statSchema, stats);
+
+  try {
+    const ulpcBuild = await readUlpcBuild(slug);
+    await composeULPCExport({ build: ulpcBuild, outBaseDir: charDir, slug });
+  } catch (err: any) {
+    manifestExists = false;
+    console.warn?.("[godot.export] ulpc_refresh_failed", { slug, error: err?.message });
+  }
+
+  await fs.access(manifestPath).catch((err) => {
+    manifestExists = false;
+    console.warn?.("[godot.export] manifest_missing", { slug, manifestPath, err: err?.message });
+  });
+
+  const inputs: CreatureInputs = {
+    id: slug,
+    // the lite def has no class tag: keep the one chosen at the last export
+    name: String(overrides.name ?? previous?.name ?? lite?.identity?.char_name ?? slug),
+    classTag: String(overrides.classTag ?? previous?.classTag ?? "Shaper"),
+    numericId: plan.numericId as number,
+    stats,
+    derived,
+    level: 1,
+    xp_current: 0,
+    xp_to_next: 100,
+    xp_reward_on_defeat: 10,
+    defaultFpsBattle: Number(opts.defaultFpsBattle ?? 12),
+    defaultFpsOverworld: Number(opts.defaultFpsOverworld ?? 8)
+  };
+  const vars = { id: slug, name: inputs.name };
+  const resources: Record<string, string> = {
+    creature: engineResPath(profile, "character", vars, `${slug}_Creature.tres`),
+    overworldVisual: engineResPath(profile, "characterDefault", vars, `${slug}_Overworld_CharacterVisual.tres`),
+  };
+
+  if (godotProjectRoot) {
+    console.info?.("[godot.export] writing_project_resources", { slug, godotProjectRoot, profile: profile.name });
+    await generateOverworldVisual({ projectRoot: godotProjectRoot, inputs, profile });
+    if (opts.writeBattleVisual === true) {
+      await generateBattleVisual({ projectRoot: godotProjectRoot, inputs, profile });
+      resources.battleVisual = engineResPath(profile, "characterDefault", vars, `${slug}_Battle_CharacterVisual.tres`);
+    }
+    await generateCreature({ projectRoot: godotProjectRoot, inputs, profile });
+    if (manifestExists) {
+      await writeOverworldAnimMeta({ projectRoot: godotProjectRoot, inputs, ulpcManifestPath: manifestPath, profile });
+      resources.animMeta = engineResPath(profile, "characterDefault", vars, `${slug}_Overworld_AnimMeta.json`);
+    }
+  }
+
+  console.info?.("[godot.export] writing_local_resources", { slug, charDir });
+  await writeLocalCreatureResources({ charDir, inputs, profile });
+
+  // Standard SpriteFrames for AnimatedSprite2D; paths assume the character folder is mirrored
+  // to the profile's characterDefault folder (as the CharacterVisual resources do)
+  let spriteFrames: string | undefined;
+  if (manifestExists) {
+    const resRoot = engineResPath(profile, "characterDefault", vars);
+    const atlas = opts.atlas ? await prepareAtlas(slug, manifestPath, resRoot, opts, ctx) : undefined;
+    if (atlas) resources.spriteAtlas = atlas.resRoot;
+    spriteFrames = await writeSpriteFramesTres({ manifestPath, resRoot, outDir: charDir, atlas });
+    resources.spriteFrames = `${resRoot}/${slug}_SpriteFrames.tres`;
+    if (godotProjectRoot) {
+      await writeSpriteFramesTres({ manifestPath, resRoot, outDir: join(godotProjectRoot, enginePath(profile, "characterDefault", vars)), atlas });
+    }
+  }
+
+  const entry: CharacterIndexEntry = {
+    id: slug,
+    name: inputs.name,
+    numericId: inputs.numericId,
+    classTag: inputs.classTag,
+    resources,
+    exportedAt: new Date().toISOString(),
+  };
+  return { entry, spriteFrames, manifestExists, manifestPath };
+}
+
+/**
+ * Atlas the SpriteFrames take their regions from. `atlas: true` packs the character's frames into
+ * <charDir>/atlas (mirrored like the sheets, under characterDefault/atlas); a name points at a shared
+ * atlas packed by POST /atlases, copied into the profile's spriteAtlas folder. A shared atlas is not
+ * repacked here: frames it does not list (or lists from an older compose) keep their sheet regions.
+ */
+async function prepareAtlas(slug: string, manifestPath: string, resRoot: string, opts: ExportOptions, ctx: ExportContext) {
+  const { profile, godotProjectRoot } = ctx;
+  if (typeof opts.atlas === "string") {
+    const name = opts.atlas;
+    const dir = atlasDir(name);
+    const descriptorPath = join(dir, `${name}.atlas.json`);
+    const descriptor = await fs.readFile(descriptorPath, "utf8").then(JSON.parse, () => null);
+    if (!descriptor) throw httpError(404, "atlas_not_found", { atlas: name });
+    if (godotProjectRoot) {
+      const projectDir = join(godotProjectRoot, enginePath(profile, "spriteAtlas", { id: name }));
+      await fs.mkdir(projectDir, { recursive: true });
+      for (const page of descriptor.pages ?? []) await fs.copyFile(join(dir, page.file), join(projectDir, page.file));
+    }
+    return { descriptorPath, resRoot: engineResPath(profile, "spriteAtlas", { id: name }) };
+  }
+  const { sprites, sequences } = await ulpcManifestSprites(manifestPath);
+  const packed = await packAtlas({ name: `${slug}_atlas`, sprites, sequences, settings: opts.atlasSettings });
+  const descriptorPath = await writeAtlas(join(ASSET_ROOT, slug, "atlas"), packed);
+  return { descriptorPath, resRoot: `${resRoot}/atlas` };
+}
+
+// Rejects a bad `atlas` / `atlasSettings` before any character is exported
+function checkAtlasOptions(body: any): void {
+  if (body.atlas === undefined || body.atlas === false) return;
+  if (body.atlas !== true && (typeof body.atlas !== "string" || !SLUG.test(body.atlas))) {
+    throw httpError(400, "invalid_atlas", { atlas: body.atlas });
+  }
+  resolveAtlasSettings(body.atlasSettings);
+}
+
+// Merge exported entries into the registry kept next to the characters, mirrored into the project.
+// `existing` (all current character slugs) drops entries of characters deleted since their export.
+async function updateCharactersIndex(entries: CharacterIndexEntry[], ctx: ExportContext, existing?: string[]) {
+  const index = mergeCharactersIndex(await readCharactersIndex(ASSET_ROOT), entries);
+  if (existing) index.characters = index.characters.filter((c) => existing.includes(c.id));
+  const local = await writeCharactersIndex(ASSET_ROOT, index);
+  const project = ctx.godotProjectRoot
+    ? await writeCharactersIndex(join(ctx.godotProjectRoot, enginePath(ctx.profile, "charactersIndex", {})), index)
+    : null;
+  return { local, project, count: index.characters.length };
+}
+
+function sendExportError(res: Response, err: any) {
+  const message = String(err?.message ?? err);
+  const code = err?.statusCode ?? (/^(invalid_(engine_profile|stat_schema|stat_value|expression|atlas_settings)|atlas:sprite_too_large):/.test(message) ? 400 : 500);
+  return res.status(code).json({ ok: false, message, ...err?.extra });
+}
+
 /**
  * POST /api/characters/:slug/export-godot
  * Body: {
- *   name: string;
- *   classTag: string;
- *   numericId: number;
- *   stats: { creature_affinity, chaos_mastery, kinesthetic, lucidity, terrain_control };
+ *   name?: string;                   // else the characters index entry, then identity.char_name
+ *   classTag?: string;               // else the characters index entry, then "Shaper"
+ *   numericId?: number;              // else the characters index entry, or the next free id
+ *   stats: Record<string, number>;   // keys from project settings `stat_schema`; missing ones use defaults
  *   defaultFpsBattle: number;
  *   defaultFpsOverworld: number;
  *   writeBattleVisual?: boolean;   // optional, default false
+ *   atlas?: boolean | string;       // SpriteFrames regions from a packed atlas: true packs this character, a name uses POST /atlases
+ *   atlasSettings?: { maxSize?, padding?, extrude?, trim?, pot? };   // with atlas: true
  * }
  */
 async function handleExport(req: Request, res: Response) {
   try {
     const slug: string = req.params.slug;
-    if (!slug || !/^[a-z0-9._-]+$/i.test(slug)) {
+    if (!slug || !SLUG.test(slug)) {
       return res.status(400).json({ ok: false, message: "Bad slug" });
     }
 
-    // Where ULPC exporter places artifacts for this slug
-    const charDir = join(ASSET_ROOT, slug);
-    // Common manifest filename used by our ULPC export
-    const manifestPath = join(charDir, `${slug}_sprite_manifest.json`);
-    let manifestExists = true;
-
-    try {
-      const ulpcBuild = await readUlpcBuild(slug);
-      await composeULPCExport({ build: ulpcBuild, outBaseDir: charDir, slug });
-    } catch (err: any) {
-      manifestExists = false;
-      console.warn?.("[godot.export] ulpc_refresh_failed", { slug, error: err?.message });
-    }
-
-    await fs.access(manifestPath).catch((err) => {
-      manifestExists = false;
-      console.warn?.("[godot.export] manifest_missing", { slug, manifestPath, err: err?.message });
-    });
-
     // Optional: read lite def if you want defaults/consistency
     const lite = await readLiteDef(slug).catch(() => ({}));
-
-    const inputs: CreatureInputs = {
-      id: slug,
-      name: String(req.body?.name ?? lite?.identity?.char_name ?? slug),
-      classTag: String(req.body?.classTag ?? "Shaper"),
-      numericId: Number(req.body?.numericId ?? Date.now()),
-      stats: {
-        creature_affinity: Number(req.body?.stats?.creature_affinity ?? 10),
-        chaos_mastery:     Number(req.body?.stats?.chaos_mastery     ?? 10),
-        kinesthetic:       Number(req.body?.stats?.kinesthetic       ?? 10),
-        lucidity:          Number(req.body?.stats?.lucidity          ?? 10),
-        terrain_control:   Number(req.body?.stats?.terrain_control   ?? 10)
-      },
-      level: 1,
-      xp_current: 0,
-      xp_to_next: 100,
-      xp_reward_on_defeat: 10,
-      defaultFpsBattle: Number(req.body?.defaultFpsBattle ?? 12),
-      defaultFpsOverworld: Number(req.body?.defaultFpsOverworld ?? 8)
+    const body = req.body ?? {};
+    checkAtlasOptions(body);
+    const ctx = await readExportContext();
+    const plan: PlannedExport = {
+      slug,
+      lite,
+      numericId: null,
+      overrides: { name: body.name, classTag: body.classTag, numericId: body.numericId, stats: body.stats },
     };
+    assignNumericIds([plan], await readCharactersIndex(ASSET_ROOT));
 
-    let godotProjectRoot: string | null = null;
-    try {
-      godotProjectRoot = await discoverGodotProjectRoot();
-    } catch {
-      godotProjectRoot = null;
-    }
-
-    if (godotProjectRoot) {
-      console.info?.("[godot.export] writing_project_resources", { slug, godotProjectRoot });
-      await generateOverworldVisual({ projectRoot: godotProjectRoot, inputs });
-      if (req.body?.writeBattleVisual === true) {
-        await generateBattleVisual({ projectRoot: godotProjectRoot, inputs });
-      }
-      await generateCreature({ projectRoot: godotProjectRoot, inputs });
-      if (manifestExists) {
-        await writeOverworldAnimMeta({ projectRoot: godotProjectRoot, inputs, ulpcManifestPath: manifestPath });
-      }
-    }
-
-    console.info?.("[godot.export] writing_local_resources", { slug, charDir });
-    await writeLocalCreatureResources({ charDir, inputs });
+    const { entry, spriteFrames, manifestExists, manifestPath } = await exportCharacter(plan, body, ctx);
+    await updateCharactersIndex([entry], ctx);
 
     if (!manifestExists) {
       return res.status(207).json({
         ok: true,
         partial: true,
+        numericId: entry.numericId,
         message: `Export completed locally, but ULPC manifest not found at ${manifestPath}. AnimMeta was skipped.`,
       });
     }
 
-    return res.json({ ok: true });
+    return res.json({ ok: true, numericId: entry.numericId, spriteFrames });
+  } catch (err: any) {
+    return sendExportError(res, err);
+  }
+}
+
+/**
+ * POST /api/characters/export-godot
+ * Exports every character (or `slugs`) one after another and rewrites characters_index.json/.tres.
+ * Body: { slugs?: string[]; writeBattleVisual?: boolean; defaultFpsBattle?: number; defaultFpsOverworld?: number;
+ *         atlas?: boolean | string; atlasSettings?: {...} }   // as for the single export
+ * numericId collisions are rejected (409) before anything is written; per-character failures are
+ * reported in `results` (207 when any failed).
+ */
+async function handleBatchExport(req: Request, res: Response) {
+  try {
+    const body = req.body ?? {};
+    if (body.slugs !== undefined && (!Array.isArray(body.slugs) || body.slugs.some((s: unknown) => typeof s !== "string" || !SLUG.test(s)))) {
+      return res.status(400).json({ ok: false, message: "Bad slug", error: "bad_slugs" });
+    }
+    checkAtlasOptions(body);
+    const slugs: string[] = body.slugs ? Array.from(new Set<string>(body.slugs)) : await listCharacterSlugs();
+    if (!slugs.length) return res.status(400).json({ ok: false, message: "No characters to export", error: "no_characters" });
+
+    const ctx = await readExportContext();
+    const results: Array<{ slug: string; ok: boolean; numericId?: number; partial?: boolean; error?: string; errors?: string[] }> = [];
+    const planned: PlannedExport[] = [];
+    for (const slug of slugs) {
+      const lite = await readLiteDef(slug).catch(() => null);
+      if (!lite) results.push({ slug, ok: false, error: "character_not_found" });
+      else planned.push({ slug, lite, numericId: null, overrides: {} });
+    }
+    const index = await readCharactersIndex(ASSET_ROOT);
+    // a full export also forgets ids held by characters deleted since they were indexed
+    if (!body.slugs) index.characters = index.characters.filter((c) => slugs.includes(c.id));
+    assignNumericIds(planned, index);
+
+    const entries: CharacterIndexEntry[] = [];
+    for (const plan of planned) {
+      try {
+        const { entry, manifestExists } = await exportCharacter(plan, body, ctx);
+        entries.push(entry);
+        results.push({ slug: plan.slug, ok: true, numericId: entry.numericId, partial: !manifestExists || undefined });
+      } catch (err: any) {
+        console.warn?.("[godot.export] batch_character_failed", { slug: plan.slug, error: err?.message });
+        results.push({ slug: plan.slug, ok: false, numericId: plan.numericId ?? undefined, error: String(err?.message ?? err), errors: err?.extra?.errors });
+      }
+    }
+    results.sort((a, b) => slugs.indexOf(a.slug) - slugs.indexOf(b.slug));
+
+    const written = await updateCharactersIndex(entries, ctx, body.slugs ? undefined : slugs);
+    const failed = results.filter((r) => !r.ok).length;
+    return res.status(failed ? 207 : 200).json({ ok: true, exported: entries.length, failed, results, index: written });
+  } catch (err: any) {
+    return sendExportError(res, err);
+  }
+}
+
+/**
+ * POST /api/atlases
+ * Packs the sliced ULPC frames of `slugs` (default: every character) into one texture atlas under
+ * ATLAS_ROOT/<name>, for exports with `atlas: "<name>"`.
+ * Body: { name: string; slugs?: string[]; settings?: { maxSize?, padding?, extrude?, trim?, pot? } }
+ * Characters without a composed manifest are listed in `missing`; sprites are keyed "<slug>/<folder>/<index>".
+ */
+async function handlePackAtlas(req: Request, res: Response) {
+  try {
+    const body = req.body ?? {};
+    if (typeof body.name !== "string" || !SLUG.test(body.name)) {
+      return res.status(400).json({ ok: false, message: "Bad atlas name", error: "invalid_atlas" });
+    }
+    if (body.slugs !== undefined && (!Array.isArray(body.slugs) || body.slugs.some((s: unknown) => typeof s !== "string" || !SLUG.test(s)))) {
+      return res.status(400).json({ ok: false, message: "Bad slug", error: "bad_slugs" });
+    }
+    const settings = resolveAtlasSettings(body.settings);
+    const slugs: string[] = body.slugs ? Array.from(new Set<string>(body.slugs)) : await listCharacterSlugs();
+
+    const sprites: AtlasSpriteInput[] = [];
+    const sequences: Record<string, AtlasSequence> = {};
+    const missing: string[] = [];
+    for (const slug of slugs) {
+      const found = await ulpcManifestSprites(join(ASSET_ROOT, slug, `${slug}_sprite_manifest.json`)).catch(() => null);
+      if (!found) { missing.push(slug); continue; }
+      sprites.push(...found.sprites);
+      Object.assign(sequences, found.sequences);
+    }
+    if (!sprites.length) return res.status(400).json({ ok: false, message: "No composed frames to pack", error: "no_frames", missing });
+
+    const packed = await packAtlas({ name: body.name, sprites, sequences, settings });
+    const descriptor = await writeAtlas(atlasDir(body.name), packed);
+    return res.json({ ok: true, descriptor, pages: packed.descriptor.pages, sprites: sprites.length, missing });
   } catch (err: any) {
-    const code = err?.statusCode ?? 500;
-    return res.status(code).json({ ok: false, message: String(err?.message ?? err) });
+    return sendExportError(res, err);
   }
 }
 
+godotRouter.post("/atlases", handlePackAtlas);
+godotRouter.post("/api/atlases", handlePackAtlas);
+godotRouter.post("/characters/export-godot", handleBatchExport);
+godotRouter.post("/api/characters/export-godot", handleBatchExport);
 godotRouter.post("/characters/:slug/export-godot", handleExport);
 godotRouter.post("/api/characters/:slug/export-godot", handleExport);
@@ -226,7 +226,7 @@ intake.get("/characters/:slug/files/:name", async (req: Request, res: Response)
     const filePath = join(root, slug, name);
 
     // allow only images/json (dev friendly)
-    if (!/\.(png|webp|json)$/i.test(name)) return res.status(403).end("Forbidden");
+    if (!/\.(png|apng|gif|webp|json)$/i.test(name)) return res.status(403).end("Forbidden");
 
     // existence check
     await fs.access(filePath).catch(() => {
@@ -255,7 +255,7 @@ intake.get("/characters/:slug/files/*", async (req: Request, res: Response) => {
     const filePath = join(root, slug, ...segments);
 
     const leaf = segments[segments.length - 1];
-    if (!/\.(png|webp|json)$/i.test(leaf)) return res.status(403).end("Forbidden");
+    if (!/\.(png|apng|gif|webp|json)$/i.test(leaf)) return res.status(403).end("Forbidden");
 
     await fs.access(filePath).catch(() => {
       throw Object.assign(new Error("Not found"), { status: 404 });
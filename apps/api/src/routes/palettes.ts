@@ -0,0 +1,117 @@
+// apps/api/src/routes/palettes.ts
+import { Router, type Request, type Response } from "express";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import multer from "multer";
+import { PALETTE_ROOT } from "@pixelart/config";
+import { createLogger } from "@pixelart/log";
+import {
+  listPalettes, getPalette, hasPalette, isBuiltinPalette, loadUserPalettes, saveUserPalette, deleteUserPalette,
+  detectPaletteFormat, parsePalette, rgbToHex, type Palette,
+} from "@pixelart/tileset-compose";
+
+const log = createLogger("@api/palettes");
+
+export const palettes: import("express").Router = Router();
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 256 * 1024 } });
+
+// Re-read the palette directory so files added/removed on disk are visible (also used by tilesets/scenes)
+export async function refreshPalettes(): Promise<void> {
+  try {
+    await loadUserPalettes(PALETTE_ROOT);
+  } catch (e) {
+    log.warn({ err: (e as any)?.message }, "load_user_palettes_failed");
+  }
+}
+
+const toJson = (p: Palette) => ({ id: p.id, name: p.name, builtin: !!p.builtin, source: p.source, colors: p.colors.map(rgbToHex) });
+
+const paletteId = (s: string) =>
+  s.toLowerCase().trim().replace(/[^a-z0-9_-]+/g, "_").replace(/^[_-]+|[_-]+$/g, "").slice(0, 64);
+
+/**
+ * Project settings saved before palettes were ids carry `palette_path`, a .gpl/.hex/.pal file under
+ * assets/. Imports that file as a user palette (id from its file name, unless already registered) and
+ * returns the settings with `palette` set and `palette_path` dropped; null when there is nothing to
+ * migrate. A missing or unparsable file leaves `palette` unset, so the default palette applies.
+ */
+export async function migratePalettePath(settings: Record<string, any>, assetsRoot: string): Promise<Record<string, any> | null> {
+  if (!("palette_path" in settings)) return null;
+  const { palette_path: legacy, ...next } = settings;
+  if (typeof next.palette === "string" || typeof legacy !== "string" || !legacy.trim()) return next;
+  const file = path.resolve(assetsRoot, legacy.replace(/^\/+/, ""));
+  if (path.relative(assetsRoot, file).startsWith("..")) return next;
+  try {
+    await refreshPalettes();
+    const id = paletteId(path.parse(file).name);
+    if (id && !hasPalette(id)) {
+      const content = await fs.readFile(file, "utf8");
+      const format = detectPaletteFormat(content, file);
+      if (!format) throw new Error("unsupported_palette_format");
+      const parsed = parsePalette(content, format);
+      await saveUserPalette(PALETTE_ROOT, { id, name: parsed.name || id, colors: parsed.colors, source: format });
+    }
+    if (id) next.palette = id;
+    log.info({ palette_path: legacy, palette: id }, "palette_path_migrated");
+  } catch (e) {
+    log.warn({ palette_path: legacy, err: (e as any)?.message }, "palette_path_migration_failed");
+  }
+  return next;
+}
+
+// GET /palettes
+palettes.get("/palettes", async (_req: Request, res: Response) => {
+  await refreshPalettes();
+  return res.json({ ok: true, palettes: listPalettes().map(toJson) });
+});
+
+// GET /palettes/:id
+palettes.get("/palettes/:id", async (req: Request, res: Response) => {
+  await refreshPalettes();
+  const p = getPalette((req.params as { id: string }).id);
+  if (!p) return res.status(404).json({ ok: false, error: "palette_not_found" });
+  return res.json({ ok: true, palette: toJson(p) });
+});
+
+// POST /palettes/import
+// multipart: file=<.gpl|.hex|.pal>, id?, name?   — or JSON: { content, format?: "gpl"|"hex"|"pal", fileName?, id?, name? }
+// The format comes from `format`, else the file extension, else the content header.
+palettes.post("/palettes/import", upload.single("file"), async (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as { content?: string; format?: string; fileName?: string; id?: string; name?: string };
+    const file = (req as any).file as { originalname: string; buffer: Buffer } | undefined;
+    const content = file ? file.buffer.toString("utf8") : body.content;
+    const fileName = file?.originalname ?? body.fileName;
+    if (typeof content !== "string" || !content.trim()) return res.status(400).json({ ok: false, error: "content_required" });
+
+    const format = ["gpl", "hex", "pal"].includes(String(body.format)) ? (body.format as "gpl" | "hex" | "pal") : detectPaletteFormat(content, fileName);
+    if (!format) return res.status(400).json({ ok: false, error: "unsupported_palette_format" });
+
+    const parsed = parsePalette(content, format);
+    const name = (body.name || parsed.name || (fileName ? path.parse(fileName).name : "") || "").trim();
+    const id = paletteId(body.id || name);
+    if (!id) return res.status(400).json({ ok: false, error: "invalid_palette", reason: "invalid_id" });
+    if (isBuiltinPalette(id)) return res.status(409).json({ ok: false, error: "builtin_palette_immutable" });
+
+    const palette = await saveUserPalette(PALETTE_ROOT, { id, name: name || id, colors: parsed.colors, source: format });
+    log.info({ id, format, colors: palette.colors.length }, "palette_imported");
+    return res.json({ ok: true, palette: toJson(palette) });
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (msg.startsWith("invalid_palette:")) {
+      return res.status(400).json({ ok: false, error: "invalid_palette", reason: msg.slice("invalid_palette:".length) });
+    }
+    log.error({ err: msg }, "palette_import_failed");
+    return res.status(500).json({ ok: false, error: "internal_error" });
+  }
+});
+
+// DELETE /palettes/:id  (user palettes only)
+palettes.delete("/palettes/:id", async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  if (isBuiltinPalette(id)) return res.status(409).json({ ok: false, error: "builtin_palette_immutable" });
+  const removed = await deleteUserPalette(PALETTE_ROOT, id);
+  if (!removed) return res.status(404).json({ ok: false, error: "palette_not_found" });
+  return res.json({ ok: true, id });
+});
@@ -2,6 +2,12 @@ import { Router, type Request, type Response } from "express";
 import { promises as fs } from "node:fs";
 import { resolve, join } from "node:path";
 import { readProjectSettings as cfgRead, writeProjectSettings as cfgWrite } from "@pixelart/config";
+import {
+  DEFAULT_ENGINE_PROFILE, DEFAULT_STAT_SCHEMA, validateEngineProfile, validateStatSchema,
+  resolveStatSchema, readStatValues, computeDerivedStats,
+} from "@pixelart/godot-res";
+import { LLM_PROVIDERS, MAX_REPAIR_ATTEMPTS } from "@pixelart/assistants";
+import { migratePalettePath } from "./palettes.js";
 
 export const project: import("express").Router = Router();
 
@@ -29,7 +35,7 @@ const DEFAULT_SETTINGS = {
     idle: { width: 64, height: 64 },
     animation_frame: { width: 64, height: 64 },
   },
-  palette_path: "", // optional path under /assets (leave empty if N/A)
+  palette: "roman_steampunk", // default palette id (see /palettes); tilesets/scenes may override
   // Prompt defaults (Tileset v2)
   promptDefaults: {
     style: "",
@@ -57,21 +63,31 @@ const DEFAULT_SETTINGS = {
   },
   // LLM settings (for chats and intermediary conversions)
   llm: {
-    provider: "openai", // future: "anthropic", "azure-openai", etc.
+    provider: "openai", // openai (Assistants) | openai-chat | openai-responses | local | fake
     chatModel: "gpt-4o-mini",
     chatAssistantId: "",
     intermediaryAssistantId: "",
+    repairAttempts: 2, // retries of schema-invalid replies, each fed the validation errors
   },
+  // Godot project layout and script paths used by the .tres exporters (partial profiles overlay the defaults)
+  engine_profile: DEFAULT_ENGINE_PROFILE,
+  // Creature base stats (ranges, defaults) and derived-stat formulas written by the Godot export
+  stat_schema: DEFAULT_STAT_SCHEMA,
 };
 
 async function readSettings() {
   // Prefer @pixelart/config file; fall back to deprecated file if present; else defaults
   const cfg = await cfgRead().catch(() => ({}));
-  if (cfg && Object.keys(cfg).length > 0) return { ...DEFAULT_SETTINGS, ...cfg };
+  if (cfg && Object.keys(cfg).length > 0) {
+    // palette_path (a file) became palette (an id); rewrite the file once so every reader sees the id
+    const migrated = await migratePalettePath(cfg, assetsRoot());
+    if (migrated) await cfgWrite(migrated).catch(() => {});
+    return { ...DEFAULT_SETTINGS, ...(migrated ?? cfg) };
+  }
   try {
     const raw = await fs.readFile(projectSettingsPath(), "utf8");
     const legacy = JSON.parse(raw);
-    return { ...DEFAULT_SETTINGS, ...legacy };
+    return { ...DEFAULT_SETTINGS, ...((await migratePalettePath(legacy, assetsRoot())) ?? legacy) };
   } catch {
     return DEFAULT_SETTINGS;
   }
@@ -130,12 +146,27 @@ function validateSettings(s: any) {
     const llm = s.llm;
     if (!llm || typeof llm !== "object") return "llm must be an object";
     if (llm.apiKey != null && typeof llm.apiKey !== "string") return "llm.apiKey must be a string";
-    const providers = new Set(["openai"]);
+    const providers = new Set<string>(LLM_PROVIDERS);
     if (llm.provider && !providers.has(llm.provider)) return "llm.provider invalid";
     if (llm.chatModel && typeof llm.chatModel !== "string") return "llm.chatModel invalid";
+    if (llm.baseUrl && (typeof llm.baseUrl !== "string" || !/^https?:\/\//.test(llm.baseUrl))) return "llm.baseUrl must be an http(s) URL";
+    if (llm.script != null && !Array.isArray(llm.script)) return "llm.script must be an array";
+    if (llm.repairAttempts != null && (!Number.isInteger(llm.repairAttempts) || llm.repairAttempts < 0 || llm.repairAttempts > MAX_REPAIR_ATTEMPTS)) {
+      return `llm.repairAttempts must be an integer 0–${MAX_REPAIR_ATTEMPTS}`;
+    }
     if (llm.chatAssistantId && typeof llm.chatAssistantId !== "string") return "llm.chatAssistantId invalid";
     if (llm.intermediaryAssistantId && typeof llm.intermediaryAssistantId !== "string") return "llm.intermediaryAssistantId invalid";
   }
+  // Optional engine profile
+  if ("engine_profile" in s) {
+    const errors = validateEngineProfile(s.engine_profile);
+    if (errors.length) return `engine_profile: ${errors[0]}`;
+  }
+  // Optional stat schema
+  if ("stat_schema" in s) {
+    const errors = validateStatSchema(s.stat_schema);
+    if (errors.length) return `stat_schema: ${errors[0]}`;
+  }
   return null;
 }
 
@@ -161,3 +192,21 @@ project.put("/project/settings", async (req: Request, res: Response) => {
     return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
   }
 });
+
+// POST /project/stat-schema/preview → derived stats for sample values
+// body: { stat_schema?: StatSchema (defaults to the saved one); stats?: Record<string, number> }
+project.post("/project/stat-schema/preview", async (req: Request, res: Response) => {
+  try {
+    const input = req.body?.stat_schema ?? (await readSettings() as any).stat_schema;
+    const errors = validateStatSchema(input);
+    if (errors.length) return res.status(400).json({ ok: false, error: "invalid_stat_schema", errors });
+    const schema = resolveStatSchema(input);
+    const { stats, errors: statErrors } = readStatValues(schema, req.body?.stats);
+    if (statErrors.length) return res.status(400).json({ ok: false, error: "invalid_stats", errors: statErrors });
+    return res.json({ ok: true, stats, derived: computeDerivedStats(schema, stats) });
+  } catch (e: any) {
+    const message = String(e?.message ?? e);
+    if (message.startsWith("invalid_stat_value:")) return res.status(400).json({ ok: false, error: "invalid_stat_value", errors: [message] });
+    return res.status(500).json({ ok: false, error: message });
+  }
+});
@@ -6,6 +6,11 @@ import sharp from "sharp";
 import { createLogger } from "@pixelart/log";
 import { generateImage, type OpenAIImageSize } from "@pixelart/adapters";
 import { ensureDir, readProjectSettings, sceneAssetsDir } from "@pixelart/config";
+import {
+  getPalette, quantizeToPalette, rgbToHex, resolveQuantizeOptions, COLOR_DISTANCES, DITHER_MODES,
+  type ColorDistance, type DitherMode,
+} from "@pixelart/tileset-compose";
+import { refreshPalettes } from "./palettes.js";
 
 const log = createLogger("@api/scenes");
 
@@ -33,10 +38,12 @@ function composeScenePrompt({
   aesthetics,
   promptDefaults,
   description,
+  palette,
 }: {
   aesthetics?: string;
   promptDefaults?: { style?: string; units?: string; alpha?: string; output?: string };
   description: string;
+  palette?: string[];
 }): string {
   const parts: string[] = [];
   const oneline = (x?: string) => String(x ?? "").replace(/\s+/g, " ").trim();
@@ -44,6 +51,7 @@ function composeScenePrompt({
   push("STYLE", promptDefaults?.style);
   push("AESTHETICS", aesthetics);
   push("UNITS", promptDefaults?.units);
+  if (palette?.length) push("PALETTE", palette.join(" "));
   push("ALPHA", promptDefaults?.alpha || "Canvas must have an alpha channel. No halos; crisp pixels." );
   push("SCENE", oneline(description));
   push("OUTPUT", promptDefaults?.output || "Single PNG, top-down; no watermark; game-ready.");
@@ -52,19 +60,39 @@ function composeScenePrompt({
 }
 
 // POST /scene-assets/generate
-// body: { name: string; category?: string; description: string; size?: OpenAIImageSize }
+// body: { name: string; category?: string; description: string; size?: OpenAIImageSize; palette?: string;
+//         colorDistance?: ColorDistance; dither?: DitherMode; ditherStrength?: number }
+// With `palette` (a palette id) the colors go into the prompt and the image is quantized to them;
+// the quantization settings are written next to the PNG as <file>.meta.json.
 scenes.post("/scene-assets/generate", async (req: Request, res: Response) => {
   try {
-    const { name, category, description, size } = (req.body ?? {}) as {
+    const { name, category, description, size, palette: paletteId, colorDistance, dither, ditherStrength } = (req.body ?? {}) as {
       name?: string;
       category?: string;
       description?: string;
       size?: string;
+      palette?: string;
+      colorDistance?: ColorDistance;
+      dither?: DitherMode;
+      ditherStrength?: number;
     };
     if (!description || typeof description !== "string") return res.status(400).json({ ok: false, error: "description_required" });
     const safeName = sanitizeName(name || description.slice(0, 48));
     const safeCat = category ? sanitizeName(category) : undefined;
     if (safeCat && !SAFE_SEGMENT.test(safeCat)) return res.status(400).json({ ok: false, error: "bad_category" });
+    let palette: ReturnType<typeof getPalette>;
+    if (paletteId) {
+      await refreshPalettes();
+      palette = getPalette(paletteId);
+      if (!palette) return res.status(400).json({ ok: false, error: "unknown_palette", palette: paletteId });
+    }
+    if (colorDistance !== undefined && !COLOR_DISTANCES.includes(colorDistance)) {
+      return res.status(400).json({ ok: false, error: "invalid_color_distance", allowed: COLOR_DISTANCES });
+    }
+    if (dither !== undefined && !DITHER_MODES.includes(dither)) {
+      return res.status(400).json({ ok: false, error: "invalid_dither", allowed: DITHER_MODES });
+    }
+    const quantize = resolveQuantizeOptions({ distance: colorDistance, dither, ditherStrength });
 
     const proj = (await readProjectSettings()) as any;
     const imgCfg = proj?.images ?? {};
@@ -74,8 +102,8 @@ scenes.post("/scene-assets/generate", async (req: Request, res: Response) => {
     const defaultBg = (imgCfg.backgroundDefault as string) || "transparent";
     const sizeStr = mapSize(size);
 
-    const prompt = composeScenePrompt({ aesthetics: proj?.aesthetics, promptDefaults: proj?.promptDefaults, description });
-    log.info({ provider, model, sizeStr, quality, bg: defaultBg, safeName, safeCat }, "scene.generate.request");
+    const prompt = composeScenePrompt({ aesthetics: proj?.aesthetics, promptDefaults: proj?.promptDefaults, description, palette: palette?.colors.map(rgbToHex) });
+    log.info({ provider, model, sizeStr, quality, bg: defaultBg, safeName, safeCat, palette: palette?.id }, "scene.generate.request");
 
     const buf = await generateImage({
       provider: provider as any,
@@ -89,17 +117,25 @@ scenes.post("/scene-assets/generate", async (req: Request, res: Response) => {
     });
 
     // Ensure RGBA output (preserve alpha if present)
-    const png = await sharp(buf).png().toBuffer();
+    const raw = await sharp(buf).png().toBuffer();
+    const png = palette ? await quantizeToPalette(raw, palette.colors, quantize) : raw;
 
     const dir = sceneAssetsDir(safeCat);
     await ensureDir(dir);
     const outName = `${safeName || "scene"}_${Date.now()}.png`;
     const abs = join(dir, outName);
     await fs.writeFile(abs, png);
+    if (palette) {
+      const meta = { palette: palette.id, ...quantize, prompt, size: sizeStr, provider, model };
+      await fs.writeFile(`${abs}.meta.json`, JSON.stringify(meta, null, 2), "utf8");
+    }
 
     const relParts = safeCat ? [safeCat, outName] : [outName];
     const rel = relParts.join("/");
-    return res.json({ ok: true, file: rel, url: `/scene-assets/files/${relParts.map(encodeURIComponent).join("/")}` });
+    return res.json({
+      ok: true, file: rel, url: `/scene-assets/files/${relParts.map(encodeURIComponent).join("/")}`,
+      ...(palette ? { quantize: { palette: palette.id, ...quantize } } : {}),
+    });
   } catch (e: any) {
     log.error({ err: e }, "scene.generate.failed");
     return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
@@ -129,7 +165,7 @@ scenes.get("/scene-assets/list", async (req: Request, res: Response) => {
     const base = sceneAssetsDir(cat);
     await ensureDir(base);
     const entries = await fs.readdir(base, { withFileTypes: true }).catch(() => []);
-    const files = entries.filter(e => e.isFile() && /\.(png|webp|json)$/i.test(e.name)).map(e => (cat ? `${cat}/${e.name}` : e.name)).sort();
+    const files = entries.filter(e => e.isFile() && /\.(png|webp|json)$/i.test(e.name) && !/\.meta\.json$/i.test(e.name)).map(e => (cat ? `${cat}/${e.name}` : e.name)).sort();
     return res.json({ ok: true, files });
   } catch (e: any) {
     return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
@@ -9,10 +9,19 @@ import sharp from "sharp";
 import * as config from "@pixelart/config";
 import { createLogger } from "@pixelart/log";
 import { generateImage } from "@pixelart/adapters";
-import { listPatterns, hasPattern, PATTERNS } from "@pixelart/tileset-compose";
+import {
+  listPatterns, hasPattern, getPattern, isBuiltinPattern, patternHandler, loadUserPatterns, saveUserPattern, deleteUserPattern,
+  loadPatternPrompts, hasPalette, COLOR_DISTANCES, DITHER_MODES, tilesetAsepriteLayout, validateAnimation,
+} from "@pixelart/tileset-compose";
+import { renderAsepriteSheet, writeAsepriteSheet, importAsepriteSheet } from "@pixelart/sprite-compose";
 import multer from "multer";
-import { writeTileSetTres, deriveCoast16Rules } from "@pixelart/godot-res";
+import {
+  writeTileSetTres, expandVariantRules, expandAnimationRules,
+  applyRegionShapes, applyMaterialData, maskCoverageA, regionCoverageA, writeTileSetBundleTres,
+  resolveEngineProfile, enginePath, engineResPath, type EngineProfile,
+} from "@pixelart/godot-res";
 import { readProjectSettings } from "@pixelart/config";
+import { refreshPalettes } from "./palettes.js";
 
 const log = createLogger("@api/tilesets");
 
@@ -27,6 +36,18 @@ const TILESET_ROOT: string =
   process.env.TILESET_ROOT ??
   resolve(process.cwd(), "..", "..", "assets", "tilesets");
 
+// User-registered pattern definitions (<id>.json)
+const TILESET_PATTERN_ROOT: string =
+  (config as any).TILESET_PATTERN_ROOT ??
+  process.env.TILESET_PATTERN_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "tileset-patterns");
+
+// Tileset bundles (<id>/bundle.json + <id>/godot/)
+const TILESET_BUNDLE_ROOT: string =
+  (config as any).TILESET_BUNDLE_ROOT ??
+  process.env.TILESET_BUNDLE_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "tileset-bundles");
+
 const ensureDir: (p: string) => Promise<void> =
   (config as any).ensureDir ??
   (async (p: string) => {
@@ -61,30 +82,24 @@ async function writeMeta(slug: string, meta: any): Promise<void> {
   await fs.writeFile(fp, JSON.stringify(meta, null, 2));
 }
 
+// Re-read user patterns so files added/removed on disk (or by the worker host) are visible
+async function refreshPatterns(): Promise<void> {
+  try {
+    await loadUserPatterns(TILESET_PATTERN_ROOT);
+  } catch (e) {
+    log.warn({ err: (e as any)?.message }, "load_user_patterns_failed");
+  }
+}
+
 // Load a pattern-specific tile dictionary (material-aware when needed)
 async function loadPatternDict(
   pattern: string,
   material = "grass"
 ): Promise<null | { global_preamble?: string; tiles: { id: number; name: string; prompt: string }[] }> {
+  const def = getPattern(pattern);
+  if (!def) return null;
   try {
-    if (pattern === "blob47") {
-      const rel =
-        material === "mask"
-          ? "../../../../packages/tileset-compose/prompts/blob47_mask.json"
-          : "../../../../packages/tileset-compose/prompts/blob47_grass.json";
-      const fp = new URL(rel, import.meta.url).pathname;
-      const raw = await fs.readFile(fp, "utf8");
-      const json = JSON.parse(raw);
-      return { global_preamble: json.global_preamble, tiles: json.tiles ?? [] };
-    }
-    if (pattern === "coast16") {
-      const rel = "../../../../packages/tileset-compose/prompts/coast16_ab.json";
-      const fp = new URL(rel, import.meta.url).pathname;
-      const raw = await fs.readFile(fp, "utf8");
-      const json = JSON.parse(raw);
-      return { global_preamble: json.global_preamble, tiles: json.tiles ?? [] };
-    }
-    return null;
+    return await loadPatternPrompts(def, material === "mask" ? "mask" : undefined);
   } catch (e) {
     log.warn({ pattern, material, err: (e as any)?.message }, "loadPatternDict_failed");
     return null;
@@ -103,10 +118,41 @@ const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 25
 // PROD: Patterns registry
 // GET /tileset-patterns
 // ────────────────────────────────────────────────────────────────────────────
-tilesets.get("/tileset-patterns", (_req: Request, res: Response) => {
+tilesets.get("/tileset-patterns", async (_req: Request, res: Response) => {
+  await refreshPatterns();
   return res.json({ ok: true, patterns: listPatterns() });
 });
 
+// POST /tileset-patterns  (register or replace a user pattern)
+// body: { id, displayName, tileSize, grid, maskBits, tiles, prompts?, godot }
+tilesets.post("/tileset-patterns", async (req: Request, res: Response) => {
+  try {
+    const body = req.body ?? {};
+    if (typeof body.id === "string" && isBuiltinPattern(body.id)) {
+      return res.status(409).json({ ok: false, error: "builtin_pattern_immutable" });
+    }
+    const pattern = await saveUserPattern(TILESET_PATTERN_ROOT, body);
+    log.info({ id: pattern.id, slots: pattern.slots }, "tileset_pattern_saved");
+    return res.json({ ok: true, pattern });
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (msg.startsWith("invalid_pattern:")) {
+      return res.status(400).json({ ok: false, error: "invalid_pattern", reason: msg.slice("invalid_pattern:".length) });
+    }
+    log.error({ err: msg }, "tileset_pattern_save_failed");
+    return res.status(500).json({ ok: false, error: "internal_error" });
+  }
+});
+
+// DELETE /tileset-patterns/:id  (user patterns only)
+tilesets.delete("/tileset-patterns/:id", async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  if (isBuiltinPattern(id)) return res.status(409).json({ ok: false, error: "builtin_pattern_immutable" });
+  const removed = await deleteUserPattern(TILESET_PATTERN_ROOT, id);
+  if (!removed) return res.status(404).json({ ok: false, error: "pattern_not_found" });
+  return res.json({ ok: true, id });
+});
+
 // ────────────────────────────────────────────────────────────────────────────
 // PROD: List tilesets
 // GET /tilesets
@@ -121,8 +167,148 @@ tilesets.get("/tilesets", async (_req: Request, res: Response) => {
   }
 });
 
+// Godot project that exports are mirrored into: GODOT_PROJECT_ROOT, else project settings
+async function discoverGodotProjectRoot(): Promise<string | null> {
+  const env = typeof process.env.GODOT_PROJECT_ROOT === "string" ? process.env.GODOT_PROJECT_ROOT : null;
+  if (env && env.trim().length) return env;
+  const settings = await readProjectSettings().catch(() => ({}));
+  const fromSettings = (settings as any)?.godot_project_root;
+  if (typeof fromSettings === "string" && fromSettings.trim().length > 0) return fromSettings;
+  return null;
+}
+
+// Project layout exports target (project settings `engine_profile`); throws invalid_engine_profile:<reason>
+async function readEngineProfile(): Promise<EngineProfile> {
+  const settings = await readProjectSettings().catch(() => ({}));
+  return resolveEngineProfile((settings as any)?.engine_profile);
+}
+
+function engineProfileError(res: Response, e: any) {
+  const reason = String(e?.message ?? e).replace(/^invalid_engine_profile:/, "");
+  return res.status(400).json({ ok: false, error: "invalid_engine_profile", reason });
+}
+
+// Resolve what a tileset exports to Godot: its sheet plus rules from godot_rules.json or derived
+// from the manifest (terrain bits, traced shapes, custom data, variant and animation blocks)
+type TilesetExport = {
+  ok: true;
+  baseDir: string;
+  meta: any;
+  pattern: string;
+  manifest: any | null;
+  sheetName: string;
+  grid: { cols: number; rows: number; tile?: number };
+  tileSize: number;
+  rules: any;
+  rulesSource: "file" | "derived";
+  navigationVehicles: string[];
+};
+
+async function resolveTilesetExport(slug: string, debug = false): Promise<TilesetExport | { ok: false; status: number; error: string; pattern?: string }> {
+  const baseDir = tilesetDir(slug);
+  await ensureDir(baseDir);
+  const meta = await readMeta(slug);
+  const pattern: string = meta?.pattern ?? "coast16";
+  await refreshPatterns();
+  const def = getPattern(pattern);
+  if (!def) {
+    return { ok: false, status: 501, error: "export_pattern_not_supported", pattern };
+  }
+
+  // 1) Discover manifest and stitched sheet (<pattern>_manifest.json or <material>_<pattern>_manifest.json)
+  const manifestCandidates = (await fs.readdir(baseDir).catch(() => [] as string[]))
+    .filter((n) => n.toLowerCase() === `${pattern}_manifest.json`.toLowerCase() || n.toLowerCase().endsWith(`_${pattern}_manifest.json`.toLowerCase()))
+    .sort((a, b) => a.length - b.length)
+    .map((n) => join(baseDir, n));
+  let manifest: any | null = null;
+  for (const fp of manifestCandidates) {
+    try { const txt = await fs.readFile(fp, "utf8"); manifest = JSON.parse(txt); break; } catch {}
+  }
+  // Fallback: try to read any *manifest*.json and filter engine_order
+  if (!manifest) {
+    try {
+      const names = await fs.readdir(baseDir).catch(() => []);
+      const manifestName = names.find((n) => /manifest\.json$/i.test(n));
+      if (manifestName) {
+        const txt = await fs.readFile(join(baseDir, manifestName), "utf8");
+        const j = JSON.parse(txt);
+        if (j?.engine_order === pattern) manifest = j;
+      }
+    } catch {}
+  }
+
+  // Sheet file
+  let sheetName: string | null = null;
+  if (manifest?.sheet?.file && typeof manifest.sheet.file === "string") sheetName = manifest.sheet.file;
+  if (!sheetName) {
+    const names = await fs.readdir(baseDir).catch(() => []);
+    // pattern ids are validated to [a-z0-9_-], safe to embed
+    const sheetRe = new RegExp(`(^|_)${pattern}_\\d+\\.png$`, "i");
+    sheetName = names.find((n) => sheetRe.test(n)) || null;
+  }
+  if (!sheetName) {
+    if (debug) log.warn({ slug, baseDir }, "export_godot_sheet_not_found");
+    return { ok: false, status: 404, error: "sheet_not_found" };
+  }
+
+  const grid = manifest?.grid ?? { ...def.grid, tile: def.tileSize };
+  const tileSize = Number(grid?.tile ?? 32) || 32;
+
+  // 2) Build rules (file or derive)
+  const rulesPath = join(baseDir, "godot_rules.json");
+  let rules: any | null = null;
+  try { const txt = await fs.readFile(rulesPath, "utf8"); rules = JSON.parse(txt); } catch {}
+
+  let rulesSource: "file" | "derived" = "file";
+  let navigationVehicles: string[] = [];
+  if (!rules) {
+    // Derive from manifest tiles (id, name); sheets stitched tile-by-tile have no manifest,
+    // so their slots follow the pattern's slot order instead.
+    const specs: any[] = Array.isArray(manifest?.tiles) ? manifest.tiles : def.tiles;
+    const tilesByIndex = [...specs]
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+      .slice(0, grid.cols * grid.rows)
+      .map((t) => ({ id: Number(t.id ?? 0), name: String(t.name ?? ""), regions: t.regions }));
+    const materialsAB = meta?.materials_ab ?? undefined;
+    const gridCR = { cols: grid.cols, rows: grid.rows };
+    const byName = new Map(def.tiles.map((t) => [t.name, t]));
+    rules = patternHandler(def).deriveRules(def, { name: slug, tileSize, grid: gridCR, tilesByIndex, materialsAB });
+    // Procedural sheets carry traced A/B outlines: collision + one navigation layer per vehicle
+    const traced = tilesByIndex.flatMap((t, i) => t.regions && Array.isArray(t.regions.A) && Array.isArray(t.regions.B)
+      ? [{ coord: [i % grid.cols, Math.floor(i / grid.cols)] as [number, number], A: t.regions.A, B: t.regions.B }]
+      : []);
+    if (traced.length) {
+      const shaped = applyRegionShapes(rules, traced, {
+        tileSize,
+        collision: manifest?.procedural?.settings?.collision,
+        materialsAB: materialsAB ?? manifest?.materialsAB,
+      });
+      rules = shaped.rules;
+      navigationVehicles = shaped.vehicles;
+    }
+    // material / traversable_by custom data: traced coverage when present, else the slot mask
+    const coverage = tilesByIndex.map((t, i) => ({
+      coord: [i % grid.cols, Math.floor(i / grid.cols)] as [number, number],
+      a: t.regions && Array.isArray(t.regions.A) && Array.isArray(t.regions.B)
+        ? regionCoverageA(t.regions, tileSize)
+        : maskCoverageA((byName.get(t.name) ?? def.tiles[i])?.mask ?? [], def.maskBits, def.godot.center),
+    }));
+    rules = applyMaterialData(rules, coverage, { materialsAB: materialsAB ?? manifest?.materialsAB });
+    // Alternates sit in blocks below the base grid; copy rules there with their weights
+    const weights: number[] = Array.isArray(manifest?.variants?.weights) ? manifest.variants.weights.map(Number) : [];
+    if (weights.length > 1) rules = expandVariantRules(rules, gridCR, weights);
+    // Animation frames sit in column blocks to the right of every row (base and alternates)
+    // (skipped when the manifest's durations are not all positive numbers, e.g. hand-edited)
+    const durations: number[] = Array.isArray(manifest?.animation?.durations) ? manifest.animation.durations.map(Number) : [];
+    if (durations.length > 1 && durations.every((d) => Number.isFinite(d) && d > 0)) rules = expandAnimationRules(rules, gridCR, durations);
+    rulesSource = "derived";
+  }
+
+  return { ok: true, baseDir, meta, pattern, manifest, sheetName, grid, tileSize, rules, rulesSource, navigationVehicles };
+}
+
 // ────────────────────────────────────────────────────────────────────────────
-// PROD: Export tileset to Godot 4 TileSet resource (v1: coast16 only, meta sidecar)
+// PROD: Export tileset to Godot 4 TileSet resource (any registered pattern, meta sidecar)
 // POST /tilesets/:slug/export-godot
 // body: {}
 // ────────────────────────────────────────────────────────────────────────────
@@ -132,65 +318,12 @@ tilesets.post("/tilesets/:slug/export-godot", async (req: Request, res: Response
     if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
     const debug = String((req.query as any)?.debug ?? "").trim() === "1" || (req.body?.debug === true);
 
-    const baseDir = tilesetDir(slug);
-    await ensureDir(baseDir);
-    const meta = await readMeta(slug);
-    const pattern = meta?.pattern ?? "coast16";
-    if (pattern !== "coast16") {
-      return res.status(501).json({ ok: false, error: "export_only_supports_coast16_v1" });
-    }
-
-    // 1) Discover manifest and stitched sheet
-    const manifestCandidates = [join(baseDir, "coast16_manifest.json")];
-    let manifest: any | null = null;
-    for (const fp of manifestCandidates) {
-      try { const txt = await fs.readFile(fp, "utf8"); manifest = JSON.parse(txt); break; } catch {}
-    }
-    // Fallback: try to read any *manifest*.json and filter engine_order
-    if (!manifest) {
-      try {
-        const names = await fs.readdir(baseDir).catch(() => []);
-        const manifestName = names.find((n) => /manifest\.json$/i.test(n));
-        if (manifestName) {
-          const txt = await fs.readFile(join(baseDir, manifestName), "utf8");
-          const j = JSON.parse(txt);
-          if (j?.engine_order === "coast16") manifest = j;
-        }
-      } catch {}
-    }
-
-    // Sheet file
-    let sheetName: string | null = null;
-    if (manifest?.sheet?.file && typeof manifest.sheet.file === "string") sheetName = manifest.sheet.file;
-    if (!sheetName) {
-      const names = await fs.readdir(baseDir).catch(() => []);
-      sheetName = names.find((n) => /^coast16_\d+\.png$/i.test(n)) || null;
-    }
-    if (!sheetName) {
-      if (debug) log.warn({ slug, baseDir }, "export_godot_sheet_not_found");
-      return res.status(404).json({ ok: false, error: "sheet_not_found" });
-    }
-
-    const grid = manifest?.grid ?? { cols: 4, rows: 4, tile: 32 };
-    const tileSize = Number(grid?.tile ?? 32) || 32;
-
-    // 2) Build rules (file or derive)
-    const rulesPath = join(baseDir, "godot_rules.json");
-    let rules: any | null = null;
-    try { const txt = await fs.readFile(rulesPath, "utf8"); rules = JSON.parse(txt); } catch {}
-
-    let rulesSource: "file" | "derived" = "file";
-    if (!rules) {
-      // Derive coast16 from manifest tiles (id, name)
-      if (!manifest || !Array.isArray(manifest?.tiles)) return res.status(404).json({ ok: false, error: "manifest_missing_for_derivation" });
-      const tilesByIndex = (manifest.tiles as any[])
-        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
-        .slice(0, grid.cols * grid.rows)
-        .map((t) => ({ id: Number(t.id ?? 0), name: String(t.name ?? "") }));
-      const materialsAB = meta?.materials_ab ?? undefined;
-      rules = deriveCoast16Rules({ name: slug, tileSize, grid: { cols: grid.cols, rows: grid.rows }, tilesByIndex, materialsAB });
-      rulesSource = "derived";
+    const resolved = await resolveTilesetExport(slug, debug);
+    if (!resolved.ok) {
+      const { status, ...err } = resolved;
+      return res.status(status).json(err);
     }
+    const { baseDir, meta, pattern, manifest, sheetName, grid, tileSize, rules, rulesSource, navigationVehicles } = resolved;
 
     // 3) Prepare out paths and atlas naming (reuse if includes slug; else slugged copy)
     const godotDir = join(baseDir, "godot");
@@ -207,7 +340,9 @@ tilesets.post("/tilesets/:slug/export-godot", async (req: Request, res: Response
     }
 
     // 4) Write .tres (ext resource path targets project layout)
-    const extResPath = `res://Assets/Tilesets/${slug}/${atlasTargetName}`;
+    let profile: EngineProfile;
+    try { profile = await readEngineProfile(); } catch (e: any) { return engineProfileError(res, e); }
+    const extResPath = engineResPath(profile, "tileset", { slug }, atlasTargetName);
     const tresPath = await writeTileSetTres({ outDir: godotDir, atlasPngName: atlasTargetName, extResourcePath: extResPath, rules });
 
     // 5) Sidecar meta
@@ -218,6 +353,9 @@ tilesets.post("/tilesets/:slug/export-godot", async (req: Request, res: Response
       tileSize,
       grid: { cols: grid.cols, rows: grid.rows },
       rulesSource,
+      variants: manifest?.variants ?? null,
+      animation: manifest?.animation ?? null,
+      navigation_layers: navigationVehicles.map((vehicle, layer) => ({ layer, vehicle })),
       materials_ab: meta?.materials_ab ?? null,
       atlasFile: atlasTargetName,
       generated_at: new Date().toISOString(),
@@ -225,18 +363,10 @@ tilesets.post("/tilesets/:slug/export-godot", async (req: Request, res: Response
     await fs.writeFile(join(godotDir, "tileset.meta.json"), JSON.stringify(sidecar, null, 2), "utf8");
 
     // 6) Mirror to project if available
-    async function discoverGodotProjectRoot(): Promise<string | null> {
-      const env = typeof process.env.GODOT_PROJECT_ROOT === "string" ? process.env.GODOT_PROJECT_ROOT : null;
-      if (env && env.trim().length) return env;
-      const settings = await readProjectSettings().catch(() => ({}));
-      const fromSettings = (settings as any)?.godot_project_root;
-      if (typeof fromSettings === "string" && fromSettings.trim().length > 0) return fromSettings;
-      return null;
-    }
     const projectRoot = await discoverGodotProjectRoot();
     let projectDir: string | null = null;
     if (projectRoot) {
-      projectDir = join(projectRoot, "Assets", "Tilesets", slug);
+      projectDir = join(projectRoot, enginePath(profile, "tileset", { slug }));
       await ensureDir(projectDir);
       await fs.copyFile(join(godotDir, atlasTargetName), join(projectDir, atlasTargetName)).catch(() => {});
       await fs.copyFile(tresPath, join(projectDir, "tileset.tres"));
@@ -262,17 +392,161 @@ tilesets.post("/tilesets/:slug/export-godot", async (req: Request, res: Response
   }
 });
 
+// ────────────────────────────────────────────────────────────────────────────
+// PROD: Tileset bundles (several tilesets → one TileSet, shared terrain set)
+// GET    /tileset-bundles
+// GET    /tileset-bundles/:id
+// PUT    /tileset-bundles/:id           body: { name?: string; tilesets: string[] }
+// DELETE /tileset-bundles/:id
+// POST   /tileset-bundles/:id/export-godot
+// ────────────────────────────────────────────────────────────────────────────
+async function readBundle(id: string): Promise<any | null> {
+  try {
+    return JSON.parse(await fs.readFile(join(TILESET_BUNDLE_ROOT, id, "bundle.json"), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+tilesets.get("/tileset-bundles", async (_req: Request, res: Response) => {
+  const names = await fs.readdir(TILESET_BUNDLE_ROOT).catch(() => [] as string[]);
+  const bundles = (await Promise.all(names.filter((n) => SAFE_SEGMENT.test(n)).sort().map(readBundle))).filter(Boolean);
+  return res.json({ ok: true, bundles });
+});
+
+tilesets.get("/tileset-bundles/:id", async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  if (!SAFE_SEGMENT.test(id)) return res.status(400).json({ ok: false, error: "bad_bundle_id" });
+  const bundle = await readBundle(id);
+  if (!bundle) return res.status(404).json({ ok: false, error: "bundle_not_found" });
+  return res.json({ ok: true, bundle });
+});
+
+tilesets.put("/tileset-bundles/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    if (!SAFE_SEGMENT.test(id)) return res.status(400).json({ ok: false, error: "bad_bundle_id" });
+    const body = req.body ?? {};
+    const slugs: unknown = body.tilesets;
+    if (!Array.isArray(slugs) || !slugs.length || slugs.some((s) => typeof s !== "string" || !SAFE_SEGMENT.test(s))) {
+      return res.status(400).json({ ok: false, error: "invalid_bundle", reason: "tilesets_required" });
+    }
+    if (new Set(slugs).size !== slugs.length) {
+      return res.status(400).json({ ok: false, error: "invalid_bundle", reason: "duplicate_tileset" });
+    }
+    for (const slug of slugs as string[]) {
+      const exists = await fs.stat(tilesetDir(slug)).then((st) => st.isDirectory()).catch(() => false);
+      if (!exists) return res.status(404).json({ ok: false, error: "tileset_not_found", slug });
+    }
+    const prev = await readBundle(id);
+    const bundle = {
+      schema: "tileset.bundle/1.0",
+      id,
+      name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : prev?.name ?? id,
+      tilesets: slugs,
+      updated_at: new Date().toISOString(),
+    };
+    await ensureDir(join(TILESET_BUNDLE_ROOT, id));
+    await fs.writeFile(join(TILESET_BUNDLE_ROOT, id, "bundle.json"), JSON.stringify(bundle, null, 2), "utf8");
+    return res.json({ ok: true, bundle });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
+  }
+});
+
+tilesets.delete("/tileset-bundles/:id", async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  if (!SAFE_SEGMENT.test(id)) return res.status(400).json({ ok: false, error: "bad_bundle_id" });
+  if (!(await readBundle(id))) return res.status(404).json({ ok: false, error: "bundle_not_found" });
+  await fs.rm(join(TILESET_BUNDLE_ROOT, id), { recursive: true, force: true });
+  return res.json({ ok: true, deleted: id });
+});
+
+tilesets.post("/tileset-bundles/:id/export-godot", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as { id: string };
+    if (!SAFE_SEGMENT.test(id)) return res.status(400).json({ ok: false, error: "bad_bundle_id" });
+    const bundle = await readBundle(id);
+    if (!bundle) return res.status(404).json({ ok: false, error: "bundle_not_found" });
+
+    let profile: EngineProfile;
+    try { profile = await readEngineProfile(); } catch (e: any) { return engineProfileError(res, e); }
+
+    const godotDir = join(TILESET_BUNDLE_ROOT, id, "godot");
+    await ensureDir(godotDir);
+    const sources: Array<{ key: string; extResourcePath: string; rules: any; atlas: string; sheetPath: string }> = [];
+    for (const slug of bundle.tilesets as string[]) {
+      const resolved = await resolveTilesetExport(slug);
+      if (!resolved.ok) {
+        const { status, ...err } = resolved;
+        return res.status(status).json({ ...err, slug });
+      }
+      // Atlases keep the per-tileset project location, so single and bundle exports share PNGs
+      const sheetIncludesSlug = resolved.sheetName.toLowerCase().includes(slug.toLowerCase());
+      const atlas = sheetIncludesSlug ? resolved.sheetName : `${slug}_${resolved.sheetName}`;
+      const sheetPath = join(resolved.baseDir, resolved.sheetName);
+      await fs.copyFile(sheetPath, join(godotDir, atlas));
+      sources.push({ key: slug, extResourcePath: engineResPath(profile, "tileset", { slug }, atlas), rules: resolved.rules, atlas, sheetPath });
+    }
+
+    let written: Awaited<ReturnType<typeof writeTileSetBundleTres>>;
+    try {
+      written = await writeTileSetBundleTres({ outDir: godotDir, name: id, sources, fileName: "tileset.tres" });
+    } catch (e: any) {
+      const [error, slug] = String(e?.message ?? e).split(":");
+      if (error === "terrain_mode_mismatch" || error === "tile_size_mismatch") {
+        return res.status(409).json({ ok: false, error, slug });
+      }
+      throw e;
+    }
+
+    const sidecar = {
+      schema: "tileset.bundle-godot-meta/1.0",
+      id,
+      tilesets: sources.map((s, i) => ({ slug: s.key, source: i, atlasFile: s.atlas })),
+      terrains: written.terrains,
+      generated_at: new Date().toISOString(),
+    };
+    await fs.writeFile(join(godotDir, "tileset.meta.json"), JSON.stringify(sidecar, null, 2), "utf8");
+
+    const projectRoot = await discoverGodotProjectRoot();
+    let projectDir: string | null = null;
+    if (projectRoot) {
+      for (const s of sources) {
+        const dir = join(projectRoot, enginePath(profile, "tileset", { slug: s.key }));
+        await ensureDir(dir);
+        await fs.copyFile(s.sheetPath, join(dir, s.atlas)).catch(() => {});
+      }
+      projectDir = join(projectRoot, enginePath(profile, "tilesetBundle", { id }));
+      await ensureDir(projectDir);
+      await fs.copyFile(written.path, join(projectDir, "tileset.tres"));
+    }
+
+    return res.json({ ok: true, localDir: godotDir, projectDir, tres: "tileset.tres", terrains: written.terrains });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
+  }
+});
+
 // ────────────────────────────────────────────────────────────────────────────
 // PROD: Procedural generate for Coast16
 // POST /tilesets/:slug/procedural/generate
-// body: { tileSize?, bandWidth?, cornerStyle?, transitionMode?, textureScale? }
-// Enqueues a tileset job with mode = procedural
+// body: { tileSize?, bandWidth?, cornerStyle?, lineStyle?, transitionMode?, textureScale?, variants?, variantWeights?,
+//         animation?: { frames, mode?: "scroll"|"phase", material?: "A"|"B"|"both", amplitude?, duration?, durations? },
+//         collision?: "A"|"B"|"none", paletteName?, aseprite?: boolean (also write the Aseprite sheet JSON) }
+// Enqueues a tileset job with mode = procedural for patterns whose handler has a procedural generator
+// (built-ins only; user patterns have none); animation only where the handler renders frames (coast16).
+// A malformed animation block is rejected with 400 invalid_animation before anything is written.
 // ────────────────────────────────────────────────────────────────────────────
 tilesets.post("/tilesets/:slug/procedural/generate", async (req: Request, res: Response) => {
   try {
     const { slug } = req.params as { slug: string };
     if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
     const body = req.body || {};
+    if (body.animation !== undefined) {
+      const reason = validateAnimation(body.animation);
+      if (reason) return res.status(400).json({ ok: false, error: "invalid_animation", reason });
+    }
 
     await ensureDir(tilesetDir(slug));
     const meta = await readMeta(slug);
@@ -287,17 +561,35 @@ tilesets.post("/tilesets/:slug/procedural/generate", async (req: Request, res: R
         ...(typeof body.transitionMode === "string" ? { transitionMode: body.transitionMode } : {}),
         ...(typeof body.textureScale === "number" ? { textureScale: body.textureScale } : {}),
         ...(typeof body.lineStyle === "string" ? { lineStyle: body.lineStyle } : {}),
+        ...(["A", "B", "none"].includes(body.collision) ? { collision: body.collision } : {}),
+        ...(typeof body.variants === "number" ? { variants: body.variants } : {}),
+        ...(Array.isArray(body.variantWeights) ? { variantWeights: body.variantWeights.filter((w: unknown) => typeof w === "number") } : {}),
+        ...(body.animation ? { animation: body.animation } : {}),
       } as any;
       const next = { ...(prev || {}), pattern: prev.pattern || "coast16", tile_size: prev.tile_size || 32, procedural_settings: ps };
       await writeMeta(slug, next);
     }
+    const pattern = meta?.pattern || "coast16";
+    await refreshPatterns();
+    const def = getPattern(pattern);
+    const handler = def ? patternHandler(def) : null;
+    if (!handler?.procedural) {
+      return res.status(400).json({ ok: false, error: "procedural_pattern_not_supported", pattern });
+    }
+    if (body.animation && body.animation.frames > 1 && !handler.animation) {
+      return res.status(400).json({ ok: false, error: "animation_not_supported", pattern });
+    }
+    const paletteName: string = body.paletteName || meta?.palette || ((await readProjectSettings().catch(() => null)) as any)?.palette || "roman_steampunk";
+    await refreshPalettes();
+    if (!hasPalette(paletteName)) return res.status(400).json({ ok: false, error: "unknown_palette", palette: paletteName });
 
     const job = await tilesetQ.add(
       "generate",
       {
         slug,
-        pattern: "coast16",
+        pattern,
         mode: "procedural",
+        paletteName,
         proceduralSettings: {
           tileSize: typeof body.tileSize === "number" ? body.tileSize : undefined,
           bandWidth: typeof body.bandWidth === "number" ? body.bandWidth : undefined,
@@ -305,7 +597,12 @@ tilesets.post("/tilesets/:slug/procedural/generate", async (req: Request, res: R
           transitionMode: typeof body.transitionMode === "string" ? body.transitionMode : undefined,
           textureScale: typeof body.textureScale === "number" ? body.textureScale : undefined,
           lineStyle: typeof body.lineStyle === "string" ? body.lineStyle : undefined,
+          collision: ["A", "B", "none"].includes(body.collision) ? body.collision : undefined,
+          variants: typeof body.variants === "number" ? body.variants : undefined,
+          variantWeights: Array.isArray(body.variantWeights) ? body.variantWeights.filter((w: unknown) => typeof w === "number") : undefined,
+          animation: body.animation,
         },
+        ...(body.aseprite === true ? { aseprite: true } : {}),
       },
       { removeOnComplete: { age: 120, count: 1000 } as any, removeOnFail: 25 }
     );
@@ -315,6 +612,80 @@ tilesets.post("/tilesets/:slug/procedural/generate", async (req: Request, res: R
   }
 });
 
+// ────────────────────────────────────────────────────────────────────────────
+// PROD: Aseprite round trip. Export writes <sheet>.json (frames + tags) next to the sheet;
+// import takes the artist's re-exported PNG + JSON and rewrites the sheet and tiles_32/ files.
+// POST /tilesets/:slug/aseprite/export
+// POST /tilesets/:slug/aseprite/import   (multipart: json, png)
+// ────────────────────────────────────────────────────────────────────────────
+async function resolveTilesetAseprite(slug: string) {
+  const resolved = await resolveTilesetExport(slug);
+  if (!resolved.ok) return resolved;
+  if (!Array.isArray(resolved.manifest?.tiles)) return { ok: false as const, status: 404, error: "manifest_missing" };
+  return { ok: true as const, baseDir: resolved.baseDir, sheet: renderAsepriteSheet(tilesetAsepriteLayout(resolved.manifest)) };
+}
+
+tilesets.post("/tilesets/:slug/aseprite/export", async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params as { slug: string };
+    if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+    const resolved = await resolveTilesetAseprite(slug);
+    if (!resolved.ok) {
+      const { status, ...err } = resolved;
+      return res.status(status).json(err);
+    }
+    const json = await writeAsepriteSheet(resolved.baseDir, resolved.sheet);
+    return res.json({ ok: true, image: resolved.sheet.meta.image, json: path.basename(json), frames: resolved.sheet.frames.length });
+  } catch (e: any) {
+    log.error({ err: e }, "aseprite_export_failed");
+    return res.status(500).json({ ok: false, error: String(e?.message ?? e) });
+  }
+});
+
+tilesets.post(
+  "/tilesets/:slug/aseprite/import",
+  upload.fields([{ name: "json", maxCount: 1 }, { name: "png", maxCount: 1 }]),
+  async (req: Request, res: Response) => {
+    try {
+      const { slug } = req.params as { slug: string };
+      if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+      const files = ((req as any).files ?? {}) as Record<string, Express.Multer.File[]>;
+      const jsonFile = files.json?.[0], pngFile = files.png?.[0];
+      if (!jsonFile || !pngFile) return res.status(400).json({ ok: false, error: "json_and_png_required" });
+      let json: unknown;
+      try { json = JSON.parse(jsonFile.buffer.toString("utf8")); } catch {
+        return res.status(400).json({ ok: false, error: "invalid_aseprite", reason: "json_unparseable" });
+      }
+
+      const resolved = await resolveTilesetAseprite(slug);
+      if (!resolved.ok) {
+        const { status, ...err } = resolved;
+        return res.status(status).json(err);
+      }
+      const { baseDir, sheet } = resolved;
+      const sheetPath = join(baseDir, sheet.meta.image);
+      const result = await importAsepriteSheet({ layout: sheet, base: sheetPath, json, png: pngFile.buffer });
+
+      const tiles: string[] = [];
+      for (const s of result.sections) {
+        const fp = resolve(baseDir, s.file);
+        if (!fp.startsWith(resolve(baseDir) + path.sep)) continue;
+        await fs.writeFile(fp, s.png);
+        tiles.push(s.file);
+      }
+      await fs.writeFile(sheetPath, result.atlas);
+      return res.json({ ok: true, sheet: sheet.meta.image, tiles, matched: result.matched, unmatched: result.unmatched, skipped: result.skipped });
+    } catch (e: any) {
+      const msg = String(e?.message ?? e);
+      if (msg.startsWith("invalid_aseprite:")) {
+        return res.status(400).json({ ok: false, error: "invalid_aseprite", reason: msg.slice("invalid_aseprite:".length) });
+      }
+      log.error({ err: e }, "aseprite_import_failed");
+      return res.status(500).json({ ok: false, error: msg });
+    }
+  }
+);
+
 // ────────────────────────────────────────────────────────────────────────────
 // PROD: Delete a tileset (dangerous — removes its folder under assets/tilesets)
 // DELETE /tilesets/:slug
@@ -357,15 +728,21 @@ tilesets.put("/tilesets/:slug/meta", async (req: Request, res: Response) => {
     const body = req.body ?? {};
     // Optional: allow setting immutable pattern at creation time (or keep existing)
     let nextPattern = prev.pattern || undefined;
+    await refreshPatterns();
     if (typeof body.pattern === "string" && hasPattern(body.pattern)) {
       nextPattern = body.pattern;
     }
+    if (typeof body.palette === "string") {
+      await refreshPalettes();
+      if (!hasPalette(body.palette)) return res.status(400).json({ ok: false, error: "unknown_palette", palette: body.palette });
+    }
     const next = {
       ...prev,
       schema: "tileset.meta/2.0",
       slug: prev.slug || slug,
        // persist pattern + tile_size if provided (or keep previous/default)
-      ...(nextPattern ? { pattern: nextPattern, tile_size: (PATTERNS as any)[nextPattern]?.tileSize ?? prev.tile_size ?? 32 } : {}),
+      ...(nextPattern ? { pattern: nextPattern, tile_size: getPattern(nextPattern)?.tileSize ?? prev.tile_size ?? 32 } : {}),
+      ...(typeof body.palette === "string" ? { palette: body.palette } : {}),
       materials_text: typeof body.materials_text === "string" ? body.materials_text : prev.materials_text || "",
       palette_text: typeof body.palette_text === "string" ? body.palette_text : prev.palette_text || "",
       interface_text: typeof body.interface_text === "string" ? body.interface_text : prev.interface_text || "",
@@ -392,27 +769,45 @@ tilesets.put("/tilesets/:slug/meta", async (req: Request, res: Response) => {
 // ────────────────────────────────────────────────────────────────────────────
 // PROD: Enqueue job (immutable pattern per slug)
 // POST /tilesets/:slug/enqueue
-// body: { pattern: string; mode?: "direct"|"mask"; paletteName?: string; material?: string }
+// body: { pattern: string; mode?: "direct"|"mask"|"procedural"; paletteName?: string (palette id); material?: string; variants?: number; variantWeights?: number[];
+//         baseTexturePrompt?: string (mode "mask": material texture prompt, worker default otherwise);
+//         colorDistance?: "rgb"|"lab76"|"lab2000"|"oklab"; dither?: "none"|"bayer2"|"bayer4"|"bayer8"|"floyd_steinberg"|"pattern"; ditherStrength?: 0..1;
+//         aseprite?: boolean (also write the Aseprite sheet JSON) }
 // ────────────────────────────────────────────────────────────────────────────
 tilesets.post("/tilesets/:slug/enqueue", async (req: Request, res: Response) => {
   try {
     const { slug } = req.params as { slug: string };
     if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
 
-    const { pattern, mode = "direct", paletteName = "roman_steampunk", material } = (req.body ?? {});
+    const { pattern, mode = "direct", material, variants, variantWeights, colorDistance, dither, ditherStrength } = (req.body ?? {});
+    await refreshPatterns();
     if (!pattern || typeof pattern !== "string" || !hasPattern(pattern)) {
-      return res.status(400).json({ ok: false, error: "invalid_pattern", allowed: Object.keys(PATTERNS) });
+      return res.status(400).json({ ok: false, error: "invalid_pattern", allowed: listPatterns().map((p) => p.id) });
+    }
+    if (mode === "procedural" && !patternHandler(getPattern(pattern)!).procedural) {
+      return res.status(400).json({ ok: false, error: "procedural_not_supported", pattern });
     }
 
     await ensureDir(tilesetDir(slug));
     const existing = await readMeta(slug);
 
+    // Palette: explicit > tileset meta > project default
+    const paletteName: string = req.body?.paletteName || existing?.palette || ((await readProjectSettings().catch(() => null)) as any)?.palette || "roman_steampunk";
+    await refreshPalettes();
+    if (!hasPalette(paletteName)) return res.status(400).json({ ok: false, error: "unknown_palette", palette: paletteName });
+    if (colorDistance !== undefined && !COLOR_DISTANCES.includes(colorDistance)) {
+      return res.status(400).json({ ok: false, error: "invalid_color_distance", allowed: COLOR_DISTANCES });
+    }
+    if (dither !== undefined && !DITHER_MODES.includes(dither)) {
+      return res.status(400).json({ ok: false, error: "invalid_dither", allowed: DITHER_MODES });
+    }
+
     if (!existing) {
       const meta = {
         schema: "tileset.meta/1.0",
         slug,
         pattern,
-        tile_size: (PATTERNS as any)[pattern]?.tileSize ?? 32,
+        tile_size: getPattern(pattern)?.tileSize ?? 32,
         palette: paletteName,
         created_at: new Date().toISOString(),
       } as any;
@@ -423,7 +818,17 @@ tilesets.post("/tilesets/:slug/enqueue", async (req: Request, res: Response) =>
 
     const job = await tilesetQ.add(
       "generate",
-      { slug, pattern, mode, paletteName, ...(material ? { material } : {}) },
+      {
+        slug, pattern, mode, paletteName,
+        ...(material ? { material } : {}),
+        ...(typeof req.body?.baseTexturePrompt === "string" && req.body.baseTexturePrompt.trim() ? { baseTexturePrompt: req.body.baseTexturePrompt } : {}),
+        ...(typeof variants === "number" ? { variants } : {}),
+        ...(Array.isArray(variantWeights) ? { variantWeights: variantWeights.filter((w: unknown) => typeof w === "number") } : {}),
+        ...(colorDistance ? { colorDistance } : {}),
+        ...(dither ? { dither } : {}),
+        ...(typeof ditherStrength === "number" ? { ditherStrength } : {}),
+        ...(req.body?.aseprite === true ? { aseprite: true } : {}),
+      },
       { removeOnComplete: { age: 120, count: 1000 } as any, removeOnFail: 25 }
     );
     // Append a simple debug line to slug folder
@@ -658,7 +1063,7 @@ async function stitchSheetSimpleByPattern(outDir: string, pattern: string, tileS
   const names = (await fs.readdir(tilesDir).catch(() => []))
     .filter((n) => n.startsWith(`${pattern}_`) && /\.png$/i.test(n));
 
-  const { cols, rows } = (PATTERNS as any)[pattern]?.grid ?? { cols: 8, rows: 6 };
+  const { cols, rows } = getPattern(pattern)?.grid ?? { cols: 8, rows: 6 };
   const W = cols * tileSize; const H = rows * tileSize;
   const base = sharp({ create: { width: W, height: H, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } }).png();
 
@@ -767,6 +1172,7 @@ tilesetDebug.post("/tilesets/:slug/tile/:key", async (req: Request, res: Respons
 
     const meta = await readMeta(slug);
     const pattern = (bodyPattern as string) || meta?.pattern || "blob47";
+    await refreshPatterns();
     if (!hasPattern(pattern)) {
       log.warn({ pattern }, "tile_generate_invalid_pattern");
       return res.status(400).json({ ok: false, error: "invalid_pattern" });
@@ -910,6 +1316,7 @@ tilesetDebug.post("/tilesets/:slug/crop", async (req: Request, res: Response) =>
     const { slug } = req.params as { slug: string };
     const { pattern, key, x, y, w, h } = (req.body ?? {});
     if (!SAFE_SEGMENT.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+    await refreshPatterns();
     if (!pattern || !hasPattern(pattern)) return res.status(400).json({ ok: false, error: "invalid_pattern" });
     if (!key || !SAFE_SEGMENT.test(key)) return res.status(400).json({ ok: false, error: "bad_key" });
 
@@ -949,6 +1356,7 @@ tilesetDebug.post("/tilesets/:slug/stitch", async (req: Request, res: Response)
 
     const meta = await readMeta(slug);
     const pattern = (req.body?.pattern as string) || meta?.pattern || "blob47";
+    await refreshPatterns();
     if (!hasPattern(pattern)) return res.status(400).json({ ok: false, error: "invalid_pattern" });
 
     const dir = tilesetDir(slug);
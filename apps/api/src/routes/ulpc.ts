@@ -2,7 +2,13 @@
 import { Router, type Request, type Response } from "express";
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import { resolveUlpcSheetDefs } from "@pixelart/config";
+import multer from "multer";
+import { ASSET_ROOT, readUlpcBuild, resolveUlpcSheetDefs } from "@pixelart/config";
+import {
+  listCustomLayers, saveCustomLayer, deleteCustomLayer, readCustomLayer, type CustomLayerMeta,
+  composeULPCExport, importULPCAseprite, clearULPCEdits,
+  renderManifestPreviews, resolvePreviewOptions, previewScale, PREVIEW_INDEX,
+} from "@pixelart/sprite-compose";
 
 const ulpcRouter: Router = Router();
 
@@ -102,16 +108,177 @@ async function loadCatalog(): Promise<Catalog> {
   return cachedCatalog;
 }
 
+// Custom layers appear as one item each under "custom"; layerPaths point at "<category>/<variant>"
+// for every body type, which the composer resolves back to the library entry.
+const CUSTOM_BODY_KEYS = ["male", "muscular", "female", "pregnant", "teen", "child"];
+
+function customSheetItem(meta: CustomLayerMeta): SheetItem {
+  const full = `${meta.category}/${meta.variant}`;
+  return {
+    id: full,
+    name: meta.name,
+    typeName: "custom",
+    category: "custom",
+    layerPaths: Object.fromEntries(CUSTOM_BODY_KEYS.map((k) => [k, full])),
+    variants: [meta.variant],
+    animations: meta.animations,
+  };
+}
+
 ulpcRouter.get("/ulpc/sheet-defs", async (_req: Request, res: Response) => {
   try {
     const catalog = await loadCatalog();
-    res.json(catalog);
+    // custom layers are read per request (uploads must show up without a restart)
+    const custom = (await listCustomLayers()).map(customSheetItem);
+    res.json(custom.length ? { ...catalog, categories: [...catalog.categories, { category: "custom", items: custom }] } : catalog);
   } catch (err: any) {
     console.error("[ulpc.sheet-defs] error", err);
     res.status(500).json({ ok: false, code: "ULPC_DEFS_ERROR", message: err?.message ?? "sheet_def_load_failed" });
   }
 });
 
+// ───────────────────────── Custom layer library ─────────────────────────
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 8 * 1024 * 1024, files: 32 } });
+
+// GET /ulpc/custom-layers
+ulpcRouter.get("/ulpc/custom-layers", async (_req: Request, res: Response) => {
+  res.json({ ok: true, layers: await listCustomLayers() });
+});
+
+// POST /ulpc/custom-layers  (multipart)
+// fields: category ("custom/<group>"), variant, name?, z?, credits?
+// files: one PNG per animation; the field name is the animation ("walk"), else the file name ("walk.png")
+ulpcRouter.post("/ulpc/custom-layers", upload.any(), async (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as { category?: string; variant?: string; name?: string; z?: string; credits?: string };
+    const files = ((req as any).files ?? []) as Array<{ fieldname: string; originalname: string; buffer: Buffer }>;
+    const category = String(body.category ?? "").trim().replace(/^\/+|\/+$/g, "");
+    const variant = String(body.variant ?? "").trim();
+    if (!category || !variant) return res.status(400).json({ ok: false, error: "category_and_variant_required" });
+
+    const sheets: Record<string, Buffer> = {};
+    for (const f of files) {
+      const anim = (["file", "files", "sheet", "sheets"].includes(f.fieldname) ? path.parse(f.originalname).name : f.fieldname).toLowerCase();
+      sheets[anim] = f.buffer;
+    }
+    const z = body.z === undefined || body.z === "" ? undefined : Number(body.z);
+    if (z !== undefined && !Number.isFinite(z)) return res.status(400).json({ ok: false, error: "invalid_custom_layer", reason: "invalid_z" });
+
+    const { layer, warnings } = await saveCustomLayer({ category, variant, name: body.name, z, credits: body.credits, sheets });
+    return res.json({ ok: true, layer, warnings });
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (msg.startsWith("invalid_custom_layer:")) {
+      return res.status(400).json({ ok: false, error: "invalid_custom_layer", reason: msg.slice("invalid_custom_layer:".length) });
+    }
+    console.error("[ulpc.custom-layers] upload error", err);
+    return res.status(500).json({ ok: false, error: "internal_error" });
+  }
+});
+
+// DELETE /ulpc/custom-layers?category=custom/<group>&variant=<id>
+ulpcRouter.delete("/ulpc/custom-layers", async (req: Request, res: Response) => {
+  const category = String(req.query.category ?? "");
+  const variant = String(req.query.variant ?? "");
+  if (!readCustomLayer(category, variant)) return res.status(404).json({ ok: false, error: "custom_layer_not_found" });
+  await deleteCustomLayer(category, variant);
+  return res.json({ ok: true, category, variant });
+});
+
+const SLUG = /^[a-z0-9._-]+$/i;
+
+// Recompose sheets/frames so ulpc_frames and the manifest pick up (or drop) hand edits
+async function recomposeCharacter(slug: string) {
+  const build = await readUlpcBuild(slug);
+  const exported = await composeULPCExport({
+    build: { ...build, output: { ...build?.output, aseprite: true } },
+    outBaseDir: path.join(ASSET_ROOT, slug),
+    slug,
+  });
+  return exported.warnings;
+}
+
+// POST /characters/:slug/ulpc/aseprite/import  (multipart: json, png)
+// The artist's re-export of ulpc/<slug>_aseprite.png (written by output.aseprite); edited animations
+// keep ulpc/<animation>/edited.png, which later exports use instead of the layers.
+ulpcRouter.post(
+  "/characters/:slug/ulpc/aseprite/import",
+  upload.fields([{ name: "json", maxCount: 1 }, { name: "png", maxCount: 1 }]),
+  async (req: Request, res: Response) => {
+    const { slug } = req.params as { slug: string };
+    if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+    const files = ((req as any).files ?? {}) as Record<string, Array<{ buffer: Buffer }>>;
+    const jsonFile = files.json?.[0], pngFile = files.png?.[0];
+    if (!jsonFile || !pngFile) return res.status(400).json({ ok: false, error: "json_and_png_required" });
+    try {
+      let json: unknown;
+      try { json = JSON.parse(jsonFile.buffer.toString("utf8")); } catch { throw new Error("invalid_aseprite:json_unparseable"); }
+      const result = await importULPCAseprite({ outBaseDir: path.join(ASSET_ROOT, slug), slug, json, png: pngFile.buffer });
+      const warnings = await recomposeCharacter(slug).catch((err) => {
+        console.warn("[ulpc.aseprite] recompose failed", { slug, error: err?.message });
+        return [];
+      });
+      return res.json({ ok: true, ...result, warnings });
+    } catch (err: any) {
+      const msg = String(err?.message ?? err);
+      if (msg.startsWith("invalid_aseprite:")) {
+        return res.status(400).json({ ok: false, error: "invalid_aseprite", reason: msg.slice("invalid_aseprite:".length) });
+      }
+      console.error("[ulpc.aseprite] import error", err);
+      return res.status(500).json({ ok: false, error: "internal_error" });
+    }
+  }
+);
+
+// DELETE /characters/:slug/ulpc/aseprite/edits?animation=walk  (omit animation = all)
+ulpcRouter.delete("/characters/:slug/ulpc/aseprite/edits", async (req: Request, res: Response) => {
+  const { slug } = req.params as { slug: string };
+  if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+  const animation = typeof req.query.animation === "string" && req.query.animation ? [req.query.animation] : undefined;
+  try {
+    const cleared = await clearULPCEdits(path.join(ASSET_ROOT, slug), animation);
+    const warnings = cleared.length ? await recomposeCharacter(slug) : [];
+    return res.json({ ok: true, cleared, warnings });
+  } catch (err: any) {
+    console.error("[ulpc.aseprite] clear edits error", err);
+    return res.status(500).json({ ok: false, error: "internal_error" });
+  }
+});
+
+// GET /characters/:slug/previews  → previews.json of the last render (files under previews/)
+ulpcRouter.get("/characters/:slug/previews", async (req: Request, res: Response) => {
+  const { slug } = req.params as { slug: string };
+  if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+  const index = await fs.readFile(path.join(ASSET_ROOT, slug, "previews", PREVIEW_INDEX), "utf8").then(JSON.parse, () => null);
+  if (!index) return res.status(404).json({ ok: false, error: "no_previews" });
+  return res.json({ ok: true, index });
+});
+
+// POST /characters/:slug/previews  { formats?: ("apng"|"gif"|"webp")[], scale?: number }
+// Renders animated previews of every sliced animation/orientation at the manifest fps; scale
+// defaults to the project's pixel_scale. Needs a composed manifest (output mode split_by_frame/both).
+ulpcRouter.post("/characters/:slug/previews", async (req: Request, res: Response) => {
+  const { slug } = req.params as { slug: string };
+  if (!SLUG.test(slug)) return res.status(400).json({ ok: false, error: "bad_slug" });
+  const manifestPath = path.join(ASSET_ROOT, slug, `${slug}_sprite_manifest.json`);
+  try {
+    const body = req.body ?? {};
+    const { formats, scale } = resolvePreviewOptions({ formats: body.formats, scale: await previewScale(body.scale) });
+    if (!(await fs.access(manifestPath).then(() => true, () => false))) {
+      return res.status(404).json({ ok: false, error: "manifest_missing" });
+    }
+    const { index } = await renderManifestPreviews({ manifestPath, outDir: path.join(ASSET_ROOT, slug, "previews"), formats, scale });
+    return res.json({ ok: true, index });
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (msg.startsWith("invalid_preview:")) {
+      return res.status(400).json({ ok: false, error: "invalid_preview", reason: msg.slice("invalid_preview:".length) });
+    }
+    console.error("[ulpc.previews] render error", err);
+    return res.status(500).json({ ok: false, error: "internal_error" });
+  }
+});
+
 async function walkJson(root: string): Promise<string[]> {
   const out: string[] = [];
   const entries = await fs.readdir(root, { withFileTypes: true });
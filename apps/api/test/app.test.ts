@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll } from "vitest";
 import request from "supertest";
 import { createApp, type AppType } from "../src/app.js";
+import { migratePalettePath } from "../src/routes/palettes.js";
 
 let app: AppType;
 
@@ -40,4 +41,180 @@ describe("API", () => {
     expect(r.status).toBe(200);
     expect(r.body.ok).toBe(true);
   });
+
+  it("GET /tileset-patterns -> lists built-ins", async () => {
+    const r = await request(app).get("/tileset-patterns");
+    expect(r.status).toBe(200);
+    const ids = r.body.patterns.map((p: any) => p.id);
+    expect(ids).toEqual(expect.arrayContaining(["blob47", "coast16"]));
+  });
+
+  it("POST /tileset-patterns -> 400 on invalid definition", async () => {
+    const r = await request(app).post("/tileset-patterns").send({ id: "wang2", displayName: "Wang 2", tileSize: 32 });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe("invalid_pattern");
+  });
+
+  it("POST /tilesets/:slug/procedural/generate -> 400 on a malformed animation block", async () => {
+    const r = await request(app).post("/tilesets/coast/procedural/generate").send({ animation: { frames: 4, mode: "spin" } });
+    expect(r.status).toBe(400);
+    expect(r.body).toMatchObject({ error: "invalid_animation", reason: "invalid_mode" });
+  });
+
+  it("PUT /tileset-bundles/:id -> 400 without tilesets", async () => {
+    const r = await request(app).put("/tileset-bundles/coast").send({ name: "Coast", tilesets: [] });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe("invalid_bundle");
+  });
+
+  it("POST /palettes/import -> 400 on unknown format", async () => {
+    const r = await request(app).post("/palettes/import").send({ content: "not a palette" });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe("unsupported_palette_format");
+  });
+
+  it("POST /ulpc/custom-layers -> 400 outside custom/ categories", async () => {
+    const r = await request(app).post("/ulpc/custom-layers").field("category", "hat/helmet").field("variant", "legion");
+    expect(r.status).toBe(400);
+    expect(r.body.reason).toBe("invalid_category");
+  });
+
+  it("PUT /project/settings -> 400 on an engine profile escaping the project", async () => {
+    const size = { width: 64, height: 64 };
+    const r = await request(app).put("/project/settings").send({
+      aesthetics: "",
+      resolutions: { portrait: size, idle: size, animation_frame: size },
+      engine_profile: { paths: { tileset: "../Outside/{slug}" } },
+    });
+    expect(r.status).toBe(400);
+    expect(r.body.message).toMatch(/^engine_profile: paths\.tileset/);
+  });
+
+  it("PUT /project/settings -> 400 on an unknown LLM provider", async () => {
+    const size = { width: 64, height: 64 };
+    const r = await request(app).put("/project/settings").send({
+      aesthetics: "",
+      resolutions: { portrait: size, idle: size, animation_frame: size },
+      llm: { provider: "anthropic" },
+    });
+    expect(r.status).toBe(400);
+    expect(r.body.message).toBe("llm.provider invalid");
+  });
+
+  it("PUT /project/settings -> 400 on out-of-range LLM repair attempts", async () => {
+    const size = { width: 64, height: 64 };
+    const r = await request(app).put("/project/settings").send({
+      aesthetics: "",
+      resolutions: { portrait: size, idle: size, animation_frame: size },
+      llm: { provider: "openai", repairAttempts: 9 },
+    });
+    expect(r.status).toBe(400);
+    expect(r.body.message).toMatch(/^llm\.repairAttempts/);
+  });
+
+  it("POST /project/stat-schema/preview -> evaluates derived formulas in order", async () => {
+    const r = await request(app).post("/project/stat-schema/preview").send({
+      stat_schema: {
+        stats: [{ key: "might", min: 0, default: 4, integer: true }],
+        derived: [{ key: "hp", expr: "might * 10 + 5" }, { key: "guard", expr: "floor(hp / 3)" }],
+      },
+      stats: { might: 6 },
+    });
+    expect(r.status).toBe(200);
+    expect(r.body.derived).toEqual({ hp: 65, guard: 21 });
+  });
+
+  it("POST /characters/export-godot -> 400 on malformed slugs", async () => {
+    const r = await request(app).post("/characters/export-godot").send({ slugs: ["ok", "../escape"] });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe("bad_slugs");
+  });
+
+  it("POST /characters/:slug/ulpc/aseprite/import -> 400 without the sheet files", async () => {
+    const r = await request(app).post("/characters/hero/ulpc/aseprite/import").attach("json", Buffer.from("{}"), "hero.json");
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe("json_and_png_required");
+  });
+
+  it("POST /atlases -> 400 on invalid packing settings", async () => {
+    const r = await request(app).post("/atlases").send({ name: "party", slugs: ["hero"], settings: { maxSize: 1000 } });
+    expect(r.status).toBe(400);
+    expect(r.body.message).toBe("invalid_atlas_settings:maxSize");
+  });
+
+  it("POST /characters/:slug/previews -> 400 on an unknown format", async () => {
+    const r = await request(app).post("/characters/hero/previews").send({ formats: ["mp4"] });
+    expect(r.status).toBe(400);
+    expect(r.body.reason).toBe("formats");
+  });
+
+  it("POST /assistant/turn/stream -> 400 before streaming without a message", async () => {
+    const r = await request(app).post("/assistant/turn/stream").send({ draft: {} });
+    expect(r.status).toBe(400);
+    expect(r.headers["content-type"]).toMatch(/json/);
+    expect(r.body.message).toBe("message required");
+  });
+
+  it("GET /characters/:slug/assistant/history -> 404 for an unknown character", async () => {
+    const r = await request(app).get("/characters/no_such_character/assistant/history");
+    expect(r.status).toBe(404);
+    expect(r.body.ok).toBe(false);
+  });
+
+  it("POST /assistant/patch/apply -> applies accepted operations and validates the result", async () => {
+    const draft = {
+      client_ready: true,
+      identity: { char_name: "Aria", char_slug: "aria" },
+      personality: { desire: "x", fear: "y", flaw: "z", traits: ["a", "b"] },
+      physical: {
+        age_range: "adult", gender: "female", height_category: "average", build: "average",
+        skin_tone: "#885522", hair_color: "#222222", eye_color: "#336699",
+      },
+      stats: { creature_affinity: 10, chaos_mastery: 10, kinesthetic: 10, lucidity: 10, terrain_control: 10 },
+    };
+    const ok = await request(app).post("/assistant/patch/apply").send({
+      draft,
+      patch: [
+        { op: "add", path: "/personality/traits/-", value: "bold" },
+        { op: "replace", path: "/identity/char_slug", value: "other" },
+      ],
+    });
+    expect(ok.status).toBe(200);
+    expect(ok.body.draft.personality.traits).toEqual(["a", "b", "bold"]);
+    expect(ok.body.draft.identity.char_slug).toBe("aria");
+    expect(ok.body.changes[1].error).toBe("SLUG_LOCKED");
+
+    const sneaky = await request(app).post("/assistant/patch/apply").send({
+      draft,
+      patch: [
+        { op: "replace", path: "", value: { ...draft, identity: { char_name: "Aria", char_slug: "other" } } },
+        { op: "move", from: "/identity/char_slug", path: "/identity/char_name" },
+        { op: "copy", from: "/identity/char_name", path: "/identity/char_slug" },
+      ],
+    });
+    expect(sneaky.status).toBe(200);
+    expect(sneaky.body.draft.identity).toEqual({ char_name: "Aria", char_slug: "aria" });
+    expect(sneaky.body.changes.map((c: any) => c.error)).toEqual(["SLUG_LOCKED", "SLUG_LOCKED", "SLUG_LOCKED"]);
+
+    const bad = await request(app).post("/assistant/patch/apply").send({ draft, patch: [{ op: "remove", path: "/personality/fear" }] });
+    expect(bad.status).toBe(400);
+    expect(bad.body.code).toBe("INVALID_PATCHED_DRAFT");
+  });
+});
+
+describe("migratePalettePath", () => {
+  it("leaves settings without palette_path alone", async () => {
+    expect(await migratePalettePath({ palette: "roman_steampunk" }, "/tmp")).toBeNull();
+  });
+
+  it("maps a legacy palette file to the registered palette of the same name", async () => {
+    const next = await migratePalettePath({ aesthetics: "", palette_path: "project/palettes/roman_steampunk.gpl" }, "/tmp");
+    expect(next).toEqual({ aesthetics: "", palette: "roman_steampunk" });
+  });
+
+  it("drops unreadable or escaping paths and keeps an explicit palette", async () => {
+    expect(await migratePalettePath({ palette_path: "../../etc/passwd.gpl" }, "/tmp")).toEqual({});
+    expect(await migratePalettePath({ palette_path: "missing/none.gpl" }, "/tmp")).toEqual({});
+    expect(await migratePalettePath({ palette: "gb4", palette_path: "x.gpl" }, "/tmp")).toEqual({ palette: "gb4" });
+  });
 });
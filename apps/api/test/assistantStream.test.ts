@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import request from "supertest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { LlmProvider } from "@pixelart/assistants";
+
+// Every turn in this file talks to the provider set by the test
+const llm = vi.hoisted(() => ({ provider: null as LlmProvider | null }));
+vi.mock("@pixelart/assistants", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@pixelart/assistants")>()),
+  createLlmProvider: () => llm.provider,
+}));
+
+import { ScriptedLlmProvider } from "@pixelart/assistants";
+import { createApp, type AppType } from "../src/app.js";
+
+let app: AppType;
+
+const draft = {
+  client_ready: true,
+  identity: { char_name: "Aria", char_slug: "aria" },
+  personality: { desire: "x", fear: "y", flaw: "z", traits: ["a", "b"] },
+  physical: {
+    age_range: "adult", gender: "female", height_category: "average", build: "average",
+    skin_tone: "#885522", hair_color: "#222222", eye_color: "#336699",
+  },
+  stats: { creature_affinity: 10, chaos_mastery: 10, kinesthetic: 10, lucidity: 10, terrain_control: 10 },
+};
+
+/** SSE body → [event, data] pairs, checking each frame is "event: …\ndata: …". */
+function parseEvents(text: string): Array<[string, any]> {
+  return text.split("\n\n").filter(Boolean).map((frame) => {
+    const [event, data, ...rest] = frame.split("\n");
+    expect(event).toMatch(/^event: \w+$/);
+    expect(data).toMatch(/^data: /);
+    expect(rest).toEqual([]);
+    return [event.slice("event: ".length), JSON.parse(data.slice("data: ".length))];
+  });
+}
+
+const stream = (body: Record<string, unknown>) =>
+  request(app).post("/assistant/turn/stream").send(body).buffer(true).parse((res, done) => {
+    let text = "";
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => { text += chunk; });
+    res.on("end", () => done(null, text));
+  });
+
+beforeAll(() => {
+  process.env.NODE_ENV = "test";
+  app = createApp();
+});
+
+describe("POST /assistant/turn/stream", () => {
+  it("streams the chat text, then ends with the validated draft", async () => {
+    llm.provider = new ScriptedLlmProvider([{ message: "She is taller now.", ...draft, physical: { ...draft.physical, height_category: "tall" } }]);
+    const r = await stream({ message: "taller", draft });
+    expect(r.status).toBe(200);
+    expect(r.headers["content-type"]).toBe("text/event-stream; charset=utf-8");
+    expect(r.headers["cache-control"]).toBe("no-cache, no-transform");
+
+    const events = parseEvents(r.body);
+    const texts = events.filter(([e]) => e === "text").map(([, d]) => d.delta);
+    expect(texts.length).toBeGreaterThan(0);
+    expect(texts.join("")).toBe("She is taller now.");
+    const [last, payload] = events[events.length - 1];
+    expect(last).toBe("draft");
+    expect(payload.message).toBe("She is taller now.");
+    expect(payload.draft.physical.height_category).toBe("tall");
+    expect(payload.debug).toMatchObject({ repairs: 0 });
+    expect(events.filter(([e]) => e === "draft")).toHaveLength(1);
+  });
+
+  it("reports a repair, then the invalid event when every attempt fails validation", async () => {
+    const broken = { message: "Hmm.", ...draft, physical: { age_range: "adult" } };
+    llm.provider = new ScriptedLlmProvider([broken, broken, broken]);
+    const events = parseEvents((await stream({ message: "taller", draft })).body);
+    expect(events.filter(([e]) => e === "repair").map(([, d]) => d.attempt)).toEqual([0, 1]);
+    const [last, payload] = events[events.length - 1];
+    expect(last).toBe("invalid");
+    expect(payload.code).toBe("INVALID_ASSISTANT_PAYLOAD");
+    expect(payload.errors[0]).toMatchObject({ instancePath: "/physical", keyword: "required" });
+    expect(payload.debug.attempts).toHaveLength(3);
+  });
+
+  it("sends patch mode results as one patch event", async () => {
+    llm.provider = new ScriptedLlmProvider([{ message: "Bolder.", patch: [{ op: "add", path: "/personality/traits/-", value: "bold" }] }]);
+    const events = parseEvents((await stream({ message: "bold", draft, mode: "patch" })).body);
+    const [last, payload] = events[events.length - 1];
+    expect(last).toBe("patch");
+    expect(payload.draft.personality.traits).toEqual(["a", "b", "bold"]);
+    expect(payload.changes).toHaveLength(1);
+  });
+
+  it("closes the stream with an error event when the provider fails", async () => {
+    llm.provider = new ScriptedLlmProvider([]);   // throws llm_script_exhausted
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const events = parseEvents((await stream({ message: "taller", draft })).body);
+    spy.mockRestore();
+    expect(events).toEqual([["error", { code: "INTERNAL_ERROR", message: "assistant_error" }]]);
+  });
+
+  describe("client disconnect", () => {
+    let server: http.Server;
+
+    beforeAll(async () => {
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("aborts the model request", async () => {
+      let seen: AbortSignal | undefined;
+      const aborted = new Promise<void>((resolve) => {
+        llm.provider = {
+          name: "slow",
+          completeJson: () => Promise.reject(new Error("not streamed")),
+          streamJson: (req, onDelta) => {
+            seen = req.signal;
+            onDelta('{"message": "Thinking');
+            return new Promise((_, reject) => req.signal?.addEventListener("abort", () => { resolve(); reject(new Error("aborted")); }));
+          },
+        };
+      });
+
+      const { port } = server.address() as AddressInfo;
+      const req = http.request({ port, method: "POST", path: "/assistant/turn/stream", headers: { "content-type": "application/json" } });
+      req.on("error", () => {});
+      req.on("response", (res) => res.once("data", () => req.destroy()));   // hang up after the first event
+      req.end(JSON.stringify({ message: "taller", draft }));
+
+      await aborted;
+      expect(seen?.aborted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import request from "supertest";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// The storage roots are read from the environment when @pixelart/config loads
+const roots = vi.hoisted(() => {
+  const fsSync = require("node:fs") as typeof import("node:fs");
+  const os = require("node:os") as typeof import("node:os");
+  const pathMod = require("node:path") as typeof import("node:path");
+  const tmp = fsSync.mkdtempSync(pathMod.join(os.tmpdir(), "api-godot-export-"));
+  const r = { tmp, assets: pathMod.join(tmp, "characters"), godot: pathMod.join(tmp, "godot") };
+  process.env.ASSET_ROOT = r.assets;
+  process.env.PROJECT_SETTINGS_FILE = pathMod.join(tmp, "project_settings.json");
+  process.env.GODOT_PROJECT_ROOT = r.godot;
+  return r;
+});
+
+import { createApp, type AppType } from "../src/app.js";
+
+let app: AppType;
+
+async function seedCharacter(slug: string, lite: Record<string, unknown> = {}) {
+  await fs.mkdir(path.join(roots.assets, slug), { recursive: true });
+  await fs.writeFile(path.join(roots.assets, slug, `char_def_lite_${slug}.json`), JSON.stringify({ identity: { char_name: slug.toUpperCase() }, ...lite }));
+}
+
+const readIndex = async (dir: string) => JSON.parse(await fs.readFile(path.join(dir, "characters_index.json"), "utf8"));
+const indexIds = async (dir = roots.assets) => (await readIndex(dir)).characters.map((c: any) => [c.id, c.numericId]);
+
+beforeAll(async () => {
+  process.env.NODE_ENV = "test";
+  app = createApp();
+  await seedCharacter("alpha");
+  await seedCharacter("beta");
+});
+
+afterAll(async () => {
+  await fs.rm(roots.tmp, { recursive: true, force: true });
+});
+
+describe("Godot character export", () => {
+  it("POST /characters/export-godot -> numbers every character from 10001 and writes the index", async () => {
+    const r = await request(app).post("/characters/export-godot").send({});
+    expect(r.status).toBe(200);
+    expect(r.body.results.map((x: any) => [x.slug, x.ok, x.numericId])).toEqual([["alpha", true, 10001], ["beta", true, 10002]]);
+    expect(await indexIds()).toEqual([["alpha", 10001], ["beta", 10002]]);
+    expect(await indexIds(path.join(roots.godot, "Assets", "Characters"))).toEqual([["alpha", 10001], ["beta", 10002]]);
+    const tres = await fs.readFile(path.join(roots.assets, "characters_index.tres"), "utf8");
+    expect(tres).toContain(`metadata/schema = "characters.index/1.0"`);
+    expect(tres).toContain(`"numeric_id": 10002`);
+  });
+
+  it("POST /characters/:slug/export-godot -> keeps indexed ids and takes the next free one", async () => {
+    const again = await request(app).post("/characters/beta/export-godot").send({ classTag: "Warden" });
+    expect(again.body.numericId).toBe(10002);
+
+    await seedCharacter("gamma");
+    const fresh = await request(app).post("/characters/gamma/export-godot").send({});
+    expect(fresh.body.numericId).toBe(10003);
+
+    const index = await readIndex(roots.assets);
+    expect(index.characters.map((c: any) => c.id)).toEqual(["alpha", "beta", "gamma"]);
+    expect(index.characters[1]).toMatchObject({ name: "BETA", classTag: "Warden" });
+    // the class tag chosen once sticks to later exports
+    await request(app).post("/characters/export-godot").send({ slugs: ["beta"] });
+    expect((await readIndex(roots.assets)).characters[1].classTag).toBe("Warden");
+  });
+
+  it("-> 409 when a requested id belongs to another character, before anything is written", async () => {
+    const before = await fs.readFile(path.join(roots.assets, "characters_index.json"), "utf8");
+    const r = await request(app).post("/characters/gamma/export-godot").send({ numericId: 10001 });
+    expect(r.status).toBe(409);
+    expect(r.body.message).toBe("numeric_id_collision");
+    expect(r.body.collisions).toEqual([{ numericId: 10001, ids: ["alpha", "gamma"] }]);
+    expect(await fs.readFile(path.join(roots.assets, "characters_index.json"), "utf8")).toBe(before);
+  });
+
+  it("-> 207 when part of a batch fails, still indexing the characters that exported", async () => {
+    await seedCharacter("delta", { stats: { kinesthetic: "lots" } });
+    const r = await request(app).post("/characters/export-godot").send({ slugs: ["delta", "alpha", "nobody"] });
+    expect(r.status).toBe(207);
+    expect(r.body.failed).toBe(2);
+    expect(r.body.results.map((x: any) => [x.slug, x.ok, x.error?.split(":")[0]])).toEqual([
+      ["delta", false, "invalid_stats"],
+      ["alpha", true, undefined],
+      ["nobody", false, "character_not_found"],
+    ]);
+    // a failed character is not indexed, and characters outside `slugs` are kept
+    expect(await indexIds()).toEqual([["alpha", 10001], ["beta", 10002], ["gamma", 10003]]);
+  });
+
+  it("a full export drops characters deleted since they were indexed", async () => {
+    await fs.rm(path.join(roots.assets, "gamma"), { recursive: true });
+    await fs.rm(path.join(roots.assets, "delta"), { recursive: true });
+    const r = await request(app).post("/characters/export-godot").send({});
+    expect(r.status).toBe(200);
+    expect(await indexIds()).toEqual([["alpha", 10001], ["beta", 10002]]);
+  });
+});
@@ -0,0 +1,64 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { AsepriteImportResult } from "@/lib/api";
+
+/**
+ * Picks an Aseprite sprite sheet export (PNG + JSON, "Array" or "Hash" data) and hands both to
+ * `onImport`. Frames are matched by tag, then name, then order against the sheet we exported.
+ */
+export function AsepriteImport({
+  label = "Import from Aseprite",
+  onImport,
+}: {
+  label?: string;
+  onImport: (json: File, png: File) => Promise<AsepriteImportResult>;
+}) {
+  const jsonRef = useRef<HTMLInputElement>(null);
+  const pngRef = useRef<HTMLInputElement>(null);
+  const [json, setJson] = useState<File | null>(null);
+  const [png, setPng] = useState<File | null>(null);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ error?: string; result?: AsepriteImportResult } | null>(null);
+
+  async function run() {
+    if (!json || !png) return;
+    setPending(true);
+    setMessage(null);
+    try {
+      const result = await onImport(json, png);
+      setMessage({ result });
+      setJson(null);
+      setPng(null);
+      if (jsonRef.current) jsonRef.current.value = "";
+      if (pngRef.current) pngRef.current.value = "";
+    } catch (e: any) {
+      setMessage({ error: String(e?.message ?? e) });
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-slate-600">
+          JSON <input ref={jsonRef} type="file" accept=".json,application/json" onChange={(e) => setJson(e.target.files?.[0] ?? null)} />
+        </label>
+        <label className="text-xs text-slate-600">
+          PNG <input ref={pngRef} type="file" accept="image/png" onChange={(e) => setPng(e.target.files?.[0] ?? null)} />
+        </label>
+        <Button type="button" onClick={run} disabled={pending || !json || !png}>
+          {pending ? "Importing…" : label}
+        </Button>
+      </div>
+      {message?.error && <div className="text-xs text-red-600">{message.error}</div>}
+      {message?.result && (
+        <div className="text-xs text-slate-600">
+          {message.result.matched} frame{message.result.matched === 1 ? "" : "s"} replaced
+          {message.result.unmatched.length ? ` · ${message.result.unmatched.length} unmatched` : ""}
+          {message.result.skipped.length ? ` · skipped: ${message.result.skipped.map((s) => `${s.frame} (${s.reason})`).join(", ")}` : ""}
+        </div>
+      )}
+    </div>
+  );
+}
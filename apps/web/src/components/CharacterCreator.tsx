@@ -9,7 +9,10 @@ import { Button } from "@/components/ui/button";
 import { CharacterForm } from "@/components/character/CharacterForm";
 
 // API helpers
-import { assistantTurn, validateLite, commitLite } from "@/lib/api";
+import {
+  streamAssistantTurn, streamAssistantPatchTurn, AssistantPayloadError, validateLite, commitLite, type AssistantPatchResult,
+} from "@/lib/api";
+import { PatchReview } from "@/components/character/PatchReview";
 import type { CharacterDefinitionLite } from "@/types";
 
 // ───────────────────────────────── helpers ─────────────────────────────────
@@ -110,6 +113,10 @@ export default function CharacterCreator() {
   ]);
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [streamText, setStreamText] = useState("");   // assistant reply so far, while streaming
+  // Patch mode: the assistant proposes JSON Patch operations, reviewed one by one before applying
+  const [patchMode, setPatchMode] = useState(false);
+  const [review, setReview] = useState<{ base: CharacterDefinitionLite; result: AssistantPatchResult } | null>(null);
 
   // chat auto-scroll
   const chatRef = useRef<HTMLDivElement | null>(null);
@@ -117,7 +124,7 @@ export default function CharacterCreator() {
     const el = chatRef.current;
     if (!el) return;
     el.scrollTo({ top: el.scrollHeight, behavior: "smooth" });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamText, review]);
 
   // Form model + CSV editors for arrays
   const [form, setForm] = useState<CharacterDefinitionLite>(initialDraft);
@@ -282,12 +289,28 @@ export default function CharacterCreator() {
     applyChatDelta(text);
 
     setIsTyping(true);
+    setStreamText("");
+    setReview(null);
     try {
-      const res = await assistantTurn({
-        message: text,
-        draft: serializeForServer(form), // keep assistant in sync with current arrays & slug
-        thread: threadForAssistant,
-      });
+      if (patchMode) {
+        const base = serializeForServer(form);
+        const result = await streamAssistantPatchTurn(
+          { message: text, draft: base, thread: threadForAssistant },
+          { onText: (delta) => setStreamText((prev) => prev + delta), onRepair: () => setStreamText("") }
+        );
+        if (result.message) setMessages((prev) => [...prev, { role: "assistant", content: result.message }]);
+        setReview({ base, result });
+        return;
+      }
+
+      const res = await streamAssistantTurn(
+        {
+          message: text,
+          draft: serializeForServer(form), // keep assistant in sync with current arrays & slug
+          thread: threadForAssistant,
+        },
+        { onText: (delta) => setStreamText((prev) => prev + delta), onRepair: () => setStreamText("") }
+      );
 
       // append assistant reply
       if (res?.message) {
@@ -303,12 +326,16 @@ export default function CharacterCreator() {
       }
     } catch (err: any) {
       console.error("[CharacterCreator] assistantTurn error:", err);
+      const detail = err instanceof AssistantPayloadError
+        ? `the reply did not validate${err.debug ? ` after ${err.debug.attempts.length} attempts` : ""}:\n${err.errors.map((e) => `${e.instancePath || "/"} ${e.message ?? ""}`).join("\n")}`
+        : String(err?.message ?? err);
       setMessages((prev) => [
         ...prev,
-        { role: "assistant", content: `Sorry—assistant failed: ${String(err?.message ?? err)}` },
+        { role: "assistant", content: `Sorry—assistant failed: ${detail}` },
       ]);
     } finally {
       setIsTyping(false);
+      setStreamText("");
     }
   }
 
@@ -347,12 +374,29 @@ export default function CharacterCreator() {
               </div>
             ))}
 
+            {review && !isTyping && (
+              <PatchReview
+                key={review.result.message + review.result.patch.length}
+                base={review.base}
+                result={review.result}
+                onApply={(next) => {
+                  onFormChange(next);
+                  setReview(null);
+                }}
+                onDismiss={() => setReview(null)}
+              />
+            )}
+
             {isTyping && (
-              <div className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 animate-pulse">
+              <div
+                className={
+                  "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2" + (streamText ? "" : " animate-pulse")
+                }
+              >
                 <div className="text-[11px] uppercase tracking-wide opacity-60 mb-0.5">
                   assistant
                 </div>
-                <div className="whitespace-pre-wrap">typing…</div>
+                <div className="whitespace-pre-wrap">{streamText || "typing…"}</div>
               </div>
             )}
           </div>
@@ -369,8 +413,14 @@ export default function CharacterCreator() {
             </Button>
           </form>
 
-          <div className="mt-3 text-xs text-slate-500">
-            Tip: you can type things like <code>name: Aria, traits: brave,witty</code>
+          <div className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-500">
+            <span>
+              Tip: you can type things like <code>name: Aria, traits: brave,witty</code>
+            </span>
+            <label className="flex items-center gap-1 whitespace-nowrap" title="Review each proposed change before it reaches the form">
+              <input type="checkbox" checked={patchMode} onChange={(e) => setPatchMode(e.target.checked)} />
+              Review changes
+            </label>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,92 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deletePalette, importPalette, listPalettes } from "@/lib/api";
+
+/**
+ * Palette select with a swatch strip. `allowNone` adds an empty option (e.g. "no quantization");
+ * `manage` adds import (.gpl/.hex/.pal) and delete for user palettes.
+ */
+export function PalettePicker({
+  id,
+  value,
+  onChange,
+  allowNone,
+  noneLabel = "(none)",
+  manage = false,
+}: {
+  id?: string;
+  value: string;
+  onChange: (id: string) => void;
+  allowNone?: boolean;
+  noneLabel?: string;
+  manage?: boolean;
+}) {
+  const qc = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const palettesQ = useQuery({ queryKey: ["palettes"], queryFn: listPalettes });
+  const current = palettesQ.data?.find((p) => p.id === value);
+
+  const importMut = useMutation({
+    mutationFn: (file: File) => importPalette(file),
+    onSuccess: (r) => {
+      setError(null);
+      qc.invalidateQueries({ queryKey: ["palettes"] });
+      onChange(r.palette.id);
+    },
+    onError: (e: any) => setError(String(e?.message ?? e)),
+  });
+  const deleteMut = useMutation({
+    mutationFn: (pid: string) => deletePalette(pid),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["palettes"] });
+      onChange(allowNone ? "" : "roman_steampunk");
+    },
+    onError: (e: any) => setError(String(e?.message ?? e)),
+  });
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex gap-2 items-center">
+        <select id={id} className="border rounded px-2 py-2 w-full" value={value} onChange={(e) => onChange(e.target.value)}>
+          {allowNone && <option value="">{noneLabel}</option>}
+          {(palettesQ.data ?? []).map((p) => (
+            <option key={p.id} value={p.id}>{p.name} ({p.colors.length}){p.builtin ? "" : " · user"}</option>
+          ))}
+          {value && !current && !palettesQ.isLoading && <option value={value}>{value} (missing)</option>}
+        </select>
+        {manage && (
+          <>
+            <button type="button" className="border rounded px-2 py-2 text-sm whitespace-nowrap" onClick={() => fileRef.current?.click()} disabled={importMut.isPending}>
+              {importMut.isPending ? "Importing…" : "Import…"}
+            </button>
+            {current && !current.builtin && (
+              <button type="button" className="border rounded px-2 py-2 text-sm text-red-600" onClick={() => deleteMut.mutate(current.id)} disabled={deleteMut.isPending}>
+                Delete
+              </button>
+            )}
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".gpl,.hex,.pal"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) importMut.mutate(f);
+                e.target.value = "";
+              }}
+            />
+          </>
+        )}
+      </div>
+      {current && (
+        <div className="flex flex-wrap gap-px" title={current.colors.join(" ")}>
+          {current.colors.map((c, i) => (
+            <span key={i} className="inline-block w-3 h-3 border border-slate-200" style={{ background: c }} />
+          ))}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
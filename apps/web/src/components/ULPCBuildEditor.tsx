@@ -392,6 +392,31 @@ export function ULPCControls({ value, onChange, sheetCatalog, availability }: Pr
               </div>
               <div className="text-xs text-slate-500 mt-1">Leave empty to auto-detect.</div>
             </div>
+
+            <div>
+              <Label htmlFor="out_aseprite">Aseprite</Label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  id="out_aseprite"
+                  type="checkbox"
+                  checked={build.output?.aseprite === true}
+                  onChange={(e) => onChange({ ...build, output: { ...(build.output ?? {}), aseprite: e.target.checked || undefined } })}
+                />
+                Sheet + JSON (frame tags)
+              </label>
+            </div>
+            <div>
+              <Label htmlFor="out_previews">Previews</Label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  id="out_previews"
+                  type="checkbox"
+                  checked={!!build.output?.previews}
+                  onChange={(e) => onChange({ ...build, output: { ...(build.output ?? {}), previews: e.target.checked ? {} : undefined } })}
+                />
+                Animated APNG/GIF/WebP (needs frames)
+              </label>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -595,6 +620,17 @@ export function ULPCLayers({ value, onChange, sheetCatalog, warnings, availabili
     onChange({ ...build, layers: next });
   }
 
+  // Offset / z_override / per-animation overrides; empty values are dropped from the build
+  function updateLayerPlacement(index: number, patch: Record<string, any>) {
+    const next = [...(build.layers ?? [])];
+    const L: any = { ...next[index], ...patch };
+    for (const k of ["offset", "z_override", "overrides"]) {
+      if (L[k] === undefined || (Array.isArray(L[k]) && L[k].length === 0)) delete L[k];
+    }
+    next[index] = L;
+    onChange({ ...build, layers: next });
+  }
+
   function setLayerFromItem(index: number, item: UlpcSheetItem) {
     const path = resolvePathForBody(item, bodyType);
     if (!path) return;
@@ -823,6 +859,13 @@ export function ULPCLayers({ value, onChange, sheetCatalog, warnings, availabili
                       Remove
                     </Button>
                   </div>
+                  {!isHeadBaseCategory ? (
+                    <LayerPlacementEditor
+                      layer={layer}
+                      animations={getAnimationEnum()}
+                      onChange={(patch) => updateLayerPlacement(index, patch)}
+                    />
+                  ) : null}
                   {isHeadBaseCategory ? (
                     <div className="mt-2 text-xs text-slate-500">
                       Head base layers follow the body colour and are managed in the Body & Head panel.
@@ -1138,3 +1181,86 @@ export default function ULPCBuildEditor({ value, onChange, sheetCatalog, warning
     </div>
   );
 }
+
+// ───── layer placement (offset / z) ─────
+const FACINGS = ["north", "west", "south", "east"] as const;
+const intOrUndef = (v: string) => (v.trim() === "" || !Number.isFinite(Number(v)) ? undefined : Math.round(Number(v)));
+const offsetOrUndef = (x?: number, y?: number) => (x || y ? { x: x ?? 0, y: y ?? 0 } : undefined);
+
+function LayerPlacementEditor({
+  layer,
+  animations,
+  onChange,
+}: {
+  layer: any;
+  animations: string[];
+  onChange: (patch: Record<string, any>) => void;
+}) {
+  const overrides: any[] = Array.isArray(layer?.overrides) ? layer.overrides : [];
+  const setOverride = (i: number, patch: Record<string, any>) => {
+    const next = overrides.map((o, idx) => (idx === i ? { ...o, ...patch } : o));
+    next[i] = Object.fromEntries(Object.entries(next[i]).filter(([, v]) => v !== undefined && v !== ""));
+    onChange({ overrides: next });
+  };
+  const numInput = (value: number | undefined, set: (v: number | undefined) => void, title: string) => (
+    <Input
+      type="number"
+      step={1}
+      className="h-8 w-16 px-2 text-xs"
+      title={title}
+      placeholder={title}
+      value={value ?? ""}
+      onChange={(e) => set(intOrUndef(e.target.value))}
+    />
+  );
+
+  return (
+    <div className="mt-2 grid gap-1 text-xs text-slate-600">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Offset</span>
+        {numInput(layer?.offset?.x, (x) => onChange({ offset: offsetOrUndef(x, layer?.offset?.y) }), "x")}
+        {numInput(layer?.offset?.y, (y) => onChange({ offset: offsetOrUndef(layer?.offset?.x, y) }), "y")}
+        <span className="ml-2">Z override</span>
+        {numInput(layer?.z_override, (z) => onChange({ z_override: z }), "z")}
+        <button
+          type="button"
+          className="ml-auto underline"
+          onClick={() => onChange({ overrides: [...overrides, {}] })}
+          title="Offset / z for one animation or facing (e.g. a cape in front when facing north)"
+        >
+          + per-animation override
+        </button>
+      </div>
+      {overrides.map((o, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2 pl-4">
+          <select
+            className="h-8 rounded border px-1"
+            value={o.animation ?? ""}
+            onChange={(e) => setOverride(i, { animation: e.target.value || undefined })}
+          >
+            <option value="">all animations</option>
+            {animations.map((a) => (
+              <option key={a} value={a}>{a}</option>
+            ))}
+          </select>
+          <select
+            className="h-8 rounded border px-1"
+            value={o.direction ?? ""}
+            onChange={(e) => setOverride(i, { direction: e.target.value || undefined })}
+          >
+            <option value="">all facings</option>
+            {FACINGS.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+          {numInput(o.offset?.x, (x) => setOverride(i, { offset: offsetOrUndef(x, o.offset?.y) }), "x")}
+          {numInput(o.offset?.y, (y) => setOverride(i, { offset: offsetOrUndef(o.offset?.x, y) }), "y")}
+          {numInput(o.z_override, (z) => setOverride(i, { z_override: z }), "z")}
+          <button type="button" className="text-red-600" onClick={() => onChange({ overrides: overrides.filter((_, idx) => idx !== i) })}>
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { fileUrl, getCharacterPreviews, renderCharacterPreviews, type PreviewFormat } from "@/lib/api";
+
+const FORMATS: PreviewFormat[] = ["apng", "gif", "webp"];
+
+/**
+ * Animated previews of every animation/orientation at the manifest fps. Each file is standalone
+ * (GIF for chat and docs, APNG/WebP keep full alpha), so links can be handed to writers and designers.
+ */
+export function AnimationPreviews({ slug }: { slug: string }) {
+  const qc = useQueryClient();
+  const [show, setShow] = useState<PreviewFormat>("gif");
+  const [scale, setScale] = useState<number | "">("");
+
+  const previewsQ = useQuery({
+    queryKey: ["previews", slug],
+    queryFn: () => getCharacterPreviews(slug),
+    enabled: !!slug,
+  });
+  const renderM = useMutation({
+    mutationFn: () => renderCharacterPreviews(slug, { scale: scale === "" ? undefined : scale }),
+    onSuccess: (index) => qc.setQueryData(["previews", slug], index),
+  });
+
+  const index = previewsQ.data;
+  const bust = renderM.data ? renderM.submittedAt : undefined;
+  const entries = Object.entries(index?.previews ?? {});
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="button" onClick={() => renderM.mutate()} disabled={renderM.isPending}>
+          {renderM.isPending ? "Rendering…" : index ? "Re-render previews" : "Render previews"}
+        </Button>
+        <label className="flex items-center gap-1 text-xs">
+          Scale
+          <input
+            type="number"
+            min={1}
+            max={16}
+            className="w-16 rounded border px-1 py-0.5"
+            placeholder="pixel_scale"
+            value={scale}
+            onChange={(e) => setScale(e.target.value ? Math.max(1, Math.min(16, Number(e.target.value))) : "")}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs">
+          Show
+          <select className="rounded border px-1 py-0.5" value={show} onChange={(e) => setShow(e.target.value as PreviewFormat)}>
+            {FORMATS.filter((f) => !index || index.formats.includes(f)).map((f) => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+          </select>
+        </label>
+        {index && <span className="text-xs text-slate-500">×{index.scale}</span>}
+      </div>
+      {renderM.error && <div className="text-xs text-red-600">{String((renderM.error as Error).message)}</div>}
+
+      {entries.length ? (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {entries.map(([folder, p]) => (
+            <figure key={folder} className="rounded-lg border bg-white p-2">
+              {p.files[show] && (
+                <img
+                  src={fileUrl(slug, `previews/${p.files[show]}`, bust)}
+                  alt={`${folder} preview`}
+                  className="mx-auto max-w-full"
+                  style={{ imageRendering: "pixelated" }}
+                />
+              )}
+              <figcaption className="mt-1 text-xs text-slate-600">
+                <div className="font-mono">{folder}</div>
+                <div>
+                  {p.frames} frames · {p.fps} fps{p.loop ? "" : " · once"} ·{" "}
+                  {FORMATS.filter((f) => p.files[f]).map((f, i) => (
+                    <span key={f}>
+                      {i > 0 && " "}
+                      <a className="underline" href={fileUrl(slug, `previews/${p.files[f]}`)} target="_blank" rel="noreferrer">
+                        {f}
+                      </a>
+                    </span>
+                  ))}
+                </div>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500">
+          {previewsQ.isLoading ? "Loading…" : "No previews yet. Compose with frames (output mode split_by_frame or both), then render."}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  AssistantPayloadError, clearAssistantHistory, getAssistantHistory, streamAssistantTurn, streamAssistantPatchTurn,
+  type AssistantPatchResult,
+} from "@/lib/api";
+import { PatchReview } from "@/components/character/PatchReview";
+import type { CharacterDefinitionLite } from "@/types";
+
+/**
+ * Refinement chat for a saved character. The server keeps the conversation (and every resulting
+ * draft) with the character, so it picks up where the last session stopped; accepted drafts are
+ * handed to `onDraft` and only hit disk when the form is saved.
+ */
+export function AssistantChatPanel({ slug, draft, onDraft }: {
+  slug: string;
+  draft: CharacterDefinitionLite | null;
+  onDraft: (draft: CharacterDefinitionLite) => void;
+}) {
+  const qc = useQueryClient();
+  const [input, setInput] = useState("");
+  const [pendingText, setPendingText] = useState<string | null>(null);   // user message in flight
+  const [streamText, setStreamText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [patchMode, setPatchMode] = useState(true);
+  const [review, setReview] = useState<{ base: CharacterDefinitionLite; result: AssistantPatchResult } | null>(null);
+  const chatRef = useRef<HTMLDivElement | null>(null);
+
+  const historyQ = useQuery({
+    queryKey: ["assistantHistory", slug],
+    queryFn: () => getAssistantHistory(slug),
+    enabled: !!slug,
+  });
+  const clearM = useMutation({
+    mutationFn: () => clearAssistantHistory(slug),
+    onSuccess: () => qc.setQueryData(["assistantHistory", slug], []),
+  });
+
+  const turns = historyQ.data ?? [];
+  useEffect(() => {
+    chatRef.current?.scrollTo({ top: chatRef.current.scrollHeight });
+  }, [turns.length, streamText, pendingText, review]);
+
+  async function onSend(e?: FormEvent) {
+    e?.preventDefault();
+    const message = input.trim();
+    if (!message || pendingText !== null) return;
+    setInput("");
+    setError(null);
+    setPendingText(message);
+    setStreamText("");
+    setReview(null);
+    try {
+      if (patchMode && draft) {
+        const result = await streamAssistantPatchTurn(
+          { message, slug, draft },
+          { onText: (delta) => setStreamText((prev) => prev + delta), onRepair: () => setStreamText("") }
+        );
+        setReview({ base: draft, result });
+        return;
+      }
+      const res = await streamAssistantTurn(
+        { message, slug, draft: draft ?? undefined },
+        { onText: (delta) => setStreamText((prev) => prev + delta), onRepair: () => setStreamText("") }
+      );
+      onDraft(res.draft);
+    } catch (err: any) {
+      // rejected replies are recorded in the history too
+      if (!(err instanceof AssistantPayloadError)) setError(String(err?.message ?? err));
+    } finally {
+      setPendingText(null);
+      setStreamText("");
+      await qc.invalidateQueries({ queryKey: ["assistantHistory", slug] });
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div ref={chatRef} className="max-h-[50dvh] overflow-auto space-y-2">
+        {turns.map((t, i) => t.user === undefined ? (
+          <div key={`${t.at}-${i}`} className="text-[11px] text-slate-400">
+            Applied {t.applied?.length ?? 0} change{t.applied?.length === 1 ? "" : "s"} · {new Date(t.at).toLocaleString()}
+          </div>
+        ) : (
+          <div key={`${t.at}-${i}`} className="space-y-1">
+            <div className="bg-blue-50 border border-blue-100 rounded-xl px-3 py-2 whitespace-pre-wrap">{t.user}</div>
+            {t.assistant ? (
+              <div className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 whitespace-pre-wrap">{t.assistant}</div>
+            ) : (
+              <div className="border border-red-100 bg-red-50 rounded-xl px-3 py-2 text-xs text-red-700">
+                Reply rejected ({t.errors?.length ?? 0} validation error{t.errors?.length === 1 ? "" : "s"}):{" "}
+                {(t.errors ?? []).slice(0, 3).map((e) => `${e.instancePath || "/"} ${e.message ?? ""}`).join("; ")}
+              </div>
+            )}
+            <div className="text-[11px] text-slate-400">
+              {new Date(t.at).toLocaleString()}{t.provider ? ` · ${t.provider}` : ""}
+              {t.patch ? ` · ${t.patch.length} proposed change${t.patch.length === 1 ? "" : "s"}` : ""}
+            </div>
+          </div>
+        ))}
+        {review && pendingText === null && (
+          <PatchReview
+            key={review.result.message + review.result.patch.length}
+            base={review.base}
+            result={review.result}
+            slug={slug}
+            onApply={(d) => {
+              onDraft(d);
+              setReview(null);
+              void qc.invalidateQueries({ queryKey: ["assistantHistory", slug] });
+            }}
+            onDismiss={() => setReview(null)}
+          />
+        )}
+        {pendingText !== null && (
+          <div className="space-y-1">
+            <div className="bg-blue-50 border border-blue-100 rounded-xl px-3 py-2 whitespace-pre-wrap">{pendingText}</div>
+            <div className={"bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 whitespace-pre-wrap" + (streamText ? "" : " animate-pulse")}>
+              {streamText || "typing…"}
+            </div>
+          </div>
+        )}
+        {!turns.length && pendingText === null && (
+          <div className="text-xs text-slate-500">
+            {historyQ.isLoading ? "Loading…" : "No conversation yet. Ask the assistant to refine this character."}
+          </div>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      <form onSubmit={onSend} className="flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="e.g. make her fear more personal, add a scar"
+          className="flex-1 rounded-xl border px-3 py-2 outline-none focus:ring"
+        />
+        <Button type="submit" disabled={pendingText !== null || !draft}>
+          {pendingText !== null ? "Thinking…" : "Send"}
+        </Button>
+      </form>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <label className="flex items-center gap-1" title="Review each proposed change before it reaches the form">
+          <input type="checkbox" checked={patchMode} onChange={(e) => setPatchMode(e.target.checked)} />
+          Review changes
+        </label>
+        <span>Drafts update the form above; press Save to keep them.</span>
+        <button
+          type="button"
+          className="underline disabled:opacity-50"
+          onClick={() => clearM.mutate()}
+          disabled={!turns.length || clearM.isPending}
+        >
+          Clear history
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import CollapsibleCard from "@/components/CollapsibleCard";
+import { Button } from "@/components/ui/button";
+import { exportCharactersToGodot, packSpriteAtlas } from "@/lib/api";
+
+/**
+ * Exports all (or the ticked) characters to Godot in one request and shows per-character results.
+ * The server also rewrites characters_index.json/.tres, the registry the game loads at boot.
+ * SpriteFrames can take their frames from a packed texture atlas: one per character, or a shared
+ * atlas packed here from the same selection.
+ */
+export function BatchGodotExport({ slugs }: { slugs: string[] }) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [writeBattleVisual, setWriteBattleVisual] = useState(false);
+  const [atlasMode, setAtlasMode] = useState<"none" | "character" | "shared">("none");
+  const [atlasName, setAtlasName] = useState("characters");
+  const [maxSize, setMaxSize] = useState(2048);
+
+  const target = selected.length ? selected : undefined;
+  const atlas = atlasMode === "none" ? undefined : atlasMode === "character" ? true : atlasName;
+  const exportM = useMutation({
+    mutationFn: () => exportCharactersToGodot({ slugs: target, writeBattleVisual, atlas }),
+  });
+  const packM = useMutation({
+    mutationFn: () => packSpriteAtlas({ name: atlasName, slugs: target, settings: { maxSize } }),
+  });
+
+  const toggle = (slug: string) =>
+    setSelected((cur) => (cur.includes(slug) ? cur.filter((s) => s !== slug) : [...cur, slug]));
+
+  return (
+    <CollapsibleCard title="Godot Batch Export" defaultOpen={false}>
+      <div className="space-y-3 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {slugs.map((slug) => (
+            <label key={slug} className="flex items-center gap-1 rounded border px-2 py-1">
+              <input type="checkbox" checked={selected.includes(slug)} onChange={() => toggle(slug)} />
+              <span className="font-mono text-xs">{slug}</span>
+            </label>
+          ))}
+          {!slugs.length && <span className="text-slate-500">No characters yet.</span>}
+        </div>
+        <div className="flex items-center gap-3">
+          <Button type="button" onClick={() => exportM.mutate()} disabled={exportM.isPending || !slugs.length}>
+            {exportM.isPending ? "Exporting…" : selected.length ? `Export ${selected.length} selected` : "Export all"}
+          </Button>
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={writeBattleVisual} onChange={(e) => setWriteBattleVisual(e.target.checked)} />
+            Battle visuals
+          </label>
+          <label className="flex items-center gap-1 text-xs">
+            Frames from
+            <select className="rounded border px-1 py-0.5" value={atlasMode} onChange={(e) => setAtlasMode(e.target.value as typeof atlasMode)}>
+              <option value="none">animation sheets</option>
+              <option value="character">per-character atlas</option>
+              <option value="shared">shared atlas</option>
+            </select>
+          </label>
+        </div>
+        {atlasMode === "shared" && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <input className="rounded border px-2 py-1 font-mono" value={atlasName} onChange={(e) => setAtlasName(e.target.value)} placeholder="atlas name" />
+            <label className="flex items-center gap-1">
+              Max page
+              <select className="rounded border px-1 py-0.5" value={maxSize} onChange={(e) => setMaxSize(Number(e.target.value))}>
+                {[512, 1024, 2048, 4096].map((n) => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <Button type="button" onClick={() => packM.mutate()} disabled={packM.isPending || !atlasName.trim()}>
+              {packM.isPending ? "Packing…" : "Pack atlas"}
+            </Button>
+            {packM.error && <span className="text-red-600">{String((packM.error as Error).message)}</span>}
+            {packM.data && (
+              <span className="text-slate-600">
+                {packM.data.sprites} frames on {packM.data.pages.map((p) => `${p.w}×${p.h}`).join(", ")}
+                {packM.data.missing.length ? ` · not composed: ${packM.data.missing.join(", ")}` : ""}
+              </span>
+            )}
+          </div>
+        )}
+
+        {exportM.error && <div className="text-xs text-red-600">{String((exportM.error as Error).message)}</div>}
+        {exportM.data && (
+          <>
+            <div className="text-xs text-slate-600">
+              {exportM.data.exported} exported, {exportM.data.failed} failed · index lists {exportM.data.index.count} characters
+            </div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1">Character</th><th>numericId</th><th>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exportM.data.results.map((r) => (
+                  <tr key={r.slug} className="border-t">
+                    <td className="py-1 font-mono">{r.slug}</td>
+                    <td>{r.numericId ?? "—"}</td>
+                    <td className={r.ok ? "text-green-700" : "text-red-600"}>
+                      {r.ok ? (r.partial ? "ok (no ULPC manifest)" : "ok") : r.error}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </CollapsibleCard>
+  );
+}
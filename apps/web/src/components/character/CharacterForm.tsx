@@ -2,6 +2,7 @@
 
 // apps/web/src/components/character/CharacterForm.tsx
 import { ReactNode, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -12,7 +13,9 @@ import type {
   Build,
   Gender,
   CharacterStats,
+  StatSchema,
 } from "@/types";
+import { getProjectSettings } from "@/lib/api";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Local options + helpers
@@ -188,13 +191,16 @@ export function CharacterForm({
   const set = (patch: Partial<CharacterDefinitionLite>) =>
     onChange({ ...value, ...patch });
 
-  const stats: CharacterStats = value.stats ?? {
-    creature_affinity: 10,
-    chaos_mastery: 10,
-    kinesthetic: 10,
-    lucidity: 10,
-    terrain_control: 10,
-  };
+  // Stat fields follow the project's stat schema; stats the schema no longer declares stay editable
+  const settingsQ = useQuery({ queryKey: ["projectSettings"], queryFn: () => getProjectSettings() });
+  const schema = settingsQ.data?.settings?.stat_schema as StatSchema | undefined;
+  const stats: CharacterStats = value.stats ?? {};
+  const statDefs = [
+    ...(schema?.stats ?? []),
+    ...Object.keys(stats)
+      .filter((k) => !schema?.stats.some((d) => d.key === k))
+      .map((key) => ({ key, label: `${key} (not in schema)`, integer: false, default: undefined as number | undefined })),
+  ];
 
   return (
     <div className="grid gap-4">
@@ -505,47 +511,17 @@ export function CharacterForm({
       {/* Stats */}
       <CollapsibleSection title="Stats">
         <fieldset className="grid sm:grid-cols-3 gap-4">
-          <NumberField
-            id="creature_affinity"
-            label="Creature Affinity"
-            value={stats.creature_affinity}
-            set={(n: number) =>
-              set({ stats: { ...stats, creature_affinity: n } })
-            }
-            disabled={disabled}
-          />
-          <NumberField
-            id="chaos_mastery"
-            label="Chaos Mastery"
-            value={stats.chaos_mastery}
-            set={(n: number) => set({ stats: { ...stats, chaos_mastery: n } })}
-            disabled={disabled}
-          />
-          <NumberField
-            id="kinesthetic"
-            label="Kinesthetic"
-            value={stats.kinesthetic}
-            set={(n: number) => set({ stats: { ...stats, kinesthetic: n } })}
-            disabled={disabled}
-          />
-        </fieldset>
-        <fieldset className="grid sm:grid-cols-2 gap-4">
-          <NumberField
-            id="lucidity"
-            label="Lucidity"
-            value={stats.lucidity}
-            set={(n: number) => set({ stats: { ...stats, lucidity: n } })}
-            disabled={disabled}
-          />
-          <NumberField
-            id="terrain_control"
-            label="Terrain Control"
-            value={stats.terrain_control}
-            set={(n: number) =>
-              set({ stats: { ...stats, terrain_control: n } })
-            }
-            disabled={disabled}
-          />
+          {statDefs.map((d) => (
+            <NumberField
+              key={d.key}
+              id={d.key}
+              label={d.label || d.key}
+              value={stats[d.key] ?? d.default ?? 0}
+              set={(n: number) => set({ stats: { ...stats, [d.key]: n } })}
+              integer={d.integer === true}
+              disabled={disabled}
+            />
+          ))}
         </fieldset>
       </CollapsibleSection>
 
@@ -560,12 +536,14 @@ function NumberField({
   label,
   value,
   set,
+  integer = true,
   disabled,
 }: {
   id: string;
   label: string;
   value: number;
   set: (n: number) => void;
+  integer?: boolean;
   disabled?: boolean;
 }) {
   return (
@@ -575,7 +553,8 @@ function NumberField({
         id={id}
         type="number"
         value={String(value)}
-        onChange={(e) => set(parseIntSafe(e.target.value, 0))}
+        step={integer ? 1 : "any"}
+        onChange={(e) => set(integer ? parseIntSafe(e.target.value, 0) : Number(e.target.value) || 0)}
         disabled={disabled}
       />
     </div>
@@ -0,0 +1,111 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { deleteCustomLayer, listCustomLayers, uploadCustomLayer } from "@/lib/api";
+
+/**
+ * Project-local custom layers (LPC-compatible sheets, one PNG per animation named "walk.png" etc.).
+ * Uploaded layers show up under the "custom" category of the layer picker.
+ */
+export function CustomLayerLibrary() {
+  const qc = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [category, setCategory] = useState("custom/");
+  const [variant, setVariant] = useState("");
+  const [name, setName] = useState("");
+  const [z, setZ] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [message, setMessage] = useState<{ error?: string; warnings?: string[] } | null>(null);
+
+  const layersQ = useQuery({ queryKey: ["customLayers"], queryFn: listCustomLayers });
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey: ["customLayers"] });
+    qc.invalidateQueries({ queryKey: ["ulpcSheetDefs"] });
+  };
+
+  const uploadMut = useMutation({
+    mutationFn: () =>
+      uploadCustomLayer({
+        category: category.trim(),
+        variant: variant.trim(),
+        name: name.trim() || undefined,
+        z: z.trim() ? Number(z) : undefined,
+        sheets: files,
+      }),
+    onSuccess: (r) => {
+      setMessage({ warnings: r.warnings });
+      setFiles([]);
+      if (fileRef.current) fileRef.current.value = "";
+      refresh();
+    },
+    onError: (e: any) => setMessage({ error: String(e?.message ?? e) }),
+  });
+  const deleteMut = useMutation({
+    mutationFn: (l: { category: string; variant: string }) => deleteCustomLayer(l.category, l.variant),
+    onSuccess: refresh,
+    onError: (e: any) => setMessage({ error: String(e?.message ?? e) }),
+  });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="font-medium">Custom Layer Library</div>
+      <div className="grid gap-2 grid-cols-1 md:grid-cols-[1fr_1fr_1fr_6rem]">
+        <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="custom/badges" title="Category (custom/…)" />
+        <Input value={variant} onChange={(e) => setVariant(e.target.value)} placeholder="id, e.g. legion" title="Layer id" />
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Display name" />
+        <Input type="number" value={z} onChange={(e) => setZ(e.target.value)} placeholder="z" title="Draw order (ULPC zPos scale)" />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/png"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+        />
+        <Button
+          type="button"
+          onClick={() => uploadMut.mutate()}
+          disabled={uploadMut.isPending || !variant.trim() || !category.startsWith("custom/") || !files.length}
+        >
+          {uploadMut.isPending ? "Uploading…" : "Upload sheets"}
+        </Button>
+        <span className="text-xs text-slate-500">One 64×64-grid PNG per animation, named after it (walk.png, slash.png…)</span>
+      </div>
+      {message?.error && <div className="text-xs text-red-600">{message.error}</div>}
+      {message?.warnings?.length ? (
+        <ul className="text-xs text-amber-800">
+          {message.warnings.map((w, i) => <li key={i}>⚠️ {w}</li>)}
+        </ul>
+      ) : null}
+
+      {(layersQ.data ?? []).length ? (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1">Layer</th><th>Name</th><th>z</th><th>Animations</th><th />
+            </tr>
+          </thead>
+          <tbody>
+            {(layersQ.data ?? []).map((l) => (
+              <tr key={`${l.category}/${l.variant}`} className="border-t">
+                <td className="py-1 font-mono">{l.category}/{l.variant}</td>
+                <td>{l.name}</td>
+                <td>{l.z ?? "—"}</td>
+                <td>{l.animations.join(", ")}</td>
+                <td className="text-right">
+                  <button type="button" className="text-red-600" onClick={() => deleteMut.mutate(l)} disabled={deleteMut.isPending}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-xs text-slate-500">No custom layers yet.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { applyDraftPatch, type AssistantPatchResult, type DraftChange } from "@/lib/api";
+import type { CharacterDefinitionLite } from "@/types";
+
+function show(v: unknown) {
+  if (v === undefined) return "—";
+  const s = typeof v === "string" ? v : JSON.stringify(v);
+  return s.length > 80 ? `${s.slice(0, 77)}…` : s;
+}
+
+function label(c: DraftChange) {
+  const path = c.path.replace(/^\//, "").replace(/\//g, " › ") || "(document)";
+  return c.op === "move" || c.op === "copy" ? `${c.op} ${c.from} → ${path}` : path;
+}
+
+/**
+ * Field-level review of a patch-mode reply: one row per operation with its before/after value.
+ * Accepted operations are applied to `base` on the server and validated before `onApply` sees them.
+ */
+export function PatchReview({ base, result, slug, onApply, onDismiss }: {
+  base: CharacterDefinitionLite;
+  result: AssistantPatchResult;
+  slug?: string;            // saved character: the applied draft is recorded in its history
+  onApply: (draft: CharacterDefinitionLite) => void;
+  onDismiss: () => void;
+}) {
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(result.changes.filter((c) => !c.error).map((c) => c.index)));
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function toggle(i: number) {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  }
+
+  async function apply() {
+    setBusy(true);
+    setErrors(null);
+    try {
+      const res = await applyDraftPatch(base, result.patch.filter((_, i) => accepted.has(i)), slug);
+      if (res.ok && res.draft) onApply(res.draft);
+      else setErrors((res.errors ?? []).map((e) => `${e.instancePath || "/"} ${e.message ?? ""}`));
+    } catch (err: any) {
+      setErrors([String(err?.message ?? err)]);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!result.changes.length) {
+    return (
+      <div className="rounded-xl border border-slate-200 px-3 py-2 text-xs text-slate-500">
+        No changes proposed. <button type="button" className="underline" onClick={onDismiss}>Dismiss</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs space-y-2">
+      <div className="font-medium">Proposed changes</div>
+      <ul className="space-y-1">
+        {result.changes.map((c) => (
+          <li key={c.index} className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={accepted.has(c.index)}
+              disabled={!!c.error}
+              onChange={() => toggle(c.index)}
+            />
+            <div className="min-w-0">
+              <div className="font-mono">
+                <span className="uppercase opacity-60 mr-1">{c.op}</span>
+                {label(c)}
+              </div>
+              {c.error ? (
+                <div className="text-red-600">not applicable: {c.error}</div>
+              ) : (
+                <div className="break-words">
+                  <span className="text-red-700 line-through">{show(c.before)}</span>{" → "}
+                  <span className="text-green-700">{show(c.after)}</span>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {!result.valid && (
+        <div className="text-amber-800">All changes together do not validate; leave out the offending ones.</div>
+      )}
+      {errors && <div className="text-red-600 whitespace-pre-wrap">{errors.join("\n")}</div>}
+      <div className="flex gap-2">
+        <Button type="button" onClick={apply} disabled={busy || !accepted.size}>
+          {busy ? "Applying…" : `Apply ${accepted.size} of ${result.changes.length}`}
+        </Button>
+        <Button type="button" onClick={onDismiss} disabled={busy}>Reject all</Button>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,10 @@ import type { SyntheticEvent } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { getJob, fileUrl, enqueueULPC } from "@/lib/api";
+import { getJob, fileUrl, enqueueULPC, importCharacterAseprite, clearCharacterAsepriteEdits } from "@/lib/api";
 import { ULPCControls, ULPCLayers, AnimationDiagnosticMatrix } from "@/components/ULPCBuildEditor";
+import { CustomLayerLibrary } from "@/components/character/CustomLayerLibrary";
+import { AsepriteImport } from "@/components/AsepriteImport";
 import type { UlpcSheetCatalog, ComposeWarning } from "@/lib/api";
 
 type Props = {
@@ -162,6 +164,12 @@ export function ULPCPanel({ slug, files, buildDraft, onChangeBuild, sheetCatalog
     },
   });
 
+  const hasEdits = normalizedFiles.some(({ normalized }) => /ulpc\/[^/]+\/edited\.png$/.test(normalized));
+  async function refreshAssets() {
+    await qc.invalidateQueries({ queryKey: ["assets", slug] });
+    setBust(Date.now());
+  }
+
   async function handleGenerate() {
     setPending(true);
     try {
@@ -278,6 +286,39 @@ export function ULPCPanel({ slug, files, buildDraft, onChangeBuild, sheetCatalog
           <ULPCLayers value={buildDraft} onChange={onChangeBuild} sheetCatalog={sheetCatalog} warnings={warnings} />
         </div>
 
+        {/* Aseprite round trip (needs a build with output.aseprite) */}
+        <div className="rounded-xl border p-3 bg-slate-50 space-y-2">
+          <div className="text-sm font-medium">Aseprite</div>
+          <div className="text-xs text-slate-500">
+            Edit <code>ulpc/{slug}_aseprite.png</code> with its JSON, re-export both and import them here. Edited animations
+            stay hand-drawn until their edits are cleared.
+          </div>
+          <AsepriteImport
+            onImport={async (json, png) => {
+              const r = await importCharacterAseprite(slug, json, png);
+              onWarnings?.(r.warnings ?? []);
+              await refreshAssets();
+              return r;
+            }}
+          />
+          {hasEdits ? (
+            <Button
+              type="button"
+              onClick={async () => {
+                await clearCharacterAsepriteEdits(slug);
+                await refreshAssets();
+              }}
+            >
+              Clear hand edits
+            </Button>
+          ) : null}
+        </div>
+
+        {/* Custom layer uploads */}
+        <div className="rounded-xl border p-3 bg-slate-50">
+          <CustomLayerLibrary />
+        </div>
+
         {/* Diagnostics */}
         <div className="rounded-xl border p-3 bg-slate-50">
           <AnimationDiagnosticMatrix build={buildDraft} sheetCatalog={sheetCatalog} warnings={warnings} />
@@ -0,0 +1,76 @@
+import { CollapsiblePanel } from "@/components/CollapsiblePanel";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export type EngineProfile = {
+  name?: string;
+  paths?: Record<string, string>;
+  scripts?: Record<string, string>;
+};
+
+// Keys and defaults mirror DEFAULT_ENGINE_PROFILE in @pixelart/godot-res
+const PATHS: Array<{ key: string; label: string; placeholder: string }> = [
+  { key: "character", label: "Character (Creature .tres)", placeholder: "Assets/Characters/{id}" },
+  { key: "characterDefault", label: "Character visuals / SpriteFrames", placeholder: "Assets/Characters/{id}/Default" },
+  { key: "overworldFrames", label: "Overworld frames", placeholder: "Assets/Characters/{id}/Default/ulpc_frames" },
+  { key: "battleAnimations", label: "Battle animations", placeholder: "Assets/Characters/{id}/Default/Animations/Battle" },
+  { key: "charactersIndex", label: "Characters index", placeholder: "Assets/Characters" },
+  { key: "spriteAtlas", label: "Shared sprite atlases", placeholder: "Assets/Characters/Atlases/{id}" },
+  { key: "tileset", label: "Tileset", placeholder: "Assets/Tilesets/{slug}" },
+  { key: "tilesetBundle", label: "Tileset bundle", placeholder: "Assets/TilesetBundles/{id}" },
+  { key: "proceduralTileset", label: "Procedural tileset", placeholder: "Assets/Tilesets/TilesetRessources/{slug}" },
+];
+
+const SCRIPTS: Array<{ key: string; label: string; placeholder: string }> = [
+  { key: "characterVisual", label: "CharacterVisual", placeholder: "res://System/CombatScreen/BattleActors/CharacterVisual.gd" },
+  { key: "creature", label: "Creature", placeholder: "res://System/Creatures/Creature.gd" },
+  { key: "standaloneCreature", label: "Creature (local export)", placeholder: "res://Scripts/Creature.gd" },
+  { key: "overworldPlayer", label: "OverworldPlayer", placeholder: "res://Scripts/OverworldPlayer.gd" },
+];
+
+/**
+ * Godot project layout used by the exporters. Paths are project-relative and accept {id}, {slug}
+ * and {name}; empty fields fall back to the defaults shown as placeholders.
+ */
+export function EngineProfilePanel({
+  value,
+  onChange,
+  defaultOpen = false,
+}: {
+  value: EngineProfile;
+  onChange: (next: EngineProfile) => void;
+  defaultOpen?: boolean;
+}) {
+  const p = value ?? {};
+  const setEntry = (group: "paths" | "scripts", key: string, v: string) => {
+    const next = { ...(p[group] ?? {}) };
+    if (v.trim()) next[key] = v;
+    else delete next[key];
+    onChange({ ...p, [group]: next });
+  };
+
+  return (
+    <CollapsiblePanel title="Engine Profile (Godot layout)" defaultOpen={defaultOpen}>
+      <div className="grid gap-3">
+        <div>
+          <Label>Profile name</Label>
+          <Input value={p.name ?? ""} onChange={(e) => onChange({ ...p, name: e.target.value })} placeholder="default" />
+        </div>
+        <div className="text-xs font-medium text-slate-600">Folders (placeholders: {"{id}"}, {"{slug}"}, {"{name}"})</div>
+        {PATHS.map((f) => (
+          <div key={f.key}>
+            <Label>{f.label}</Label>
+            <Input value={p.paths?.[f.key] ?? ""} onChange={(e) => setEntry("paths", f.key, e.target.value)} placeholder={f.placeholder} />
+          </div>
+        ))}
+        <div className="text-xs font-medium text-slate-600">Scripts</div>
+        {SCRIPTS.map((f) => (
+          <div key={f.key}>
+            <Label>{f.label}</Label>
+            <Input value={p.scripts?.[f.key] ?? ""} onChange={(e) => setEntry("scripts", f.key, e.target.value)} placeholder={f.placeholder} />
+          </div>
+        ))}
+      </div>
+    </CollapsiblePanel>
+  );
+}
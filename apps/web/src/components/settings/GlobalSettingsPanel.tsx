@@ -2,6 +2,7 @@ import { CollapsiblePanel } from "@/components/CollapsiblePanel";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { PalettePicker } from "@/components/PalettePicker";
 
 type Size = { width: number; height: number };
 
@@ -14,7 +15,7 @@ export type GlobalSettings = {
     idle: Size;
     animation_frame: Size;
   };
-  palette_path?: string;
+  palette?: string;
 };
 
 export function GlobalSettingsPanel({
@@ -83,12 +84,12 @@ export function GlobalSettingsPanel({
             />
           </div>
           <div className="sm:col-span-2">
-            <Label htmlFor="palette_path">Palette Path (optional)</Label>
-            <Input
-              id="palette_path"
-              value={value.palette_path ?? ""}
-              onChange={(e) => onChange({ ...value, palette_path: e.target.value })}
-              placeholder="e.g., project/palettes/main.gpl (under /assets)"
+            <Label htmlFor="palette">Default Palette</Label>
+            <PalettePicker
+              id="palette"
+              value={value.palette ?? "roman_steampunk"}
+              onChange={(palette) => onChange({ ...value, palette })}
+              manage
             />
           </div>
         </fieldset>
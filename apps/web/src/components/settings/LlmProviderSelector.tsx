@@ -1,49 +1,101 @@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 
+export type LlmProviderName = "openai" | "openai-chat" | "openai-responses" | "local" | "fake";
+
 export type LlmSettings = {
-  provider?: "openai"; // future: "anthropic", etc.
+  provider?: LlmProviderName;
   chatModel?: string;
-  chatAssistantId?: string;
-  intermediaryAssistantId?: string;
+  chatAssistantId?: string;        // openai (Assistants) only
+  intermediaryAssistantId?: string; // openai (Assistants) only
   apiKey?: string; // optional per-project key
+  baseUrl?: string; // local: OpenAI-compatible endpoint
+  script?: unknown[]; // fake: scripted replies, edited in the settings JSON
+  repairAttempts?: number; // retries of schema-invalid replies (0–5, default 2)
 };
 
+const PROVIDERS: Array<{ value: LlmProviderName; label: string }> = [
+  { value: "openai", label: "OpenAI Assistants" },
+  { value: "openai-chat", label: "OpenAI Chat Completions" },
+  { value: "openai-responses", label: "OpenAI Responses" },
+  { value: "local", label: "Local OpenAI-compatible (Ollama, llama.cpp)" },
+  { value: "fake", label: "Scripted fake (tests)" },
+];
+
 export function LlmProviderSelector({ value, onChange }: { value: LlmSettings; onChange: (next: LlmSettings) => void }) {
   const llm = value ?? {};
+  const provider = llm.provider ?? "openai";
+  const isLocal = provider === "local";
   return (
     <div className="grid gap-3">
       <div className="grid sm:grid-cols-3 gap-2 items-center">
         <Label>Provider</Label>
         <select
           className="border rounded p-2 text-sm sm:col-span-2"
-          value={llm.provider ?? "openai"}
-          onChange={(e) => onChange({ ...llm, provider: e.target.value as any })}
+          value={provider}
+          onChange={(e) => onChange({ ...llm, provider: e.target.value as LlmProviderName })}
         >
-          <option value="openai">OpenAI</option>
+          {PROVIDERS.map((p) => <option key={p.value} value={p.value}>{p.label}</option>)}
         </select>
       </div>
-      <div>
-        <Label>OpenAI API Key (project)</Label>
+      <div className="grid sm:grid-cols-3 gap-2 items-center">
+        <Label title="When a reply fails schema validation, the errors are sent back to the model and it retries">
+          Repair attempts
+        </Label>
         <Input
-          type="password"
-          value={llm.apiKey ?? ""}
-          onChange={(e) => onChange({ ...llm, apiKey: e.target.value })}
-          placeholder="sk-... (optional; otherwise uses server env)"
+          type="number"
+          min={0}
+          max={5}
+          className="sm:col-span-2"
+          value={llm.repairAttempts ?? 2}
+          onChange={(e) => onChange({ ...llm, repairAttempts: Math.max(0, Math.min(5, Math.floor(Number(e.target.value) || 0))) })}
         />
       </div>
-      <div>
-        <Label>Chat Model (fallback)</Label>
-        <Input value={llm.chatModel ?? "gpt-4o-mini"} onChange={(e) => onChange({ ...llm, chatModel: e.target.value })} placeholder="gpt-4o-mini" />
-      </div>
-      <div>
-        <Label>Chat Assistant ID</Label>
-        <Input value={llm.chatAssistantId ?? ""} onChange={(e) => onChange({ ...llm, chatAssistantId: e.target.value })} placeholder="asst_..." />
-      </div>
-      <div>
-        <Label>Intermediary Assistant ID</Label>
-        <Input value={llm.intermediaryAssistantId ?? ""} onChange={(e) => onChange({ ...llm, intermediaryAssistantId: e.target.value })} placeholder="asst_..." />
-      </div>
+      {provider === "fake" ? (
+        <div className="text-xs text-slate-500">
+          Replies come from <code>llm.script</code> in the project settings, one per request ({llm.script?.length ?? 0} scripted).
+        </div>
+      ) : (
+        <>
+          {isLocal && (
+            <div>
+              <Label>Base URL</Label>
+              <Input value={llm.baseUrl ?? ""} onChange={(e) => onChange({ ...llm, baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+            </div>
+          )}
+          <div>
+            <Label>{isLocal ? "API Key (if the server requires one)" : "OpenAI API Key (project)"}</Label>
+            <Input
+              type="password"
+              value={llm.apiKey ?? ""}
+              onChange={(e) => onChange({ ...llm, apiKey: e.target.value })}
+              placeholder={isLocal ? "optional" : "sk-... (optional; otherwise uses server env)"}
+            />
+          </div>
+          {provider !== "openai" && (
+            <div>
+              <Label>{isLocal ? "Model" : "Chat Model"}</Label>
+              <Input
+                value={llm.chatModel ?? (isLocal ? "" : "gpt-4o-mini")}
+                onChange={(e) => onChange({ ...llm, chatModel: e.target.value })}
+                placeholder={isLocal ? "llama3.1" : "gpt-4o-mini"}
+              />
+            </div>
+          )}
+          {provider === "openai" && (
+            <>
+              <div>
+                <Label>Chat Assistant ID</Label>
+                <Input value={llm.chatAssistantId ?? ""} onChange={(e) => onChange({ ...llm, chatAssistantId: e.target.value })} placeholder="asst_..." />
+              </div>
+              <div>
+                <Label>Intermediary Assistant ID</Label>
+                <Input value={llm.intermediaryAssistantId ?? ""} onChange={(e) => onChange({ ...llm, intermediaryAssistantId: e.target.value })} placeholder="asst_..." />
+              </div>
+            </>
+          )}
+        </>
+      )}
     </div>
   );
 }
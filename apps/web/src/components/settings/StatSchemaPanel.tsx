@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { CollapsiblePanel } from "@/components/CollapsiblePanel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { previewStatSchema } from "@/lib/api";
+import type { DerivedStatDef, StatDef, StatSchema } from "@/types";
+
+const optNum = (v: string) => (v.trim() === "" ? undefined : Number(v));
+
+/**
+ * Creature stats written by the Godot export: base stats (range, default) and derived formulas.
+ * Formulas use + - * / % ^, comparisons, `cond ? a : b` and min/max/floor/ceil/round/abs/sqrt/clamp,
+ * and may reference base stats and derived stats listed above them.
+ */
+export function StatSchemaPanel({
+  value,
+  onChange,
+  defaultOpen = false,
+}: {
+  value: StatSchema;
+  onChange: (next: StatSchema) => void;
+  defaultOpen?: boolean;
+}) {
+  const schema: StatSchema = { stats: value?.stats ?? [], derived: value?.derived ?? [] };
+  const [preview, setPreview] = useState<{ derived?: Record<string, number>; error?: string } | null>(null);
+
+  const setStat = (i: number, patch: Partial<StatDef>) =>
+    onChange({ ...schema, stats: schema.stats.map((d, j) => (j === i ? { ...d, ...patch } : d)) });
+  const setDerived = (i: number, patch: Partial<DerivedStatDef>) =>
+    onChange({ ...schema, derived: schema.derived.map((d, j) => (j === i ? { ...d, ...patch } : d)) });
+
+  const runPreview = async () => {
+    try {
+      const r = await previewStatSchema({ stat_schema: schema });
+      setPreview({ derived: r.derived });
+    } catch (e: any) {
+      setPreview({ error: String(e?.message ?? e) });
+    }
+  };
+
+  return (
+    <CollapsiblePanel title="Creature Stats & Formulas" defaultOpen={defaultOpen}>
+      <div className="grid gap-3 text-sm">
+        <div className="text-xs font-medium text-slate-600">Base stats</div>
+        {schema.stats.map((d, i) => (
+          <div key={i} className="grid grid-cols-[1fr_1fr_5rem_5rem_5rem_auto_auto] items-center gap-2">
+            <Input value={d.key} onChange={(e) => setStat(i, { key: e.target.value })} placeholder="key" className="font-mono" />
+            <Input value={d.label ?? ""} onChange={(e) => setStat(i, { label: e.target.value || undefined })} placeholder="Label" />
+            <Input type="number" value={d.min ?? ""} onChange={(e) => setStat(i, { min: optNum(e.target.value) })} placeholder="min" />
+            <Input type="number" value={d.max ?? ""} onChange={(e) => setStat(i, { max: optNum(e.target.value) })} placeholder="max" />
+            <Input type="number" value={d.default ?? ""} onChange={(e) => setStat(i, { default: optNum(e.target.value) })} placeholder="default" />
+            <label className="flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={d.integer === true} onChange={(e) => setStat(i, { integer: e.target.checked })} />
+              int
+            </label>
+            <button type="button" className="text-xs text-red-600" onClick={() => onChange({ ...schema, stats: schema.stats.filter((_, j) => j !== i) })}>
+              Remove
+            </button>
+          </div>
+        ))}
+        <div>
+          <Button type="button" onClick={() => onChange({ ...schema, stats: [...schema.stats, { key: "", min: 0, default: 10, integer: true }] })}>
+            Add stat
+          </Button>
+        </div>
+
+        <div className="text-xs font-medium text-slate-600">Derived stats (evaluated top to bottom)</div>
+        {schema.derived.map((d, i) => (
+          <div key={i} className="grid grid-cols-[1fr_2fr_6rem_auto] items-center gap-2">
+            <Input value={d.key} onChange={(e) => setDerived(i, { key: e.target.value })} placeholder="key" className="font-mono" />
+            <Input value={d.expr} onChange={(e) => setDerived(i, { expr: e.target.value })} placeholder="kinesthetic * 10 + 5" className="font-mono" />
+            <select
+              className="h-9 rounded-md border px-2 text-xs"
+              value={d.round ?? "none"}
+              onChange={(e) => setDerived(i, { round: e.target.value as DerivedStatDef["round"] })}
+            >
+              <option value="none">no rounding</option>
+              <option value="floor">floor</option>
+              <option value="ceil">ceil</option>
+              <option value="round">round</option>
+            </select>
+            <button type="button" className="text-xs text-red-600" onClick={() => onChange({ ...schema, derived: schema.derived.filter((_, j) => j !== i) })}>
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Button type="button" onClick={() => onChange({ ...schema, derived: [...schema.derived, { key: "", expr: "" }] })}>
+            Add derived stat
+          </Button>
+          <Button type="button" onClick={runPreview}>
+            Preview with defaults
+          </Button>
+        </div>
+        {preview?.error && <div className="text-xs text-red-600">{preview.error}</div>}
+        {preview?.derived && (
+          <div className="font-mono text-xs text-slate-700">
+            {Object.entries(preview.derived).map(([k, v]) => `${k} = ${v}`).join(" · ")}
+          </div>
+        )}
+      </div>
+    </CollapsiblePanel>
+  );
+}
@@ -1,5 +1,5 @@
 //Users/alexandredube-cote/entropy/pixelart-backbone/apps/web/src/lib/api.ts
-import type { CharacterDefinitionLite, JobInfo } from "@/types";
+import type { CharacterDefinitionLite, JobInfo, StatSchema } from "@/types";
 
 
 export const API = import.meta.env.VITE_API_BASE ?? "http://localhost:4000";
@@ -22,6 +22,165 @@ export async function assistantTurn(input: {
   return r.json();
 }
 
+export type AssistantStreamHandlers = {
+  /** Chat text as the model writes it */
+  onText?: (delta: string) => void;
+  /** A reply failed validation and is being retried; text streamed so far is void */
+  onRepair?: (attempt: number, errors: AssistantAttempt["errors"]) => void;
+  signal?: AbortSignal;
+};
+
+/** One model reply of a turn, as recorded in the response's debug trace */
+export type AssistantAttempt = {
+  attempt: number;
+  ok: boolean;
+  rawText: string;
+  errors?: Array<{ message?: string; instancePath?: string; keyword?: string }>;
+  provider: string;
+  model?: string;
+};
+
+export type AssistantDebugTrace = { attempts: AssistantAttempt[]; repairs: number };
+
+/** Validation errors of an assistant reply (the `invalid` stream event) */
+export class AssistantPayloadError extends Error {
+  constructor(
+    public readonly errors: Array<{ message?: string; instancePath?: string; keyword?: string }>,
+    public readonly debug?: AssistantDebugTrace
+  ) {
+    super("assistant reply failed validation");
+    this.name = "AssistantPayloadError";
+  }
+}
+
+/** Reads the SSE stream of /assistant/turn/stream until its final `draft` or `patch` event. */
+async function readAssistantStream(body: Record<string, unknown>, handlers: AssistantStreamHandlers): Promise<{ event: string; payload: any }> {
+  const r = await fetch(`${API}/assistant/turn/stream`, {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: "text/event-stream" },
+    body: JSON.stringify(body),
+    signal: handlers.signal,
+  });
+  if (!r.ok || !r.body) {
+    const text = await r.text().catch(() => "");
+    throw new Error(`assistantTurn ${r.status}: ${text}`);
+  }
+
+  const reader = r.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (value) buf += value;
+    let end: number;
+    while ((end = buf.indexOf("\n\n")) >= 0) {
+      const block = buf.slice(0, end);
+      buf = buf.slice(end + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      const payload = data.length ? JSON.parse(data.join("\n")) : {};
+      if (event === "text") handlers.onText?.(payload.delta ?? "");
+      else if (event === "repair") handlers.onRepair?.(payload.attempt, payload.errors);
+      else if (event === "draft" || event === "patch") return { event, payload };
+      else if (event === "invalid") throw new AssistantPayloadError(payload.errors ?? [], payload.debug);
+      else if (event === "error") throw new Error(`assistantTurn: ${payload.message ?? payload.code ?? "stream error"}`);
+    }
+    if (done) throw new Error("assistantTurn: stream ended without a draft");
+  }
+}
+
+/**
+ * Streaming variant of assistantTurn over Server-Sent Events (POST, so read with fetch rather than
+ * EventSource). Resolves with the final validated draft; rejects with AssistantPayloadError when
+ * the reply does not validate.
+ */
+export async function streamAssistantTurn(
+  input: Parameters<typeof assistantTurn>[0],
+  handlers: AssistantStreamHandlers = {}
+): Promise<{ message: string; draft: CharacterDefinitionLite; debug?: AssistantDebugTrace }> {
+  return (await readAssistantStream(input, handlers)).payload;
+}
+
+export type DraftPatchOperation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  value?: unknown;
+  from?: string;
+};
+
+/** One proposed operation with the field's value before and after it */
+export type DraftChange = {
+  index: number;
+  op: DraftPatchOperation["op"];
+  path: string;
+  from?: string;
+  before?: unknown;
+  after?: unknown;
+  error?: string;   // could not apply (e.g. SLUG_LOCKED, OPERATION_PATH_UNRESOLVABLE)
+};
+
+export type AssistantPatchResult = {
+  message: string;
+  patch: DraftPatchOperation[];
+  changes: DraftChange[];
+  draft: CharacterDefinitionLite;   // every applicable operation applied
+  valid: boolean;
+  errors?: Array<{ message?: string; instancePath?: string; keyword?: string }>;
+  debug?: AssistantDebugTrace;
+};
+
+/** Patch-mode turn: the assistant proposes JSON Patch operations against `draft` for review. */
+export async function streamAssistantPatchTurn(
+  input: Parameters<typeof assistantTurn>[0],
+  handlers: AssistantStreamHandlers = {}
+): Promise<AssistantPatchResult> {
+  return (await readAssistantStream({ ...input, mode: "patch" }, handlers)).payload;
+}
+
+/** Applies the accepted operations server-side; `ok: false` carries the validation errors. */
+/** With the `slug` of a saved character the valid result is also recorded in its assistant history. */
+export async function applyDraftPatch(draft: CharacterDefinitionLite, patch: DraftPatchOperation[], slug?: string): Promise<{
+  ok: boolean;
+  draft?: CharacterDefinitionLite;
+  changes: DraftChange[];
+  errors?: Array<{ message?: string; instancePath?: string; keyword?: string }>;
+}> {
+  const r = await fetch(`${API}/assistant/patch/apply`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ draft, patch, slug }),
+  });
+  const json = await r.json().catch(() => null);
+  if (!json || (!r.ok && json.code !== "INVALID_PATCHED_DRAFT")) throw new Error(`applyDraftPatch ${r.status}`);
+  return json;
+}
+
+export type AssistantHistoryTurn = {
+  at: string;
+  user?: string;                      // absent on applied-patch entries
+  assistant?: string;
+  draft?: CharacterDefinitionLite;
+  patch?: DraftPatchOperation[];
+  applied?: DraftPatchOperation[];    // operations the writer accepted; `draft` is the result
+  errors?: Array<{ message?: string; instancePath?: string; keyword?: string }>;
+  provider?: string;
+};
+
+/** Persisted assistant conversation of a character, oldest turn first. */
+export async function getAssistantHistory(slug: string): Promise<AssistantHistoryTurn[]> {
+  const r = await fetch(`${API}/characters/${encodeURIComponent(slug)}/assistant/history`, { cache: "no-store" });
+  if (!r.ok) throw new Error(`getAssistantHistory ${r.status}`);
+  return (await r.json()).turns ?? [];
+}
+
+export async function clearAssistantHistory(slug: string): Promise<void> {
+  const r = await fetch(`${API}/characters/${encodeURIComponent(slug)}/assistant/history`, { method: "DELETE" });
+  if (!r.ok) throw new Error(`clearAssistantHistory ${r.status}`);
+}
+
 export async function updateLiteDef(slug: string, def: any) {
   const res = await fetch(`${API}/characters/${encodeURIComponent(slug)}/defs/lite`, {
     method: "PUT",
@@ -76,6 +235,133 @@ export async function getUlpcSheetDefs(): Promise<UlpcSheetCatalog> {
   return res.json();
 }
 
+// ───────────── Custom layer library (project-local LPC-compatible sheets) ─────────────
+export type CustomLayerInfo = {
+  category: string;        // "custom/<group>"
+  variant: string;
+  name: string;
+  z?: number;
+  animations: string[];
+  credits?: string;
+  updatedAt: string;
+};
+
+export async function listCustomLayers(): Promise<CustomLayerInfo[]> {
+  const r = await fetch(`${API}/ulpc/custom-layers`, { cache: "no-store" });
+  if (!r.ok) throw new Error(`listCustomLayers ${r.status}`);
+  return (await r.json()).layers ?? [];
+}
+
+/** `sheets` are PNGs named after their animation ("walk.png"). */
+export async function uploadCustomLayer(args: { category: string; variant: string; name?: string; z?: number; sheets: File[] }) {
+  const fd = new FormData();
+  fd.append("category", args.category);
+  fd.append("variant", args.variant);
+  if (args.name) fd.append("name", args.name);
+  if (args.z !== undefined) fd.append("z", String(args.z));
+  for (const f of args.sheets) fd.append("sheets", f);
+  const r = await fetch(`${API}/ulpc/custom-layers`, { method: "POST", body: fd });
+  if (!r.ok) {
+    const text = await r.text().catch(() => "");
+    throw new Error(`uploadCustomLayer ${r.status}: ${text}`);
+  }
+  return r.json() as Promise<{ ok: boolean; layer: CustomLayerInfo; warnings: string[] }>;
+}
+
+export async function deleteCustomLayer(category: string, variant: string) {
+  const q = new URLSearchParams({ category, variant });
+  const r = await fetch(`${API}/ulpc/custom-layers?${q}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(`deleteCustomLayer ${r.status}`);
+  return r.json() as Promise<{ ok: boolean }>;
+}
+
+// ───────────── Aseprite round trip ─────────────
+export type AsepriteImportResult = {
+  ok: boolean;
+  matched: number;
+  unmatched: string[];
+  skipped: Array<{ frame: string; reason: string }>;
+};
+
+async function postAseprite(url: string, json: File, png: File) {
+  const fd = new FormData();
+  fd.append("json", json);
+  fd.append("png", png);
+  const r = await fetch(url, { method: "POST", body: fd });
+  if (!r.ok) {
+    const text = await r.text().catch(() => "");
+    throw new Error(`importAseprite ${r.status}: ${text}`);
+  }
+  return r.json();
+}
+
+/** Artist's re-export of ulpc/<slug>_aseprite.png; edited animations are kept over the layers. */
+export async function importCharacterAseprite(slug: string, json: File, png: File) {
+  return postAseprite(`${API}/characters/${encodeURIComponent(slug)}/ulpc/aseprite/import`, json, png) as Promise<
+    AsepriteImportResult & { animations: string[]; warnings: ComposeWarning[] }
+  >;
+}
+
+export async function clearCharacterAsepriteEdits(slug: string, animation?: string) {
+  const q = animation ? `?${new URLSearchParams({ animation })}` : "";
+  const r = await fetch(`${API}/characters/${encodeURIComponent(slug)}/ulpc/aseprite/edits${q}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(`clearCharacterAsepriteEdits ${r.status}`);
+  return r.json() as Promise<{ ok: boolean; cleared: string[] }>;
+}
+
+export type PreviewFormat = "apng" | "gif" | "webp";
+
+// previews.json written by POST /characters/:slug/previews (or a build with output.previews)
+export type CharacterPreviewIndex = {
+  schema: "ulpc.previews/1.0";
+  slug: string;
+  scale: number;
+  formats: PreviewFormat[];
+  previews: Record<string, {
+    animation: string;
+    fps: number;
+    loop: boolean;
+    frames: number;
+    size: { w: number; h: number };
+    files: Partial<Record<PreviewFormat, string>>;   // under previews/
+  }>;
+};
+
+// null when nothing was rendered yet
+export async function getCharacterPreviews(slug: string): Promise<CharacterPreviewIndex | null> {
+  const r = await fetch(`${API}/characters/${encodeURIComponent(slug)}/previews`);
+  if (r.status === 404) return null;
+  if (!r.ok) throw new Error(`getCharacterPreviews ${r.status}`);
+  return (await r.json()).index as CharacterPreviewIndex;
+}
+
+// Renders animated previews of every animation/orientation; scale defaults to the project's pixel_scale
+export async function renderCharacterPreviews(slug: string, body: { formats?: PreviewFormat[]; scale?: number } = {}) {
+  const r = await fetch(`${API}/characters/${encodeURIComponent(slug)}/previews`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const j = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(j?.reason ? `${j.error}: ${j.reason}` : j?.error ?? `renderCharacterPreviews ${r.status}`);
+  return j.index as CharacterPreviewIndex;
+}
+
+export async function exportTilesetAseprite(slug: string) {
+  const r = await fetch(`${API}/tilesets/${encodeURIComponent(slug)}/aseprite/export`, { method: "POST" });
+  if (!r.ok) {
+    const text = await r.text().catch(() => "");
+    throw new Error(`exportTilesetAseprite ${r.status}: ${text}`);
+  }
+  return r.json() as Promise<{ ok: boolean; image: string; json: string; frames: number }>;
+}
+
+export async function importTilesetAseprite(slug: string, json: File, png: File) {
+  return postAseprite(`${API}/tilesets/${encodeURIComponent(slug)}/aseprite/import`, json, png) as Promise<
+    AsepriteImportResult & { sheet: string; tiles: string[] }
+  >;
+}
+
 export async function enqueuePortrait(slug: string): Promise<{ jobId: string }> {
   const res = await fetch(`${API}/pipeline/${encodeURIComponent(slug)}/portrait`, {
     method: "POST",
@@ -259,18 +545,13 @@ export async function exportGodot(
   slug: string,
   payload: {
     name: string;
-    classTag: string;
-    numericId: number;
-    stats: {
-      creature_affinity: number;
-      chaos_mastery: number;
-      kinesthetic: number;
-      lucidity: number;
-      terrain_control: number;
-    };
+    classTag?: string;               // else kept from characters_index
+    numericId?: number;
+    stats: Record<string, number>;   // validated against the project's stat schema
     defaultFpsBattle: number;
     defaultFpsOverworld: number;
     writeBattleVisual?: boolean;
+    atlas?: boolean | string;        // SpriteFrames from a packed atlas: true packs this character, a name uses packSpriteAtlas
   }
 ): Promise<{ ok: true }> {
   const res = await fetch(`${API}/characters/${encodeURIComponent(slug)}/export-godot`, {
@@ -282,6 +563,57 @@ export async function exportGodot(
   return res.json();
 }
 
+export type BatchExportResult = {
+  slug: string;
+  ok: boolean;
+  numericId?: number;
+  partial?: boolean;
+  error?: string;
+  errors?: string[];
+};
+
+// Exports every character (or `slugs`) and rewrites characters_index.json/.tres; 409 on numericId collisions
+export async function exportCharactersToGodot(body: { slugs?: string[]; writeBattleVisual?: boolean; atlas?: boolean | string }) {
+  const r = await fetch(`${API}/characters/export-godot`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const j = await r.json().catch(() => ({}));
+  if (r.status === 409 && Array.isArray(j?.collisions)) {
+    const groups = j.collisions.map((c: { numericId: number; ids: string[] }) => `${c.numericId}: ${c.ids.join(", ")}`);
+    throw new Error(`numericId collisions — ${groups.join("; ")}`);
+  }
+  if (!r.ok && r.status !== 207) throw new Error(j?.message ?? `exportCharactersToGodot ${r.status}`);
+  return j as { ok: true; exported: number; failed: number; results: BatchExportResult[]; index: { count: number } };
+}
+
+export type AtlasSettings = { maxSize: number; padding: number; extrude: number; trim: boolean; pot: boolean };
+
+// Packs the composed ULPC frames of `slugs` (default: all characters) into the shared atlas `name`
+export async function packSpriteAtlas(body: { name: string; slugs?: string[]; settings?: Partial<AtlasSettings> }) {
+  const r = await fetch(`${API}/atlases`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const j = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(j?.message ?? `packSpriteAtlas ${r.status}`);
+  return j as { ok: true; descriptor: string; pages: Array<{ file: string; w: number; h: number }>; sprites: number; missing: string[] };
+}
+
+// Derived stats for sample values; `stat_schema` defaults to the saved one
+export async function previewStatSchema(body: { stat_schema?: StatSchema; stats?: Record<string, number> }) {
+  const r = await fetch(`${API}/project/stat-schema/preview`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const j = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error((j?.errors ?? [j?.error ?? `previewStatSchema ${r.status}`]).join("; "));
+  return j as { ok: true; stats: Record<string, number>; derived: Record<string, number> };
+}
+
 // ───────────── Tileset API (mirrors character assets) ─────────────
 export async function listTilesets(): Promise<{ ok: boolean; slugs: string[] }> {
   const r = await fetch(`${API}/tilesets`, { cache: "no-store" });
@@ -318,7 +650,7 @@ export async function getPatterns() {
 const r = await fetch(`${API}/tileset-patterns`);
 if (!r.ok) throw new Error("patterns_fetch_failed");
 const j = await r.json();
-return j.patterns as Array<{ id: string; displayName: string; tileSize: number; grid: { cols: number; rows: number }; slots: number; docs?: string }>
+return j.patterns as Array<{ id: string; displayName: string; tileSize: number; grid: { cols: number; rows: number }; slots: number; builtin?: boolean; docs?: string }>
 }
 
 
@@ -342,7 +674,10 @@ export async function getTilesetMeta(slug: string) {
 }
 
 
-export async function enqueueTileset(args: { slug: string; pattern: string; material?: string; mode?: "direct"|"mask"; paletteName?: string }) {
+export type ColorDistance = "rgb" | "lab76" | "lab2000" | "oklab";
+export type DitherMode = "none" | "bayer2" | "bayer4" | "bayer8" | "floyd_steinberg" | "pattern";
+
+export async function enqueueTileset(args: { slug: string; pattern: string; material?: string; mode?: "direct"|"mask"; paletteName?: string; colorDistance?: ColorDistance; dither?: DitherMode; ditherStrength?: number }) {
 const { slug, ...body } = args;
 const r = await fetch(`${API}/tilesets/${encodeURIComponent(slug)}/enqueue`, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
 if (!r.ok) throw new Error(`enqueue_failed_${r.status}`);
@@ -406,7 +741,7 @@ if (!r.ok) throw new Error(`crop_failed_${r.status}`);
 return r.json();
 }
 
-export async function updateTilesetMeta(slug: string, meta: { pattern?: string; materials_text?: string; palette_text?: string; interface_text?: string; materials_ab?: { A: { name: string; vehicles?: string[] }; B: { name: string; vehicles?: string[] } } }) {
+export async function updateTilesetMeta(slug: string, meta: { pattern?: string; palette?: string; materials_text?: string; palette_text?: string; interface_text?: string; materials_ab?: { A: { name: string; vehicles?: string[] }; B: { name: string; vehicles?: string[] } } }) {
   const url = `${API}/tilesets/${encodeURIComponent(slug)}/meta`;
   const r = await fetch(url, {
     method: "PUT",
@@ -455,7 +790,7 @@ export async function generateTilesetTexture(slug: string, slot: "A"|"B"|"transi
   return r.json() as Promise<{ ok: boolean; file: string }>;
 }
 
-export async function generateProceduralTileset(slug: string, settings: { tileSize?: number; bandWidth?: number; cornerStyle?: "stepped"|"quarter"|"square"; transitionMode?: "texture"; textureScale?: number; lineStyle?: "straight_line"|"wavy_smooth"|"craggy"|"zigzag" }) {
+export async function generateProceduralTileset(slug: string, settings: { tileSize?: number; bandWidth?: number; cornerStyle?: "stepped"|"quarter"|"square"; transitionMode?: "texture"; textureScale?: number; lineStyle?: "straight_line"|"wavy_smooth"|"craggy"|"zigzag"; variants?: number; variantWeights?: number[]; animation?: { frames: number; mode?: "scroll"|"phase"; material?: "A"|"B"|"both"; amplitude?: number; duration?: number; durations?: number[] }; paletteName?: string }) {
   const r = await fetch(`${API}/tilesets/${encodeURIComponent(slug)}/procedural/generate`, {
     method: "POST",
     headers: { "content-type": "application/json" },
@@ -465,8 +800,38 @@ export async function generateProceduralTileset(slug: string, settings: { tileSi
   return r.json() as Promise<{ ok: boolean; jobId: string }>;
 }
 
+// ───────────── Palettes API ─────────────
+export type PaletteInfo = { id: string; name: string; builtin: boolean; source?: string; colors: string[] };
+
+export async function listPalettes() {
+  const r = await fetch(`${API}/palettes`, { cache: "no-store" });
+  if (!r.ok) throw new Error(`palettes_fetch_failed_${r.status}`);
+  const j = await r.json();
+  return j.palettes as PaletteInfo[];
+}
+
+// Upload a GIMP .gpl, Lospec .hex or JASC .pal file (format from the extension)
+export async function importPalette(file: File, opts?: { id?: string; name?: string }) {
+  const fd = new FormData();
+  fd.append("file", file);
+  if (opts?.id) fd.append("id", opts.id);
+  if (opts?.name) fd.append("name", opts.name);
+  const r = await fetch(`${API}/palettes/import`, { method: "POST", body: fd });
+  if (!r.ok) {
+    const text = await r.text().catch(() => "");
+    throw new Error(`importPalette ${r.status}: ${text}`);
+  }
+  return r.json() as Promise<{ ok: boolean; palette: PaletteInfo }>;
+}
+
+export async function deletePalette(id: string) {
+  const r = await fetch(`${API}/palettes/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!r.ok) throw new Error(`deletePalette ${r.status}`);
+  return r.json() as Promise<{ ok: boolean; id: string }>;
+}
+
 // ───────────── Scene Assets API ─────────────
-export async function generateSceneAsset(args: { name?: string; category?: string; description: string; size?: string }) {
+export async function generateSceneAsset(args: { name?: string; category?: string; description: string; size?: string; palette?: string; colorDistance?: ColorDistance; dither?: DitherMode; ditherStrength?: number }) {
   const r = await fetch(`${API}/scene-assets/generate`, {
     method: "POST",
     headers: { "content-type": "application/json" },
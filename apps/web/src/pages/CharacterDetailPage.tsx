@@ -10,6 +10,8 @@ import { Button } from "@/components/ui/button";
 import { PortraitsPanel } from "@/components/character/PortraitsPanel";
 import { CharacterForm } from "@/components/character/CharacterForm";
 import { ULPCPanel } from "@/components/character/ULPCPanel";
+import { AnimationPreviews } from "@/components/character/AnimationPreviews";
+import { AssistantChatPanel } from "@/components/character/AssistantChatPanel";
 import AssistantIntermediaryPanel from "@/components/AssistantIntermediaryPanel";
 import IntermediaryInspector from "@/components/IntermediaryInspector";
 import { exportGodot } from "@/lib/api";
@@ -66,13 +68,7 @@ export default function CharacterDetailPage() {
       // ensure stats exists (UI + save consistency)
       const withStats: CharacterDefinitionLite = {
         ...d,
-        stats: d.stats ?? {
-          creature_affinity: 10,
-          chaos_mastery: 10,
-          kinesthetic: 10,
-          lucidity: 10,
-          terrain_control: 10,
-        },
+        stats: d.stats ?? {},
       };
 
       setForm(withStats);
@@ -175,20 +171,12 @@ export default function CharacterDetailPage() {
 const exportM = useMutation({
   mutationFn: async () => {
     if (!form) throw new Error("No form loaded");
-    const idNum =
-      Number((form.identity as any)?.char_id ?? 0) || Date.now();
-
+    // classTag and numericId are not part of the lite def: the server keeps the ones from
+    // characters_index or assigns defaults / the next free id
     return exportGodot(slug, {
       name: displayName,
-      classTag: (form.identity as any)?.class_tag ?? "Shaper",
-      numericId: idNum,
-      stats: {
-        creature_affinity: form.stats?.creature_affinity ?? 10,
-        chaos_mastery: form.stats?.chaos_mastery ?? 10,
-        kinesthetic: form.stats?.kinesthetic ?? 10,
-        lucidity: form.stats?.lucidity ?? 10,
-        terrain_control: form.stats?.terrain_control ?? 10
-      },
+      // missing stats fall back to the stat schema defaults on the server
+      stats: form.stats ?? {},
       defaultFpsBattle: 12,
       defaultFpsOverworld: 8,
       writeBattleVisual: false
@@ -256,6 +244,7 @@ const exportM = useMutation({
   
   async function refreshAssets() {
     await qc.invalidateQueries({ queryKey: ["assets", slug] });
+    await qc.invalidateQueries({ queryKey: ["previews", slug] });
   }
 
   async function handleDeleteCharacter() {
@@ -323,6 +312,19 @@ const exportM = useMutation({
         )}
       </CollapsibleCard>
 
+      <CollapsibleCard title="Refine with Assistant" defaultOpen={false}>
+        <AssistantChatPanel
+          slug={slug}
+          draft={form}
+          onDraft={(d) => {
+            setForm(d);
+            setTraitsText((d.personality?.traits ?? []).join(", "));
+            setValuesText((d.personality?.values ?? []).join(", "));
+            setFeaturesText((d.physical?.distinctive_features ?? []).join(", "));
+          }}
+        />
+      </CollapsibleCard>
+
       {/* Portrait + Assistant Intermediary (collapsible group) */}
       <CollapsibleCard title="Art & Intermediary">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -377,6 +379,10 @@ const exportM = useMutation({
           </button>
         </div>
       </CollapsibleCard>
+
+      <CollapsibleCard title="Animation Previews" defaultOpen={false}>
+        <AnimationPreviews slug={slug} />
+      </CollapsibleCard>
     </div>
   );
 }
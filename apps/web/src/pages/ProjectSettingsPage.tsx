@@ -10,6 +10,9 @@ import { ImageSettingsPanel } from "@/components/settings/ImageSettingsPanel";
 import { LlmSettingsPanel } from "@/components/settings/LlmSettingsPanel";
 import { GlobalSettingsPanel, type GlobalSettings } from "@/components/settings/GlobalSettingsPanel";
 import { TilesetPromptDefaultsPanel, type PromptDefaults } from "@/components/settings/TilesetPromptDefaultsPanel";
+import { EngineProfilePanel, type EngineProfile } from "@/components/settings/EngineProfilePanel";
+import { StatSchemaPanel } from "@/components/settings/StatSchemaPanel";
+import type { StatSchema } from "@/types";
 
 type ProjectSettings = {
   project_name?: string;
@@ -20,7 +23,7 @@ type ProjectSettings = {
     idle: { width: number; height: number };
     animation_frame: { width: number; height: number };
   };
-  palette_path?: string;
+  palette?: string;
   // Tileset prompt defaults (v2)
   promptDefaults?: PromptDefaults;
   images?: {
@@ -40,6 +43,8 @@ type ProjectSettings = {
     };
   };
   llm?: LlmSettings;
+  engine_profile?: EngineProfile;
+  stat_schema?: StatSchema;
 };
 
 export default function ProjectSettingsPage() {
@@ -96,6 +101,18 @@ export default function ProjectSettingsPage() {
             onChange={(next) => setForm({ ...form!, llm: next })}
             defaultOpen={false}
           />
+
+          <EngineProfilePanel
+            value={(form!.engine_profile ?? {}) as EngineProfile}
+            onChange={(next) => setForm({ ...form!, engine_profile: next })}
+            defaultOpen={false}
+          />
+
+          <StatSchemaPanel
+            value={(form!.stat_schema ?? { stats: [], derived: [] }) as StatSchema}
+            onChange={(next) => setForm({ ...form!, stat_schema: next })}
+            defaultOpen={false}
+          />
         </div>
       )}
     </div>
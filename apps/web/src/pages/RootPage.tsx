@@ -2,6 +2,7 @@ import { Link } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { listCharacters, listTilesets, listSceneAssets } from "@/lib/api";
+import { BatchGodotExport } from "@/components/character/BatchGodotExport";
 
 export default function RootPage() {
   const charsQ = useQuery({ queryKey: ["characters"], queryFn: listCharacters });
@@ -57,6 +58,8 @@ export default function RootPage() {
         </div>
       </section>
 
+      <BatchGodotExport slugs={charsQ.data?.slugs ?? []} />
+
       {/* (Character library removed from root; see /characters/new to create) */}
     </div>
   );
@@ -5,7 +5,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { generateSceneAsset, listSceneAssets, sceneAssetUrl } from "@/lib/api";
+import { PalettePicker } from "@/components/PalettePicker";
+import { generateSceneAsset, getProjectSettings, listSceneAssets, sceneAssetUrl, type ColorDistance, type DitherMode } from "@/lib/api";
 
 export default function ScenesPage() {
   const qc = useQueryClient();
@@ -15,6 +16,12 @@ export default function ScenesPage() {
   const [description, setDescription] = useState("");
   const [latest, setLatest] = useState<string | null>(null);
   const [bust, setBust] = useState<number>(0);
+  // null until the user picks one: follow the project default palette
+  const [palettePick, setPalettePick] = useState<string | null>(null);
+  const projectQ = useQuery({ queryKey: ["projectSettings"], queryFn: getProjectSettings });
+  const palette = palettePick ?? ((projectQ.data as any)?.settings?.palette || "");
+  const [colorDistance, setColorDistance] = useState<ColorDistance>("oklab");
+  const [dither, setDither] = useState<DitherMode>("none");
 
   const listQ = useQuery({
     queryKey: ["sceneAssets", category],
@@ -22,7 +29,7 @@ export default function ScenesPage() {
   });
 
   const mGen = useMutation({
-    mutationFn: async () => generateSceneAsset({ name: name || undefined, category: category || undefined, description, size }),
+    mutationFn: async () => generateSceneAsset({ name: name || undefined, category: category || undefined, description, size, ...(palette ? { palette, colorDistance, dither } : {}) }),
     onSuccess: (res) => {
       setLatest(res.url);
       setBust(Date.now());
@@ -61,6 +68,34 @@ export default function ScenesPage() {
                   <option>auto</option>
                 </select>
               </div>
+              <div>
+                <div className="text-[11px] text-slate-600 mb-1">Palette (quantizes the result)</div>
+                <PalettePicker value={palette} onChange={setPalettePick} allowNone noneLabel="(none — keep generated colors)" />
+              </div>
+              {palette && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <div className="text-[11px] text-slate-600 mb-1">Color distance</div>
+                    <select className="border rounded p-2 text-sm w-full" value={colorDistance} onChange={(e) => setColorDistance(e.target.value as ColorDistance)}>
+                      <option value="rgb">RGB</option>
+                      <option value="lab76">CIELAB ΔE76</option>
+                      <option value="lab2000">CIELAB ΔE2000</option>
+                      <option value="oklab">OKLab</option>
+                    </select>
+                  </div>
+                  <div>
+                    <div className="text-[11px] text-slate-600 mb-1">Dithering</div>
+                    <select className="border rounded p-2 text-sm w-full" value={dither} onChange={(e) => setDither(e.target.value as DitherMode)}>
+                      <option value="none">none</option>
+                      <option value="bayer2">Bayer 2×2</option>
+                      <option value="bayer4">Bayer 4×4</option>
+                      <option value="bayer8">Bayer 8×8</option>
+                      <option value="floyd_steinberg">Floyd–Steinberg</option>
+                      <option value="pattern">pattern</option>
+                    </select>
+                  </div>
+                </div>
+              )}
               <div>
                 <div className="text-[11px] text-slate-600 mb-1">Description</div>
                 <Textarea rows={6} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Describe the scene asset (e.g., Small broken column prop, top-down, pixel art, etc.)" />
@@ -7,6 +7,8 @@ import { BackHeader } from "@/components/BackHeader";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { PalettePicker } from "@/components/PalettePicker";
+import { AsepriteImport } from "@/components/AsepriteImport";
 
 import {
   API,
@@ -20,6 +22,8 @@ import {
   getProjectSettings,
   updateTilesetMeta,
   exportTilesetGodot,
+  exportTilesetAseprite,
+  importTilesetAseprite,
   uploadTilesetTexture,
   deleteTilesetTexture,
   generateTilesetTexture,
@@ -285,9 +289,10 @@ export default function TilesetEditPage() {
     // Primary (manual route)
     const primary = tileRelPath(patternId, r, c);
     if (files.includes(primary)) return primary;
-    // Coast16 procedural fallback: tiles_32/NN_...._32.png where NN is row-major index
-    if (patternId === "coast16") {
-      const idx = r * cols + c;
+    // Procedural fallback: tiles_32/NN_...._32.png where NN is the slot id
+    // (row-major index for coast16, index + 1 for blob47)
+    if (patternId === "coast16" || patternId === "blob47") {
+      const idx = r * cols + c + (patternId === "blob47" ? 1 : 0);
       const prefix = `tiles_32/${String(idx).padStart(2, "0")}_`;
       const hit = files.find((f) => f.startsWith(prefix) && f.endsWith("_32.png"));
       if (hit) return hit;
@@ -362,6 +367,9 @@ export default function TilesetEditPage() {
   const [procPending, setProcPending] = useState<boolean>(false);
   const [procStatus, setProcStatus] = useState<string>("");
   const [procLineStyle, setProcLineStyle] = useState<"straight_line"|"wavy_smooth"|"craggy"|"zigzag">("straight_line");
+  const [procVariants, setProcVariants] = useState<number>(1);
+  const [procFrames, setProcFrames] = useState<number>(1);
+  const [procAnimMode, setProcAnimMode] = useState<"scroll"|"phase">("scroll");
 
   // Procedural Textures panel helpers
   function textureRel(slot: "A"|"B"|"transition"): string {
@@ -596,6 +604,15 @@ export default function TilesetEditPage() {
         <div className="text-sm text-slate-600">
           Pattern: <span className="font-medium">{patternInfo.displayName}</span>{" "}
           <span className="text-slate-500">({cols}×{rows}, {patternInfo.slots} slots)</span>
+          <div className="mt-1 w-72" title="Palette used when the worker quantizes or records this tileset">
+            <PalettePicker
+              value={paletteName ?? ((projectQ.data as any)?.settings?.palette || "roman_steampunk")}
+              onChange={async (palette) => {
+                await updateTilesetMeta(slug, { palette });
+                qc.invalidateQueries({ queryKey: ["tilesetMeta", slug] });
+              }}
+            />
+          </div>
         </div>
         <div className="flex gap-2">
           <Button
@@ -777,10 +794,10 @@ export default function TilesetEditPage() {
         </CardContent>
       </Card>
 
-      {/* Procedural Coast16 Settings */}
+      {/* Procedural Settings (coast16 / blob47) */}
       <Card>
         <CardContent className="p-4 space-y-3">
-          <div className="font-medium">Procedural Coast16</div>
+          <div className="font-medium">Procedural {patternId === "blob47" ? "Blob47" : "Coast16"}</div>
           <div className="grid grid-cols-4 gap-3 text-sm">
             <div>
               <div className="text-[11px] text-slate-600 mb-1">Band width (px)</div>
@@ -807,6 +824,25 @@ export default function TilesetEditPage() {
               <div className="text-[11px] text-slate-600 mb-1">Texture scale</div>
               <Input type="number" step="0.1" value={procScale} onChange={(e) => setProcScale(Math.max(0.1, Number(e.target.value) || 1))} />
             </div>
+            <div>
+              <div className="text-[11px] text-slate-600 mb-1">Variants per tile</div>
+              <Input type="number" min={1} max={8} value={procVariants} onChange={(e) => setProcVariants(Math.min(8, Math.max(1, Math.floor(Number(e.target.value)) || 1)))} />
+            </div>
+            {patternId !== "blob47" && (
+              <>
+                <div>
+                  <div className="text-[11px] text-slate-600 mb-1">Animation frames (B)</div>
+                  <Input type="number" min={1} max={8} value={procFrames} onChange={(e) => setProcFrames(Math.min(8, Math.max(1, Math.floor(Number(e.target.value)) || 1)))} />
+                </div>
+                <div>
+                  <div className="text-[11px] text-slate-600 mb-1">Animation mode</div>
+                  <select className="border rounded px-2 py-2 w-full" value={procAnimMode} onChange={(e) => setProcAnimMode(e.target.value as any)}>
+                    <option value="scroll">scroll</option>
+                    <option value="phase">phase</option>
+                  </select>
+                </div>
+              </>
+            )}
           </div>
           <div className="flex items-center gap-3">
             <Button onClick={async () => {
@@ -814,7 +850,7 @@ export default function TilesetEditPage() {
                 setProcPending(true);
                 setProcStatus("Queued…");
                 const { generateProceduralTileset, getJob } = await import("@/lib/api");
-                const r = await generateProceduralTileset(slug, { bandWidth: procBand, cornerStyle: procCorner, textureScale: procScale, transitionMode: "texture", tileSize: 32, lineStyle: procLineStyle });
+                const r = await generateProceduralTileset(slug, { bandWidth: procBand, cornerStyle: procCorner, textureScale: procScale, transitionMode: "texture", tileSize: 32, lineStyle: procLineStyle, variants: procVariants, ...(patternId !== "blob47" && procFrames > 1 ? { animation: { frames: procFrames, mode: procAnimMode } } : {}) });
                 const jobId = r.jobId;
                 // simple poll
                 let finished = false;
@@ -949,7 +985,29 @@ export default function TilesetEditPage() {
             >
               Save Traversal
             </Button>
+            <Button
+              className="border bg-white hover:bg-slate-50"
+              onClick={async () => {
+                try {
+                  const r = await exportTilesetAseprite(slug);
+                  qc.invalidateQueries({ queryKey: ["tilesetAssets", slug] });
+                  alert(`Aseprite JSON written: ${r.json} (${r.frames} frames on ${r.image})`);
+                } catch (e: any) {
+                  alert(String(e?.message ?? e));
+                }
+              }}
+            >
+              Export Aseprite JSON
+            </Button>
           </div>
+          <AsepriteImport
+            label="Import tiles from Aseprite"
+            onImport={async (json, png) => {
+              const r = await importTilesetAseprite(slug, json, png);
+              qc.invalidateQueries({ queryKey: ["tilesetAssets", slug] });
+              return r;
+            }}
+          />
           {exportResult ? (
             <div className="text-xs text-slate-700 space-y-1">
               <div>Sheet: <code>{exportResult.atlas}</code> • Tres: <code>{exportResult.tres}</code> • Rules: <code>{exportResult.rulesSource}</code></div>
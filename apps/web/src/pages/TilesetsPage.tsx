@@ -8,6 +8,7 @@ import { BackHeader } from "@/components/BackHeader";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { PalettePicker } from "@/components/PalettePicker";
 
 import {
   listTilesets,
@@ -41,6 +42,7 @@ type PatternInfo = {
   tileSize: number;
   grid: { cols: number; rows: number };
   slots: number;
+  builtin?: boolean; // false for user-registered layouts
   docs?: string;
 };
 
@@ -282,6 +284,7 @@ function TilesetCreator(props: {
   const [name, setName] = useState("");
   const [mode, setMode] = useState<"direct" | "mask">("direct");
   const [pattern, setPattern] = useState<string>("blob47");
+  const [palette, setPalette] = useState<string>(""); // "" → project default (resolved by the API)
 
   useEffect(() => {
     if (!name) setName("grass-01");
@@ -327,7 +330,7 @@ function TilesetCreator(props: {
               {(patterns.length ? patterns : [{ id: "blob47", displayName: "Blob 47", grid: { cols: 8, rows: 6 }, tileSize: 32, slots: 47 }]).map(
                 (p) => (
                   <option key={p.id} value={p.id}>
-                    {p.displayName ?? p.id}
+                    {p.displayName ?? p.id}{p.builtin === false ? " (custom)" : ""}
                   </option>
                 )
               )}
@@ -349,6 +352,12 @@ function TilesetCreator(props: {
               <option value="mask">Mask-first</option>
             </select>
           </div>
+
+          {/* Palette */}
+          <div className="space-y-1">
+            <label className="text-xs text-slate-600">Palette</label>
+            <PalettePicker value={palette} onChange={setPalette} allowNone noneLabel="(project default)" />
+          </div>
         </div>
 
         {/* Pattern info hint */}
@@ -366,7 +375,7 @@ function TilesetCreator(props: {
               alert("Enter a valid name");
               return;
             }
-            onQueue({ slug, pattern: pattern || "blob47", mode, paletteName: "roman_steampunk" });
+            onQueue({ slug, pattern: pattern || "blob47", mode, paletteName: palette || undefined });
             onCreate(slug);
           }}
           disabled={enqueuePending}
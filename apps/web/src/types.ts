@@ -70,12 +70,29 @@ export interface CharacterPhysical {
   aesthetic_vibe?: string;
 }
 
-export interface CharacterStats {
-  creature_affinity: number;
-  chaos_mastery: number;
-  kinesthetic: number;
-  lucidity: number;
-  terrain_control: number;
+// Base stats keyed as declared by the project's stat schema (project settings `stat_schema`)
+export type CharacterStats = Record<string, number>;
+
+export interface StatDef {
+  key: string;
+  label?: string;
+  min?: number;
+  max?: number;
+  default?: number;
+  integer?: boolean;
+}
+
+export interface DerivedStatDef {
+  key: string;
+  expr: string;
+  round?: "none" | "floor" | "ceil" | "round";
+  min?: number;
+  max?: number;
+}
+
+export interface StatSchema {
+  stats: StatDef[];
+  derived: DerivedStatDef[];
 }
 
 export interface CharacterDefinitionLite {
@@ -84,5 +101,5 @@ export interface CharacterDefinitionLite {
   identity: CharacterIdentity;
   personality: CharacterPersonality;
   physical: CharacterPhysical;
-  stats: CharacterStats;
+  stats?: CharacterStats;           // missing keys use the stat schema defaults
 }
\ No newline at end of file
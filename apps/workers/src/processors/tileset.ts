@@ -1,19 +1,72 @@
 import path from "node:path";
 import fs from "node:fs/promises";
 import { createLogger } from "@pixelart/log";
-import { tilesetDir, ensureDir } from "@pixelart/config";
-import { generateBlob47Tileset, generateBlob47MaskFirst, generateCoast16Tileset, generateCoast16Procedural, hasPattern } from "@pixelart/tileset-compose";
+import { tilesetDir, ensureDir, TILESET_PATTERN_ROOT, PALETTE_ROOT, readProjectSettings } from "@pixelart/config";
+import {
+  hasPattern, getPattern, patternHandler, loadUserPatterns, loadUserPalettes, tilesetAsepriteLayout,
+  type TilesetPatternId, type ColorDistance, type DitherMode, type ProceduralInputs, type TilesetComposeResult,
+} from "@pixelart/tileset-compose";
+import { validateEngineProfile, type EngineProfileInput } from "@pixelart/godot-res";
+import { renderAsepriteSheet, writeAsepriteSheet } from "@pixelart/sprite-compose";
 
 
 const log = createLogger("@workers/tileset");
 
 
+// Procedural inputs: textures from meta.procedural_textures, settings from meta + job overrides
+async function readProceduralInputs(outDir: string, data: any): Promise<ProceduralInputs> {
+  const metaPath = path.join(outDir, "meta.json");
+  let meta: any = {};
+  try { meta = JSON.parse(await fs.readFile(metaPath, "utf8")); } catch {}
+  const pt = meta?.procedural_textures || {};
+  const ps = { tileSize: 32, bandWidth: 4, cornerStyle: "stepped", transitionMode: "texture", textureScale: 1.0, lineStyle: (meta?.procedural_settings as any)?.lineStyle || data?.proceduralSettings?.lineStyle || "straight_line", paletteName: data?.paletteName || meta?.palette || undefined, ...(meta?.procedural_settings || {}), ...data?.proceduralSettings } as any;
+
+  const texA = typeof pt?.materialA === "string" ? pt.materialA : null;
+  const texB = typeof pt?.materialB === "string" ? pt.materialB : null;
+  const texT = typeof pt?.transition === "string" ? pt.transition : null;
+
+  // Log resolved paths and existence
+  try {
+    const rpA = texA ? path.resolve(outDir, texA) : null;
+    const rpB = texB ? path.resolve(outDir, texB) : null;
+    const rpT = texT ? path.resolve(outDir, texT) : null;
+    const exA = rpA ? await fs.access(rpA).then(() => true).catch(() => false) : false;
+    const exB = rpB ? await fs.access(rpB).then(() => true).catch(() => false) : false;
+    const exT = rpT ? await fs.access(rpT).then(() => true).catch(() => false) : false;
+    const line = `${new Date().toISOString()} worker_proc_paths A=${rpA || 'none'}:${exA} B=${rpB || 'none'}:${exB} T=${rpT || 'none'}:${exT} settings=${JSON.stringify(ps)}\n`;
+    await fs.appendFile(path.join(outDir, "debug.log"), line, "utf8");
+  } catch {}
+  const project = await readProjectSettings().catch(() => ({} as Record<string, unknown>));
+  const profileErrors = validateEngineProfile(project.engine_profile);
+  if (profileErrors.length) throw new Error(`invalid_engine_profile:${profileErrors[0]}`);
+  const engineProfile = project.engine_profile as EngineProfileInput | undefined;
+  return { textures: { A: texA, B: texB, T: texT }, settings: ps, materialsAB: meta?.materials_ab ?? undefined, engineProfile };
+}
+
+
+// Aseprite sheet JSON next to the stitched sheet (<sheet>.json), from the generator's manifest
+export async function writeTilesetAseprite(manifestPath: string): Promise<string> {
+  const manifest = JSON.parse(await fs.readFile(manifestPath, "utf8"));
+  return writeAsepriteSheet(path.dirname(manifestPath), renderAsepriteSheet(tilesetAsepriteLayout(manifest)));
+}
+
+
+const MASK_FIRST_TEXTURE_PROMPT =
+  "Seamless 1024×1024 pixel-art grass texture, roman steampunk palette, zero text, crisp clusters, game-ready.";
+
 export async function tilesetProcessor(data: {
 slug: string;
-pattern: "blob47" | "coast16";
+pattern: TilesetPatternId;
 material?: string; // legacy (blob47)
 mode?: "direct" | "mask" | "procedural";
+baseTexturePrompt?: string; // mask-first material texture (blob47)
 paletteName?: string;
+variants?: number;          // alternates per slot incl. base
+variantWeights?: number[];  // Godot probability per variant
+colorDistance?: ColorDistance; // quantization metric (recorded in the manifest)
+dither?: DitherMode;
+ditherStrength?: number;
+aseprite?: boolean;         // also write the Aseprite sheet JSON (see writeTilesetAseprite)
 // New AB materials + vehicles (coast16)
 materialA?: string;
 materialB?: string;
@@ -23,11 +76,19 @@ vehiclesB?: string[];
    tileSize?: number;
    bandWidth?: number;
    cornerStyle?: "stepped"|"quarter"|"square";
+   lineStyle?: "straight_line"|"wavy_smooth"|"craggy"|"zigzag";
    transitionMode?: "texture";
    textureScale?: number;
+   variants?: number;
+   variantWeights?: number[];
+   collision?: "A"|"B"|"none";    // material that gets physics_layer_0 polygons (coast16)
+   animation?: { frames?: number; mode?: "scroll"|"phase"; material?: "A"|"B"|"both"; amplitude?: number; duration?: number; durations?: number[] };
  };
-}) {
-const { slug, pattern, material = "grass", mode = "direct", paletteName = "roman_steampunk" } = data as any;
+}): Promise<TilesetComposeResult> {
+const { slug, pattern, material = "grass", mode = "direct", paletteName = "roman_steampunk", variants, variantWeights } = data as any;
+const quantOpts = { colorDistance: data.colorDistance, dither: data.dither, ditherStrength: data.ditherStrength };
+await loadUserPatterns(TILESET_PATTERN_ROOT);
+await loadUserPalettes(PALETTE_ROOT);
 if (!hasPattern(pattern)) throw new Error(`Unsupported pattern: ${pattern}`);
 log.info({ slug, pattern, material, mode }, "tileset start");
 // Append debug
@@ -40,90 +101,33 @@ const outDir = tilesetDir(slug);
 await ensureDir(outDir);
 
 
-if (pattern === "blob47") {
-const dictPath = new URL("../../../../packages/tileset-compose/prompts/blob47_grass.json", import.meta.url).pathname;
-const maskDictPath = new URL("../../../../packages/tileset-compose/prompts/blob47_mask.json", import.meta.url).pathname;
-
-
-const result = mode === "mask"
-? await generateBlob47MaskFirst({
-options: {
-outDir,
-baseTexturePrompt: "Seamless 1024×1024 pixel-art grass texture, roman steampunk palette, zero text, crisp clusters, game-ready.",
-maskDictPath,
-paletteName,
-size: "1024x1024",
-},
-})
-: await generateBlob47Tileset({
-dictPath,
-options: { outDir, paletteName, size: "1024x1024", transparentBG: true, quantize: true, tileSize: 32 },
+// Built-ins and user patterns alike: the registry's handler picks the generator for the mode
+const def = getPattern(pattern);
+if (!def) throw new Error(`Pattern handler not implemented: ${pattern}`);
+const handler = patternHandler(def);
+const { materialA, materialB, vehiclesA, vehiclesB } = data;
+const options = {
+  outDir,
+  paletteName,
+  size: "1024x1024" as const,
+  transparentBG: true,
+  quantize: true,
+  variants,
+  variantWeights,
+  ...quantOpts,
+  materialsAB: materialA || materialB || vehiclesA || vehiclesB ? {
+    A: { name: materialA || "Land", vehicles: vehiclesA },
+    B: { name: materialB || "Water", vehicles: vehiclesB },
+  } : undefined,
+};
+const procedural = mode === "procedural" && handler.procedural;
+const result = await handler.generate(def, {
+  mode,
+  options,
+  procedural: procedural ? await readProceduralInputs(outDir, data) : undefined,
+  baseTexturePrompt: data.baseTexturePrompt || MASK_FIRST_TEXTURE_PROMPT,
 });
-
-
-log.info({ slug, sheet: result.sheetPath }, "tileset done");
-try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} worker_done sheet=${result.sheetPath}\n`, "utf8"); } catch {}
+log.info({ slug, pattern, sheet: result.sheetPath }, "tileset done");
+try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} ${procedural ? "worker_done_procedural" : "worker_done"} sheet=${result.sheetPath}\n`, "utf8"); } catch {}
 return result;
 }
-
-
-// Future patterns: add branches here.
-if (pattern === "coast16") {
-  if (mode === "procedural") {
-    // Use meta + overrides for procedural textures/settings
-    const metaPath = path.join(outDir, "meta.json");
-    let meta: any = {};
-    try { meta = JSON.parse(await fs.readFile(metaPath, "utf8")); } catch {}
-    const pt = meta?.procedural_textures || {};
-    const ps = { tileSize: 32, bandWidth: 4, cornerStyle: "stepped", transitionMode: "texture", textureScale: 1.0, lineStyle: (meta?.procedural_settings as any)?.lineStyle || (data as any)?.proceduralSettings?.lineStyle || "straight_line", ...(meta?.procedural_settings || {}), ...(data as any)?.proceduralSettings } as any;
-
-    const texA = typeof pt?.materialA === "string" ? pt.materialA : null;
-    const texB = typeof pt?.materialB === "string" ? pt.materialB : null;
-    const texT = typeof pt?.transition === "string" ? pt.transition : null;
-
-    // Log resolved paths and existence
-    try {
-      const rpA = texA ? path.resolve(outDir, texA) : null;
-      const rpB = texB ? path.resolve(outDir, texB) : null;
-      const rpT = texT ? path.resolve(outDir, texT) : null;
-      const exA = rpA ? await fs.access(rpA).then(() => true).catch(() => false) : false;
-      const exB = rpB ? await fs.access(rpB).then(() => true).catch(() => false) : false;
-      const exT = rpT ? await fs.access(rpT).then(() => true).catch(() => false) : false;
-      const line = `${new Date().toISOString()} worker_proc_paths A=${rpA || 'none'}:${exA} B=${rpB || 'none'}:${exB} T=${rpT || 'none'}:${exT} settings=${JSON.stringify(ps)}\n`;
-      await fs.appendFile(path.join(outDir, "debug.log"), line, "utf8");
-    } catch {}
-
-    const result = await generateCoast16Procedural({
-      outDir,
-      textures: { A: texA, B: texB, T: texT },
-      settings: ps,
-    });
-    try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} worker_done_procedural sheet=${result.sheetPath}\n`, "utf8"); } catch {}
-    log.info({ slug, sheet: result.sheetPath }, "tileset done");
-    return result;
-  }
-  const dictPath = new URL("../../../../packages/tileset-compose/prompts/coast16_ab.json", import.meta.url).pathname;
-  const result = await generateCoast16Tileset({
-    dictPath,
-    options: {
-      outDir,
-      paletteName,
-      size: "1024x1024",
-      transparentBG: true,
-      quantize: true,
-      tileSize: 32,
-      sheetCols: 4,
-      sheetRows: 4,
-      materialsAB: {
-        A: { name: (data as any).materialA || "Land", vehicles: (data as any).vehiclesA || ["foot", "wheels"] },
-        B: { name: (data as any).materialB || "Water", vehicles: (data as any).vehiclesB || ["boat"] },
-      },
-    },
-  });
-  log.info({ slug, sheet: result.sheetPath }, "tileset done");
-  try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} worker_done sheet=${result.sheetPath}\n`, "utf8"); } catch {}
-  return result;
-}
-
-throw new Error(`Pattern handler not implemented: ${pattern}`);
-}
@@ -1,6 +1,6 @@
 import { Worker, Job } from "bullmq";
 import { createLogger } from "@pixelart/log";
-import { tilesetProcessor } from "./processors/tileset.js";
+import { tilesetProcessor, writeTilesetAseprite } from "./processors/tileset.js";
 import { tilesetDir } from "@pixelart/config";
 import fs from "node:fs/promises";
 
@@ -13,6 +13,7 @@ type TilesetJob = {
   material?: string;
   mode?: "direct" | "mask" | "procedural";
   paletteName?: string;
+  aseprite?: boolean;
   // coast16 extras
   materialA?: string;
   materialB?: string;
@@ -33,6 +34,14 @@ export const tilesetWorker = new Worker(
   async (job: Job<TilesetJob>) => {
     log.info({ jobId: job.id, slug: job.data?.slug, pattern: job.data?.pattern }, "tileset: job received");
     const result = await tilesetProcessor(job.data);
+    if (job.data?.aseprite && result.manifestPath) {
+      try {
+        const json = await writeTilesetAseprite(result.manifestPath);
+        log.info({ jobId: job.id, json }, "tileset: aseprite sheet written");
+      } catch (err: any) {
+        log.warn({ jobId: job.id, err: err?.message }, "tileset: aseprite sheet failed");
+      }
+    }
     log.info({ jobId: job.id, sheet: (result as any)?.sheetPath }, "tileset: job completed");
     return result as any;
   },
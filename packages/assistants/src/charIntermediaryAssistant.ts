@@ -1,6 +1,8 @@
 // ESM / NodeNext compatible
-import OpenAI from "openai";
 import * as schemas from "@pixelart/schemas";
+import type { LlmProvider } from "./llm.js";
+import { completeWithRepair, type RepairAttempt, type ReplyCheck } from "./repair.js";
+import { CHAR_INTERMEDIARY_INSTRUCTIONS } from "./instructions.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Interop with @pixelart/schemas (CJS/ESM neutral) — NO direct Ajv usage here
@@ -8,6 +10,8 @@ import * as schemas from "@pixelart/schemas";
 const validateCharIntermediaryPayload =
   (schemas as any).default?.validateCharIntermediaryPayload ??
   (schemas as any).validateCharIntermediaryPayload;
+const charIntermediaryJsonSchema: Record<string, unknown> | undefined =
+  (schemas as any).default?.charIntermediaryJsonSchema ?? (schemas as any).charIntermediaryJsonSchema;
 
 // Types: re-use your shared AjvSummary if exported; otherwise declare minimal
 type SchemaAjvSummary =
@@ -32,16 +36,19 @@ export type IntermediaryTurnInput = {
   userMessage: string;
   thread?: AssistantThreadMsg[];
   baseDraft?: unknown; // CharacterDefinitionLite for context (optional)
-  openai: { apiKey: string; assistantId: string };
+  llm: LlmProvider; // model backend (see createLlmProvider)
+  repairAttempts?: number; // retries fed the validation errors (default 2, see resolveRepairAttempts)
+  onRepair?: (attempt: RepairAttempt) => void;
 };
 
 export type IntermediaryTurnResult = {
   data: CharIntermediary;
   rawText: string;
+  attempts: RepairAttempt[]; // every model reply, rejected ones first (debug trace)
 };
 
 export class InvalidIntermediaryPayloadError extends Error {
-  constructor(public readonly errors: AjvSummary) {
+  constructor(public readonly errors: AjvSummary, public readonly attempts: RepairAttempt[] = []) {
     super("invalid_char_intermediary_payload");
     this.name = "InvalidIntermediaryPayloadError";
   }
@@ -141,17 +148,6 @@ function enforceCategoryReference(ci: CharIntermediary): CharIntermediary {
 }
 
 // Small helpers
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-function stripJsonFence(s: string): string {
-  // remove ```json ... ``` or ``` ... ``` fences if present
-  return s
-    .replace(/^```json\s*/i, "")
-    .replace(/^```\s*/i, "")
-    .replace(/\s*```$/i, "")
-    .trim();
-}
-
 function buildPrompt(baseDraft: unknown, userMessage: string, thread?: AssistantThreadMsg[]) {
   const header =
     "Return ONLY a single JSON object that conforms to the enforced Char_Intermediary schema. " +
@@ -189,70 +185,51 @@ export async function runCharIntermediaryTurn(input: IntermediaryTurnInput): Pro
     );
   }
 
-  const client = new OpenAI({ apiKey: input.openai.apiKey });
   const content = buildPrompt(input.baseDraft, input.userMessage, input.thread);
 
-  // Create a short-lived thread; prior thread context is folded into `content`.
-  const thread = await client.beta.threads.create({ messages: [{ role: "user", content }] });
-
-  const run = await client.beta.threads.runs.create(thread.id, {
-    assistant_id: input.openai.assistantId,
-    additional_instructions:
-      "Always return a single JSON object that matches the Char_Intermediary schema. " +
-      "Do not include explanations or code fences."
+  // One stateless completion (plus repairs); prior thread context is folded into `content`.
+  const result = await completeWithRepair({
+    llm: input.llm,
+    request: {
+      instructions: CHAR_INTERMEDIARY_INSTRUCTIONS,
+      messages: [
+        {
+          role: "system",
+          content:
+            "Always return a single JSON object that matches the Char_Intermediary schema. " +
+            "Do not include explanations or code fences.",
+        },
+        { role: "user", content },
+      ],
+      schema: charIntermediaryJsonSchema ? { name: "Char_Intermediary", schema: charIntermediaryJsonSchema } : undefined,
+    },
+    repairAttempts: input.repairAttempts,
+    onRepair: input.onRepair,
+    debugLabel: "char_intermediary",
+    check: (parsed): ReplyCheck<CharIntermediary> => {
+      // Validate using the shared validator from @pixelart/schemas
+      // Expect a result shape similar to: { ok: true, data: <CharIntermediary> } | { ok: false, errors }
+      const v = validateCharIntermediaryPayload(parsed) as
+        | { ok: true; data: CharIntermediary }
+        | { ok: false; errors: AjvSummary };
+      if (!("ok" in v) || !v.ok) return { ok: false, errors: ((v as any).errors ?? []) as any };
+      try {
+        return { ok: true, value: enforceCategoryReference(v.data) };
+      } catch (err) {
+        if (err instanceof InvalidIntermediaryPayloadError) return { ok: false, errors: err.errors as any };
+        throw err;
+      }
+    },
   });
 
-  // Poll until terminal
-  let status = run.status;
-  for (let i = 0; i < 60 && !["completed", "failed", "cancelled", "expired"].includes(status); i++) {
-    await sleep(500);
-    const r2 = await client.beta.threads.runs.retrieve(thread.id, run.id);
-    status = r2.status;
-  }
-  if (status !== "completed") throw new Error(`char_intermediary_run_not_completed:${status}`);
-
-  // Fetch latest assistant message
-  const msgs = await client.beta.threads.messages.list(thread.id, { order: "desc", limit: 10 });
-  const firstAssistantMsg = msgs.data.find((m) => m.role === "assistant");
-
-  const rawText =
-    (firstAssistantMsg?.content ?? [])
-      .map((c: any) => (c.type === "text" ? c.text.value : ""))
-      .join("\n")
-      .trim() || "";
-
-  if (DEBUG) {
-    console.group?.("[char_intermediary] raw assistant output");
-    console.log(rawText);
-    console.groupEnd?.();
-  }
-
-  if (!rawText) throw new InvalidIntermediaryPayloadError([{ message: "empty assistant output" } as any]);
-
-  // Parse JSON (support fenced blocks)
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(stripJsonFence(rawText));
-  } catch {
-    throw new InvalidIntermediaryPayloadError([{ message: "non-json output" } as any]);
-  }
-
-  // Validate using the shared validator from @pixelart/schemas
-  // Expect a result shape similar to: { ok: true, data: <CharIntermediary> } | { ok: false, errors }
-  const v = validateCharIntermediaryPayload(parsed) as
-    | { ok: true; data: CharIntermediary }
-    | { ok: false; errors: AjvSummary };
-
-  if (!("ok" in v) || !v.ok) {
+  if (!result.ok) {
     if (DEBUG) {
       console.group?.("[char_intermediary] validation errors");
-      console.dir((v as any).errors, { depth: 6 });
+      console.dir(result.errors, { depth: 6 });
       console.groupEnd?.();
     }
-    throw new InvalidIntermediaryPayloadError((v as any).errors ?? []);
+    throw new InvalidIntermediaryPayloadError(result.errors as any, result.attempts);
   }
 
-  const sanitized = enforceCategoryReference((v as any).data as CharIntermediary);
-
-  return { data: sanitized, rawText };
+  return { data: result.value, rawText: result.rawText, attempts: result.attempts };
 }
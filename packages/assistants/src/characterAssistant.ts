@@ -1,8 +1,11 @@
 // packages/assistants/src/characterAssistant.ts
 // ESM / NodeNext compatible
 
-import OpenAI from "openai";
 import * as schemas from "@pixelart/schemas";
+import type { LlmJsonRequest, LlmProvider } from "./llm.js";
+import { completeWithRepair, type RepairAttempt, type ReplyCheck } from "./repair.js";
+import { applyDraftPatch, type DraftChange, type DraftPatchOperation } from "./draftPatch.js";
+import { CHARACTER_ASSISTANT_INSTRUCTIONS, CHARACTER_PATCH_ASSISTANT_INSTRUCTIONS } from "./instructions.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Interop with @pixelart/schemas (CJS/ESM neutral)
@@ -10,6 +13,11 @@ import * as schemas from "@pixelart/schemas";
 const validateAssistantChatPayload =
   (schemas as any).default?.validateAssistantChatPayload ??
   (schemas as any).validateAssistantChatPayload;
+const validateCharacterLite =
+  (schemas as any).default?.validateCharacterLite ??
+  (schemas as any).validateCharacterLite;
+const characterLiteJsonSchema: Record<string, unknown> | undefined =
+  (schemas as any).default?.characterLiteJsonSchema ?? (schemas as any).characterLiteJsonSchema;
 
 import type {
   CharacterLite,
@@ -29,11 +37,15 @@ export type AssistantTurnInput = {
   thread?: AssistantThreadMsg[];
   /** Current draft document to refine */
   draft: unknown;
-  /** OpenAI config */
-  openai: {
-    apiKey: string;
-    assistantId: string;
-  };
+  /** Model backend (see createLlmProvider) */
+  llm: LlmProvider;
+  /** When set, the reply is streamed and the chat "message" text is reported as it arrives */
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+  /** Extra tries after a reply fails validation, each fed the errors (default 2, see resolveRepairAttempts) */
+  repairAttempts?: number;
+  /** Called with each rejected attempt before it is retried */
+  onRepair?: (attempt: RepairAttempt) => void;
 };
 
 export type AssistantTurnResult = {
@@ -41,10 +53,25 @@ export type AssistantTurnResult = {
   assistantText: string;
   /** Fully validated CharacterLite draft */
   draft: CharacterLite;
+  /** Every model reply of this turn, rejected ones first (debug trace) */
+  attempts: RepairAttempt[];
+};
+
+export type { DraftPatchOperation, DraftChange };
+
+export type AssistantPatchTurnResult = {
+  assistantText: string;
+  /** Operations against the input draft */
+  patch: DraftPatchOperation[];
+  /** Per-operation outcome of applying `patch` (skipped operations carry an error) */
+  changes: DraftChange[];
+  /** Input draft with every applicable operation applied; validates as CharacterLite */
+  draft: CharacterLite;
+  attempts: RepairAttempt[];
 };
 
 export class InvalidAssistantPayloadError extends Error {
-  constructor(public readonly errors: AjvSummary) {
+  constructor(public readonly errors: AjvSummary, public readonly attempts: RepairAttempt[] = []) {
     super("invalid_assistant_payload");
     this.name = "InvalidAssistantPayloadError";
   }
@@ -54,13 +81,6 @@ export class InvalidAssistantPayloadError extends Error {
 const DEBUG = (process.env.ASSISTANT_DEBUG ?? "").toLowerCase() === "true";
 
 // Small helpers
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-function stripJsonFence(s: string): string {
-  // remove ```json ... ``` or ``` ... ``` fences if present
-  return s.replace(/^```json\s*/i, "").replace(/^```\s*/i, "").replace(/\s*```$/i, "").trim();
-}
-
 function deriveSlug(name: string): string {
   return name
     .toLowerCase()
@@ -68,11 +88,13 @@ function deriveSlug(name: string): string {
     .replace(/^_+|_+$/g, "");
 }
 
-function buildPrompt(draft: unknown, userMessage: string, thread?: AssistantThreadMsg[]) {
+function buildPrompt(draft: unknown, userMessage: string, thread?: AssistantThreadMsg[], mode: "draft" | "patch" = "draft") {
   // Strong directive: only JSON object back, shaped for our project schema.
-  const header =
-    "Return ONLY a single JSON object that validates the project's CharacterDefinitionLite *chat payload* schema. " +
-    "No prose before or after.\n\n";
+  const header = mode === "patch"
+    ? 'Return ONLY a single JSON object {"message": string, "patch": RFC 6902 operations against the current draft}. ' +
+      "No prose before or after.\n\n"
+    : "Return ONLY a single JSON object that validates the project's CharacterDefinitionLite *chat payload* schema. " +
+      "No prose before or after.\n\n";
 
   const draftBlock = `Current draft JSON:\n\`\`\`json\n${JSON.stringify(draft, null, 2)}\n\`\`\`\n\n`;
 
@@ -80,12 +102,25 @@ function buildPrompt(draft: unknown, userMessage: string, thread?: AssistantThre
   if (thread?.length) {
     const last = thread.slice(-6);
     const lines = last.map((m) => `${m.role}: ${m.content}`);
-    convo = `Conversation so far (context only):\n${lines.join("\n")}\n\n`;
+    // Older requests (persisted history can span many sessions) are kept as a short list of intents
+    const earlier = thread
+      .slice(0, -6)
+      .filter((m) => m.role === "user")
+      .slice(-20)
+      .map((m) => `- ${m.content.length > 160 ? `${m.content.slice(0, 157)}...` : m.content}`);
+    if (earlier.length) convo = `Earlier user requests (already applied to the draft):\n${earlier.join("\n")}\n\n`;
+    convo += `Conversation so far (context only):\n${lines.join("\n")}\n\n`;
   }
 
   const user = `User message:\n${userMessage}\n`;
 
-  const reminder =
+  const reminder = mode === "patch"
+    ? "\nRequirements:\n" +
+      '- Include a short "message" string for the chat reply (<= 240 chars).\n' +
+      '- "patch" lists only the changes the user asked for, as JSON Patch operations whose paths point into the current draft.\n' +
+      "- Never add, replace or remove /identity/char_slug.\n" +
+      "- Do not include markdown or backticks; only return the JSON object.\n"
+    :
     "\nRequirements:\n" +
     '- Include a short "message" string for the chat reply (<= 240 chars).\n' +
     "- The rest must form a valid CharacterDefinitionLite according to the project schema.\n" +
@@ -96,6 +131,89 @@ function buildPrompt(draft: unknown, userMessage: string, thread?: AssistantThre
   return header + draftBlock + convo + user + reminder;
 }
 
+/**
+ * Incremental reader for one top-level string field of a JSON object that arrives in chunks.
+ * Feeds the decoded characters of that field to `onText` as soon as they are complete; everything
+ * else (nested objects, other keys) is skipped. Fences/prose around the object are ignored.
+ */
+function topLevelStringField(field: string, onText: (delta: string) => void): (chunk: string) => void {
+  let buf = "";
+  let at = 0;
+  let depth = 0;
+  let inString = false;
+  let token = "";            // raw text of the current string (keys / skipped values)
+  let lastKey = "";
+  let expectValue = false;   // just saw `"<field>":` at depth 1
+  let streaming = false;     // inside the value of `field`
+  let done = false;
+
+  return (chunk: string) => {
+    if (done) return;
+    buf += chunk;
+    let out = "";
+    while (at < buf.length) {
+      const ch = buf[at];
+      if (streaming) {
+        if (ch === "\\") {
+          const esc = buf[at + 1];
+          if (esc === undefined) break;                    // wait for the escaped char
+          if (esc === "u") {
+            if (at + 6 > buf.length) break;
+            out += String.fromCharCode(parseInt(buf.slice(at + 2, at + 6), 16));
+            at += 6;
+            continue;
+          }
+          out += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[esc] ?? esc;
+          at += 2;
+          continue;
+        }
+        at++;
+        if (ch === '"') {
+          streaming = false;
+          done = true;
+          break;
+        }
+        out += ch;
+        continue;
+      }
+      if (inString) {
+        if (ch === "\\") {
+          if (at + 1 >= buf.length) break;
+          token += buf.slice(at, at + 2);
+          at += 2;
+          continue;
+        }
+        at++;
+        if (ch === '"') {
+          inString = false;
+          lastKey = token;
+        } else token += ch;
+        continue;
+      }
+      at++;
+      if (ch === '"') {
+        if (expectValue) streaming = true;
+        else {
+          inString = true;
+          token = "";
+        }
+        expectValue = false;
+        continue;
+      }
+      if (ch === ":") {
+        expectValue = depth === 1 && lastKey === field;
+        continue;
+      }
+      if (/\s/.test(ch)) continue;
+      expectValue = false;
+      lastKey = "";
+      if (ch === "{" || ch === "[") depth++;
+      else if (ch === "}" || ch === "]") depth--;
+    }
+    if (out) onText(out);
+  };
+}
+
 // Optional belt-and-suspenders fixup before validation
 function ensureSlug(payload: any, currentDraft: unknown): void {
   try {
@@ -129,85 +247,64 @@ function ensureSlug(payload: any, currentDraft: unknown): void {
 // ────────────────────────────────────────────────────────────────────────────
 // Main
 // ────────────────────────────────────────────────────────────────────────────
-export async function runAssistantTurn(input: AssistantTurnInput): Promise<AssistantTurnResult> {
-  const client = new OpenAI({ apiKey: input.openai.apiKey });
-
-  const content = buildPrompt(input.draft, input.userMessage, input.thread);
-
-  // Create short-lived thread; we fold any prior thread context into `content`.
-  const thread = await client.beta.threads.create({
-    messages: [{ role: "user", content }],
-  });
-
-  // Add a concise system-like instruction through additional_instructions
-  const additional_instructions =
-    "Always return a single JSON object matching the chat payload contract. " +
-    "Include identity.char_slug and keep it stable once set.";
-
-  const run = await client.beta.threads.runs.create(thread.id, {
-    assistant_id: input.openai.assistantId,
-    additional_instructions,
+/**
+ * Runs the completion (streamed when `onText` is set) through the repair loop and returns the
+ * first reply `check` accepts; throws InvalidAssistantPayloadError carrying every attempt otherwise.
+ */
+async function requestValidReply<T>(
+  input: AssistantTurnInput,
+  request: LlmJsonRequest,
+  check: (parsed: unknown) => ReplyCheck<T>
+): Promise<{ value: T; attempts: RepairAttempt[] }> {
+  const onText = input.onText;
+  const result = await completeWithRepair({
+    llm: input.llm,
+    request,
+    check,
+    repairAttempts: input.repairAttempts,
+    streamHandler: onText ? () => topLevelStringField("message", onText) : undefined,
+    onRepair: input.onRepair,
   });
-
-  // Poll until terminal
-  let status = run.status;
-  for (let i = 0; i < 60 && !["completed", "failed", "cancelled", "expired"].includes(status); i++) {
-    await sleep(500);
-    const r2 = await client.beta.threads.runs.retrieve(thread.id, run.id);
-    status = r2.status;
-  }
-  if (status !== "completed") {
-    throw new Error(`assistant_run_not_completed:${status}`);
-  }
-
-  // Fetch latest assistant message
-  const msgs = await client.beta.threads.messages.list(thread.id, { order: "desc", limit: 10 });
-  const firstAssistantMsg = msgs.data.find((m) => m.role === "assistant");
-
-  const rawText =
-    (firstAssistantMsg?.content ?? [])
-      .map((c) => (c.type === "text" ? c.text.value : ""))
-      .join("\n")
-      .trim() || "";
-
-  if (DEBUG) {
-    // eslint-disable-next-line no-console
-    console.group?.("[assistants] raw assistant output");
-    // eslint-disable-next-line no-console
-    console.log(rawText);
-    console.groupEnd?.();
-  }
-
-  if (!rawText) {
-    throw new InvalidAssistantPayloadError([{ message: "empty assistant output" }]);
-  }
-
-  // Parse JSON (support fenced blocks)
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(stripJsonFence(rawText));
-  } catch {
-    throw new InvalidAssistantPayloadError([{ message: "non-json output" }]);
-  }
-
-  // Pre-validate safety: ensure slug presence/stability
-  ensureSlug(parsed as any, input.draft);
-
-  // Validate with shared AJV
-  const v = validateAssistantChatPayload(parsed) as
-    | { ok: true; message: string; draft: CharacterLite }
-    | { ok: false; errors: AjvSummary };
-
-  if (!("ok" in v) || !v.ok) {
+  if (!result.ok) {
     if (DEBUG) {
       // eslint-disable-next-line no-console
       console.group?.("[assistants] validation errors");
       // eslint-disable-next-line no-console
-      console.dir((v as any).errors, { depth: 6 });
+      console.dir(result.errors, { depth: 6 });
       console.groupEnd?.();
     }
-    throw new InvalidAssistantPayloadError(v.ok ? [] : v.errors);
+    throw new InvalidAssistantPayloadError(result.errors, result.attempts);
   }
+  return { value: result.value, attempts: result.attempts };
+}
+
+export async function runAssistantTurn(input: AssistantTurnInput): Promise<AssistantTurnResult> {
+  const content = buildPrompt(input.draft, input.userMessage, input.thread);
+
+  // One stateless completion; prior thread context is folded into `content`.
+  const { value: v, attempts } = await requestValidReply(input, {
+    instructions: CHARACTER_ASSISTANT_INSTRUCTIONS,
+    messages: [
+      {
+        role: "system",
+        content:
+          "Always return a single JSON object matching the chat payload contract. " +
+          "Include identity.char_slug and keep it stable once set.",
+      },
+      { role: "user", content },
+    ],
+    schema: characterLiteJsonSchema ? { name: "CharacterDefinitionLite", schema: characterLiteJsonSchema } : undefined,
+    signal: input.signal,
+  }, (parsed): ReplyCheck<{ message: string; draft: CharacterLite }> => {
+    // Pre-validate safety: ensure slug presence/stability
+    ensureSlug(parsed as any, input.draft);
+
+    // Validate with shared AJV
+    const r = validateAssistantChatPayload(parsed) as
+      | { ok: true; message: string; draft: CharacterLite }
+      | { ok: false; errors: AjvSummary };
+    return r.ok ? { ok: true, value: { message: r.message, draft: r.draft } } : { ok: false, errors: r.errors ?? [] };
+  });
 
   if (DEBUG) {
     // eslint-disable-next-line no-console
@@ -217,5 +314,88 @@ export async function runAssistantTurn(input: AssistantTurnInput): Promise<Assis
     console.groupEnd?.();
   }
 
-  return { assistantText: v.message, draft: v.draft };
+  return { assistantText: v.message, draft: v.draft, attempts };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Patch mode
+// ────────────────────────────────────────────────────────────────────────────
+const PATCH_OPS = ["add", "remove", "replace", "move", "copy", "test"];
+
+const PATCH_REPLY_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    message: { type: "string" },
+    patch: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          op: { type: "string", enum: PATCH_OPS },
+          path: { type: "string" },
+          from: { type: "string" },
+          value: {},
+        },
+        required: ["op", "path"],
+      },
+    },
+  },
+  required: ["message", "patch"],
+};
+
+function checkPatchReply(payload: any): AjvSummary {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return [{ message: "payload must be object", instancePath: "", keyword: "type" }];
+  }
+  const errors: AjvSummary = [];
+  if (typeof payload.message !== "string") errors.push({ message: "must be string", instancePath: "/message", keyword: "type" });
+  if (!Array.isArray(payload.patch)) {
+    errors.push({ message: "must be array", instancePath: "/patch", keyword: "type" });
+    return errors;
+  }
+  payload.patch.forEach((op: any, i: number) => {
+    const at = `/patch/${i}`;
+    const pointer = (p: unknown) => typeof p === "string" && (p === "" || p.startsWith("/"));
+    if (!op || typeof op !== "object") errors.push({ message: "must be object", instancePath: at, keyword: "type" });
+    else if (!PATCH_OPS.includes(op.op)) errors.push({ message: `op must be one of ${PATCH_OPS.join(", ")}`, instancePath: `${at}/op`, keyword: "enum" });
+    else if (!pointer(op.path)) errors.push({ message: "must be a JSON Pointer", instancePath: `${at}/path`, keyword: "format" });
+    else if ((op.op === "move" || op.op === "copy") && !pointer(op.from)) errors.push({ message: "must be a JSON Pointer", instancePath: `${at}/from`, keyword: "format" });
+    else if ((op.op === "add" || op.op === "replace" || op.op === "test") && !("value" in op)) errors.push({ message: "must have required property 'value'", instancePath: at, keyword: "required" });
+  });
+  return errors;
+}
+
+/**
+ * Patch-mode turn: the assistant answers with RFC 6902 operations against `input.draft` instead of
+ * a whole new draft, so untouched fields (and the slug) cannot drift. A reply is accepted once its
+ * shape is right and the patched draft validates; otherwise the validator's errors go back to the
+ * model as repair feedback.
+ */
+export async function runAssistantPatchTurn(input: AssistantTurnInput): Promise<AssistantPatchTurnResult> {
+  const content = buildPrompt(input.draft, input.userMessage, input.thread, "patch");
+  const { value, attempts } = await requestValidReply(input, {
+    instructions: CHARACTER_PATCH_ASSISTANT_INSTRUCTIONS,
+    messages: [{ role: "user", content }],
+    schema: { name: "CharacterDraftPatch", schema: PATCH_REPLY_SCHEMA },
+    signal: input.signal,
+  }, (parsed): ReplyCheck<{ message: string; patch: DraftPatchOperation[]; changes: DraftChange[]; draft: CharacterLite }> => {
+    const errors = checkPatchReply(parsed);
+    if (errors.length) return { ok: false, errors };
+    const reply = parsed as { message: string; patch: DraftPatchOperation[] };
+    const patch = reply.patch.map(({ op, path, value, from }) => ({
+      op, path, ...(from !== undefined ? { from } : {}), ...(op === "remove" || op === "move" || op === "copy" ? {} : { value }),
+    }));
+    const applied = applyDraftPatch(input.draft, patch);
+    if (!validateCharacterLite(applied.draft)) {
+      return {
+        ok: false,
+        errors: (validateCharacterLite.errors ?? []).map((e: any) => ({
+          message: `patched draft ${e.message}`, instancePath: e.instancePath, keyword: e.keyword,
+        })),
+      };
+    }
+    return { ok: true, value: { message: reply.message, patch, changes: applied.changes, draft: applied.draft } };
+  });
+
+  return { assistantText: value.message, patch: value.patch, changes: value.changes, draft: value.draft, attempts };
 }
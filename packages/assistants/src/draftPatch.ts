@@ -0,0 +1,80 @@
+// packages/assistants/src/draftPatch.ts
+// ESM / NodeNext compatible
+//
+// Applies patch-mode replies to a draft one operation at a time, so a single bad operation is
+// reported instead of failing the whole patch.
+
+import jsonpatch, { type Operation } from "fast-json-patch";
+
+/** RFC 6902 operation as returned by the assistant in patch mode */
+export type DraftPatchOperation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  value?: unknown;
+  from?: string;
+};
+
+/** One patch operation as shown to the writer: the field it touches, before and after. */
+export type DraftChange = {
+  index: number;
+  op: string;
+  path: string;
+  from?: string;
+  before?: unknown;
+  after?: unknown;
+  error?: string;       // fast-json-patch error name, or SLUG_LOCKED; the operation was skipped
+};
+
+const valueAt = (doc: unknown, pointer: string) => {
+  try {
+    return pointer.endsWith("/-") ? undefined : jsonpatch.getValueByPointer(doc, pointer);
+  } catch {
+    return undefined;
+  }
+};
+
+/** The RFC 6902 operation fast-json-patch applies; anything else is reported as malformed. */
+function toOperation(op: DraftPatchOperation): Operation {
+  switch (op?.op) {
+    case "add":
+    case "replace":
+    case "test":
+      return { op: op.op, path: op.path, value: op.value };
+    case "remove":
+      return { op: "remove", path: op.path };
+    case "move":
+    case "copy":
+      if (typeof op.from !== "string") throw Object.assign(new Error("from must be a JSON Pointer"), { name: "OPERATION_FROM_REQUIRED" });
+      return { op: op.op, path: op.path, from: op.from };
+    default:
+      throw Object.assign(new Error("unknown operation"), { name: "OPERATION_OP_INVALID" });
+  }
+}
+
+const slugOf = (doc: any): unknown => doc?.identity?.char_slug;
+
+/**
+ * Applies `patch` operation by operation to a copy of `draft`. Operations that cannot apply (bad
+ * pointer, malformed op) or that would change an already set identity.char_slug — by whatever
+ * path, root replaces and moves included — are skipped and reported, so the rest still lands.
+ * The result is not validated.
+ */
+export function applyDraftPatch(draft: unknown, patch: DraftPatchOperation[]): { draft: any; changes: DraftChange[] } {
+  let doc = jsonpatch.deepClone(draft);
+  const lockedSlug = slugOf(draft) || undefined;
+  const changes = patch.map((op, index): DraftChange => {
+    const change: DraftChange = { index, op: op?.op, path: op?.path, ...(op?.from !== undefined ? { from: op.from } : {}) };
+    change.before = valueAt(doc, op?.path ?? "");
+    let next: unknown;
+    try {
+      next = jsonpatch.applyOperation(doc, toOperation(op), true, false).newDocument;
+    } catch (err: any) {
+      return { ...change, error: err?.name ?? "OPERATION_FAILED" };
+    }
+    if (lockedSlug !== undefined && slugOf(next) !== lockedSlug) return { ...change, error: "SLUG_LOCKED" };
+    doc = next;
+    if (op.op === "test") return change;
+    return { ...change, after: op.op === "remove" ? undefined : op.op === "move" || op.op === "copy" ? valueAt(doc, op.path) : op.value };
+  });
+  return { draft: doc, changes };
+}
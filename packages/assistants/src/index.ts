@@ -1,2 +1,11 @@
 export * from "./characterAssistant.js";
+export { applyDraftPatch } from "./draftPatch.js";
 export { runCharIntermediaryTurn, InvalidIntermediaryPayloadError } from "./charIntermediaryAssistant.js";
+export * from "./llm.js";
+export {
+  completeWithRepair, resolveRepairAttempts, DEFAULT_REPAIR_ATTEMPTS, MAX_REPAIR_ATTEMPTS,
+  type RepairAttempt, type ReplyCheck, type ReplyErrors,
+} from "./repair.js";
+export {
+  CHARACTER_ASSISTANT_INSTRUCTIONS, CHARACTER_PATCH_ASSISTANT_INSTRUCTIONS, CHAR_INTERMEDIARY_INSTRUCTIONS,
+} from "./instructions.js";
@@ -0,0 +1,332 @@
+// packages/assistants/src/llm.ts
+// ESM / NodeNext compatible
+//
+// Provider-agnostic structured-JSON completions. The assistants build messages and validate the
+// returned JSON; providers only turn messages into text:
+//   openai             Assistants/Threads run against a configured assistant id (default; what
+//                      settings saved before the provider choice existed use)
+//   openai-chat        Chat Completions (json_schema / json_object response format)
+//   openai-responses   Responses API (text.format json_schema / json_object)
+//   local              OpenAI-compatible server (Ollama, llama.cpp server, LM Studio…)
+//   fake               deterministic scripted replies, for tests and offline demos
+
+import OpenAI from "openai";
+
+export type LlmRole = "system" | "user" | "assistant";
+export type LlmMessage = { role: LlmRole; content: string };
+
+export type LlmJsonRequest = {
+  /** Base system prompt; providers with server-side instructions (openai Assistants) skip it */
+  instructions?: string;
+  messages: LlmMessage[];
+  /** JSON Schema for the reply; providers that support it constrain output (non-strict), others ignore it */
+  schema?: { name: string; schema: Record<string, unknown> };
+  temperature?: number;
+  /** Aborts the request (e.g. when an SSE client disconnects) */
+  signal?: AbortSignal;
+};
+
+export type LlmCompletion = {
+  /** Raw model text; expected to be one JSON object (callers still strip fences and validate) */
+  text: string;
+  provider: string;
+  model?: string;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  completeJson(request: LlmJsonRequest): Promise<LlmCompletion>;
+  /** Same as completeJson, calling `onDelta` with each raw text chunk as it arrives */
+  streamJson?(request: LlmJsonRequest, onDelta: (text: string) => void): Promise<LlmCompletion>;
+}
+
+/** Streams when the provider can; otherwise completes and reports the whole text as one chunk. */
+export async function streamJsonCompletion(
+  llm: LlmProvider,
+  request: LlmJsonRequest,
+  onDelta: (text: string) => void
+): Promise<LlmCompletion> {
+  if (llm.streamJson) return llm.streamJson(request, onDelta);
+  const completion = await llm.completeJson(request);
+  if (completion.text) onDelta(completion.text);
+  return completion;
+}
+
+export const LLM_PROVIDERS = ["openai", "openai-chat", "openai-responses", "local", "fake"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+/** `settings.llm` as stored in the project settings */
+export type LlmSettings = {
+  provider?: LlmProviderName;
+  apiKey?: string;
+  chatModel?: string;
+  baseUrl?: string;                    // local: OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  chatAssistantId?: string;            // openai only
+  intermediaryAssistantId?: string;    // openai only
+  script?: unknown[];                  // fake: replies in order (objects are sent as JSON)
+  repairAttempts?: number;             // retries of schema-invalid replies (see resolveRepairAttempts)
+};
+
+/** `code` is "missing_openai_config" for the OpenAI providers (the code clients already check), else "missing_llm_config". */
+export class LlmConfigError extends Error {
+  constructor(public readonly detail: string, public readonly code: "missing_openai_config" | "missing_llm_config" = "missing_llm_config") {
+    super(code);
+    this.name = "LlmConfigError";
+  }
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_LOCAL_URL = "http://localhost:11434/v1";
+
+function withInstructions(request: LlmJsonRequest): LlmMessage[] {
+  return request.instructions ? [{ role: "system", content: request.instructions }, ...request.messages] : request.messages;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// OpenAI Chat Completions (also used for OpenAI-compatible local servers)
+// ────────────────────────────────────────────────────────────────────────────
+export class OpenAiChatProvider implements LlmProvider {
+  readonly name: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly opts: {
+    apiKey: string;
+    model: string;
+    baseURL?: string;
+    name?: string;
+    /** local servers vary in json_schema support; "json_object" only asks for any JSON object */
+    jsonMode?: "json_schema" | "json_object";
+  }) {
+    this.name = opts.name ?? "openai-chat";
+    this.client = new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL });
+  }
+
+  private body(request: LlmJsonRequest) {
+    const useSchema = request.schema && (this.opts.jsonMode ?? "json_schema") === "json_schema";
+    return {
+      model: this.opts.model,
+      messages: withInstructions(request),
+      temperature: request.temperature,
+      response_format: useSchema
+        ? { type: "json_schema" as const, json_schema: { name: request.schema!.name, schema: request.schema!.schema, strict: false } }
+        : { type: "json_object" as const },
+    };
+  }
+
+  async completeJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    const completion = await this.client.chat.completions.create(this.body(request), { signal: request.signal });
+    const text = completion.choices[0]?.message?.content ?? "";
+    return { text: text.trim(), provider: this.name, model: completion.model };
+  }
+
+  async streamJson(request: LlmJsonRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    const stream = await this.client.chat.completions.create({ ...this.body(request), stream: true }, { signal: request.signal });
+    let text = "";
+    let model: string | undefined;
+    for await (const chunk of stream) {
+      model ??= chunk.model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+    return { text: text.trim(), provider: this.name, model };
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// OpenAI Responses API
+// ────────────────────────────────────────────────────────────────────────────
+export class OpenAiResponsesProvider implements LlmProvider {
+  readonly name = "openai-responses";
+  private readonly client: OpenAI;
+
+  constructor(private readonly opts: { apiKey: string; model: string; baseURL?: string }) {
+    this.client = new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL });
+  }
+
+  private body(request: LlmJsonRequest) {
+    const instructions = withInstructions(request).filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    return {
+      model: this.opts.model,
+      instructions: instructions || undefined,
+      input: request.messages.filter((m) => m.role !== "system").map((m) => ({ role: m.role as "user" | "assistant", content: m.content })),
+      temperature: request.temperature,
+      text: {
+        format: request.schema
+          ? { type: "json_schema" as const, name: request.schema.name, schema: request.schema.schema, strict: false }
+          : { type: "json_object" as const },
+      },
+    };
+  }
+
+  async completeJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    const response = await this.client.responses.create(this.body(request), { signal: request.signal });
+    return { text: (response.output_text ?? "").trim(), provider: this.name, model: response.model };
+  }
+
+  async streamJson(request: LlmJsonRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    const stream = await this.client.responses.create({ ...this.body(request), stream: true }, { signal: request.signal });
+    let text = "";
+    let model: string | undefined;
+    for await (const event of stream) {
+      if (event.type === "response.output_text.delta") {
+        text += event.delta;
+        onDelta(event.delta);
+      } else if (event.type === "response.completed") {
+        model = event.response.model;
+      }
+    }
+    return { text: text.trim(), provider: this.name, model };
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// OpenAI Assistants/Threads, provider "openai" (instructions live on the assistant)
+// ────────────────────────────────────────────────────────────────────────────
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export class OpenAiAssistantsProvider implements LlmProvider {
+  readonly name = "openai";
+  private readonly client: OpenAI;
+
+  constructor(readonly opts: { apiKey: string; assistantId: string }) {
+    this.client = new OpenAI({ apiKey: opts.apiKey });
+  }
+
+  async completeJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    const client = this.client;
+    const { signal } = request;
+    // the assistant carries its own instructions; system messages go in as additional ones
+    const additional_instructions = request.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n") || undefined;
+    const thread = await client.beta.threads.create({
+      messages: request.messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({ role: m.role as "user" | "assistant", content: m.content })),
+    }, { signal });
+    const run = await client.beta.threads.runs.create(thread.id, {
+      assistant_id: this.opts.assistantId,
+      additional_instructions,
+    }, { signal });
+
+    // Poll until terminal; an aborted request cancels the run instead of waiting it out
+    let status = run.status;
+    for (let i = 0; i < 60 && !["completed", "failed", "cancelled", "expired"].includes(status); i++) {
+      await sleep(500);
+      if (signal?.aborted) {
+        await client.beta.threads.runs.cancel(thread.id, run.id).catch(() => undefined);
+        signal.throwIfAborted();
+      }
+      const r2 = await client.beta.threads.runs.retrieve(thread.id, run.id, { signal });
+      status = r2.status;
+    }
+    if (status !== "completed") throw new Error(`assistant_run_not_completed:${status}`);
+
+    // Fetch latest assistant message
+    const msgs = await client.beta.threads.messages.list(thread.id, { order: "desc", limit: 10 }, { signal });
+    const firstAssistantMsg = msgs.data.find((m) => m.role === "assistant");
+    const text = (firstAssistantMsg?.content ?? [])
+      .map((c) => (c.type === "text" ? c.text.value : ""))
+      .join("\n")
+      .trim();
+    return { text, provider: this.name };
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Scripted fake
+// ────────────────────────────────────────────────────────────────────────────
+export type ScriptedReply = string | Record<string, unknown> | unknown[] | ((request: LlmJsonRequest, turn: number) => unknown);
+
+/**
+ * Replays `replies` in order, one per call (functions are called with the request), and records
+ * every request in `requests`. Throws `llm_script_exhausted` once the script runs out.
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly requests: LlmJsonRequest[] = [];
+
+  constructor(private readonly replies: ScriptedReply[]) {}
+
+  async completeJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    const turn = this.requests.length;
+    this.requests.push(request);
+    if (turn >= this.replies.length) throw new Error("llm_script_exhausted");
+    const reply = this.replies[turn];
+    const value = typeof reply === "function" ? reply(request, turn) : reply;
+    return { text: typeof value === "string" ? value : JSON.stringify(value), provider: this.name, model: "scripted" };
+  }
+
+  /** Replays the scripted reply in small chunks, like a streaming model would. */
+  async streamJson(request: LlmJsonRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    const completion = await this.completeJson(request);
+    for (let at = 0; at < completion.text.length; at += 16) onDelta(completion.text.slice(at, at + 16));
+    return completion;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Selection from settings.llm
+// ────────────────────────────────────────────────────────────────────────────
+// One scripted provider per process, so a multi-turn script advances across requests;
+// it starts over when settings.llm.script changes.
+let fakeProvider: { script: string; provider: ScriptedLlmProvider } | null = null;
+
+function scriptedProvider(script: unknown): ScriptedLlmProvider {
+  const replies = Array.isArray(script) ? (script as ScriptedReply[]) : [];
+  const key = JSON.stringify(replies);
+  if (fakeProvider?.script !== key) fakeProvider = { script: key, provider: new ScriptedLlmProvider(replies) };
+  return fakeProvider.provider;
+}
+
+/**
+ * Builds the provider named by `settings.provider` (default "openai") for one of the assistants.
+ * Keys and assistant ids fall back to the OPENAI_* env vars; throws LlmConfigError when one is missing.
+ * "fake" returns the same scripted instance on every call while the script is unchanged.
+ */
+export function createLlmProvider(
+  settings: LlmSettings | null | undefined,
+  assistant: "chat" | "intermediary",
+  env: Record<string, string | undefined> = process.env
+): LlmProvider {
+  const llm = settings ?? {};
+  const provider = llm.provider ?? "openai";
+  const apiKey = llm.apiKey || env.OPENAI_API_KEY;
+  const model = llm.chatModel || DEFAULT_MODEL;
+
+  switch (provider) {
+    case "openai-chat":
+    case "openai-responses": {
+      if (!apiKey) throw new LlmConfigError("Missing OPENAI_API_KEY (or settings.llm.apiKey)", "missing_openai_config");
+      const baseURL = env.OPENAI_BASE_URL || undefined;
+      return provider === "openai-chat"
+        ? new OpenAiChatProvider({ apiKey, model, baseURL })
+        : new OpenAiResponsesProvider({ apiKey, model, baseURL });
+    }
+    case "openai": {
+      const assistantId = assistant === "chat"
+        ? llm.chatAssistantId || env.OPENAI_ASSISTANT_ID
+        : llm.intermediaryAssistantId || env.OPENAI_CHAR_INTERMEDIARY_ASSISTANT_ID;
+      if (!apiKey || !assistantId) {
+        throw new LlmConfigError(
+          assistant === "chat"
+            ? "Missing OPENAI_API_KEY or chat assistant id (settings.llm.chatAssistantId or OPENAI_ASSISTANT_ID)"
+            : "Missing OPENAI_API_KEY or intermediary assistant id (settings.llm.intermediaryAssistantId or OPENAI_CHAR_INTERMEDIARY_ASSISTANT_ID)",
+          "missing_openai_config"
+        );
+      }
+      return new OpenAiAssistantsProvider({ apiKey, assistantId });
+    }
+    case "local": {
+      const baseURL = llm.baseUrl || env.LLM_BASE_URL || DEFAULT_LOCAL_URL;
+      if (!llm.chatModel) throw new LlmConfigError("Missing settings.llm.chatModel (the model name served at the local endpoint)");
+      // most local servers ignore the key, but the client requires one
+      return new OpenAiChatProvider({ apiKey: llm.apiKey || "local", model: llm.chatModel, baseURL, name: "local", jsonMode: "json_object" });
+    }
+    case "fake":
+      return scriptedProvider(llm.script);
+    default:
+      throw new LlmConfigError(`Unknown settings.llm.provider "${provider}" (expected one of ${LLM_PROVIDERS.join(", ")})`);
+  }
+}
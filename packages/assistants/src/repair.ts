@@ -0,0 +1,108 @@
+// packages/assistants/src/repair.ts
+// ESM / NodeNext compatible
+//
+// Bounded self-repair: when a reply does not parse or validate, the validator's error summary is
+// sent back to the model (after its own reply) and the request is retried, up to `repairAttempts`
+// extra times. Every attempt is returned so callers can expose it as a debug trace.
+
+import { streamJsonCompletion, type LlmJsonRequest, type LlmProvider } from "./llm.js";
+
+export type ReplyErrors = Array<{ message?: string; instancePath?: string; keyword?: string }>;
+
+export type RepairAttempt = {
+  attempt: number;          // 0 = first answer, 1.. = repairs
+  ok: boolean;
+  rawText: string;
+  errors?: ReplyErrors;     // why the reply was rejected
+  provider: string;
+  model?: string;
+};
+
+export type ReplyCheck<T> = { ok: true; value: T } | { ok: false; errors: ReplyErrors };
+
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+export const MAX_REPAIR_ATTEMPTS = 5;
+
+/** `settings.llm.repairAttempts` clamped to 0–5; DEFAULT_REPAIR_ATTEMPTS when unset or not a number. */
+export function resolveRepairAttempts(value: unknown): number {
+  const n = typeof value === "number" && Number.isFinite(value) ? Math.floor(value) : DEFAULT_REPAIR_ATTEMPTS;
+  return Math.max(0, Math.min(MAX_REPAIR_ATTEMPTS, n));
+}
+
+function stripJsonFence(s: string): string {
+  // remove ```json ... ``` or ``` ... ``` fences if present
+  return s.replace(/^```json\s*/i, "").replace(/^```\s*/i, "").replace(/\s*```$/i, "").trim();
+}
+
+function repairPrompt(errors: ReplyErrors): string {
+  const lines = errors.slice(0, 25).map((e) => `- ${e.instancePath || "/"}: ${e.message ?? e.keyword ?? "invalid"}`);
+  return (
+    "Your previous reply was rejected by the validator:\n" +
+    `${lines.join("\n")}\n\n` +
+    "Return the corrected, complete JSON object only — same contract as before, no prose or code fences."
+  );
+}
+
+/**
+ * Completes `request`, parses the JSON reply and runs `check` on it; on failure appends the reply
+ * and the errors to the conversation and asks again, at most `repairAttempts` times.
+ * With `streamHandler` each attempt is streamed to a fresh handler; `onRepair` reports a rejected
+ * attempt before the retry, so streaming callers can reset what they have shown.
+ */
+export async function completeWithRepair<T>(params: {
+  llm: LlmProvider;
+  request: LlmJsonRequest;
+  check: (parsed: unknown) => ReplyCheck<T>;
+  repairAttempts?: number;
+  streamHandler?: () => (delta: string) => void;
+  onRepair?: (attempt: RepairAttempt) => void;
+  debugLabel?: string;
+}): Promise<{ ok: true; value: T; rawText: string; attempts: RepairAttempt[] } | { ok: false; errors: ReplyErrors; attempts: RepairAttempt[] }> {
+  const maxRepairs = resolveRepairAttempts(params.repairAttempts);
+  const messages = [...params.request.messages];
+  const attempts: RepairAttempt[] = [];
+  const DEBUG = (process.env.ASSISTANT_DEBUG ?? "").toLowerCase() === "true";
+
+  for (let attempt = 0; ; attempt++) {
+    const request = { ...params.request, messages };
+    const completion = params.streamHandler
+      ? await streamJsonCompletion(params.llm, request, params.streamHandler())
+      : await params.llm.completeJson(request);
+    const rawText = completion.text;
+
+    if (DEBUG) {
+      // eslint-disable-next-line no-console
+      console.group?.(`[${params.debugLabel ?? "assistants"}] raw assistant output (attempt ${attempt})`);
+      // eslint-disable-next-line no-console
+      console.log(rawText);
+      console.groupEnd?.();
+    }
+
+    let result: ReplyCheck<T>;
+    if (!rawText) result = { ok: false, errors: [{ message: "empty assistant output" }] };
+    else {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(stripJsonFence(rawText));
+      } catch {
+        parsed = undefined;
+      }
+      result = parsed === undefined ? { ok: false, errors: [{ message: "non-json output" }] } : params.check(parsed);
+    }
+
+    const record: RepairAttempt = {
+      attempt,
+      ok: result.ok,
+      rawText,
+      ...(result.ok ? {} : { errors: result.errors }),
+      provider: completion.provider,
+      ...(completion.model ? { model: completion.model } : {}),
+    };
+    attempts.push(record);
+    if (result.ok) return { ok: true, value: result.value, rawText, attempts };
+    if (attempt >= maxRepairs || params.request.signal?.aborted) return { ok: false, errors: result.errors, attempts };
+
+    params.onRepair?.(record);
+    messages.push({ role: "assistant", content: rawText || "(empty reply)" }, { role: "user", content: repairPrompt(result.errors) });
+  }
+}
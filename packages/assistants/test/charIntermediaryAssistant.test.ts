@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+
+import { runCharIntermediaryTurn, InvalidIntermediaryPayloadError, ScriptedLlmProvider } from "../src/index";
+
+const selection = {
+  body_type: "female",
+  head_type: "heads_human_female.json",
+  categories: [
+    { category: "body", preferred_colour: "#e0a07a", items: ["body.json"] },
+    { category: "hair", preferred_colour: "red", items: ["hair_bangs.json", "hair_not_a_file.json"] },
+    { category: "jetpack", preferred_colour: "grey", items: ["jetpack.json"] },
+  ],
+};
+
+describe("runCharIntermediaryTurn", () => {
+  it("keeps only categories and items from the category reference", async () => {
+    const llm = new ScriptedLlmProvider([selection]);
+    const r = await runCharIntermediaryTurn({ userMessage: "red hair", llm });
+    expect(r.data.categories).toEqual([
+      { category: "body", preferred_colour: "#e0a07a", items: ["body.json"] },
+      { category: "hair", preferred_colour: "red", items: ["hair_bangs.json"] },
+    ]);
+    expect(r.attempts).toHaveLength(1);
+  });
+
+  it("repairs schema errors and a missing body category", async () => {
+    const llm = new ScriptedLlmProvider([
+      { ...selection, body_type: "giant" },
+      { ...selection, categories: selection.categories.slice(1) },
+      selection,
+    ]);
+    const r = await runCharIntermediaryTurn({ userMessage: "red hair", llm });
+    expect(r.attempts.map((a) => a.ok)).toEqual([false, false, true]);
+    expect(r.attempts[0].errors?.[0]).toMatchObject({ instancePath: "/body_type", keyword: "enum" });
+    expect(r.attempts[1].errors).toEqual([{ message: "missing_required_category:body", instancePath: "/categories" }]);
+  });
+
+  it("throws with every attempt once repairs run out", async () => {
+    const llm = new ScriptedLlmProvider(["nope"]);
+    const err = await runCharIntermediaryTurn({ userMessage: "x", llm, repairAttempts: 0 }).catch((e) => e);
+    expect(err).toBeInstanceOf(InvalidIntermediaryPayloadError);
+    expect(err.errors).toEqual([{ message: "non-json output" }]);
+    expect(err.attempts).toHaveLength(1);
+  });
+});
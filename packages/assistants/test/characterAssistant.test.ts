@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+
+import { runAssistantTurn, runAssistantPatchTurn, ScriptedLlmProvider, InvalidAssistantPayloadError } from "../src/index";
+
+const draft = {
+  client_ready: true,
+  identity: { char_name: "Aria", char_slug: "aria" },
+  personality: { desire: "x", fear: "y", flaw: "z", traits: ["a", "b"] },
+  physical: {
+    age_range: "adult", gender: "female", height_category: "average", build: "average",
+    skin_tone: "#885522", hair_color: "#222222", eye_color: "#336699",
+  },
+};
+
+describe("runAssistantTurn", () => {
+  it("streams the message, keeps the slug and repairs an invalid draft", async () => {
+    const llm = new ScriptedLlmProvider([
+      { message: "Taller.", ...draft, physical: { age_range: "adult" } },
+      { message: "Taller now.", ...draft, identity: { char_name: "Aria" }, physical: { ...draft.physical, height_category: "tall" } },
+    ]);
+    let streamed = "";
+    const r = await runAssistantTurn({ userMessage: "taller", draft, llm, onText: (d) => { streamed += d; } });
+
+    expect(r.assistantText).toBe("Taller now.");
+    expect(r.draft.identity.char_slug).toBe("aria");
+    expect(r.draft.physical.height_category).toBe("tall");
+    expect(r.attempts.map((a) => a.ok)).toEqual([false, true]);
+    expect(r.attempts[0].errors?.[0]).toMatchObject({ instancePath: "/physical", keyword: "required" });
+    expect(streamed).toContain("Taller now.");
+    expect(llm.requests[0].messages.find((m) => m.role === "user")?.content).toContain('"char_slug": "aria"');
+  });
+});
+
+describe("runAssistantPatchTurn", () => {
+  it("applies the patch and reports every operation", async () => {
+    const llm = new ScriptedLlmProvider([{
+      message: "Bolder.",
+      patch: [
+        { op: "add", path: "/personality/traits/-", value: "bold" },
+        { op: "replace", path: "/identity/char_slug", value: "other" },
+      ],
+    }]);
+    const r = await runAssistantPatchTurn({ userMessage: "make her bold", draft, llm });
+
+    expect(r.assistantText).toBe("Bolder.");
+    expect(r.draft.personality.traits).toEqual(["a", "b", "bold"]);
+    expect(r.draft.identity.char_slug).toBe("aria");
+    expect(r.changes.map((c) => c.error)).toEqual([undefined, "SLUG_LOCKED"]);
+    expect(draft.personality.traits).toEqual(["a", "b"]);
+  });
+
+  it("sends validation errors of the patched draft back for repair", async () => {
+    const llm = new ScriptedLlmProvider([
+      { message: "No fear.", patch: [{ op: "remove", path: "/personality/fear" }] },
+      { message: "Braver.", patch: [{ op: "replace", path: "/personality/fear", value: "nothing" }] },
+    ]);
+    const r = await runAssistantPatchTurn({ userMessage: "fearless", draft, llm });
+
+    expect(r.draft.personality.fear).toBe("nothing");
+    expect(r.attempts.map((a) => a.ok)).toEqual([false, true]);
+    expect(r.attempts[0].errors?.[0]).toMatchObject({ instancePath: "/personality", keyword: "required" });
+    expect(llm.requests[1].messages.at(-1)?.content).toContain("patched draft must have required property 'fear'");
+  });
+
+  it("throws with the attempts when no repair validates", async () => {
+    const reply = { message: "No fear.", patch: [{ op: "remove", path: "/personality/fear" }] };
+    const llm = new ScriptedLlmProvider([reply, reply]);
+    const err = await runAssistantPatchTurn({ userMessage: "fearless", draft, llm, repairAttempts: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(InvalidAssistantPayloadError);
+    expect(err.attempts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+
+import { applyDraftPatch, type DraftPatchOperation } from "../src/index";
+
+const draft = {
+  identity: { char_name: "Aria", char_slug: "aria" },
+  personality: { desire: "x", fear: "y", traits: ["a", "b"] },
+};
+
+describe("applyDraftPatch", () => {
+  it("applies each operation to a copy and reports it with before/after", () => {
+    const r = applyDraftPatch(draft, [
+      { op: "add", path: "/personality/traits/-", value: "bold" },
+      { op: "replace", path: "/personality/fear", value: "heights" },
+      { op: "remove", path: "/personality/desire" },
+      { op: "copy", from: "/personality/fear", path: "/personality/flaw" },
+      { op: "test", path: "/identity/char_name", value: "Aria" },
+    ]);
+    expect(r.draft.personality).toEqual({ fear: "heights", flaw: "heights", traits: ["a", "b", "bold"] });
+    expect(r.changes).toEqual([
+      { index: 0, op: "add", path: "/personality/traits/-", before: undefined, after: "bold" },
+      { index: 1, op: "replace", path: "/personality/fear", before: "y", after: "heights" },
+      { index: 2, op: "remove", path: "/personality/desire", before: "x", after: undefined },
+      { index: 3, op: "copy", from: "/personality/fear", path: "/personality/flaw", before: undefined, after: "heights" },
+      { index: 4, op: "test", path: "/identity/char_name", before: "Aria" },
+    ]);
+    expect(draft.personality).toEqual({ desire: "x", fear: "y", traits: ["a", "b"] });
+  });
+
+  it("skips operations that cannot apply and keeps the others", () => {
+    const r = applyDraftPatch(draft, [
+      { op: "replace", path: "/personality/missing/deep", value: 1 },
+      { op: "spin", path: "/personality" } as unknown as DraftPatchOperation,
+      { op: "move", path: "/personality/flaw" } as DraftPatchOperation,
+      { op: "test", path: "/personality/fear", value: "z" },
+      { op: "add", path: "/personality/flaw", value: "pride" },
+    ]);
+    expect(r.changes.map((c) => c.error)).toEqual([
+      "OPERATION_PATH_UNRESOLVABLE", "OPERATION_OP_INVALID", "OPERATION_FROM_REQUIRED", "TEST_OPERATION_FAILED", undefined,
+    ]);
+    expect(r.draft.personality).toEqual({ ...draft.personality, flaw: "pride" });
+  });
+
+  it("locks an existing slug whatever path changes it", () => {
+    const r = applyDraftPatch(draft, [
+      { op: "replace", path: "/identity/char_slug", value: "other" },
+      { op: "remove", path: "/identity" },
+      { op: "replace", path: "", value: { ...draft, identity: { char_name: "Aria", char_slug: "other" } } },
+      { op: "move", from: "/identity/char_slug", path: "/identity/char_name" },
+      { op: "replace", path: "/identity/char_slug", value: "aria" },
+      { op: "replace", path: "/identity/char_name", value: "Ari" },
+    ]);
+    expect(r.changes.map((c) => c.error)).toEqual(["SLUG_LOCKED", "SLUG_LOCKED", "SLUG_LOCKED", "SLUG_LOCKED", undefined, undefined]);
+    expect(r.draft.identity).toEqual({ char_name: "Ari", char_slug: "aria" });
+  });
+
+  it("lets a draft without a slug get one", () => {
+    const r = applyDraftPatch({ identity: { char_name: "Aria" } }, [{ op: "add", path: "/identity/char_slug", value: "aria" }]);
+    expect(r.changes[0].error).toBeUndefined();
+    expect(r.draft.identity.char_slug).toBe("aria");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  createLlmProvider, streamJsonCompletion, LlmConfigError, OpenAiAssistantsProvider, ScriptedLlmProvider,
+} from "../src/index";
+
+const request = { instructions: "json", messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("ScriptedLlmProvider", () => {
+  it("replays replies in order, records requests and runs reply functions", async () => {
+    const llm = new ScriptedLlmProvider(["raw", { a: 1 }, (req, turn) => ({ echo: req.messages[0].content, turn })]);
+    expect((await llm.completeJson(request)).text).toBe("raw");
+    expect((await llm.completeJson(request)).text).toBe('{"a":1}');
+    expect(JSON.parse((await llm.completeJson(request)).text)).toEqual({ echo: "hi", turn: 2 });
+    expect(llm.requests).toHaveLength(3);
+    await expect(llm.completeJson(request)).rejects.toThrow("llm_script_exhausted");
+  });
+
+  it("streams the reply in chunks", async () => {
+    const llm = new ScriptedLlmProvider([{ message: "x".repeat(40) }]);
+    const deltas: string[] = [];
+    const completion = await streamJsonCompletion(llm, request, (d) => deltas.push(d));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(completion.text);
+    expect(completion).toMatchObject({ provider: "fake", model: "scripted" });
+  });
+});
+
+describe("createLlmProvider", () => {
+  it("keeps one fake provider per script, so multi-turn scripts advance", async () => {
+    const settings = { provider: "fake" as const, script: [{ a: 1 }, { a: 2 }] };
+    const first = createLlmProvider(settings, "chat");
+    expect((await first.completeJson(request)).text).toBe('{"a":1}');
+    const again = createLlmProvider({ ...settings, script: [...settings.script] }, "intermediary");
+    expect(again).toBe(first);
+    expect((await again.completeJson(request)).text).toBe('{"a":2}');
+
+    const other = createLlmProvider({ provider: "fake", script: [{ b: 1 }] }, "chat");
+    expect(other).not.toBe(first);
+    expect((await other.completeJson(request)).text).toBe('{"b":1}');
+  });
+
+  it("reports missing keys and unknown providers as configuration errors", () => {
+    expect(() => createLlmProvider({ provider: "openai" }, "chat", {})).toThrow(LlmConfigError);
+    expect(() => createLlmProvider({ provider: "carrier-pigeon" as any }, "chat", {})).toThrow(LlmConfigError);
+  });
+});
+
+describe("createLlmProvider with legacy settings", () => {
+  const legacy = { chatModel: "gpt-4o-mini", chatAssistantId: "asst_chat", intermediaryAssistantId: "asst_inter", apiKey: "sk-test" };
+
+  it("runs settings saved before the provider choice against their configured assistants", () => {
+    const chat = createLlmProvider(legacy, "chat", {});
+    expect(chat).toBeInstanceOf(OpenAiAssistantsProvider);
+    expect(chat.name).toBe("openai");
+    expect((chat as OpenAiAssistantsProvider).opts.assistantId).toBe("asst_chat");
+    const inter = createLlmProvider({ ...legacy, provider: "openai" }, "intermediary", {});
+    expect((inter as OpenAiAssistantsProvider).opts.assistantId).toBe("asst_inter");
+  });
+
+  it("falls back to the env assistant ids and keeps the missing_openai_config code", () => {
+    const env = { OPENAI_API_KEY: "sk-env", OPENAI_ASSISTANT_ID: "asst_env" };
+    expect((createLlmProvider({}, "chat", env) as OpenAiAssistantsProvider).opts).toEqual({ apiKey: "sk-env", assistantId: "asst_env" });
+    expect(() => createLlmProvider({}, "intermediary", env)).toThrow(expect.objectContaining({ code: "missing_openai_config" }));
+    expect(() => createLlmProvider({ provider: "local" }, "chat", {})).toThrow(expect.objectContaining({ code: "missing_llm_config" }));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+
+import { completeWithRepair, resolveRepairAttempts, ScriptedLlmProvider, type ReplyCheck } from "../src/index";
+
+const request = { instructions: "Return {\"n\": number}", messages: [{ role: "user" as const, content: "count" }] };
+
+const positive = (parsed: unknown): ReplyCheck<number> => {
+  const n = (parsed as any)?.n;
+  return typeof n === "number" && n > 0 ? { ok: true, value: n } : { ok: false, errors: [{ instancePath: "/n", message: "must be > 0" }] };
+};
+
+describe("resolveRepairAttempts", () => {
+  it("defaults, floors and clamps to 0–5", () => {
+    expect(resolveRepairAttempts(undefined)).toBe(2);
+    expect(resolveRepairAttempts("3")).toBe(2);
+    expect(resolveRepairAttempts(1.8)).toBe(1);
+    expect(resolveRepairAttempts(-1)).toBe(0);
+    expect(resolveRepairAttempts(99)).toBe(5);
+  });
+});
+
+describe("completeWithRepair", () => {
+  it("returns the first answer that passes the check", async () => {
+    const llm = new ScriptedLlmProvider(["```json\n{\"n\": 3}\n```"]);
+    const r = await completeWithRepair({ llm, request, check: positive });
+    expect(r).toMatchObject({ ok: true, value: 3 });
+    expect(r.attempts).toHaveLength(1);
+    expect(llm.requests).toHaveLength(1);
+  });
+
+  it("feeds the rejected reply and its errors back, then accepts the repair", async () => {
+    const llm = new ScriptedLlmProvider(["not json", { n: 0 }, { n: 2 }]);
+    const repaired: number[] = [];
+    const r = await completeWithRepair({ llm, request, check: positive, onRepair: (a) => repaired.push(a.attempt) });
+
+    expect(r).toMatchObject({ ok: true, value: 2 });
+    expect(r.attempts.map((a) => [a.ok, a.errors?.[0]?.message])).toEqual([
+      [false, "non-json output"],
+      [false, "must be > 0"],
+      [true, undefined],
+    ]);
+    expect(repaired).toEqual([0, 1]);
+
+    const last = llm.requests[2].messages;
+    expect(last).toHaveLength(5);
+    expect(last[3]).toEqual({ role: "assistant", content: "{\"n\":0}" });
+    expect(last[4].content).toContain("- /n: must be > 0");
+  });
+
+  it("gives up after repairAttempts extra tries with the last errors", async () => {
+    const llm = new ScriptedLlmProvider([{ n: 0 }, { n: -1 }, { n: 5 }]);
+    const r = await completeWithRepair({ llm, request, check: positive, repairAttempts: 1 });
+    expect(r.ok).toBe(false);
+    expect(r.attempts).toHaveLength(2);
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it("streams each attempt to a fresh handler", async () => {
+    const llm = new ScriptedLlmProvider(["", { n: 1 }]);
+    const streams: string[] = [];
+    const r = await completeWithRepair({
+      llm, request, check: positive,
+      streamHandler: () => {
+        streams.push("");
+        return (delta) => { streams[streams.length - 1] += delta; };
+      },
+    });
+    expect(r.ok).toBe(true);
+    expect(r.attempts[0].errors).toEqual([{ message: "empty assistant output" }]);
+    expect(streams).toEqual(["", "{\"n\":1}"]);
+  });
+});
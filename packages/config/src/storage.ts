@@ -54,6 +54,47 @@ export async function readUlpcBuild(slug: string): Promise<any> {
   return JSON.parse(text);
 }
 
+// Character assistant conversation, one JSON object per line (appended every turn)
+export const ASSISTANT_HISTORY_FILE = "assistant_history.jsonl";
+
+export type AssistantHistoryEntry = {
+  at: string;                 // ISO timestamp
+  user?: string;              // writer's message; absent on `applied` entries
+  assistant?: string;         // chat reply, when the turn validated
+  draft?: unknown;            // resulting CharacterLite draft
+  patch?: unknown[];          // patch mode: proposed RFC 6902 operations (the writer picks which to apply)
+  applied?: unknown[];        // operations the writer accepted from a patch; `draft` is the result
+  errors?: unknown[];         // validator summaries when the reply was rejected
+  provider?: string;
+};
+
+export async function appendAssistantHistory(slug: string, entry: AssistantHistoryEntry): Promise<string> {
+  const dir = charDir(slug);
+  await ensureDir(dir);
+  const file = join(dir, ASSISTANT_HISTORY_FILE);
+  await fs.appendFile(file, JSON.stringify(entry) + "\n", "utf8");
+  return file;
+}
+
+/** Turns oldest first; [] when the character has no history yet. Unreadable lines are skipped. */
+export async function readAssistantHistory(slug: string): Promise<AssistantHistoryEntry[]> {
+  const text = await fs.readFile(join(charDir(slug), ASSISTANT_HISTORY_FILE), "utf8").catch(() => "");
+  const out: AssistantHistoryEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line));
+    } catch {
+      // partial line from an interrupted write
+    }
+  }
+  return out;
+}
+
+export async function clearAssistantHistory(slug: string): Promise<void> {
+  await fs.rm(join(charDir(slug), ASSISTANT_HISTORY_FILE), { force: true });
+}
+
 // ───────────────────────── Project Settings ─────────────────────────
 // Canonical path (preferred) and legacy fallback
 export const SETTINGS_FILE: string =
@@ -114,6 +155,33 @@ export const TILESET_ROOT: string =
 
 export const tilesetDir = (slug: string) => join(TILESET_ROOT, slug);
 
+// User-registered tileset pattern definitions (<id>.json), shared by api and workers
+export const TILESET_PATTERN_ROOT: string =
+  process.env.TILESET_PATTERN_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "tileset-patterns");
+
+// Tileset bundles (<id>/bundle.json): several tilesets exported as one Godot TileSet
+export const TILESET_BUNDLE_ROOT: string =
+  process.env.TILESET_BUNDLE_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "tileset-bundles");
+
+// Palette library (<id>.json from imports, or raw .gpl/.hex/.pal), shared by api and workers
+export const PALETTE_ROOT: string =
+  process.env.PALETTE_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "palettes");
+
+// Project-local custom sprite layers (<category>/<variant>/layer.json + <animation>.png), used by ULPC builds
+export const CUSTOM_LAYER_ROOT: string =
+  process.env.CUSTOM_LAYER_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "custom-layers");
+
+// Texture atlases packed from several characters (<name>/<name>.atlas.json + <name>_<n>.png pages)
+export const ATLAS_ROOT: string =
+  process.env.ATLAS_ROOT ??
+  resolve(process.cwd(), "..", "..", "assets", "atlases");
+
+export const atlasDir = (name: string) => join(ATLAS_ROOT, name);
+
 export async function writeTilesetManifest(slug: string, data: unknown): Promise<string> {
   const dir = tilesetDir(slug);
   await ensureDir(dir);
@@ -1,11 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { mkdtempSync, rmSync } from "node:fs";
+import { appendFileSync, existsSync, mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 // Use compiled API (ESM)
 const cfg = await import("../dist/index.js");
-const { writeLiteDef, readLiteDef } = cfg;
+const { writeLiteDef, readLiteDef, appendAssistantHistory, readAssistantHistory, clearAssistantHistory, charDir, ASSISTANT_HISTORY_FILE } = cfg;
 
 const slug = "tester_" + Math.random().toString(36).slice(2, 7);
 const valid = {
@@ -31,6 +31,8 @@ beforeAll(() => {
 
 afterAll(() => {
   rmSync(root, { recursive: true, force: true });
+  // ASSET_ROOT is read when the module loads, before beforeAll runs
+  rmSync(charDir(slug), { recursive: true, force: true });
 });
 
 describe("storage write/read", () => {
@@ -41,4 +43,34 @@ describe("storage write/read", () => {
     expect(got.identity.char_slug).toBe(slug);
     expect(got.personality.traits.length).toBe(2);
   });
+
+  it("appends and reads assistant history in order", async () => {
+    await appendAssistantHistory(slug, { at: "2024-01-01T00:00:00.000Z", user: "hi", assistant: "hello", draft: valid });
+    await appendAssistantHistory(slug, { at: "2024-01-01T00:01:00.000Z", user: "taller", errors: [{ message: "bad" }] });
+    const turns = await readAssistantHistory(slug);
+    expect(turns.map((t: any) => t.user)).toEqual(["hi", "taller"]);
+    expect(turns[1].errors).toHaveLength(1);
+    await clearAssistantHistory(slug);
+    expect(await readAssistantHistory(slug)).toEqual([]);
+  });
+
+  it("skips corrupt history lines and keeps the rest", async () => {
+    await appendAssistantHistory(slug, { at: "2024-01-02T00:00:00.000Z", user: "first" });
+    appendFileSync(join(charDir(slug), ASSISTANT_HISTORY_FILE), '{"at":"2024-01-02T00:01:00.000Z","us\n\n');
+    await appendAssistantHistory(slug, { at: "2024-01-02T00:02:00.000Z", applied: [], draft: valid });
+    const turns = await readAssistantHistory(slug);
+    expect(turns.map((t: any) => t.at)).toEqual(["2024-01-02T00:00:00.000Z", "2024-01-02T00:02:00.000Z"]);
+    expect(turns[1].draft.identity.char_slug).toBe(slug);
+    await clearAssistantHistory(slug);
+  });
+
+  it("clears only the history, and tolerates a missing one", async () => {
+    await writeLiteDef(slug, valid);
+    await appendAssistantHistory(slug, { at: "2024-01-03T00:00:00.000Z", user: "hi" });
+    await clearAssistantHistory(slug);
+    expect(existsSync(join(charDir(slug), ASSISTANT_HISTORY_FILE))).toBe(false);
+    await expect(clearAssistantHistory(slug)).resolves.toBeUndefined();
+    expect(await readAssistantHistory(slug)).toEqual([]);
+    expect((await readLiteDef(slug)).identity.char_slug).toBe(slug);
+  });
 });
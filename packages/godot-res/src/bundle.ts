@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  renderAtlasSource, renderTileSetResource,
+  type RulesConfig, type TileRule, type TerrainDef, type TerrainSetMode, type PeerKey, type CustomDataLayer,
+} from "./tileset.js";
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Tileset bundles: several atlases in one TileSet sharing a single terrain set
+// ──────────────────────────────────────────────────────────────────────────────
+export interface BundleSource {
+  key: string;                  // tileset slug; unique within the bundle
+  extResourcePath: string;      // res:// path of this source's atlas PNG
+  rules: RulesConfig;
+}
+
+export interface BundleTerrain { id: number; name: string; sources: string[]; }
+
+const terrainKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Remap every source onto one terrain set: terrains with the same name (case-insensitive, so
+ * "Sand" in grass↔sand and "sand" in sand↔water) get the same global id, and the peering bits
+ * follow. Navigation layers merge by name (vehicle) and custom data layers by layer name.
+ * Throws `terrain_mode_mismatch:<key>` when sources disagree on the terrain set mode and
+ * `tile_size_mismatch:<key>` when their tiles differ in size.
+ */
+export function mergeBundleRules(name: string, sources: BundleSource[]): {
+  resource: RulesConfig;        // global terrain set + layers, no tiles
+  sources: RulesConfig[];       // per-source rules remapped to the global ids
+  terrains: BundleTerrain[];
+} {
+  const tileSize = sources[0]?.rules.meta.tileSize ?? 32;
+  let mode: TerrainSetMode | null = null;
+  const terrains: Array<TerrainDef & { sources: string[] }> = [];
+  const byName = new Map<string, number>();
+  const navByName = new Map<string, number>();
+  const customLayers: CustomDataLayer[] = [];
+
+  const remapped = sources.map((src) => {
+    const { rules } = src;
+    if (rules.meta.tileSize !== tileSize) throw new Error(`tile_size_mismatch:${src.key}`);
+
+    // (set id, terrain id) in this source → global terrain id
+    const local = new Map<string, number>();
+    for (const ts of rules.terrainSets) {
+      if (mode && ts.mode !== mode) throw new Error(`terrain_mode_mismatch:${src.key}`);
+      mode = mode ?? ts.mode;
+      for (const t of ts.terrains) {
+        const k = terrainKey(t.name);
+        let id = byName.get(k);
+        if (id === undefined) {
+          id = terrains.length;
+          byName.set(k, id);
+          terrains.push({ id, name: t.name, color: t.color, sources: [] });
+        }
+        if (!terrains[id].sources.includes(src.key)) terrains[id].sources.push(src.key);
+        local.set(`${ts.id}:${t.id}`, id);
+      }
+    }
+
+    const navLocal = new Map<number, number>();
+    for (const l of rules.navigationLayers ?? []) {
+      const k = l.name ?? `${src.key}:${l.id}`;
+      if (!navByName.has(k)) navByName.set(k, navByName.size);
+      navLocal.set(l.id, navByName.get(k)!);
+    }
+    for (const l of rules.customDataLayers ?? []) {
+      if (!customLayers.some((c) => c.name === l.name)) customLayers.push(l);
+    }
+
+    const tiles: TileRule[] = rules.tiles.map((t) => {
+      const set = typeof t.terrainSet === "number" ? t.terrainSet : null;
+      const map = (id: number) => (set === null ? undefined : local.get(`${set}:${id}`));
+      const next: TileRule = { ...t, terrainSet: set === null ? t.terrainSet : 0, peers: undefined };
+      if (typeof t.terrain === "number") next.terrain = map(t.terrain);
+      // `peers` are bits set to terrain 1 of the source set; make them explicit like peerTerrains
+      const peerTerrains: Partial<Record<PeerKey, number>> = {};
+      for (const p of t.peers ?? []) peerTerrains[p] = map(1);
+      for (const [p, id] of Object.entries(t.peerTerrains ?? {})) {
+        if (typeof id === "number") peerTerrains[p as PeerKey] = map(id);
+      }
+      if (Object.keys(peerTerrains).length) next.peerTerrains = peerTerrains;
+      if (t.navigation) {
+        next.navigation = Object.fromEntries(Object.entries(t.navigation)
+          .filter(([layer]) => navLocal.has(Number(layer)))
+          .map(([layer, outlines]) => [navLocal.get(Number(layer))!, outlines]));
+      }
+      return next;
+    });
+    return { ...rules, tiles };
+  });
+
+  const navigationLayers = [...navByName.keys()].map((n, i) => ({ id: i, layers: 2 ** i, name: n }));
+  const resource: RulesConfig = {
+    meta: { name, tileSize, indexBase: 0 },
+    terrainSets: terrains.length ? [{ id: 0, mode: mode ?? "MATCH_CORNERS_AND_SIDES", terrains: terrains.map(({ id, name, color }) => ({ id, name, color })) }] : [],
+    tiles: [],
+    navigationLayers,
+    customDataLayers: customLayers,
+  };
+  return {
+    resource,
+    // layer tables must be the global ones so per-tile indices line up across atlases
+    sources: remapped.map((r) => ({ ...r, navigationLayers, customDataLayers: customLayers })),
+    terrains: terrains.map(({ id, name, sources }) => ({ id, name, sources })),
+  };
+}
+
+/** Write one TileSet .tres with an atlas source per bundle source (sources/<i>, in order). */
+export async function writeTileSetBundleTres(params: {
+  outDir: string;
+  name: string;
+  sources: BundleSource[];
+  fileName?: string;            // default <name>.tres
+}): Promise<{ path: string; terrains: BundleTerrain[] }> {
+  const { outDir, name, sources } = params;
+  const merged = mergeBundleRules(name, sources);
+
+  const ext: string[] = [];
+  const subs: string[] = [];
+  const atlasIds: string[] = [];
+  let subCount = 0;
+  sources.forEach((src, i) => {
+    const extId = `${i + 1}_tex`;
+    const atlasId = `TileSetAtlasSource_${src.key.replace(/[^a-z0-9_]/gi, "_")}`;
+    ext.push(`[ext_resource type="Texture2D" path="${src.extResourcePath}" id="${extId}"]`);
+    const atlas = renderAtlasSource(merged.sources[i], { extId, atlasId, idPrefix: `${i}_` });
+    subs.push(...atlas.lines, "");
+    subCount += atlas.subResourceCount;
+    atlasIds.push(atlasId);
+  });
+
+  const ts = merged.resource.meta.tileSize;
+  const resLines = renderTileSetResource(merged.resource);
+  resLines.splice(1, 0, `tile_size = Vector2i(${ts}, ${ts})`);
+  atlasIds.forEach((id, i) => resLines.push(`sources/${i} = SubResource("${id}")`));
+
+  const out = [
+    `[gd_resource type="TileSet" load_steps=${sources.length + subCount + 1} format=3 uid="uid://auto_bundle_${name}"]`,
+    "",
+    ...ext,
+    "",
+    ...subs,
+    ...resLines,
+    "",
+  ].join("\n");
+
+  await fs.mkdir(outDir, { recursive: true });
+  const filePath = path.join(outDir, params.fileName ?? `${name}.tres`);
+  await fs.writeFile(filePath, out, "utf8");
+  return { path: filePath, terrains: merged.terrains };
+}
@@ -0,0 +1,77 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Project-wide character registry the game loads at boot: one entry per exported character.
+export interface CharacterIndexEntry {
+  id: string;                          // character slug / folder id
+  name: string;
+  numericId: number;
+  classTag: string;
+  resources: Record<string, string>;   // res:// paths, e.g. creature, overworldVisual, spriteFrames
+  exportedAt: string;
+}
+
+export interface CharactersIndex {
+  schema: "characters.index/1.0";
+  characters: CharacterIndexEntry[];
+}
+
+export const CHARACTERS_INDEX_JSON = "characters_index.json";
+export const CHARACTERS_INDEX_TRES = "characters_index.tres";
+
+/** Existing index in `dir`, or an empty one. */
+export async function readCharactersIndex(dir: string): Promise<CharactersIndex> {
+  try {
+    const json = JSON.parse(await fs.readFile(path.join(dir, CHARACTERS_INDEX_JSON), "utf8"));
+    if (json?.schema === "characters.index/1.0" && Array.isArray(json.characters)) return json as CharactersIndex;
+  } catch { /* missing or unreadable: start over */ }
+  return { schema: "characters.index/1.0", characters: [] };
+}
+
+/** Groups of character ids sharing a numericId; empty when every id is unique. */
+export function findNumericIdCollisions(entries: Array<{ id: string; numericId: number }>): Array<{ numericId: number; ids: string[] }> {
+  const byId = new Map<number, string[]>();
+  for (const e of entries) byId.set(e.numericId, [...(byId.get(e.numericId) ?? []), e.id]);
+  return [...byId].filter(([, ids]) => ids.length > 1).map(([numericId, ids]) => ({ numericId, ids }));
+}
+
+/** Replaces entries with the same id, keeps the rest; sorted by numericId. */
+export function mergeCharactersIndex(index: CharactersIndex, entries: CharacterIndexEntry[]): CharactersIndex {
+  const ids = new Set(entries.map((e) => e.id));
+  const characters = [...index.characters.filter((c) => !ids.has(c.id)), ...entries]
+    .sort((a, b) => a.numericId - b.numericId || a.id.localeCompare(b.id));
+  return { schema: "characters.index/1.0", characters };
+}
+
+/**
+ * Godot 4 text resource carrying the registry as metadata, so the game needs no extra script:
+ * `load(".../characters_index.tres").get_meta("characters")` → Array of Dictionaries.
+ */
+export function renderCharactersIndexTres(index: CharactersIndex): string {
+  // JSON arrays/dictionaries of strings and numbers are valid Godot variant text
+  const characters = index.characters.map((c) => ({
+    id: c.id,
+    name: c.name,
+    numeric_id: c.numericId,
+    class_tag: c.classTag,
+    resources: c.resources,
+  }));
+  return [
+    `[gd_resource type="Resource" format=3]`,
+    "",
+    "[resource]",
+    `metadata/schema = "${index.schema}"`,
+    `metadata/characters = ${JSON.stringify(characters, null, 1)}`,
+    "",
+  ].join("\n");
+}
+
+/** Writes characters_index.json and characters_index.tres into `dir`. */
+export async function writeCharactersIndex(dir: string, index: CharactersIndex): Promise<{ json: string; tres: string }> {
+  await fs.mkdir(dir, { recursive: true });
+  const json = path.join(dir, CHARACTERS_INDEX_JSON);
+  const tres = path.join(dir, CHARACTERS_INDEX_TRES);
+  await fs.writeFile(json, JSON.stringify(index, null, 2), "utf8");
+  await fs.writeFile(tres, renderCharactersIndexTres(index), "utf8");
+  return { json, tres };
+}
@@ -0,0 +1,109 @@
+// Engine profile: where exported resources live in the Godot project and which scripts they use.
+// Stored in project settings (`engine_profile`) so several games can share the backbone with
+// different folder layouts. Path templates are project-relative and take {id} / {slug} / {name}.
+
+export type EnginePathKey =
+  | "character"            // Creature resource, persist_path
+  | "characterDefault"     // visuals, SpriteFrames, AnimMeta (mirrors the character asset folder)
+  | "overworldFrames"      // sliced ULPC frames read by CharacterVisual
+  | "battleAnimations"
+  | "charactersIndex"      // characters_index.json/.tres registry loaded at boot
+  | "spriteAtlas"          // shared packed atlases (pages + .atlas.json); {id} = atlas name
+  | "tileset"              // single tileset export (atlas + tileset.tres)
+  | "tilesetBundle"
+  | "proceduralTileset";   // .tres written next to procedural sheets
+
+export type EngineScriptKey =
+  | "characterVisual"
+  | "creature"             // Creature resource in the project
+  | "standaloneCreature"   // Creature resource written next to the character assets
+  | "overworldPlayer";
+
+export interface EngineProfile {
+  name: string;
+  paths: Record<EnginePathKey, string>;
+  scripts: Record<EngineScriptKey, string>;   // res:// paths
+}
+
+export type EngineProfileInput = {
+  name?: string;
+  paths?: Partial<Record<EnginePathKey, string>>;
+  scripts?: Partial<Record<EngineScriptKey, string>>;
+};
+
+export const DEFAULT_ENGINE_PROFILE: EngineProfile = {
+  name: "default",
+  paths: {
+    character: "Assets/Characters/{id}",
+    characterDefault: "Assets/Characters/{id}/Default",
+    overworldFrames: "Assets/Characters/{id}/Default/ulpc_frames",
+    battleAnimations: "Assets/Characters/{id}/Default/Animations/Battle",
+    charactersIndex: "Assets/Characters",
+    spriteAtlas: "Assets/Characters/Atlases/{id}",
+    tileset: "Assets/Tilesets/{slug}",
+    tilesetBundle: "Assets/TilesetBundles/{id}",
+    proceduralTileset: "Assets/Tilesets/TilesetRessources/{slug}",
+  },
+  scripts: {
+    characterVisual: "res://System/CombatScreen/BattleActors/CharacterVisual.gd",
+    creature: "res://System/Creatures/Creature.gd",
+    standaloneCreature: "res://Scripts/Creature.gd",
+    overworldPlayer: "res://Scripts/OverworldPlayer.gd",
+  },
+};
+
+const PLACEHOLDERS = new Set(["id", "slug", "name"]);
+
+/**
+ * Checks a (partial) profile; returns a list of problems, empty when valid. Path templates must be
+ * project-relative without "..", scripts res:// paths, and only {id}/{slug}/{name} are allowed.
+ */
+export function validateEngineProfile(input: unknown): string[] {
+  const errors: string[] = [];
+  if (input === undefined || input === null) return errors;
+  if (typeof input !== "object" || Array.isArray(input)) return ["profile must be an object"];
+  const p = input as EngineProfileInput;
+  if (p.name !== undefined && typeof p.name !== "string") errors.push("name must be a string");
+  for (const [group, known] of [["paths", DEFAULT_ENGINE_PROFILE.paths], ["scripts", DEFAULT_ENGINE_PROFILE.scripts]] as const) {
+    const entries = (p as any)[group];
+    if (entries === undefined) continue;
+    if (!entries || typeof entries !== "object" || Array.isArray(entries)) { errors.push(`${group} must be an object`); continue; }
+    for (const [k, v] of Object.entries(entries)) {
+      if (!Object.hasOwn(known, k)) { errors.push(`${group}.${k} is not a known key`); continue; }
+      if (typeof v !== "string" || !v.trim()) { errors.push(`${group}.${k} must be a non-empty string`); continue; }
+      if (group === "scripts" && !v.startsWith("res://")) errors.push(`${group}.${k} must start with res://`);
+      if (group === "paths" && (v.startsWith("res://") || v.startsWith("/") || v.split("/").includes(".."))) {
+        errors.push(`${group}.${k} must be project-relative`);
+      }
+      for (const m of v.matchAll(/\{([^}]*)\}/g)) {
+        if (!PLACEHOLDERS.has(m[1])) errors.push(`${group}.${k}: unknown placeholder {${m[1]}}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Defaults overlaid with the stored profile; throws `invalid_engine_profile:<first problem>`. */
+export function resolveEngineProfile(input?: unknown): EngineProfile {
+  const errors = validateEngineProfile(input);
+  if (errors.length) throw new Error(`invalid_engine_profile:${errors[0]}`);
+  const p = (input ?? {}) as EngineProfileInput;
+  return {
+    name: p.name ?? DEFAULT_ENGINE_PROFILE.name,
+    paths: { ...DEFAULT_ENGINE_PROFILE.paths, ...p.paths },
+    scripts: { ...DEFAULT_ENGINE_PROFILE.scripts, ...p.scripts },
+  };
+}
+
+/** Project-relative folder for `key` with placeholders filled ("Assets/Characters/elara"). */
+export function enginePath(profile: EngineProfile, key: EnginePathKey, vars: { id?: string; slug?: string; name?: string }): string {
+  return profile.paths[key]
+    .replace(/\{(id|slug|name)\}/g, (_, k: "id" | "slug" | "name") => vars[k] ?? vars.id ?? vars.slug ?? "")
+    .replace(/^\/+|\/+$/g, "");
+}
+
+/** res:// form of enginePath, optionally with a file appended. */
+export function engineResPath(profile: EngineProfile, key: EnginePathKey, vars: { id?: string; slug?: string; name?: string }, file?: string): string {
+  const dir = `res://${enginePath(profile, key, vars)}`;
+  return file ? `${dir}/${file}` : dir;
+}
@@ -0,0 +1,190 @@
+// Small arithmetic expression language for designer-authored formulas (derived creature stats).
+// Parsed into an AST and interpreted; no eval, no property access, only whitelisted functions.
+//
+//   expr    := cond
+//   cond    := compare ("?" expr ":" expr)?
+//   compare := sum (("<" | "<=" | ">" | ">=" | "==" | "!=") sum)?
+//   sum     := product (("+" | "-") product)*
+//   product := unary (("*" | "/" | "%") unary)*
+//   unary   := ("-" | "+") unary | power
+//   power   := atom ("^" unary)?
+//   atom    := number | identifier | identifier "(" args ")" | "(" expr ")"
+//
+// Comparisons yield 1 or 0; a condition is true when non-zero.
+
+type Node =
+  | { t: "num"; v: number }
+  | { t: "var"; name: string }
+  | { t: "neg"; a: Node }
+  | { t: "bin"; op: string; a: Node; b: Node }
+  | { t: "cond"; c: Node; a: Node; b: Node }
+  | { t: "call"; fn: string; args: Node[] };
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...xs: number[]) => number }> = {
+  min:   { arity: [1, Infinity], fn: (...xs) => Math.min(...xs) },
+  max:   { arity: [1, Infinity], fn: (...xs) => Math.max(...xs) },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil:  { arity: [1, 1], fn: Math.ceil },
+  round: { arity: [1, 1], fn: Math.round },
+  abs:   { arity: [1, 1], fn: Math.abs },
+  sqrt:  { arity: [1, 1], fn: Math.sqrt },
+  clamp: { arity: [3, 3], fn: (x, lo, hi) => Math.min(hi, Math.max(lo, x)) },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const MAX_SOURCE = 500;
+const MAX_DEPTH = 32;
+
+export interface Expression {
+  source: string;
+  identifiers: string[];                          // variables referenced, in first-use order
+  evaluate(vars: Record<string, number>): number;
+}
+
+function tokenize(src: string): string[] {
+  const tokens: string[] = [];
+  const re = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(<=|>=|==|!=|[-+*/%^()<>?:,]))/y;
+  let pos = 0;
+  while (pos < src.length) {
+    if (/^\s*$/.test(src.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(src);
+    if (!m) throw new Error(`invalid_expression:unexpected_character:${src.slice(pos).trim()[0]}`);
+    tokens.push(m[1] ?? m[2] ?? m[3]);
+    pos = re.lastIndex;
+  }
+  return tokens;
+}
+
+function parse(src: string): Node {
+  const tokens = tokenize(src);
+  let i = 0;
+  let depth = 0;
+  const peek = () => tokens[i];
+  const expect = (tok: string) => {
+    if (tokens[i] !== tok) throw new Error(`invalid_expression:expected:${tok}`);
+    i++;
+  };
+  const nested = <T>(f: () => T): T => {
+    if (++depth > MAX_DEPTH) throw new Error("invalid_expression:too_deep");
+    try { return f(); } finally { depth--; }
+  };
+
+  const expr = (): Node => nested(() => {
+    const c = compare();
+    if (peek() !== "?") return c;
+    i++;
+    const a = expr();
+    expect(":");
+    return { t: "cond", c, a, b: expr() };
+  });
+  const compare = (): Node => {
+    const a = sum();
+    const op = peek();
+    if (op === "<" || op === "<=" || op === ">" || op === ">=" || op === "==" || op === "!=") {
+      i++;
+      return { t: "bin", op, a, b: sum() };
+    }
+    return a;
+  };
+  const sum = (): Node => {
+    let a = product();
+    while (peek() === "+" || peek() === "-") a = { t: "bin", op: tokens[i++], a, b: product() };
+    return a;
+  };
+  const product = (): Node => {
+    let a = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") a = { t: "bin", op: tokens[i++], a, b: unary() };
+    return a;
+  };
+  const unary = (): Node => nested(() => {
+    if (peek() === "-") { i++; return { t: "neg", a: unary() }; }
+    if (peek() === "+") { i++; return unary(); }
+    return power();
+  });
+  const power = (): Node => {
+    const a = atom();
+    if (peek() !== "^") return a;
+    i++;
+    return { t: "bin", op: "^", a, b: unary() };
+  };
+  const atom = (): Node => {
+    const tok = tokens[i++];
+    if (tok === undefined) throw new Error("invalid_expression:unexpected_end");
+    if (tok === "(") {
+      const e = expr();
+      expect(")");
+      return e;
+    }
+    if (/^[\d.]/.test(tok)) return { t: "num", v: Number(tok) };
+    if (/^[A-Za-z_]/.test(tok)) {
+      if (peek() !== "(") return { t: "var", name: tok };
+      const def = FUNCTIONS[tok];
+      if (!def) throw new Error(`invalid_expression:unknown_function:${tok}`);
+      i++;
+      const args: Node[] = [];
+      if (peek() !== ")") {
+        args.push(expr());
+        while (peek() === ",") { i++; args.push(expr()); }
+      }
+      expect(")");
+      if (args.length < def.arity[0] || args.length > def.arity[1]) throw new Error(`invalid_expression:arity:${tok}`);
+      return { t: "call", fn: tok, args };
+    }
+    throw new Error(`invalid_expression:unexpected_token:${tok}`);
+  };
+
+  if (!tokens.length) throw new Error("invalid_expression:empty");
+  const root = expr();
+  if (i < tokens.length) throw new Error(`invalid_expression:unexpected_token:${tokens[i]}`);
+  return root;
+}
+
+function evaluate(node: Node, vars: Record<string, number>): number {
+  switch (node.t) {
+    case "num": return node.v;
+    case "var": {
+      if (!Object.hasOwn(vars, node.name)) throw new Error(`invalid_expression:unknown_variable:${node.name}`);
+      return vars[node.name];
+    }
+    case "neg": return -evaluate(node.a, vars);
+    case "cond": return evaluate(node.c, vars) !== 0 ? evaluate(node.a, vars) : evaluate(node.b, vars);
+    case "call": return FUNCTIONS[node.fn].fn(...node.args.map((a) => evaluate(a, vars)));
+    case "bin": {
+      const a = evaluate(node.a, vars), b = evaluate(node.b, vars);
+      switch (node.op) {
+        case "+": return a + b;
+        case "-": return a - b;
+        case "*": return a * b;
+        case "/": return a / b;
+        case "%": return a % b;
+        case "^": return a ** b;
+        case "<": return a < b ? 1 : 0;
+        case "<=": return a <= b ? 1 : 0;
+        case ">": return a > b ? 1 : 0;
+        case ">=": return a >= b ? 1 : 0;
+        case "==": return a === b ? 1 : 0;
+        default: return a !== b ? 1 : 0;
+      }
+    }
+  }
+}
+
+function collectIdentifiers(node: Node, out: Set<string>): void {
+  if (node.t === "var") out.add(node.name);
+  else if (node.t === "neg") collectIdentifiers(node.a, out);
+  else if (node.t === "bin") { collectIdentifiers(node.a, out); collectIdentifiers(node.b, out); }
+  else if (node.t === "cond") { collectIdentifiers(node.c, out); collectIdentifiers(node.a, out); collectIdentifiers(node.b, out); }
+  else if (node.t === "call") node.args.forEach((a) => collectIdentifiers(a, out));
+}
+
+/** Parses a formula; throws `invalid_expression:<reason>` on syntax errors or unknown functions. */
+export function compileExpression(source: string): Expression {
+  if (typeof source !== "string") throw new Error("invalid_expression:not_a_string");
+  if (source.length > MAX_SOURCE) throw new Error("invalid_expression:too_long");
+  const root = parse(source);
+  const ids = new Set<string>();
+  collectIdentifiers(root, ids);
+  return { source, identifiers: [...ids], evaluate: (vars) => evaluate(root, vars) };
+}
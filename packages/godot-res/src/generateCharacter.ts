@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { renderTres } from "./writeTres.js";
+import { DEFAULT_ENGINE_PROFILE, enginePath, engineResPath, type EngineProfile } from "./engineProfile.js";
 
 // Inputs coming from your Vite UI:
 export type CreatureInputs = {
@@ -8,10 +9,8 @@ export type CreatureInputs = {
   name: string;        // "Elara"
   numericId: number;   // 10001
   classTag: string;    // "Shaper"
-  stats: {
-    creature_affinity: number; chaos_mastery: number; kinesthetic: number;
-    lucidity: number; terrain_control: number;
-  };
+  stats: Record<string, number>;            // base stats declared by the project's stat schema
+  derived?: Record<string, number>;         // computed via computeDerivedStats
   level: number; xp_current: number; xp_to_next: number; xp_reward_on_defeat: number;
   // fps defaults (used when no per-anim override):
   defaultFpsBattle: number;      // e.g. 12
@@ -21,17 +20,19 @@ export type CreatureInputs = {
 export async function generateOverworldVisual(params: {
   projectRoot: string;   // absolute filesystem path to Godot project root
   inputs: CreatureInputs;
+  profile?: EngineProfile;
 }) {
-  const { projectRoot, inputs } = params;
-  const charDir = path.join(projectRoot, "Assets/Characters", inputs.id, "Default");
+  const { projectRoot, inputs, profile = DEFAULT_ENGINE_PROFILE } = params;
+  const vars = { id: inputs.id, name: inputs.name };
+  const charDir = path.join(projectRoot, enginePath(profile, "characterDefault", vars));
   const tresPath = path.join(charDir, `${inputs.id}_Overworld_CharacterVisual.tres`);
 
   const tres = renderTres({
     scriptClass: "CharacterVisual",
-    extScripts: [{ id: "1_vis", path: "res://System/CombatScreen/BattleActors/CharacterVisual.gd" }],
+    extScripts: [{ id: "1_vis", path: profile.scripts.characterVisual }],
     resource: {
       character_id: inputs.id,
-      animations_root: `res://Assets/Characters/${inputs.id}/Default/ulpc_frames`,
+      animations_root: engineResPath(profile, "overworldFrames", vars),
       default_fps: inputs.defaultFpsOverworld
     }
   });
@@ -43,18 +44,19 @@ export async function generateOverworldVisual(params: {
 export async function generateBattleVisual(params: {
   projectRoot: string;
   inputs: CreatureInputs;
-  battleAnimationsRoot?: string; // allow override; default to Battle subdir layout
+  battleAnimationsRoot?: string; // allow override; default to the profile's battleAnimations
+  profile?: EngineProfile;
 }) {
-  const { projectRoot, inputs, battleAnimationsRoot } = params;
-  const charDir = path.join(projectRoot, "Assets/Characters", inputs.id, "Default");
+  const { projectRoot, inputs, battleAnimationsRoot, profile = DEFAULT_ENGINE_PROFILE } = params;
+  const vars = { id: inputs.id, name: inputs.name };
+  const charDir = path.join(projectRoot, enginePath(profile, "characterDefault", vars));
   const tresPath = path.join(charDir, `${inputs.id}_Battle_CharacterVisual.tres`);
 
-  const root = battleAnimationsRoot ??
-    `res://Assets/Characters/${inputs.id}/Default/Animations/Battle`;
+  const root = battleAnimationsRoot ?? engineResPath(profile, "battleAnimations", vars);
 
   const tres = renderTres({
     scriptClass: "CharacterVisual",
-    extScripts: [{ id: "1_vis", path: "res://System/CombatScreen/BattleActors/CharacterVisual.gd" }],
+    extScripts: [{ id: "1_vis", path: profile.scripts.characterVisual }],
     resource: {
       character_id: inputs.id,
       animations_root: root,
@@ -69,26 +71,25 @@ export async function generateBattleVisual(params: {
 export async function generateCreature(params: {
   projectRoot: string;
   inputs: CreatureInputs;
+  profile?: EngineProfile;
 }) {
-  const { projectRoot, inputs } = params;
-  const charDir = path.join(projectRoot, "Assets/Characters", inputs.id);
+  const { projectRoot, inputs, profile = DEFAULT_ENGINE_PROFILE } = params;
+  const vars = { id: inputs.id, name: inputs.name };
+  const charDir = path.join(projectRoot, enginePath(profile, "character", vars));
   const tresPath = path.join(charDir, `${inputs.id}_Creature.tres`);
 
   const tres = renderTres({
     scriptClass: "Creature",
-    extScripts: [{ id: "1_creature", path: "res://System/Creatures/Creature.gd" }],
-    extResources: [{ id: "2_visual", path: `res://Assets/Characters/${inputs.id}/Default/${inputs.id}_Battle_CharacterVisual.tres`, type: "Resource" }],
+    extScripts: [{ id: "1_creature", path: profile.scripts.creature }],
+    extResources: [{ id: "2_visual", path: engineResPath(profile, "characterDefault", vars, `${inputs.id}_Battle_CharacterVisual.tres`), type: "Resource" }],
     resource: {
       // identity
       name: inputs.name,
       class_tag: inputs.classTag,
       id: inputs.numericId,
-      // stats (exactly as Creature.gd exports)
-      creature_affinity: inputs.stats.creature_affinity,
-      chaos_mastery: inputs.stats.chaos_mastery,
-      kinesthetic: inputs.stats.kinesthetic,
-      lucidity: inputs.stats.lucidity,
-      terrain_control: inputs.stats.terrain_control,
+      // stats (as declared by the stat schema, matching Creature.gd exports)
+      ...inputs.stats,
+      ...inputs.derived,
       // runtime flags
       is_fainted: false,
       skip_turn_flag: false,
@@ -101,7 +102,7 @@ export async function generateCreature(params: {
       xp_current: inputs.xp_current,
       xp_to_next: inputs.xp_to_next,
       xp_reward_on_defeat: inputs.xp_reward_on_defeat,
-      persist_path: `res://Assets/Characters/${inputs.id}/${inputs.id}_Creature.tres`,
+      persist_path: engineResPath(profile, "character", vars, `${inputs.id}_Creature.tres`),
       chaos_dials: {
         alpha: 0.0, clip_hi: 1.3, clip_lo: 0.7, clip_mode: "winsor", sigma_v0: 0.05, soft_k: 2.0
       }
@@ -118,8 +119,9 @@ export async function writeOverworldAnimMeta(params: {
   projectRoot: string;
   inputs: CreatureInputs;
   ulpcManifestPath: string;  // path to {slug}_sprite_manifest.json
+  profile?: EngineProfile;
 }) {
-  const { projectRoot, inputs, ulpcManifestPath } = params;
+  const { projectRoot, inputs, ulpcManifestPath, profile = DEFAULT_ENGINE_PROFILE } = params;
   const j = JSON.parse(await fs.readFile(ulpcManifestPath, "utf8"));
   const loop_overrides: Record<string, boolean> = {
     "Idle_*": true, "Walk_*": true, "Run_*": true, "Hurt_*": false
@@ -130,7 +132,7 @@ export async function writeOverworldAnimMeta(params: {
     if (typeof def.fps === "number") fps_overrides[key] = def.fps;
   }
   const out = { fps_overrides, loop_overrides, notes: "Generated from ULPC manifest" };
-  const outPath = path.join(projectRoot, "Assets/Characters", inputs.id, "Default", `${inputs.id}_Overworld_AnimMeta.json`);
+  const outPath = path.join(projectRoot, enginePath(profile, "characterDefault", { id: inputs.id, name: inputs.name }), `${inputs.id}_Overworld_AnimMeta.json`);
   await fs.writeFile(outPath, JSON.stringify(out, null, 2), "utf8");
   return outPath;
 }
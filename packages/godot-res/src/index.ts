@@ -1,3 +1,9 @@
 export * from "./writeTres.js";
 export * from "./generateCharacter.js";
 export * from "./tileset.js";
+export * from "./bundle.js";
+export * from "./spriteFrames.js";
+export * from "./engineProfile.js";
+export * from "./expression.js";
+export * from "./statSchema.js";
+export * from "./charactersIndex.js";
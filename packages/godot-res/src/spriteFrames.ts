@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Subset of the ulpc.manifest/1.0 written by composeULPCExport (@pixelart/sprite-compose)
+export interface UlpcManifestAnimation {
+  frames: number;
+  fps: number;
+  loop?: boolean;
+  sheet?: string;                        // composed per-animation sheet (absolute path)
+  frame_size?: { w: number; h: number };
+  orientations?: string[];
+  folders: Record<string, string[]>;     // "Walk_back" → sliced frame files, in order
+  rows?: Record<string, number>;         // folder → row on `sheet`
+}
+
+export interface UlpcManifest {
+  schema: "ulpc.manifest/1.0";
+  slug: string;
+  animations: Record<string, UlpcManifestAnimation>;
+}
+
+// Subset of the sprite.atlas/1.0 descriptor written by packAtlas (@pixelart/sprite-compose)
+export interface SpriteAtlasDescriptor {
+  schema: "sprite.atlas/1.0";
+  pages: Array<{ file: string; w: number; h: number }>;
+  sprites: Record<string, {
+    page: number;
+    x: number; y: number; w: number; h: number;  // trimmed region on the page
+    offset: { x: number; y: number };              // trimmed region inside the original frame
+    source: { w: number; h: number };
+  }>;
+}
+
+/**
+ * Godot 4 SpriteFrames text for a ULPC manifest: one animation per Animation_Orientation folder.
+ * Frames are AtlasTexture regions of the per-animation sheet; animations composed without a
+ * sheet (split_by_frame) reference the sliced frame PNGs directly. With a packed `atlas`, frames it
+ * lists (keys "<slug>/<folder>/<index>") become regions of its pages instead, trim restored by margin.
+ * Manifest paths are mapped to res:// by their position under `baseDir`.
+ */
+export function renderSpriteFrames(params: {
+  manifest: UlpcManifest;
+  baseDir: string;
+  resRoot: string;
+  atlas?: { descriptor: SpriteAtlasDescriptor; resRoot: string };   // resRoot: res:// folder of the pages
+}): string {
+  const { manifest, baseDir, atlas: packed } = params;
+  const resRoot = params.resRoot.replace(/\/+$/, "");
+  const toRes = (abs: string) => {
+    const rel = path.relative(baseDir, abs).split(path.sep).join("/");
+    if (rel.startsWith("..")) throw new Error(`sprite_frames:outside_base:${abs}`);
+    return `${resRoot}/${rel}`;
+  };
+
+  const ext: string[] = [];
+  const subs: string[] = [];
+  const anims: string[] = [];
+  let subCount = 0;
+  const extIds = new Map<string, string>();
+  const extId = (resPath: string) => {
+    let id = extIds.get(resPath);
+    if (!id) {
+      id = `${extIds.size + 1}_tex`;
+      extIds.set(resPath, id);
+      ext.push(`[ext_resource type="Texture2D" path="${resPath}" id="${id}"]`);
+    }
+    return id;
+  };
+  const packedRoot = packed?.resRoot.replace(/\/+$/, "");
+
+  for (const [animation, def] of Object.entries(manifest.animations ?? {})) {
+    const atlas = def.sheet && def.frame_size && def.rows ? { sheet: def.sheet, size: def.frame_size, rows: def.rows } : null;
+    for (const [folder, files] of Object.entries(def.folders ?? {})) {
+      const textures = files.map((file, col) => {
+        const subId = `AtlasTexture_${folder}_${col}`;
+        const sprite = packed?.descriptor.sprites[`${manifest.slug}/${folder}/${col}`];
+        if (sprite) {
+          const { offset, source } = sprite;
+          const trimmed = offset.x || offset.y || sprite.w !== source.w || sprite.h !== source.h;
+          subs.push(
+            `[sub_resource type="AtlasTexture" id="${subId}"]`,
+            `atlas = ExtResource("${extId(`${packedRoot}/${packed!.descriptor.pages[sprite.page].file}`)}")`,
+            `region = Rect2(${sprite.x}, ${sprite.y}, ${sprite.w}, ${sprite.h})`,
+            ...(trimmed ? [`margin = Rect2(${offset.x}, ${offset.y}, ${source.w - sprite.w}, ${source.h - sprite.h})`] : []),
+            "",
+          );
+          subCount++;
+          return `SubResource("${subId}")`;
+        }
+        if (!atlas || atlas.rows[folder] === undefined) return `ExtResource("${extId(toRes(file))}")`;
+        const { w, h } = atlas.size;
+        subs.push(
+          `[sub_resource type="AtlasTexture" id="${subId}"]`,
+          `atlas = ExtResource("${extId(toRes(atlas.sheet))}")`,
+          `region = Rect2(${col * w}, ${atlas.rows[folder] * h}, ${w}, ${h})`,
+          "",
+        );
+        subCount++;
+        return `SubResource("${subId}")`;
+      });
+      anims.push([
+        "{",
+        `"frames": [${textures.map((t) => `{\n"duration": 1.0,\n"texture": ${t}\n}`).join(", ")}],`,
+        `"loop": ${def.loop ?? true},`,
+        `"name": &${JSON.stringify(folder || animation)},`,
+        `"speed": ${(Number(def.fps) || 8).toFixed(1)}`,
+        "}",
+      ].join("\n"));
+    }
+  }
+
+  return [
+    `[gd_resource type="SpriteFrames" load_steps=${ext.length + subCount + 1} format=3]`,
+    "",
+    ...ext,
+    "",
+    ...subs,
+    "[resource]",
+    `animations = [${anims.join(", ")}]`,
+    "",
+  ].join("\n");
+}
+
+/** Read a ULPC manifest and write `<slug>_SpriteFrames.tres` (or `fileName`) into `outDir`. */
+export async function writeSpriteFramesTres(params: {
+  manifestPath: string;
+  resRoot: string;              // res:// folder mirroring the manifest's directory, e.g. res://Assets/Characters/<id>/Default
+  outDir: string;
+  fileName?: string;
+  atlas?: { descriptorPath: string; resRoot: string };   // packed atlas to take frames from
+}): Promise<string> {
+  const manifest = JSON.parse(await fs.readFile(params.manifestPath, "utf8")) as UlpcManifest;
+  if (manifest?.schema !== "ulpc.manifest/1.0") throw new Error(`sprite_frames:unsupported_manifest:${manifest?.schema}`);
+  let atlas: { descriptor: SpriteAtlasDescriptor; resRoot: string } | undefined;
+  if (params.atlas) {
+    const descriptor = JSON.parse(await fs.readFile(params.atlas.descriptorPath, "utf8")) as SpriteAtlasDescriptor;
+    if (descriptor?.schema !== "sprite.atlas/1.0") throw new Error(`sprite_frames:unsupported_atlas:${descriptor?.schema}`);
+    atlas = { descriptor, resRoot: params.atlas.resRoot };
+  }
+  const tres = renderSpriteFrames({ manifest, baseDir: path.dirname(params.manifestPath), resRoot: params.resRoot, atlas });
+  await fs.mkdir(params.outDir, { recursive: true });
+  const filePath = path.join(params.outDir, params.fileName ?? `${manifest.slug}_SpriteFrames.tres`);
+  await fs.writeFile(filePath, tres, "utf8");
+  return filePath;
+}
@@ -0,0 +1,157 @@
+// Creature stat schema: the base stats a character sheet carries and the derived stats computed
+// from them at export. Stored in project settings (`stat_schema`) so designers can rebalance
+// without code changes; formulas use the expression language in ./expression.ts.
+import { compileExpression } from "./expression.js";
+
+export type StatDef = {
+  key: string;          // Creature.gd property name
+  label?: string;
+  min?: number;
+  max?: number;
+  default?: number;
+  integer?: boolean;
+};
+
+export type DerivedStatDef = {
+  key: string;
+  expr: string;         // may reference base stats and derived stats declared before it
+  round?: "none" | "floor" | "ceil" | "round";
+  min?: number;
+  max?: number;
+};
+
+export interface StatSchema {
+  stats: StatDef[];
+  derived: DerivedStatDef[];
+}
+
+export const DEFAULT_STAT_SCHEMA: StatSchema = {
+  stats: [
+    { key: "creature_affinity", label: "Creature Affinity", min: 0, default: 0, integer: true },
+    { key: "chaos_mastery", label: "Chaos Mastery", min: 0, default: 0, integer: true },
+    { key: "kinesthetic", label: "Kinesthetic", min: 0, default: 0, integer: true },
+    { key: "lucidity", label: "Lucidity", min: 0, default: 0, integer: true },
+    { key: "terrain_control", label: "Terrain Control", min: 0, default: 0, integer: true },
+  ],
+  derived: [
+    { key: "hp", expr: "kinesthetic * 10 + terrain_control * 5" },
+    { key: "hp_current", expr: "hp" },
+    { key: "spd", expr: "50 + kinesthetic * 3" },
+    { key: "acdb", expr: "spd" },
+    { key: "phys_purge_rate", expr: "20 + kinesthetic" },
+    { key: "phys_thresh", expr: "50 + kinesthetic" },
+    { key: "ment_purge_rate", expr: "20 + kinesthetic" },
+    { key: "ment_thresh", expr: "50 + kinesthetic" },
+  ],
+};
+
+// Creature fields the exporters write themselves; stats may not shadow them
+const RESERVED_KEYS = new Set([
+  "script", "name", "class_tag", "id", "persistence_path", "persist_path", "visual", "skills", "statuses_stacks",
+  "is_fainted", "skip_turn_flag", "is_dead", "level", "xp_current", "xp_to_next", "xp_reward_on_defeat", "chaos_dials",
+]);
+const KEY = /^[a-z_][a-z0-9_]*$/;
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+/**
+ * Checks a stat schema; returns a list of problems, empty when valid. Keys must be unique
+ * snake_case identifiers; formulas must parse and only reference base stats or derived stats
+ * declared earlier, which also rules out cycles.
+ */
+export function validateStatSchema(input: unknown): string[] {
+  if (input === undefined || input === null) return [];
+  if (typeof input !== "object" || Array.isArray(input)) return ["schema must be an object"];
+  const s = input as Partial<StatSchema>;
+  if (!Array.isArray(s.stats) || !s.stats.length) return ["stats must be a non-empty array"];
+  if (s.derived !== undefined && !Array.isArray(s.derived)) return ["derived must be an array"];
+
+  const errors: string[] = [];
+  const known = new Set<string>();
+  const checkKey = (where: string, key: unknown) => {
+    if (typeof key !== "string" || !KEY.test(key)) { errors.push(`${where}.key must be a snake_case identifier`); return false; }
+    if (RESERVED_KEYS.has(key)) { errors.push(`${where}.key "${key}" is reserved`); return false; }
+    if (known.has(key)) { errors.push(`${where}.key "${key}" is declared twice`); return false; }
+    known.add(key);
+    return true;
+  };
+  const checkRange = (where: string, d: { min?: unknown; max?: unknown }) => {
+    for (const k of ["min", "max"] as const) {
+      if (d[k] !== undefined && !isNum(d[k])) errors.push(`${where}.${k} must be a number`);
+    }
+    if (isNum(d.min) && isNum(d.max) && d.min > d.max) errors.push(`${where}: min > max`);
+  };
+
+  s.stats.forEach((d, i) => {
+    const where = `stats[${i}]`;
+    if (!d || typeof d !== "object") { errors.push(`${where} must be an object`); return; }
+    checkKey(where, d.key);
+    checkRange(where, d);
+    if (d.label !== undefined && typeof d.label !== "string") errors.push(`${where}.label must be a string`);
+    if (d.integer !== undefined && typeof d.integer !== "boolean") errors.push(`${where}.integer must be a boolean`);
+    if (d.default !== undefined) {
+      if (!isNum(d.default)) errors.push(`${where}.default must be a number`);
+      else if ((isNum(d.min) && d.default < d.min) || (isNum(d.max) && d.default > d.max)) errors.push(`${where}.default is out of range`);
+    }
+  });
+
+  (s.derived ?? []).forEach((d, i) => {
+    const where = `derived[${i}]`;
+    if (!d || typeof d !== "object") { errors.push(`${where} must be an object`); return; }
+    checkRange(where, d);
+    if (d.round !== undefined && !["none", "floor", "ceil", "round"].includes(d.round)) errors.push(`${where}.round invalid`);
+    try {
+      const unknown = compileExpression(d.expr).identifiers.filter((id) => !known.has(id));
+      if (unknown.length) errors.push(`${where}.expr references unknown or later stats: ${unknown.join(", ")}`);
+    } catch (e: any) {
+      errors.push(`${where}.expr: ${String(e?.message ?? e).replace(/^invalid_expression:/, "")}`);
+    }
+    // registered after the formula check so a stat cannot reference itself
+    checkKey(where, d.key);
+  });
+  return errors;
+}
+
+/** Stored schema or the default one; throws `invalid_stat_schema:<first problem>`. */
+export function resolveStatSchema(input?: unknown): StatSchema {
+  const errors = validateStatSchema(input);
+  if (errors.length) throw new Error(`invalid_stat_schema:${errors[0]}`);
+  if (input === undefined || input === null) return DEFAULT_STAT_SCHEMA;
+  const s = input as StatSchema;
+  return { stats: s.stats, derived: s.derived ?? [] };
+}
+
+/**
+ * Base stat values for an export: declared stats only, missing ones filled from their default
+ * (then min, then 0). Values that are not numbers, out of range or fractional for integer stats
+ * are reported in `errors`.
+ */
+export function readStatValues(schema: StatSchema, raw: Record<string, unknown> | null | undefined): { stats: Record<string, number>; errors: string[] } {
+  const stats: Record<string, number> = {};
+  const errors: string[] = [];
+  for (const d of schema.stats) {
+    const v = raw?.[d.key];
+    const n = v === undefined || v === null || v === "" ? d.default ?? d.min ?? 0 : Number(v);
+    if (!Number.isFinite(n)) { errors.push(`${d.key} must be a number`); continue; }
+    if (d.integer && !Number.isInteger(n)) errors.push(`${d.key} must be an integer`);
+    if (isNum(d.min) && n < d.min) errors.push(`${d.key} must be >= ${d.min}`);
+    if (isNum(d.max) && n > d.max) errors.push(`${d.key} must be <= ${d.max}`);
+    stats[d.key] = n;
+  }
+  return { stats, errors };
+}
+
+/** Evaluates derived stats in declaration order; throws `invalid_stat_value:<key>:not_finite` (e.g. division by zero). */
+export function computeDerivedStats(schema: StatSchema, stats: Record<string, number>): Record<string, number> {
+  const scope: Record<string, number> = { ...stats };
+  const derived: Record<string, number> = {};
+  for (const d of schema.derived) {
+    let v = compileExpression(d.expr).evaluate(scope);
+    if (!Number.isFinite(v)) throw new Error(`invalid_stat_value:${d.key}:not_finite`);
+    if (d.round && d.round !== "none") v = Math[d.round](v);
+    if (isNum(d.min)) v = Math.max(d.min, v);
+    if (isNum(d.max)) v = Math.min(d.max, v);
+    scope[d.key] = derived[d.key] = v;
+  }
+  return derived;
+}
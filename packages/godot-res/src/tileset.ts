@@ -8,15 +8,31 @@ export type PeerKey =
   | "top_left_corner" | "top_right_corner" | "bottom_right_corner" | "bottom_left_corner";
 
 export interface TerrainDef { id: number; name: string; color: RGBA; }
-export interface TerrainSetDef { id: number; mode: "MATCH_CORNERS_AND_SIDES"; terrains: TerrainDef[]; }
+export type TerrainSetMode = "MATCH_CORNERS_AND_SIDES" | "MATCH_CORNERS" | "MATCH_SIDES";
+export interface TerrainSetDef { id: number; mode: TerrainSetMode; terrains: TerrainDef[]; }
+
+const TERRAIN_MODE_INDEX: Record<TerrainSetMode, number> = {
+  MATCH_CORNERS_AND_SIDES: 0, MATCH_CORNERS: 1, MATCH_SIDES: 2,
+};
 
 export interface TileRule {
   coord: [number, number]; // [col,row], 0-based
   terrainSet?: number | null;
   terrain?: number;        // terrain id within the set
   peers?: PeerKey[];       // autotile flags set to 1
-  collision?: { preset?: string; polygon?: number[] };
-  custom?: Record<string, unknown>;
+  peerTerrains?: Partial<Record<PeerKey, number>>; // explicit terrain id per peering bit
+  probability?: number;    // relative pick weight among tiles with matching terrain bits (Godot default 1)
+  animation?: TileAnimation;
+  collision?: { preset?: string; polygon?: number[]; polygons?: number[][] }; // tile-centred x,y pairs
+  navigation?: Record<number, number[][]>; // navigation layer id → outlines (tile-centred x,y pairs)
+  custom?: Record<string, unknown>;  // values for RulesConfig.customDataLayers, keyed by layer name
+}
+
+// Atlas animation: frame i is read at coord + (i % columns, floor(i / columns)) * (1 + separation)
+export interface TileAnimation {
+  columns: number;             // frames per atlas row (0 = all frames on one row)
+  separation?: [number, number]; // tiles skipped between frames
+  durations: number[];         // seconds per frame; length = frame count
 }
 
 export interface RulesConfig {
@@ -24,12 +40,111 @@ export interface RulesConfig {
   terrainSets: TerrainSetDef[];
   tiles: TileRule[];
   collisionPresets?: Record<string, number[]>;
+  navigationLayers?: Array<{ id: number; layers: number; name?: string }>;
+  customDataLayers?: CustomDataLayer[];
 }
 
+export type CustomDataType = "bool" | "int" | "float" | "string" | "string_array";
+export interface CustomDataLayer { name: string; type: CustomDataType; }
+
+// Godot 4 Variant.Type ids used by custom_data_layer_N/type
+const VARIANT_TYPE: Record<CustomDataType, number> = {
+  bool: 1, int: 2, float: 3, string: 4, string_array: 34,
+};
+
 function color4([r, g, b, a]: RGBA): string {
   return `Color(${r}, ${g}, ${b}, ${a})`;
 }
 function vec2i(x: number, y: number): string { return `Vector2i(${x}, ${y})`; }
+function gdString(v: unknown): string { return JSON.stringify(String(v ?? "")); }
+
+function customValue(type: CustomDataType, v: unknown): string | null {
+  if (v === undefined || v === null) return null;
+  if (type === "bool") return v ? "true" : "false";
+  if (type === "int") return Number.isFinite(Number(v)) ? String(Math.trunc(Number(v))) : null;
+  if (type === "float") return Number.isFinite(Number(v)) ? String(Number(v)) : null;
+  if (type === "string_array") return `PackedStringArray(${(Array.isArray(v) ? v : [v]).map(gdString).join(", ")})`;
+  return gdString(v);
+}
+
+/** Custom data layer declarations ([resource]) and per-tile values keyed by "c:r". */
+export function renderCustomData(rules: RulesConfig): { tileLines: Map<string, string[]>; resourceLines: string[] } {
+  const layers = rules.customDataLayers ?? [];
+  const tileLines = new Map<string, string[]>();
+  for (const t of rules.tiles) {
+    const lines: string[] = [];
+    layers.forEach((l, i) => {
+      const v = customValue(l.type, t.custom?.[l.name]);
+      if (v !== null) lines.push(`${t.coord[0]}:${t.coord[1]}/0/custom_data_${i} = ${v}`);
+    });
+    if (lines.length) tileLines.set(`${t.coord[0]}:${t.coord[1]}`, lines);
+  }
+  const resourceLines = layers.flatMap((l, i) => [
+    `custom_data_layer_${i}/name = ${gdString(l.name)}`,
+    `custom_data_layer_${i}/type = ${VARIANT_TYPE[l.type]}`,
+  ]);
+  return { tileLines, resourceLines };
+}
+
+/**
+ * Lines of one TileSetAtlasSource reading ExtResource(extId): the navigation polygon
+ * sub-resources it references, then the atlas sub-resource itself with every tile.
+ * `idPrefix` keeps navigation sub-resource ids unique when several atlases share a file.
+ */
+export function renderAtlasSource(rules: RulesConfig, opts: { extId: string; atlasId: string; idPrefix?: string }): { lines: string[]; subResourceCount: number } {
+  const shapes = renderTileShapes(rules, opts.idPrefix);
+  const customData = renderCustomData(rules);
+  const lines: string[] = [...shapes.subResources];
+  lines.push(`[sub_resource type="TileSetAtlasSource" id="${opts.atlasId}"]`);
+  lines.push(`texture = ExtResource("${opts.extId}")`);
+  lines.push(`texture_region_size = ${vec2i(rules.meta.tileSize, rules.meta.tileSize)}`);
+
+  for (const t of rules.tiles) {
+    const [c, r] = t.coord;
+    if (t.animation && t.animation.durations.length > 1) {
+      const a = t.animation;
+      lines.push(`${c}:${r}/animation_columns = ${a.columns}`);
+      if (a.separation && (a.separation[0] || a.separation[1])) lines.push(`${c}:${r}/animation_separation = ${vec2i(a.separation[0], a.separation[1])}`);
+      lines.push(`${c}:${r}/animation_frames_count = ${a.durations.length}`);
+      a.durations.forEach((d, i) => lines.push(`${c}:${r}/animation_frame_${i}/duration = ${d}`));
+    }
+    lines.push(`${c}:${r}/0 = 0`);
+    if (typeof t.terrainSet === "number") lines.push(`${c}:${r}/0/terrain_set = ${t.terrainSet}`);
+    if (typeof t.terrain === "number") lines.push(`${c}:${r}/0/terrain = ${t.terrain}`);
+    if (t.peers && t.peers.length) {
+      for (const p of t.peers) lines.push(`${c}:${r}/0/terrains_peering_bit/${p} = 1`);
+    }
+    if (t.peerTerrains) {
+      for (const [p, id] of Object.entries(t.peerTerrains)) {
+        if (typeof id === "number") lines.push(`${c}:${r}/0/terrains_peering_bit/${p} = ${id}`);
+      }
+    }
+    if (typeof t.probability === "number" && t.probability !== 1) {
+      lines.push(`${c}:${r}/0/probability = ${t.probability}`);
+    }
+    lines.push(...(shapes.tileLines.get(`${c}:${r}`) ?? []));
+    lines.push(...(customData.tileLines.get(`${c}:${r}`) ?? []));
+  }
+  const subResourceCount = shapes.subResources.filter((l) => l.startsWith("[sub_resource")).length + 1;
+  return { lines, subResourceCount };
+}
+
+/** [resource] body shared by every atlas: physics, navigation and custom data layers, terrain sets. */
+export function renderTileSetResource(rules: RulesConfig): string[] {
+  const resLines: string[] = [];
+  resLines.push(`[resource]`);
+  resLines.push(`physics_layer_0/collision_layer = 1`);
+  resLines.push(...(rules.navigationLayers ?? []).map((l) => `navigation_layer_${l.id}/layers = ${l.layers}`));
+  resLines.push(...renderCustomData({ ...rules, tiles: [] }).resourceLines);
+  for (const ts of rules.terrainSets) {
+    resLines.push(`terrain_set_${ts.id}/mode = ${TERRAIN_MODE_INDEX[ts.mode] ?? 0}`);
+    for (const t of ts.terrains) {
+      resLines.push(`terrain_set_${ts.id}/terrain_${t.id}/name = "${t.name}"`);
+      resLines.push(`terrain_set_${ts.id}/terrain_${t.id}/color = ${color4(t.color)}`);
+    }
+  }
+  return resLines;
+}
 
 /**
  * Write a minimal Godot 4 TileSet .tres using one Texture2D (atlas) and one TileSetAtlasSource.
@@ -42,11 +157,12 @@ export async function writeTileSetTres(params: {
   rules: RulesConfig;
   fileName?: string;            // default tileset.tres
 }): Promise<string> {
-  const { outDir, atlasPngName, extResourcePath, rules } = params;
+  const { outDir, extResourcePath, rules } = params;
   const fileName = params.fileName ?? "tileset.tres";
   const extId = "1_tex";
   const atlasId = "TileSetAtlasSource_main";
-  const loadSteps = 3; // 1 ext + 1 sub + 1 resource
+  const atlas = renderAtlasSource(rules, { extId, atlasId });
+  const loadSteps = 2 + atlas.subResourceCount; // 1 ext + subs + 1 resource
   const uid = `uid://auto_${rules.meta.name}`;
 
   const header: string[] = [];
@@ -54,43 +170,13 @@ export async function writeTileSetTres(params: {
   header.push("");
   header.push(`[ext_resource type="Texture2D" path="${extResourcePath}" id="${extId}"]`);
   header.push("");
-  header.push(`[sub_resource type="TileSetAtlasSource" id="${atlasId}"]`);
-  header.push(`texture = ExtResource("${extId}")`);
-  header.push(`texture_region_size = ${vec2i(rules.meta.tileSize, rules.meta.tileSize)}`);
 
-  const tileLines: string[] = [];
-  for (const t of rules.tiles) {
-    const [c, r] = t.coord;
-    tileLines.push(`${c}:${r}/0 = 0`);
-    if (typeof t.terrainSet === "number") tileLines.push(`${c}:${r}/0/terrain_set = ${t.terrainSet}`);
-    if (typeof t.terrain === "number") tileLines.push(`${c}:${r}/0/terrain = ${t.terrain}`);
-    if (t.peers && t.peers.length) {
-      for (const p of t.peers) tileLines.push(`${c}:${r}/0/terrains_peering_bit/${p} = 1`);
-    }
-    if (t.collision) {
-      const pts = t.collision.polygon;
-      if (Array.isArray(pts) && pts.length >= 4) {
-        const packed = `PackedVector2Array(${pts.join(", ")})`;
-        tileLines.push(`${c}:${r}/0/physics_layer_0/polygon_0/points = ${packed}`);
-      }
-    }
-  }
-
-  const resLines: string[] = [];
-  resLines.push(`[resource]`);
-  resLines.push(`physics_layer_0/collision_layer = 1`);
-  for (const ts of rules.terrainSets) {
-    resLines.push(`terrain_set_${ts.id}/mode = 0`); // MATCH_CORNERS_AND_SIDES = 0
-    for (const t of ts.terrains) {
-      resLines.push(`terrain_set_${ts.id}/terrain_${t.id}/name = "${t.name}"`);
-      resLines.push(`terrain_set_${ts.id}/terrain_${t.id}/color = ${color4(t.color)}`);
-    }
-  }
+  const resLines = renderTileSetResource(rules);
   resLines.push(`sources/0 = SubResource("${atlasId}")`);
 
   const out = [
     ...header,
-    ...tileLines,
+    ...atlas.lines,
     "",
     ...resLines,
     ""
@@ -102,6 +188,123 @@ export async function writeTileSetTres(params: {
   return filePath;
 }
 
+// ──────────────────────────────────────────────────────────────────────────────
+// Collision / navigation shapes
+// ──────────────────────────────────────────────────────────────────────────────
+function packed(pts: number[]): string {
+  return `PackedVector2Array(${pts.join(", ")})`;
+}
+
+// Ear-clipping triangulation of one simple outline; Godot navigation polygons must be convex
+function triangulate(pts: number[]): number[][] {
+  const n = pts.length / 2;
+  const x = (i: number) => pts[i * 2], y = (i: number) => pts[i * 2 + 1];
+  let area = 0;
+  for (let i = 0; i < n; i++) { const j = (i + 1) % n; area += x(i) * y(j) - x(j) * y(i); }
+  const idx = Array.from({ length: n }, (_, i) => i);
+  if (area < 0) idx.reverse();
+  const cross = (a: number, b: number, c: number) => (x(b) - x(a)) * (y(c) - y(a)) - (y(b) - y(a)) * (x(c) - x(a));
+  const inside = (p: number, a: number, b: number, c: number) =>
+    cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+  const tris: number[][] = [];
+  let guard = n * n;
+  while (idx.length > 3 && guard-- > 0) {
+    for (let i = 0; i < idx.length; i++) {
+      const a = idx[(i - 1 + idx.length) % idx.length], b = idx[i], c = idx[(i + 1) % idx.length];
+      if (cross(a, b, c) <= 0) continue;
+      if (idx.some((p) => p !== a && p !== b && p !== c && inside(p, a, b, c))) continue;
+      tris.push([a, b, c]);
+      idx.splice(i, 1);
+      break;
+    }
+  }
+  if (idx.length === 3) tris.push([...idx]);
+  return tris;
+}
+
+const navigationId = (prefix: string, c: number, r: number, layer: number) => `NavigationPolygon_${prefix}${c}_${r}_${layer}`;
+
+/**
+ * Collision and navigation lines for every tile in `rules`: NavigationPolygon sub-resources (to
+ * be placed before the atlas source), per-tile lines keyed by "c:r", and [resource] lines.
+ */
+export function renderTileShapes(rules: RulesConfig, idPrefix = ""): { subResources: string[]; tileLines: Map<string, string[]>; resourceLines: string[] } {
+  const subResources: string[] = [];
+  const tileLines = new Map<string, string[]>();
+  for (const t of rules.tiles) {
+    const [c, r] = t.coord;
+    const lines: string[] = [];
+    const polys = [
+      ...(t.collision?.polygon ? [t.collision.polygon] : []),
+      ...(t.collision?.polygons ?? []),
+    ].filter((p) => Array.isArray(p) && p.length >= 4);
+    polys.forEach((p, i) => lines.push(`${c}:${r}/0/physics_layer_0/polygon_${i}/points = ${packed(p)}`));
+
+    for (const [layer, outlines] of Object.entries(t.navigation ?? {})) {
+      const valid = outlines.filter((o) => o.length >= 6);
+      if (!valid.length) continue;
+      const vertices: number[] = [];
+      const polygons: number[][] = [];
+      for (const o of valid) {
+        const base = vertices.length / 2;
+        vertices.push(...o);
+        for (const tri of triangulate(o)) polygons.push(tri.map((i) => i + base));
+      }
+      const id = navigationId(idPrefix, c, r, Number(layer));
+      subResources.push(
+        `[sub_resource type="NavigationPolygon" id="${id}"]`,
+        `vertices = ${packed(vertices)}`,
+        `polygons = [${polygons.map((p) => `PackedInt32Array(${p.join(", ")})`).join(", ")}]`,
+        `outlines = [${valid.map(packed).join(", ")}]`,
+        "",
+      );
+      lines.push(`${c}:${r}/0/navigation_layer_${layer}/polygon = SubResource("${id}")`);
+    }
+    if (lines.length) tileLines.set(`${c}:${r}`, [...(tileLines.get(`${c}:${r}`) ?? []), ...lines]);
+  }
+  const resourceLines = (rules.navigationLayers ?? []).map((l) => `navigation_layer_${l.id}/layers = ${l.layers}`);
+  return { subResources, tileLines, resourceLines };
+}
+
+// Outlines of the A and B regions of one tile, tile-centred (see tileset-compose traceRegionOutlines)
+export interface TileRegions { coord: [number, number]; A: number[][]; B: number[][] }
+
+/**
+ * Attach collision and navigation to `rules` from per-tile A/B outlines. Collision goes on
+ * physics layer 0 around `collision` material; each vehicle tag gets its own navigation layer
+ * (layer i ↔ vehicles[i], bit 1 << i) covering the materials that list that vehicle.
+ */
+export function applyRegionShapes(rules: RulesConfig, regions: TileRegions[], opts: {
+  tileSize: number;
+  collision?: "A" | "B" | "none";
+  materialsAB?: { A: { vehicles?: string[] }; B: { vehicles?: string[] } };
+}): { rules: RulesConfig; vehicles: string[] } {
+  const collision = opts.collision ?? "A";
+  const vA = opts.materialsAB?.A?.vehicles ?? [], vB = opts.materialsAB?.B?.vehicles ?? [];
+  const vehicles = [...new Set([...vA, ...vB].filter(Boolean))].slice(0, 32);
+  const h = opts.tileSize / 2;
+  const square = [-h, -h, h, -h, h, h, -h, h];
+  const byCoord = new Map(regions.map((g) => [`${g.coord[0]}:${g.coord[1]}`, g]));
+
+  const tiles = rules.tiles.map((t) => {
+    const g = byCoord.get(`${t.coord[0]}:${t.coord[1]}`);
+    if (!g) return t;
+    const next: TileRule = { ...t };
+    if (collision !== "none" && g[collision].length) next.collision = { ...t.collision, polygons: g[collision] };
+    const navigation: Record<number, number[][]> = {};
+    vehicles.forEach((v, i) => {
+      const onA = vA.includes(v), onB = vB.includes(v);
+      // both materials traversable: one full-tile outline instead of two abutting ones
+      const outlines = onA && onB ? [square] : onA ? g.A : onB ? g.B : [];
+      if (outlines.length) navigation[i] = outlines;
+    });
+    if (Object.keys(navigation).length) next.navigation = navigation;
+    return next;
+  });
+  const navigationLayers = vehicles.map((name, i) => ({ id: i, layers: 2 ** i, name }));
+  return { rules: { ...rules, tiles, navigationLayers }, vehicles };
+}
+
 export function deriveCoast16Rules(params: {
   name: string;
   tileSize: number;
@@ -179,3 +382,255 @@ export function deriveCoast16Rules(params: {
   };
 }
 
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Blob47 (8-neighbour mask, 47 tiles)
+// ──────────────────────────────────────────────────────────────────────────────
+export type BlobNeighbor = "N" | "NE" | "E" | "SE" | "S" | "SW" | "W" | "NW";
+
+// Bit per neighbour; a set bit means material A continues into that neighbour.
+export const BLOB_BITS: Record<BlobNeighbor, number> = {
+  N: 1, NE: 2, E: 4, SE: 8, S: 16, SW: 32, W: 64, NW: 128,
+};
+
+const BLOB_PEERS: Record<BlobNeighbor, PeerKey> = {
+  N: "top_side", NE: "top_right_corner", E: "right_side", SE: "bottom_right_corner",
+  S: "bottom_side", SW: "bottom_left_corner", W: "left_side", NW: "top_left_corner",
+};
+
+/** Drop corner bits whose two adjacent sides are not both set (they cannot connect). */
+export function normalizeBlobMask(mask: number): number {
+  let m = mask & 0xff;
+  const side = (b: number) => (m & b) !== 0;
+  if (!(side(BLOB_BITS.N) && side(BLOB_BITS.E))) m &= ~BLOB_BITS.NE;
+  if (!(side(BLOB_BITS.S) && side(BLOB_BITS.E))) m &= ~BLOB_BITS.SE;
+  if (!(side(BLOB_BITS.S) && side(BLOB_BITS.W))) m &= ~BLOB_BITS.SW;
+  if (!(side(BLOB_BITS.N) && side(BLOB_BITS.W))) m &= ~BLOB_BITS.NW;
+  return m;
+}
+
+/** The 47 distinct normalized masks, ascending. */
+export const BLOB47_MASKS: number[] = Array.from(
+  new Set(Array.from({ length: 256 }, (_, m) => normalizeBlobMask(m)))
+).sort((a, b) => a - b);
+
+// Slot names used by prompts/blob47_*.json. Each slot stands in for exactly one of
+// the 47 configurations so that a full sheet covers every neighbour arrangement.
+export const BLOB47_SLOT_MASKS: Record<string, number> = {
+  center: 255,
+  edge_north: 124, edge_east: 241, edge_south: 199, edge_west: 31,
+  corner_NE: 112, corner_SE: 193, corner_SW: 7, corner_NW: 28,
+  tee_NEW: 69, tee_ESW: 84, tee_NSW: 81, tee_NES: 21,
+  endcap_N: 1, endcap_E: 4, endcap_S: 16, endcap_W: 64,
+  inner_NE: 253, inner_SE: 247, inner_SW: 223, inner_NW: 127,
+  bridge_N: 125, bridge_E: 245, bridge_S: 215, bridge_W: 95,
+  thin_vertical: 17, thin_horizontal: 68, thin_cross: 85,
+  thin_corner_NE: 5, thin_corner_SE: 20, thin_corner_SW: 80, thin_corner_NW: 65,
+  island_single: 0, island_double_vertical: 119, island_double_horizontal: 221,
+  island_L_NE: 87, island_L_SE: 93, island_L_SW: 117, island_L_NW: 213,
+  three_quarter_NE_open: 23, three_quarter_SE_open: 92, three_quarter_SW_open: 113, three_quarter_NW_open: 197,
+  stair_NE: 71, stair_SE: 29, stair_SW: 116, stair_NW: 209,
+};
+
+/**
+ * Resolve the neighbour mask for a blob47 tile name.
+ * Accepts "blob_<0-255>", "mask_<8 bits N..NW>" or a slot name from BLOB47_SLOT_MASKS.
+ */
+export function blobMaskForName(name: string): number | null {
+  const dec = name.match(/blob_(\d{1,3})\b/i);
+  if (dec) return normalizeBlobMask(Number(dec[1]));
+  const bin = name.match(/mask_([01]{8})\b/i);
+  if (bin) {
+    const order: BlobNeighbor[] = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+    let m = 0;
+    order.forEach((k, i) => { if (bin[1].charAt(i) === "1") m |= BLOB_BITS[k]; });
+    return normalizeBlobMask(m);
+  }
+  return name in BLOB47_SLOT_MASKS ? BLOB47_SLOT_MASKS[name] : null;
+}
+
+export function deriveBlob47Rules(params: {
+  name: string;
+  tileSize: number;
+  grid: { cols: number; rows: number };
+  tilesByIndex: Array<{ id: number; name: string }>; // up to 47, row-major
+  materialsAB?: { A: { name: string }; B: { name: string } };
+}): RulesConfig {
+  const { name, tileSize, grid, tilesByIndex, materialsAB } = params;
+  const Aname = materialsAB?.A?.name ?? "Land";
+  const Bname = materialsAB?.B?.name ?? "Water";
+  const terrainSets: TerrainSetDef[] = [
+    { id: 0, mode: "MATCH_CORNERS_AND_SIDES", terrains: [
+      { id: 0, name: Aname, color: [0.35, 0.7, 0.35, 1] },
+      { id: 1, name: Bname, color: [0.2, 0.45, 0.8, 1] },
+    ] }
+  ];
+
+  const tiles: TileRule[] = [];
+  for (let idx = 0; idx < Math.min(tilesByIndex.length, 47); idx++) {
+    const spec = tilesByIndex[idx];
+    const r = Math.floor(idx / grid.cols), c = idx % grid.cols;
+    // Unknown names fall back to the canonical configuration for that slot index
+    const mask = blobMaskForName(spec.name) ?? BLOB47_MASKS[idx];
+
+    // Every bit is explicit: A (0) where the neighbour continues A, else B (1)
+    const peerTerrains: Partial<Record<PeerKey, number>> = {};
+    for (const [k, bit] of Object.entries(BLOB_BITS) as Array<[BlobNeighbor, number]>) {
+      peerTerrains[BLOB_PEERS[k]] = (mask & bit) !== 0 ? 0 : 1;
+    }
+    tiles.push({ coord: [c, r], terrainSet: 0, terrain: 0, peerTerrains });
+  }
+
+  return {
+    meta: { name, tileSize, indexBase: 0 },
+    terrainSets,
+    tiles,
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Data-driven patterns (registered layouts)
+// ──────────────────────────────────────────────────────────────────────────────
+export interface PatternMaskBits {
+  positions: string[];       // named mask positions, e.g. ["NW","NE","SE","SW"]
+  set: "A" | "B";            // material a set position stands for
+  meaning?: string;
+}
+
+export interface PatternPeeringDef {
+  mode: TerrainSetMode;
+  center: "A" | "B" | "all_set"; // tile terrain; all_set → set material only when every position is set
+  // A peering bit takes the set material when all listed positions are set, else the other one
+  peering: Partial<Record<PeerKey, string[]>>;
+}
+
+export function derivePatternRules(params: {
+  name: string;
+  tileSize: number;
+  grid: { cols: number; rows: number };
+  tiles: Array<{ id: number; name: string; mask: string[] }>; // row-major slot order
+  maskBits: PatternMaskBits;
+  godot: PatternPeeringDef;
+  materialsAB?: { A: { name: string }; B: { name: string } };
+}): RulesConfig {
+  const { name, tileSize, grid, tiles: slots, maskBits, godot, materialsAB } = params;
+  const terrainSets: TerrainSetDef[] = [
+    { id: 0, mode: godot.mode, terrains: [
+      { id: 0, name: materialsAB?.A?.name ?? "Land", color: [0.35, 0.7, 0.35, 1] },
+      { id: 1, name: materialsAB?.B?.name ?? "Water", color: [0.2, 0.45, 0.8, 1] },
+    ] }
+  ];
+  const setId = maskBits.set === "A" ? 0 : 1;
+  const otherId = 1 - setId;
+
+  const tiles: TileRule[] = [];
+  for (let idx = 0; idx < Math.min(slots.length, grid.cols * grid.rows); idx++) {
+    const set = new Set(slots[idx].mask);
+    const r = Math.floor(idx / grid.cols), c = idx % grid.cols;
+    const terrain = godot.center === "A" ? 0
+      : godot.center === "B" ? 1
+      : maskBits.positions.every((p) => set.has(p)) ? setId : otherId;
+    const peerTerrains: Partial<Record<PeerKey, number>> = {};
+    for (const [peer, positions] of Object.entries(godot.peering) as Array<[PeerKey, string[]]>) {
+      peerTerrains[peer] = positions.length && positions.every((p) => set.has(p)) ? setId : otherId;
+    }
+    tiles.push({ coord: [c, r], terrainSet: 0, terrain, peerTerrains });
+  }
+
+  return {
+    meta: { name, tileSize, indexBase: 0 },
+    terrainSets,
+    tiles,
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Material / traversal custom data
+// ──────────────────────────────────────────────────────────────────────────────
+/** Share of material A in a slot, estimated from its mask (center counts as one more cell). */
+export function maskCoverageA(mask: string[], maskBits: PatternMaskBits, center: PatternPeeringDef["center"]): number {
+  const set = new Set(mask).size;
+  const n = maskBits.positions.length;
+  const setShare = center === "all_set"
+    ? set / n
+    : (set + (center === maskBits.set ? 1 : 0)) / (n + 1);
+  return maskBits.set === "A" ? setShare : 1 - setShare;
+}
+
+function outlineArea(pts: number[]): number {
+  let s = 0;
+  for (let i = 0; i < pts.length; i += 2) {
+    const j = (i + 2) % pts.length;
+    s += pts[i] * pts[j + 1] - pts[j] * pts[i + 1];
+  }
+  return Math.abs(s) / 2;
+}
+
+/** Share of material A in a tile from its traced outlines (see applyRegionShapes). */
+export function regionCoverageA(regions: Pick<TileRegions, "A" | "B">, tileSize: number): number {
+  const a = regions.A.reduce((sum, o) => sum + outlineArea(o), 0);
+  return Math.max(0, Math.min(1, a / (tileSize * tileSize)));
+}
+
+/**
+ * Declare `material: String` and `traversable_by: PackedStringArray` custom data layers and fill
+ * them per tile: a material that covers at least `dominance` of the tile names the tile and
+ * lends its vehicles; anything in between is "mixed" and only traversable by vehicles both
+ * materials allow.
+ */
+export function applyMaterialData(rules: RulesConfig, coverage: Array<{ coord: [number, number]; a: number }>, opts: {
+  materialsAB?: { A: { name: string; vehicles?: string[] }; B: { name: string; vehicles?: string[] } };
+  dominance?: number;        // default 0.75
+}): RulesConfig {
+  const dominance = opts.dominance ?? 0.75;
+  const A = { name: opts.materialsAB?.A?.name ?? "Land", vehicles: opts.materialsAB?.A?.vehicles ?? [] };
+  const B = { name: opts.materialsAB?.B?.name ?? "Water", vehicles: opts.materialsAB?.B?.vehicles ?? [] };
+  const mixed = { name: "mixed", vehicles: A.vehicles.filter((v) => B.vehicles.includes(v)) };
+  const byCoord = new Map(coverage.map((c) => [`${c.coord[0]}:${c.coord[1]}`, c.a]));
+
+  const tiles = rules.tiles.map((t) => {
+    const a = byCoord.get(`${t.coord[0]}:${t.coord[1]}`);
+    if (a === undefined) return t;
+    const m = a >= dominance ? A : 1 - a >= dominance ? B : mixed;
+    return { ...t, custom: { ...t.custom, material: m.name, traversable_by: [...m.vehicles] } };
+  });
+  const layers = (rules.customDataLayers ?? []).filter((l) => l.name !== "material" && l.name !== "traversable_by");
+  return {
+    ...rules,
+    tiles,
+    customDataLayers: [...layers, { name: "material", type: "string" }, { name: "traversable_by", type: "string_array" }],
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Variants (alternates per slot, stacked below the base grid)
+// ──────────────────────────────────────────────────────────────────────────────
+/**
+ * Godot alternative ids (`c:r/1`) share one texture region, so art alternates live in extra
+ * atlas blocks instead: variant k of the tile at (c, r) sits at (c, r + k * grid.rows) with
+ * the same terrain/peering bits, and the terrain painter picks among them by `probability`.
+ */
+export function expandVariantRules(rules: RulesConfig, grid: { cols: number; rows: number }, weights: number[]): RulesConfig {
+  if (weights.length <= 1) return rules;
+  const tiles: TileRule[] = [];
+  weights.forEach((w, k) => {
+    for (const t of rules.tiles) {
+      tiles.push({ ...t, coord: [t.coord[0], t.coord[1] + k * grid.rows], probability: w });
+    }
+  });
+  return { ...rules, tiles };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Animation (frames laid out as extra atlas columns)
+// ──────────────────────────────────────────────────────────────────────────────
+/**
+ * Frame f of the whole sheet is a copy of the grid shifted f * grid.cols columns right, so each
+ * tile animates with a separation of (cols - 1, 0): its frames never overlap a neighbour's.
+ * Works with stacked variants, whose rows get their own frames to the right as well.
+ */
+export function expandAnimationRules(rules: RulesConfig, grid: { cols: number; rows: number }, durations: number[]): RulesConfig {
+  if (durations.length <= 1) return rules;
+  const animation: TileAnimation = { columns: durations.length, separation: [grid.cols - 1, 0], durations: [...durations] };
+  return { ...rules, tiles: rules.tiles.map((t) => ({ ...t, animation })) };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  BLOB_BITS, BLOB47_MASKS, BLOB47_SLOT_MASKS, normalizeBlobMask, blobMaskForName, deriveBlob47Rules,
+} from "../src/index";
+
+const { N, NE, E, SE, S, W, NW } = BLOB_BITS;
+
+describe("blob47 masks", () => {
+  it("drops corners whose two sides are not both set", () => {
+    expect(normalizeBlobMask(NE)).toBe(0);
+    expect(normalizeBlobMask(N | NE)).toBe(N);
+    expect(normalizeBlobMask(N | NE | E)).toBe(N | NE | E);
+    expect(normalizeBlobMask(S | SE | W | NW)).toBe(S | W);
+    expect(normalizeBlobMask(0x1ff)).toBe(255);
+  });
+
+  it("has exactly 47 normalized masks, and one slot name per mask", () => {
+    expect(BLOB47_MASKS).toHaveLength(47);
+    expect(BLOB47_MASKS.every((m) => normalizeBlobMask(m) === m)).toBe(true);
+    expect(Object.keys(BLOB47_SLOT_MASKS)).toHaveLength(47);
+    expect(new Set(Object.values(BLOB47_SLOT_MASKS))).toEqual(new Set(BLOB47_MASKS));
+  });
+
+  it("resolves blob_, mask_ and slot names", () => {
+    expect(blobMaskForName("blob_255")).toBe(255);
+    expect(blobMaskForName("grass_blob_3")).toBe(N);
+    expect(blobMaskForName("mask_10100000")).toBe(N | E);
+    expect(blobMaskForName("mask_11100000")).toBe(N | NE | E);
+    expect(blobMaskForName("edge_west")).toBe(31);
+    expect(blobMaskForName("nope")).toBeNull();
+  });
+});
+
+describe("deriveBlob47Rules", () => {
+  const tilesByIndex = [
+    { id: 0, name: "center" },
+    { id: 1, name: "endcap_N" },
+    { id: 2, name: "unknown" },
+  ];
+
+  it("sets every peering bit explicitly: A where the neighbour continues, else B", () => {
+    const rules = deriveBlob47Rules({ name: "grass", tileSize: 32, grid: { cols: 2, rows: 2 }, tilesByIndex });
+    expect(rules.meta).toEqual({ name: "grass", tileSize: 32, indexBase: 0 });
+    expect(rules.terrainSets[0].mode).toBe("MATCH_CORNERS_AND_SIDES");
+    expect(rules.terrainSets[0].terrains.map((t) => t.name)).toEqual(["Land", "Water"]);
+
+    const [center, endcap, fallback] = rules.tiles;
+    expect(center.coord).toEqual([0, 0]);
+    expect(Object.values(center.peerTerrains!)).toEqual(Array(8).fill(0));
+    expect(endcap.coord).toEqual([1, 0]);
+    expect(endcap.peerTerrains).toMatchObject({ top_side: 0, right_side: 1, bottom_side: 1, left_side: 1, top_right_corner: 1 });
+    // unknown names take the canonical mask of their slot index
+    expect(fallback.coord).toEqual([0, 1]);
+    expect(fallback.peerTerrains).toMatchObject({ top_side: 1, right_side: 0, top_right_corner: 1 });
+  });
+
+  it("names terrains after the materials and caps the sheet at 47 tiles", () => {
+    const many = Array.from({ length: 50 }, (_, id) => ({ id, name: `blob_${id}` }));
+    const rules = deriveBlob47Rules({
+      name: "coast", tileSize: 16, grid: { cols: 8, rows: 7 }, tilesByIndex: many,
+      materialsAB: { A: { name: "Sand" }, B: { name: "Lava" } },
+    });
+    expect(rules.terrainSets[0].terrains.map((t) => t.name)).toEqual(["Sand", "Lava"]);
+    expect(rules.tiles).toHaveLength(47);
+    expect(rules.tiles[46].coord).toEqual([6, 5]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { mergeBundleRules, writeTileSetBundleTres, type BundleSource, type RulesConfig, type RGBA } from "../src/index";
+
+const GREEN: RGBA = [0.3, 0.7, 0.3, 1], SAND: RGBA = [0.9, 0.8, 0.5, 1], BLUE: RGBA = [0.2, 0.4, 0.8, 1];
+
+/** A two-terrain atlas: a solid A tile and an A tile whose top side is B. */
+function pair(name: string, A: [string, RGBA], B: [string, RGBA], vehicle: string): RulesConfig {
+  return {
+    meta: { name, tileSize: 16 },
+    terrainSets: [{ id: 0, mode: "MATCH_CORNERS_AND_SIDES", terrains: [{ id: 0, name: A[0], color: A[1] }, { id: 1, name: B[0], color: B[1] }] }],
+    tiles: [
+      { coord: [0, 0], terrainSet: 0, terrain: 0 },
+      { coord: [1, 0], terrainSet: 0, terrain: 0, peers: ["top_side"], navigation: { 0: [[-8, -8, 8, -8, 8, 8, -8, 8]] } },
+    ],
+    navigationLayers: [{ id: 0, layers: 1, name: vehicle }],
+    customDataLayers: [{ name: "material", type: "string" }],
+  };
+}
+
+const sources: BundleSource[] = [
+  { key: "grass_sand", extResourcePath: "res://tilesets/grass_sand.png", rules: pair("gs", ["Grass", GREEN], ["Sand", SAND], "foot") },
+  { key: "sand_water", extResourcePath: "res://tilesets/sand_water.png", rules: pair("sw", ["sand", SAND], ["Water", BLUE], "boat") },
+];
+
+describe("mergeBundleRules", () => {
+  it("puts both atlases on one terrain set, matching terrain names case-insensitively", () => {
+    const merged = mergeBundleRules("coast", sources);
+    expect(merged.terrains).toEqual([
+      { id: 0, name: "Grass", sources: ["grass_sand"] },
+      { id: 1, name: "Sand", sources: ["grass_sand", "sand_water"] },
+      { id: 2, name: "Water", sources: ["sand_water"] },
+    ]);
+    expect(merged.resource.terrainSets).toHaveLength(1);
+    // sand_water's local terrain 0 (sand) and peer terrain 1 (water) now point at the shared ids
+    expect(merged.sources[1].tiles).toEqual([
+      expect.objectContaining({ coord: [0, 0], terrainSet: 0, terrain: 1 }),
+      expect.objectContaining({ coord: [1, 0], terrainSet: 0, terrain: 1, peerTerrains: { top_side: 2 }, peers: undefined }),
+    ]);
+    expect(merged.sources[0].tiles[1].peerTerrains).toEqual({ top_side: 1 });
+  });
+
+  it("merges navigation layers by vehicle and custom data layers by name", () => {
+    const merged = mergeBundleRules("coast", sources);
+    expect(merged.resource.navigationLayers).toEqual([{ id: 0, layers: 1, name: "foot" }, { id: 1, layers: 2, name: "boat" }]);
+    expect(merged.sources[1].tiles[1].navigation).toEqual({ 1: [[-8, -8, 8, -8, 8, 8, -8, 8]] });
+    expect(merged.resource.customDataLayers).toEqual([{ name: "material", type: "string" }]);
+  });
+
+  it("rejects sources with another tile size or terrain mode", () => {
+    const big = { ...sources[1], rules: { ...sources[1].rules, meta: { name: "sw", tileSize: 32 } } };
+    expect(() => mergeBundleRules("coast", [sources[0], big])).toThrow("tile_size_mismatch:sand_water");
+    const corners = {
+      ...sources[1],
+      rules: { ...sources[1].rules, terrainSets: [{ ...sources[1].rules.terrainSets[0], mode: "MATCH_CORNERS" as const }] },
+    };
+    expect(() => mergeBundleRules("coast", [sources[0], corners])).toThrow("terrain_mode_mismatch:sand_water");
+  });
+});
+
+describe("writeTileSetBundleTres", () => {
+  it("writes one TileSet with an atlas source per tileset and the shared terrain set", async () => {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), "godot-bundle-"));
+    try {
+      const { path: file } = await writeTileSetBundleTres({ outDir, name: "coast", sources });
+      expect(path.basename(file)).toBe("coast.tres");
+      const tres = await fs.readFile(file, "utf8");
+      const lines = tres.split("\n");
+
+      expect(lines[0]).toBe('[gd_resource type="TileSet" load_steps=7 format=3 uid="uid://auto_bundle_coast"]');
+      expect(tres).toContain('[ext_resource type="Texture2D" path="res://tilesets/grass_sand.png" id="1_tex"]');
+      expect(tres).toContain('[ext_resource type="Texture2D" path="res://tilesets/sand_water.png" id="2_tex"]');
+      expect(lines.filter((l) => l.startsWith("[resource]"))).toHaveLength(1);
+      expect(lines.filter((l) => /^terrain_set_\d+\/mode/.test(l))).toEqual(["terrain_set_0/mode = 0"]);
+      expect(tres).toContain('terrain_set_0/terrain_1/name = "Sand"');
+      expect(tres).toContain('terrain_set_0/terrain_2/name = "Water"');
+      expect(tres).toContain("tile_size = Vector2i(16, 16)");
+      expect(tres).toContain('sources/0 = SubResource("TileSetAtlasSource_grass_sand")');
+      expect(tres).toContain('sources/1 = SubResource("TileSetAtlasSource_sand_water")');
+
+      // navigation sub-resources stay unique per atlas, and the second atlas uses the shared ids
+      expect(tres).toContain('[sub_resource type="NavigationPolygon" id="NavigationPolygon_0_1_0_0"]');
+      expect(tres).toContain('[sub_resource type="NavigationPolygon" id="NavigationPolygon_1_1_0_1"]');
+      const second = tres.slice(tres.indexOf('id="TileSetAtlasSource_sand_water"'));
+      expect(second).toContain("1:0/0/terrains_peering_bit/top_side = 2");
+      expect(second).toContain('1:0/0/navigation_layer_1/polygon = SubResource("NavigationPolygon_1_1_0_1")');
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
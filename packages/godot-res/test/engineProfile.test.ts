@@ -0,0 +1,86 @@
+import { describe, it, expect, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  DEFAULT_ENGINE_PROFILE, validateEngineProfile, resolveEngineProfile, enginePath, engineResPath, generateOverworldVisual,
+  type CreatureInputs,
+} from "../src/index";
+
+const dirs: string[] = [];
+
+afterAll(async () => {
+  await Promise.all(dirs.map((d) => fs.rm(d, { recursive: true, force: true })));
+});
+
+describe("validateEngineProfile", () => {
+  it("accepts no profile and partial overrides", () => {
+    expect(validateEngineProfile(undefined)).toEqual([]);
+    expect(validateEngineProfile({ name: "rpg", paths: { tileset: "Game/Tiles/{slug}" }, scripts: { creature: "res://Creature.gd" } })).toEqual([]);
+  });
+
+  it("lists every problem", () => {
+    expect(validateEngineProfile([])).toEqual(["profile must be an object"]);
+    expect(validateEngineProfile({
+      name: 3,
+      paths: { tileset: "../Outside/{slug}", character: "res://Chars/{id}", sprites: "x", tilesetBundle: "Bundles/{team}" },
+      scripts: { creature: "Creature.gd", overworldPlayer: " " },
+    })).toEqual([
+      "name must be a string",
+      "paths.tileset must be project-relative",
+      "paths.character must be project-relative",
+      "paths.sprites is not a known key",
+      "paths.tilesetBundle: unknown placeholder {team}",
+      "scripts.creature must start with res://",
+      "scripts.overworldPlayer must be a non-empty string",
+    ]);
+    expect(validateEngineProfile({ paths: "Assets" })).toEqual(["paths must be an object"]);
+  });
+});
+
+describe("resolveEngineProfile", () => {
+  it("overlays the stored profile on the defaults", () => {
+    const profile = resolveEngineProfile({ paths: { tileset: "Game/Tiles/{slug}" } });
+    expect(profile.name).toBe("default");
+    expect(profile.paths.tileset).toBe("Game/Tiles/{slug}");
+    expect(profile.paths.character).toBe(DEFAULT_ENGINE_PROFILE.paths.character);
+    expect(profile.scripts).toEqual(DEFAULT_ENGINE_PROFILE.scripts);
+    expect(resolveEngineProfile()).toEqual(DEFAULT_ENGINE_PROFILE);
+  });
+
+  it("throws the first problem for an invalid profile", () => {
+    expect(() => resolveEngineProfile({ paths: { tileset: "/abs/{slug}" } })).toThrow("invalid_engine_profile:paths.tileset must be project-relative");
+  });
+});
+
+describe("path templates", () => {
+  const profile = resolveEngineProfile({ paths: { character: "Chars/{name}/{id}/", tileset: "Tiles/{id}" } });
+
+  it("fills placeholders and trims trailing slashes", () => {
+    expect(enginePath(profile, "character", { id: "elara", name: "Elara" })).toBe("Chars/Elara/elara");
+    expect(enginePath(DEFAULT_ENGINE_PROFILE, "proceduralTileset", { slug: "grass_sand" })).toBe("Assets/Tilesets/TilesetRessources/grass_sand");
+    // a missing variable falls back to id, then slug
+    expect(enginePath(profile, "tileset", { slug: "coast" })).toBe("Tiles/coast");
+  });
+
+  it("builds res:// paths with an optional file", () => {
+    expect(engineResPath(profile, "character", { id: "elara", name: "Elara" })).toBe("res://Chars/Elara/elara");
+    expect(engineResPath(DEFAULT_ENGINE_PROFILE, "tileset", { slug: "coast" }, "tileset.tres")).toBe("res://Assets/Tilesets/coast/tileset.tres");
+  });
+
+  it("places exported resources where the profile says", async () => {
+    const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), "godot-profile-"));
+    dirs.push(projectRoot);
+    const inputs = { id: "elara", name: "Elara", defaultFpsOverworld: 8 } as CreatureInputs;
+    const custom = resolveEngineProfile({
+      paths: { characterDefault: "Game/{id}", overworldFrames: "Game/{id}/frames" },
+      scripts: { characterVisual: "res://Visual.gd" },
+    });
+    const tresPath = await generateOverworldVisual({ projectRoot, inputs, profile: custom });
+    expect(tresPath).toBe(path.join(projectRoot, "Game", "elara", "elara_Overworld_CharacterVisual.tres"));
+    const tres = await fs.readFile(tresPath, "utf8");
+    expect(tres).toContain(`path="res://Visual.gd"`);
+    expect(tres).toContain(`animations_root = "res://Game/elara/frames"`);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  applyMaterialData, maskCoverageA, regionCoverageA, writeTileSetTres, type RulesConfig,
+} from "../src/index";
+
+const materialsAB = {
+  A: { name: "Land", vehicles: ["foot", "wheels"] },
+  B: { name: "Water", vehicles: ["boat", "foot"] },
+};
+
+const rules: RulesConfig = {
+  meta: { name: "coast", tileSize: 16 },
+  terrainSets: [],
+  tiles: [{ coord: [0, 0] }, { coord: [1, 0] }, { coord: [2, 0] }, { coord: [3, 0] }],
+  customDataLayers: [{ name: "biome", type: "string" }],
+};
+
+describe("material coverage", () => {
+  it("estimates A coverage from slot masks", () => {
+    const coast = { positions: ["NW", "NE", "SE", "SW"], set: "B" as const, meaning: "" };
+    expect(maskCoverageA([], coast, "all_set")).toBe(1);
+    expect(maskCoverageA(["NW", "NE"], coast, "all_set")).toBe(0.5);
+    const blob = { positions: ["N", "NE", "E", "SE", "S", "SW", "W", "NW"], set: "A" as const, meaning: "" };
+    expect(maskCoverageA([], blob, "A")).toBeCloseTo(1 / 9);
+    expect(maskCoverageA(blob.positions, blob, "A")).toBe(1);
+  });
+
+  it("measures A coverage from traced outlines", () => {
+    expect(regionCoverageA({ A: [[-8, -8, 8, -8, 8, 8, -8, 8]], B: [] }, 16)).toBe(1);
+    expect(regionCoverageA({ A: [[-8, -8, 0, -8, 0, 8, -8, 8]], B: [] }, 16)).toBe(0.5);
+    expect(regionCoverageA({ A: [], B: [] }, 16)).toBe(0);
+  });
+});
+
+describe("applyMaterialData", () => {
+  const coverage = [0.9, 0.1, 0.5].map((a, i) => ({ coord: [i, 0] as [number, number], a }));
+
+  it("names dominant materials, marks the rest mixed and keeps other layers", () => {
+    const out = applyMaterialData(rules, coverage, { materialsAB });
+    expect(out.customDataLayers).toEqual([
+      { name: "biome", type: "string" }, { name: "material", type: "string" }, { name: "traversable_by", type: "string_array" },
+    ]);
+    expect(out.tiles.map((t) => t.custom)).toEqual([
+      { material: "Land", traversable_by: ["foot", "wheels"] },
+      { material: "Water", traversable_by: ["boat", "foot"] },
+      { material: "mixed", traversable_by: ["foot"] },
+      undefined,
+    ]);
+    expect(applyMaterialData(rules, coverage, { materialsAB, dominance: 0.5 }).tiles[2].custom?.material).toBe("Land");
+    // applying twice does not declare the layers twice
+    expect(applyMaterialData(out, coverage, { materialsAB }).customDataLayers).toHaveLength(3);
+  });
+
+  it("writes the layers and per-tile values into the .tres", async () => {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), "godot-material-"));
+    try {
+      const file = await writeTileSetTres({
+        outDir, atlasPngName: "coast.png", extResourcePath: "res://coast.png",
+        rules: applyMaterialData(rules, coverage, { materialsAB }),
+      });
+      const tres = await fs.readFile(file, "utf8");
+      expect(tres).toContain('custom_data_layer_1/name = "material"');
+      expect(tres).toContain("custom_data_layer_1/type = 4");
+      expect(tres).toContain('custom_data_layer_2/name = "traversable_by"');
+      expect(tres).toContain("custom_data_layer_2/type = 34");
+      expect(tres).toContain('0:0/0/custom_data_1 = "Land"');
+      expect(tres).toContain('0:0/0/custom_data_2 = PackedStringArray("foot", "wheels")');
+      expect(tres).toContain('2:0/0/custom_data_2 = PackedStringArray("foot")');
+      expect(tres).not.toContain("3:0/0/custom_data");
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+
+import { applyRegionShapes, renderTileShapes, type RulesConfig, type TileRegions } from "../src/index";
+
+const rules: RulesConfig = {
+  meta: { name: "coast", tileSize: 16 },
+  terrainSets: [],
+  tiles: [{ coord: [0, 0] }, { coord: [1, 0] }],
+};
+
+// Left half A, right half B (tile-centred, 16 px tile)
+const left = [-8, -8, 0, -8, 0, 8, -8, 8];
+const right = [0, -8, 8, -8, 8, 8, 0, 8];
+const regions: TileRegions[] = [{ coord: [0, 0], A: [left], B: [right] }];
+const materialsAB = { A: { vehicles: ["foot", "wheels"] }, B: { vehicles: ["boat", "foot"] } };
+
+describe("applyRegionShapes", () => {
+  it("puts collision around the chosen material and one navigation layer per vehicle", () => {
+    const { rules: out, vehicles } = applyRegionShapes(rules, regions, { tileSize: 16, materialsAB });
+    expect(vehicles).toEqual(["foot", "wheels", "boat"]);
+    expect(out.navigationLayers).toEqual([
+      { id: 0, layers: 1, name: "foot" }, { id: 1, layers: 2, name: "wheels" }, { id: 2, layers: 4, name: "boat" },
+    ]);
+    const [traced, untouched] = out.tiles;
+    expect(traced.collision).toEqual({ polygons: [left] });
+    // foot crosses both materials: one full-tile outline instead of two abutting halves
+    expect(traced.navigation).toEqual({ 0: [[-8, -8, 8, -8, 8, 8, -8, 8]], 1: [left], 2: [right] });
+    expect(untouched).toBe(rules.tiles[1]);
+
+    expect(applyRegionShapes(rules, regions, { tileSize: 16, collision: "B" }).rules.tiles[0].collision).toEqual({ polygons: [right] });
+    expect(applyRegionShapes(rules, regions, { tileSize: 16, collision: "none" }).rules.tiles[0].collision).toBeUndefined();
+  });
+});
+
+describe("renderTileShapes", () => {
+  it("writes collision polygons and triangulated navigation sub-resources", () => {
+    const { rules: shaped } = applyRegionShapes(rules, regions, { tileSize: 16, materialsAB });
+    const { subResources, tileLines, resourceLines } = renderTileShapes(shaped, "t_");
+
+    expect(tileLines.get("0:0")).toEqual([
+      "0:0/0/physics_layer_0/polygon_0/points = PackedVector2Array(-8, -8, 0, -8, 0, 8, -8, 8)",
+      '0:0/0/navigation_layer_0/polygon = SubResource("NavigationPolygon_t_0_0_0")',
+      '0:0/0/navigation_layer_1/polygon = SubResource("NavigationPolygon_t_0_0_1")',
+      '0:0/0/navigation_layer_2/polygon = SubResource("NavigationPolygon_t_0_0_2")',
+    ]);
+    expect(tileLines.has("1:0")).toBe(false);
+    expect(resourceLines).toEqual(["navigation_layer_0/layers = 1", "navigation_layer_1/layers = 2", "navigation_layer_2/layers = 4"]);
+
+    const wheels = subResources.slice(subResources.indexOf('[sub_resource type="NavigationPolygon" id="NavigationPolygon_t_0_0_1"]'));
+    expect(wheels[1]).toBe("vertices = PackedVector2Array(-8, -8, 0, -8, 0, 8, -8, 8)");
+    // a quad becomes two triangles over its four vertices
+    const triangles = [...wheels[2].matchAll(/PackedInt32Array\(([^)]*)\)/g)].map((m) => m[1].split(", ").map(Number));
+    expect(triangles).toHaveLength(2);
+    expect(new Set(triangles.flat())).toEqual(new Set([0, 1, 2, 3]));
+    expect(wheels[3]).toBe("outlines = [PackedVector2Array(-8, -8, 0, -8, 0, 8, -8, 8)]");
+  });
+
+  it("triangulates concave outlines into triangles inside them", () => {
+    // L shape: full tile minus its top-right quarter
+    const ell = [-8, -8, 0, -8, 0, 0, 8, 0, 8, 8, -8, 8];
+    const { subResources } = renderTileShapes({ ...rules, tiles: [{ coord: [0, 0], navigation: { 0: [ell] } }] });
+    const triangles = [...subResources[2].matchAll(/PackedInt32Array\(([^)]*)\)/g)].map((m) => m[1].split(", ").map(Number));
+    expect(triangles).toHaveLength(4);
+    const pt = (i: number) => [ell[i * 2], ell[i * 2 + 1]];
+    for (const tri of triangles) {
+      const [cx, cy] = tri.map(pt).reduce(([x, y], [px, py]) => [x + px / 3, y + py / 3], [0, 0]);
+      expect(cx > 0 && cy < 0).toBe(false);   // no triangle covers the missing quarter
+    }
+  });
+});
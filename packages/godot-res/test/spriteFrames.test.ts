@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { renderSpriteFrames, writeSpriteFramesTres, type UlpcManifest } from "../src/index";
+
+const base = "/exports/hero/Default";
+
+const manifest: UlpcManifest = {
+  schema: "ulpc.manifest/1.0",
+  slug: "hero",
+  animations: {
+    walk: {
+      frames: 4, fps: 10, loop: true,
+      sheet: `${base}/sheets/walk.png`,
+      frame_size: { w: 64, h: 64 },
+      folders: { Walk_back: [`${base}/Walk_back/0.png`, `${base}/Walk_back/1.png`], Walk_right: [`${base}/Walk_right/0.png`, `${base}/Walk_right/1.png`] },
+      rows: { Walk_back: 0, Walk_right: 3 },
+    },
+    hurt: {
+      frames: 2, fps: 6, loop: false,
+      folders: { Hurt: [`${base}/Hurt/0.png`, `${base}/Hurt/1.png`] },
+    },
+  },
+};
+
+describe("renderSpriteFrames", () => {
+  const tres = renderSpriteFrames({ manifest, baseDir: base, resRoot: "res://Assets/Characters/hero/Default/" });
+
+  it("writes one animation per folder with its fps and loop flag", () => {
+    expect(tres).toMatch(/^\[gd_resource type="SpriteFrames" load_steps=\d+ format=3\]/);
+    const names = [...tres.matchAll(/"name": &"([^"]+)"/g)].map((m) => m[1]);
+    expect(names).toEqual(["Walk_back", "Walk_right", "Hurt"]);
+    expect(tres).toContain(`"loop": true,\n"name": &"Walk_back",\n"speed": 10.0`);
+    expect(tres).toContain(`"loop": false,\n"name": &"Hurt",\n"speed": 6.0`);
+  });
+
+  it("cuts sheet frames as AtlasTexture regions at the folder's row", () => {
+    expect(tres).toContain(`[ext_resource type="Texture2D" path="res://Assets/Characters/hero/Default/sheets/walk.png" id="1_tex"]`);
+    expect(tres).toContain(`[sub_resource type="AtlasTexture" id="AtlasTexture_Walk_back_1"]\natlas = ExtResource("1_tex")\nregion = Rect2(64, 0, 64, 64)`);
+    expect(tres).toContain(`[sub_resource type="AtlasTexture" id="AtlasTexture_Walk_right_0"]\natlas = ExtResource("1_tex")\nregion = Rect2(0, 192, 64, 64)`);
+    expect(tres.match(/path="res:\/\/[^"]*walk\.png"/g)).toHaveLength(1);
+  });
+
+  it("references the sliced frames when an animation has no sheet", () => {
+    expect(tres).toContain(`path="res://Assets/Characters/hero/Default/Hurt/1.png"`);
+    expect(tres).toMatch(/"texture": ExtResource\("\d+_tex"\)\n\}\],\n"loop": false/);
+    // 3 textures + 4 atlas regions + the resource itself
+    expect(tres).toContain("load_steps=8 ");
+  });
+
+  it("rejects files outside the manifest directory", () => {
+    const outside: UlpcManifest = { ...manifest, animations: { hurt: { frames: 1, fps: 8, folders: { Hurt: ["/elsewhere/0.png"] } } } };
+    expect(() => renderSpriteFrames({ manifest: outside, baseDir: base, resRoot: "res://x" })).toThrow("sprite_frames:outside_base:/elsewhere/0.png");
+  });
+});
+
+describe("writeSpriteFramesTres", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "godot-spriteframes-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes <slug>_SpriteFrames.tres next to the manifest's res:// root", async () => {
+    const manifestPath = path.join(dir, "ulpc_manifest.json");
+    const local: UlpcManifest = { ...manifest, animations: { idle: { frames: 1, fps: 4, folders: { Idle: [path.join(dir, "Idle", "0.png")] } } } };
+    await fs.writeFile(manifestPath, JSON.stringify(local));
+    const file = await writeSpriteFramesTres({ manifestPath, resRoot: "res://hero", outDir: path.join(dir, "godot") });
+    expect(file).toBe(path.join(dir, "godot", "hero_SpriteFrames.tres"));
+    expect(await fs.readFile(file, "utf8")).toContain(`path="res://hero/Idle/0.png"`);
+
+    await fs.writeFile(manifestPath, JSON.stringify({ schema: "other" }));
+    await expect(writeSpriteFramesTres({ manifestPath, resRoot: "res://hero", outDir: dir })).rejects.toThrow("sprite_frames:unsupported_manifest:other");
+  });
+});
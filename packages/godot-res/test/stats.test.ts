@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  compileExpression, computeDerivedStats, readStatValues, resolveStatSchema, validateStatSchema, DEFAULT_STAT_SCHEMA,
+  type StatSchema,
+} from "../src/index";
+
+const run = (src: string, vars: Record<string, number> = {}) => compileExpression(src).evaluate(vars);
+
+describe("compileExpression", () => {
+  it("follows the usual precedence, with right-associative powers", () => {
+    expect(run("1 + 2 * 3")).toBe(7);
+    expect(run("(1 + 2) * 3")).toBe(9);
+    expect(run("10 - 4 - 3")).toBe(3);
+    expect(run("7 % 4 * 2")).toBe(6);
+    expect(run("2 ^ 3 ^ 2")).toBe(512);
+    expect(run("-2 ^ 2")).toBe(-4);
+    expect(run(".5 * 4")).toBe(2);
+  });
+
+  it("evaluates comparisons, conditions and whitelisted functions", () => {
+    expect(run("3 >= 3")).toBe(1);
+    expect(run("3 != 3")).toBe(0);
+    expect(run("x > 5 ? 10 : x < 0 ? -1 : 0", { x: -3 })).toBe(-1);
+    expect(run("clamp(x * 2, 0, 15) + max(1, 4, 2) + floor(2.7) + sqrt(16)", { x: 9 })).toBe(25);
+  });
+
+  it("lists identifiers in first-use order", () => {
+    expect(compileExpression("b + a * min(b, c)").identifiers).toEqual(["b", "a", "c"]);
+  });
+
+  it.each([
+    ["", "invalid_expression:empty"],
+    ["1 +", "invalid_expression:unexpected_end"],
+    ["(1 + 2", "invalid_expression:expected:)"],
+    ["1 2", "invalid_expression:unexpected_token:2"],
+    ["a.b", "invalid_expression:unexpected_character:."],
+    ["eval(1)", "invalid_expression:unknown_function:eval"],
+    ["clamp(1, 2)", "invalid_expression:arity:clamp"],
+    ["1+".repeat(300) + "1", "invalid_expression:too_long"],
+    ["(".repeat(40) + "1" + ")".repeat(40), "invalid_expression:too_deep"],
+  ])("rejects %j", (src, error) => {
+    expect(() => compileExpression(src)).toThrow(error);
+  });
+
+  it("throws on variables missing at evaluation time", () => {
+    expect(() => run("a + 1")).toThrow("invalid_expression:unknown_variable:a");
+    expect(() => run("toString", {})).toThrow("invalid_expression:unknown_variable:toString");
+  });
+});
+
+describe("stat schema", () => {
+  const schema: StatSchema = {
+    stats: [
+      { key: "str", min: 1, max: 20, default: 10, integer: true },
+      { key: "dex", min: 0 },
+    ],
+    derived: [
+      { key: "hp", expr: "str * 5 + dex / 3", round: "floor" },
+      { key: "dodge", expr: "dex * 2", max: 25 },
+      { key: "tank", expr: "hp > 60 ? 1 : 0" },
+    ],
+  };
+
+  it("computes derived stats in order, rounding and clamping each", () => {
+    expect(computeDerivedStats(schema, { str: 12, dex: 16 })).toEqual({ hp: 65, dodge: 25, tank: 1 });
+  });
+
+  it("matches the default schema's formulas, counting missing stats as 0", () => {
+    const { stats } = readStatValues(DEFAULT_STAT_SCHEMA, { kinesthetic: 12 });
+    const derived = computeDerivedStats(DEFAULT_STAT_SCHEMA, stats);
+    expect(derived).toMatchObject({ hp: 120, hp_current: 120, spd: 86, acdb: 86, phys_thresh: 62 });
+  });
+
+  it("derives the same values as the fixed formulas it replaced", () => {
+    const character = { creature_affinity: 10, chaos_mastery: 10, kinesthetic: 10, lucidity: 10, terrain_control: 10 };
+    const { stats, errors } = readStatValues(DEFAULT_STAT_SCHEMA, character);
+    expect(errors).toEqual([]);
+    expect(computeDerivedStats(DEFAULT_STAT_SCHEMA, stats)).toEqual({
+      hp: 150, hp_current: 150, spd: 80, acdb: 80,
+      phys_purge_rate: 30, phys_thresh: 60, ment_purge_rate: 30, ment_thresh: 60,
+    });
+    expect(readStatValues(DEFAULT_STAT_SCHEMA, {}).stats).toEqual({
+      creature_affinity: 0, chaos_mastery: 0, kinesthetic: 0, lucidity: 0, terrain_control: 0,
+    });
+  });
+
+  it("throws when a formula is not finite", () => {
+    const s: StatSchema = { stats: [{ key: "a" }], derived: [{ key: "ratio", expr: "1 / a" }] };
+    expect(() => computeDerivedStats(s, { a: 0 })).toThrow("invalid_stat_value:ratio:not_finite");
+  });
+
+  it("fills defaults and reports bad base values", () => {
+    expect(readStatValues(schema, {})).toEqual({ stats: { str: 10, dex: 0 }, errors: [] });
+    expect(readStatValues(schema, { str: 2.5, dex: -1, extra: 3 }).errors).toEqual([
+      "str must be an integer", "dex must be >= 0",
+    ]);
+    expect(readStatValues(schema, { str: "many" }).errors).toEqual(["str must be a number"]);
+  });
+
+  it("rejects reserved, duplicate and forward references", () => {
+    expect(validateStatSchema(schema)).toEqual([]);
+    expect(validateStatSchema({
+      stats: [{ key: "level" }, { key: "str" }, { key: "str" }],
+      derived: [{ key: "a", expr: "b + 1" }, { key: "b", expr: "str" }, { key: "c", expr: "c" }, { key: "d", expr: "1 +" }],
+    })).toEqual([
+      'stats[0].key "level" is reserved',
+      'stats[2].key "str" is declared twice',
+      "derived[0].expr references unknown or later stats: b",
+      "derived[2].expr references unknown or later stats: c",
+      "derived[3].expr: unexpected_end",
+    ]);
+    expect(() => resolveStatSchema({ stats: [] })).toThrow("invalid_stat_schema:stats must be a non-empty array");
+    expect(resolveStatSchema(undefined)).toBe(DEFAULT_STAT_SCHEMA);
+  });
+});
@@ -229,11 +229,21 @@ export function validateCharIntermediaryPayload(
   return { ok: false, errors: errs };
 }
 
+// Plain JSON Schemas for LLM structured output (response_format json_schema); meta keys dropped
+function forStructuredOutput(schema: any): Record<string, unknown> {
+  const { $schema: _s, $id: _i, name: _n, ...rest } = schema ?? {};
+  return rest;
+}
+export const characterLiteJsonSchema = forStructuredOutput(liteSchema);
+export const charIntermediaryJsonSchema = forStructuredOutput(CHAR_INTERMEDIARY_SCHEMA.schema);
+
 // ---------------- Exports ----------------
 export default {
   validateCharacterLite,
   validateAssistantChatPayload,
   validateCharIntermediaryPayload,
+  characterLiteJsonSchema,
+  charIntermediaryJsonSchema,
 };
 
 export * as ulpc from "./ulpc/index.js";
@@ -18,8 +18,8 @@ const SCHEMA_OUT: string =
 
 /** Schema skeleton */
 type VariantSwitch = {
-  if:   { properties: { category: { const: string } }; required?: ["category"] };
-  then: { properties: { variant: { type: "string"; enum: string[] } } };
+  if:   { properties: { category: { const: string } | { pattern: string } }; required?: ["category"] };
+  then: { properties: { variant: { type: "string"; enum: string[] } | { type: "string"; pattern: string } } };
   else: false;
 };
 type EnumSchema = {
@@ -32,7 +32,9 @@ type EnumSchema = {
   additionalProperties: boolean;
   $defs: {
     category_enum: { type: "string"; enum: string[] };
+    custom_category: unknown;
     variant_enum_switch: { oneOf: VariantSwitch[] };
+    color_ramp: unknown;
   };
 };
 
@@ -83,7 +85,16 @@ const schema: EnumSchema = {
           required: ["w", "h"]
         },
         zero_pad: { type: "integer", minimum: 1, maximum: 8 },
-        fps: { type: "number", exclusiveMinimum: 0 }
+        fps: { type: "number", exclusiveMinimum: 0 },
+        aseprite: { type: "boolean" },
+        previews: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            formats: { type: "array", items: { type: "string", enum: ["apng", "gif", "webp"] }, minItems: 1, uniqueItems: true },
+            scale: { type: "integer", minimum: 1, maximum: 16 }
+          }
+        }
       }
     },
     animations: {
@@ -101,7 +112,7 @@ const schema: EnumSchema = {
         type: "object",
         required: ["category", "variant"],
         properties: {
-          category: { $ref: "#/$defs/category_enum" },
+          category: { anyOf: [{ $ref: "#/$defs/category_enum" }, { $ref: "#/$defs/custom_category" }] },
           variant: { type: "string" },
           visible: { type: "boolean" },
           z_override: { type: "integer" },
@@ -113,10 +124,43 @@ const schema: EnumSchema = {
             },
             additionalProperties: false,
           },
+          // Per animation / facing placement; matching entries apply in order, later wins
+          overrides: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                animation: { type: "string" },
+                direction: { type: "string", enum: ["north", "west", "south", "east"] },
+                offset: {
+                  type: "object",
+                  properties: {
+                    x: { type: "integer" },
+                    y: { type: "integer" },
+                  },
+                  additionalProperties: false,
+                },
+                z_override: { type: "integer" },
+              },
+              additionalProperties: false,
+            },
+          },
           color: {
             type: "object",
             properties: {
-              palette: { type: "string" },
+              // Palette swap: a target ramp (name or "#a,#b,…" dark→light; source ramp = the layer's own
+              // colours by luminance), or explicit { source, target } ramps
+              palette: {
+                oneOf: [
+                  { type: "string", minLength: 1 },
+                  {
+                    type: "object",
+                    properties: { source: { $ref: "#/$defs/color_ramp" }, target: { $ref: "#/$defs/color_ramp" } },
+                    required: ["target"],
+                    additionalProperties: false,
+                  },
+                ],
+              },
               tint: {
                 type: "object",
                 properties: {
@@ -153,7 +197,16 @@ const schema: EnumSchema = {
   additionalProperties: false,
   $defs: {
     category_enum: { type: "string", enum: [] },
+    // project-local custom layer library (resolved from CUSTOM_LAYER_ROOT, not the ULPC defs)
+    custom_category: { type: "string", pattern: "^custom(/[a-z0-9][a-z0-9_-]*)+$" },
     variant_enum_switch: { oneOf: [] },
+    // built-in ramp name or explicit colours, dark → light
+    color_ramp: {
+      oneOf: [
+        { type: "string", minLength: 1 },
+        { type: "array", items: { type: "string", pattern: "^#([0-9A-Fa-f]{6})$" }, minItems: 1 },
+      ],
+    },
   },
 };
 
@@ -298,6 +351,12 @@ schema.$defs.variant_enum_switch.oneOf = allCategories.map<VariantSwitch>((cat)
   };
 });
 
+schema.$defs.variant_enum_switch.oneOf.push({
+  if:   { properties: { category: { pattern: "^custom/" } }, required: ["category"] },
+  then: { properties: { variant: { type: "string", pattern: "^[a-z0-9][a-z0-9_-]*$" } } },
+  else: false,
+});
+
 /* write */
 fs.mkdirSync(path.dirname(SCHEMA_OUT), { recursive: true });
 fs.writeFileSync(SCHEMA_OUT, JSON.stringify(schema, null, 2), "utf-8");
@@ -0,0 +1,215 @@
+// packages/sprite-compose/src/aseprite.ts
+// Aseprite sprite sheet JSON ("json-array" export) for our atlases, and the way back in:
+// an artist's re-exported PNG + JSON is pasted cell by cell into the layout we exported.
+import fsp from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+
+export type AsepriteRect = { x: number; y: number; w: number; h: number };
+
+export type AsepriteFrameSpec = AsepriteRect & {
+  name: string;                // "<tag> <n>", Aseprite's default {tag} {tagframe} naming
+  duration?: number;           // ms (default 100)
+};
+
+export type AsepriteTag = { name: string; from: number; to: number; direction?: "forward" | "reverse" | "pingpong" };
+
+// Pipeline extension (Aseprite ignores it): which atlas block came from which file, so an import
+// can write each block back. `file` is relative to the directory of the JSON.
+export type AsepriteSection = AsepriteRect & { file: string };
+
+export type AsepriteSheetJson = {
+  frames: Array<{
+    filename: string;
+    frame: AsepriteRect;
+    rotated: boolean;
+    trimmed: boolean;
+    spriteSourceSize: AsepriteRect;
+    sourceSize: { w: number; h: number };
+    duration: number;
+  }>;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: "RGBA8888";
+    size: { w: number; h: number };
+    scale: "1";
+    frameTags: Array<Required<AsepriteTag>>;
+    layers: Array<{ name: string; opacity: number; blendMode: string }>;
+    slices: unknown[];
+    sections?: AsepriteSection[];
+  };
+};
+
+export const ASEPRITE_DEFAULT_DURATION = 100;
+
+/** JSON path Aseprite would pick for a sheet: same basename, .json. */
+export function asepriteJsonPath(pngPath: string): string {
+  return pngPath.replace(/\.png$/i, "") + ".json";
+}
+
+export function renderAsepriteSheet(params: {
+  image: string;               // PNG file name, relative to the JSON
+  size: { w: number; h: number };
+  frames: AsepriteFrameSpec[];
+  tags: AsepriteTag[];
+  sections?: AsepriteSection[];
+}): AsepriteSheetJson {
+  const { image, size, frames, tags, sections } = params;
+  return {
+    frames: frames.map((f) => ({
+      filename: f.name,
+      frame: { x: f.x, y: f.y, w: f.w, h: f.h },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: f.w, h: f.h },
+      sourceSize: { w: f.w, h: f.h },
+      duration: Math.max(1, Math.round(f.duration ?? ASEPRITE_DEFAULT_DURATION)),
+    })),
+    meta: {
+      app: "https://www.aseprite.org/",
+      version: "1.3",
+      image,
+      format: "RGBA8888",
+      size,
+      scale: "1",
+      frameTags: tags.map((t) => ({ name: t.name, from: t.from, to: t.to, direction: t.direction ?? "forward" })),
+      layers: [{ name: "Layer", opacity: 255, blendMode: "normal" }],
+      slices: [],
+      ...(sections?.length ? { sections } : {}),
+    },
+  };
+}
+
+/** Writes the JSON next to its image (`dir/<image>.json`); returns the JSON path. */
+export async function writeAsepriteSheet(dir: string, sheet: AsepriteSheetJson): Promise<string> {
+  const out = asepriteJsonPath(path.join(dir, sheet.meta.image));
+  await fsp.mkdir(path.dirname(out), { recursive: true });
+  await fsp.writeFile(out, JSON.stringify(sheet, null, 2), "utf8");
+  return out;
+}
+
+export type ParsedAsepriteFrame = {
+  name: string;
+  frame: AsepriteRect;                 // pixels in the PNG (possibly trimmed)
+  offset: { x: number; y: number };    // where `frame` sits inside the untrimmed cell
+  source: { w: number; h: number };    // untrimmed cell size
+};
+
+const asRect = (v: any): AsepriteRect | null => {
+  const r = { x: Number(v?.x), y: Number(v?.y), w: Number(v?.w), h: Number(v?.h) };
+  return Object.values(r).every((n) => Number.isInteger(n) && n >= 0) && r.w > 0 && r.h > 0 ? r : null;
+};
+
+/** Reads Aseprite "json-array" or "json-hash" sheet data. Throws `invalid_aseprite:<reason>`. */
+export function parseAsepriteSheet(json: unknown): { frames: ParsedAsepriteFrame[]; tags: AsepriteTag[] } {
+  const j = json as any;
+  if (!j || typeof j !== "object" || !j.frames || typeof j.frames !== "object") throw new Error("invalid_aseprite:frames_missing");
+  const entries: Array<[string, any]> = Array.isArray(j.frames)
+    ? j.frames.map((f: any, i: number) => [typeof f?.filename === "string" ? f.filename : String(i), f])
+    : Object.entries(j.frames);
+  if (!entries.length) throw new Error("invalid_aseprite:no_frames");
+
+  const frames = entries.map(([name, f]) => {
+    const frame = asRect(f?.frame);
+    if (!frame) throw new Error(`invalid_aseprite:bad_frame:${name}`);
+    if (f?.rotated === true) throw new Error(`invalid_aseprite:rotated_frame:${name}`);
+    const sss = f?.trimmed ? asRect(f?.spriteSourceSize) : null;
+    const src = f?.sourceSize;
+    const source = Number.isInteger(src?.w) && Number.isInteger(src?.h) ? { w: src.w, h: src.h } : { w: frame.w, h: frame.h };
+    return { name, frame, offset: { x: sss?.x ?? 0, y: sss?.y ?? 0 }, source };
+  });
+
+  const tags: AsepriteTag[] = (Array.isArray(j.meta?.frameTags) ? j.meta.frameTags : [])
+    .filter((t: any) => typeof t?.name === "string" && Number.isInteger(t?.from) && Number.isInteger(t?.to) && t.from <= t.to)
+    .map((t: any) => ({ name: t.name, from: t.from, to: t.to, direction: t.direction }));
+  return { frames, tags };
+}
+
+/**
+ * Expected frame index for each imported frame (or -1): same tag + position within the tag first
+ * (Aseprite renames frames on re-export but keeps tags), then the frame name, then plain frame
+ * order when both sheets have the same number of frames.
+ */
+export function matchAsepriteFrames(
+  imported: { frames: ParsedAsepriteFrame[]; tags: AsepriteTag[] },
+  layout: { frames: Array<{ filename: string }>; meta: { frameTags: AsepriteTag[] } },
+): number[] {
+  const layoutTags = new Map(layout.meta.frameTags.map((t) => [t.name, t]));
+  const byName = new Map(layout.frames.map((f, i) => [f.filename, i]));
+  const sameCount = imported.frames.length === layout.frames.length;
+
+  return imported.frames.map((f, i) => {
+    for (const t of imported.tags) {
+      const lt = layoutTags.get(t.name);
+      if (!lt || i < t.from || i > t.to) continue;
+      const idx = lt.from + (i - t.from);
+      if (idx <= lt.to) return idx;
+    }
+    return byName.get(f.name) ?? (sameCount ? i : -1);
+  });
+}
+
+export type AsepriteImportResult = {
+  atlas: Buffer;                               // PNG in the exported layout
+  sections: Array<{ file: string; png: Buffer }>; // only sections with a replaced cell
+  matched: number;
+  unmatched: string[];                         // imported frames with no counterpart
+  skipped: Array<{ frame: string; reason: string }>;
+};
+
+/**
+ * Pastes an artist's sheet into the layout of a previous export. `base` is the exported atlas:
+ * cells without an imported frame keep its pixels, matched cells are replaced (transparent
+ * pixels included). Throws `invalid_aseprite:<reason>`.
+ */
+export async function importAsepriteSheet(params: {
+  layout: AsepriteSheetJson;   // the JSON we exported
+  base: Buffer | string;       // the PNG we exported
+  json: unknown;               // the artist's JSON
+  png: Buffer;                 // the artist's PNG
+}): Promise<AsepriteImportResult> {
+  const { layout } = params;
+  const imported = parseAsepriteSheet(params.json);
+  const matches = matchAsepriteFrames(imported, layout);
+  if (!matches.some((m) => m >= 0)) throw new Error("invalid_aseprite:no_matching_frames");
+
+  const W = layout.meta.size.w, H = layout.meta.size.h;
+  const atlas = await sharp(params.base).ensureAlpha().resize(W, H, { fit: "contain", position: "left top", background: { r: 0, g: 0, b: 0, alpha: 0 } }).raw().toBuffer();
+  const src = await sharp(params.png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const sw = src.info.width, sh = src.info.height;
+
+  const replaced: AsepriteRect[] = [];
+  const unmatched: string[] = [];
+  const skipped: Array<{ frame: string; reason: string }> = [];
+  imported.frames.forEach((f, i) => {
+    const idx = matches[i];
+    if (idx < 0) return void unmatched.push(f.name);
+    const cell = layout.frames[idx].frame;
+    if (f.source.w !== cell.w || f.source.h !== cell.h) {
+      return void skipped.push({ frame: f.name, reason: `size ${f.source.w}x${f.source.h}, expected ${cell.w}x${cell.h}` });
+    }
+    if (f.frame.x + f.frame.w > sw || f.frame.y + f.frame.h > sh) return void skipped.push({ frame: f.name, reason: "outside_image" });
+
+    for (let y = 0; y < cell.h; y++) atlas.fill(0, ((cell.y + y) * W + cell.x) * 4, ((cell.y + y) * W + cell.x + cell.w) * 4);
+    for (let y = 0; y < f.frame.h; y++) {
+      const ty = f.offset.y + y;
+      if (ty >= cell.h) break;
+      const w = Math.min(f.frame.w, cell.w - f.offset.x);
+      if (w <= 0) break;
+      const from = ((f.frame.y + y) * sw + f.frame.x) * 4;
+      src.data.copy(atlas, ((cell.y + ty) * W + cell.x + f.offset.x) * 4, from, from + w * 4);
+    }
+    replaced.push(cell);
+  });
+
+  const raw = { raw: { width: W, height: H, channels: 4 as const } };
+  const overlaps = (a: AsepriteRect, b: AsepriteRect) => a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+  const touched = (layout.meta.sections ?? []).filter((s) => replaced.some((c) => overlaps(s, c)));
+  const sections = await Promise.all(touched.map(async (s) => ({
+    file: s.file,
+    png: await sharp(atlas, raw).extract({ left: s.x, top: s.y, width: s.w, height: s.h }).png().toBuffer(),
+  })));
+  return { atlas: await sharp(atlas, raw).png().toBuffer(), sections, matched: replaced.length, unmatched, skipped };
+}
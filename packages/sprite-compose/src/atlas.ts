@@ -0,0 +1,240 @@
+// packages/sprite-compose/src/atlas.ts
+// Texture atlas packing: trimmed sprites placed with MaxRects (best short side fit) onto one or
+// more pages, with padding between sprites and edge extrusion against filtering bleed.
+import crypto from "node:crypto";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+
+export type AtlasSettings = {
+  maxSize: number;     // page edge limit in px (default 2048)
+  padding: number;     // transparent px between sprites (default 2)
+  extrude: number;     // edge pixels repeated around each sprite (default 1)
+  trim: boolean;       // crop transparent borders, keeping offsets (default true)
+  pot: boolean;        // round page sizes up to powers of two (default true)
+};
+
+export const DEFAULT_ATLAS_SETTINGS: AtlasSettings = { maxSize: 2048, padding: 2, extrude: 1, trim: true, pot: true };
+
+export type AtlasSpriteInput = { key: string; image: string | Buffer };
+
+// One packed sprite: `x,y,w,h` is the trimmed region on `page`; drawing it at `offset` inside a
+// `source`-sized box restores the original frame. Identical sprites share a region.
+export type AtlasSprite = {
+  page: number;
+  x: number; y: number; w: number; h: number;
+  offset: { x: number; y: number };
+  source: { w: number; h: number };
+};
+
+export type AtlasSequence = { fps: number; loop: boolean; frames: string[] };
+
+export type AtlasDescriptor = {
+  schema: "sprite.atlas/1.0";
+  name: string;
+  settings: AtlasSettings;
+  pages: Array<{ file: string; w: number; h: number }>;
+  sprites: Record<string, AtlasSprite>;
+  sequences?: Record<string, AtlasSequence>;   // e.g. "hero/Walk_back" → frame keys in order
+};
+
+/** Fills unset settings with defaults; throws `invalid_atlas_settings:<reason>`. */
+export function resolveAtlasSettings(raw?: Partial<AtlasSettings> | null): AtlasSettings {
+  const s = { ...DEFAULT_ATLAS_SETTINGS, ...Object.fromEntries(Object.entries(raw ?? {}).filter(([, v]) => v !== undefined)) };
+  if (!Number.isInteger(s.maxSize) || s.maxSize < 16 || s.maxSize > 16384) throw new Error("invalid_atlas_settings:maxSize");
+  if (!Number.isInteger(s.padding) || s.padding < 0 || s.padding > 64) throw new Error("invalid_atlas_settings:padding");
+  if (!Number.isInteger(s.extrude) || s.extrude < 0 || s.extrude > 16) throw new Error("invalid_atlas_settings:extrude");
+  if (typeof s.trim !== "boolean") throw new Error("invalid_atlas_settings:trim");
+  if (typeof s.pot !== "boolean") throw new Error("invalid_atlas_settings:pot");
+  // power-of-two pages may only round up to maxSize if it is one itself
+  if (s.pot && (s.maxSize & (s.maxSize - 1)) !== 0) throw new Error("invalid_atlas_settings:maxSize");
+  return s as AtlasSettings;
+}
+
+type Rect = { x: number; y: number; w: number; h: number };
+
+// MaxRects bin: free rectangles may overlap; every placement splits the ones it intersects
+class MaxRectsBin {
+  private free: Rect[];
+  constructor(readonly w: number, readonly h: number) {
+    this.free = [{ x: 0, y: 0, w, h }];
+  }
+
+  insert(w: number, h: number): Rect | null {
+    let best: Rect | null = null;
+    let bestShort = Infinity, bestLong = Infinity;
+    for (const f of this.free) {
+      if (w > f.w || h > f.h) continue;
+      const short = Math.min(f.w - w, f.h - h), long = Math.max(f.w - w, f.h - h);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = { x: f.x, y: f.y, w, h };
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (best) this.place(best);
+    return best;
+  }
+
+  private place(r: Rect) {
+    const next: Rect[] = [];
+    for (const f of this.free) {
+      if (r.x >= f.x + f.w || r.x + r.w <= f.x || r.y >= f.y + f.h || r.y + r.h <= f.y) {
+        next.push(f);
+        continue;
+      }
+      if (r.x > f.x) next.push({ x: f.x, y: f.y, w: r.x - f.x, h: f.h });
+      if (r.x + r.w < f.x + f.w) next.push({ x: r.x + r.w, y: f.y, w: f.x + f.w - r.x - r.w, h: f.h });
+      if (r.y > f.y) next.push({ x: f.x, y: f.y, w: f.w, h: r.y - f.y });
+      if (r.y + r.h < f.y + f.h) next.push({ x: f.x, y: r.y + r.h, w: f.w, h: f.y + f.h - r.y - r.h });
+    }
+    // drop free rects contained in another
+    this.free = next.filter((a, i) => !next.some((b, j) => j !== i
+      && a.x >= b.x && a.y >= b.y && a.x + a.w <= b.x + b.w && a.y + a.h <= b.y + b.h
+      && (j < i || a.x !== b.x || a.y !== b.y || a.w !== b.w || a.h !== b.h)));
+  }
+}
+
+type Loaded = { key: string; data: Buffer; w: number; h: number; offset: { x: number; y: number }; source: { w: number; h: number }; hash: string };
+
+// Raw RGBA, cropped to the alpha bounding box when trimming (fully transparent → one pixel)
+async function loadSprite(input: AtlasSpriteInput, trim: boolean): Promise<Loaded> {
+  const { data, info } = await sharp(input.image).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const W = info.width, H = info.height;
+  let x0 = 0, y0 = 0, x1 = W - 1, y1 = H - 1;
+  if (trim) {
+    x0 = W; y0 = H; x1 = -1; y1 = -1;
+    for (let y = 0; y < H; y++) for (let x = 0; x < W; x++) {
+      if (data[(y * W + x) * 4 + 3] === 0) continue;
+      if (x < x0) x0 = x;
+      if (x > x1) x1 = x;
+      if (y < y0) y0 = y;
+      if (y > y1) y1 = y;
+    }
+    if (x1 < 0) { x0 = 0; y0 = 0; x1 = 0; y1 = 0; }
+  }
+  const w = x1 - x0 + 1, h = y1 - y0 + 1;
+  const out = Buffer.alloc(w * h * 4);
+  for (let y = 0; y < h; y++) data.copy(out, y * w * 4, ((y0 + y) * W + x0) * 4, ((y0 + y) * W + x0 + w) * 4);
+  const hash = crypto.createHash("sha1").update(`${w}x${h}:`).update(out).digest("hex");
+  return { key: input.key, data: out, w, h, offset: { x: x0, y: y0 }, source: { w: W, h: H }, hash };
+}
+
+const nextPow2 = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+// Copies a sprite into the page at (x, y) and repeats its border `e` pixels outward
+function blit(page: Buffer, pw: number, s: Loaded, x: number, y: number, e: number) {
+  for (let ry = -e; ry < s.h + e; ry++) {
+    const sy = Math.min(s.h - 1, Math.max(0, ry));
+    for (let rx = -e; rx < s.w + e; rx++) {
+      const sx = Math.min(s.w - 1, Math.max(0, rx));
+      s.data.copy(page, ((y + ry) * pw + x + rx) * 4, (sy * s.w + sx) * 4, (sy * s.w + sx) * 4 + 4);
+    }
+  }
+}
+
+/**
+ * Packs sprites onto as few pages as fit `settings.maxSize`. Pages are returned as PNG buffers in
+ * descriptor order; page files are named `<name>_<n>.png`. Throws `atlas:sprite_too_large:<key>`.
+ */
+export async function packAtlas(params: {
+  name: string;
+  sprites: AtlasSpriteInput[];
+  settings?: Partial<AtlasSettings>;
+  sequences?: Record<string, AtlasSequence>;
+}): Promise<{ descriptor: AtlasDescriptor; pages: Buffer[] }> {
+  const settings = resolveAtlasSettings(params.settings);
+  const { maxSize, padding, extrude } = settings;
+
+  const loaded: Loaded[] = [];
+  for (const input of params.sprites) loaded.push(await loadSprite(input, settings.trim));
+
+  // unique images, largest first
+  const unique = new Map<string, Loaded>();
+  for (const s of loaded) if (!unique.has(s.hash)) unique.set(s.hash, s);
+  const order = [...unique.values()].sort((a, b) => Math.max(b.w, b.h) - Math.max(a.w, a.h) || b.h - a.h || b.w - a.w);
+
+  // each sprite reserves its extrusion plus `padding` on the right/bottom; the bins get the same
+  // slack so the last column/row may touch the page edge
+  const bins: MaxRectsBin[] = [];
+  const placed = new Map<string, { page: number; x: number; y: number }>();
+  for (const s of order) {
+    const w = s.w + 2 * extrude + padding, h = s.h + 2 * extrude + padding;
+    if (w > maxSize + padding || h > maxSize + padding) throw new Error(`atlas:sprite_too_large:${s.key}`);
+    let at: Rect | null = null;
+    let page = 0;
+    for (; page < bins.length && !at; page++) at = bins[page].insert(w, h);
+    if (at) page--;
+    else {
+      bins.push(new MaxRectsBin(maxSize + padding, maxSize + padding));
+      page = bins.length - 1;
+      at = bins[page].insert(w, h)!;
+    }
+    placed.set(s.hash, { page, x: at.x + extrude, y: at.y + extrude });
+  }
+
+  const sizes = bins.map(() => ({ w: 1, h: 1 }));
+  for (const s of order) {
+    const p = placed.get(s.hash)!;
+    sizes[p.page].w = Math.max(sizes[p.page].w, p.x + s.w + extrude);
+    sizes[p.page].h = Math.max(sizes[p.page].h, p.y + s.h + extrude);
+  }
+  const pageSizes = sizes.map(({ w, h }) => settings.pot ? { w: nextPow2(w), h: nextPow2(h) } : { w, h });
+
+  const raws = pageSizes.map(({ w, h }) => Buffer.alloc(w * h * 4));
+  for (const s of order) {
+    const p = placed.get(s.hash)!;
+    blit(raws[p.page], pageSizes[p.page].w, s, p.x, p.y, extrude);
+  }
+  const pages = await Promise.all(raws.map((raw, i) =>
+    sharp(raw, { raw: { width: pageSizes[i].w, height: pageSizes[i].h, channels: 4 } }).png().toBuffer()));
+
+  const sprites: Record<string, AtlasSprite> = {};
+  for (const s of loaded) {
+    const p = placed.get(s.hash)!;
+    sprites[s.key] = { page: p.page, x: p.x, y: p.y, w: s.w, h: s.h, offset: s.offset, source: s.source };
+  }
+
+  return {
+    descriptor: {
+      schema: "sprite.atlas/1.0",
+      name: params.name,
+      settings,
+      pages: pageSizes.map(({ w, h }, i) => ({ file: `${params.name}_${i}.png`, w, h })),
+      sprites,
+      ...(params.sequences ? { sequences: params.sequences } : {}),
+    },
+    pages,
+  };
+}
+
+/** Writes `<name>_<n>.png` pages and `<name>.atlas.json` into `outDir`; returns the descriptor path. */
+export async function writeAtlas(outDir: string, packed: { descriptor: AtlasDescriptor; pages: Buffer[] }): Promise<string> {
+  await fsp.mkdir(outDir, { recursive: true });
+  await Promise.all(packed.pages.map((png, i) => fsp.writeFile(path.join(outDir, packed.descriptor.pages[i].file), png)));
+  const file = path.join(outDir, `${packed.descriptor.name}.atlas.json`);
+  await fsp.writeFile(file, JSON.stringify(packed.descriptor, null, 2), "utf8");
+  return file;
+}
+
+/**
+ * Sprites and sequences for every sliced frame in a character's ULPC manifest
+ * (<slug>_sprite_manifest.json). Keys are `<slug>/<folder>/<index>`, e.g. "hero/Walk_back/0".
+ */
+export async function ulpcManifestSprites(manifestPath: string): Promise<{ sprites: AtlasSpriteInput[]; sequences: Record<string, AtlasSequence> }> {
+  const manifest = JSON.parse(await fsp.readFile(manifestPath, "utf8"));
+  if (manifest?.schema !== "ulpc.manifest/1.0") throw new Error(`atlas:unsupported_manifest:${manifest?.schema}`);
+  const sprites: AtlasSpriteInput[] = [];
+  const sequences: Record<string, AtlasSequence> = {};
+  for (const def of Object.values<any>(manifest.animations ?? {})) {
+    for (const [folder, files] of Object.entries<string[]>(def.folders ?? {})) {
+      const keys = files.map((image, i) => {
+        const key = `${manifest.slug}/${folder}/${i}`;
+        sprites.push({ key, image: path.resolve(path.dirname(manifestPath), image) });
+        return key;
+      });
+      sequences[`${manifest.slug}/${folder}`] = { fps: Number(def.fps) || 8, loop: def.loop ?? true, frames: keys };
+    }
+  }
+  return { sprites, sequences };
+}
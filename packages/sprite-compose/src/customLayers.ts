@@ -0,0 +1,160 @@
+// packages/sprite-compose/src/customLayers.ts
+// Project-local custom sprite layers: LPC-compatible per-animation sheets drawn in-house
+// (faction badges, unique weapons) that ULPC builds reference as "custom/<...>" categories.
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { CUSTOM_LAYER_ROOT } from "@pixelart/config";
+
+export const CUSTOM_CATEGORY_PREFIX = "custom/";
+export const LPC_FRAME = 64;
+
+// Frames per row × rows of the standard LPC per-animation sheets
+export const LPC_ANIMATION_GRID: Record<string, { cols: number; rows: number }> = {
+  spellcast: { cols: 7, rows: 4 },
+  thrust:    { cols: 8, rows: 4 },
+  walk:      { cols: 9, rows: 4 },
+  slash:     { cols: 6, rows: 4 },
+  shoot:     { cols: 13, rows: 4 },
+  hurt:      { cols: 6, rows: 1 },
+  climb:     { cols: 6, rows: 1 },
+  idle:      { cols: 2, rows: 4 },
+  jump:      { cols: 5, rows: 4 },
+  sit:       { cols: 3, rows: 4 },
+  emote:     { cols: 3, rows: 4 },
+  run:       { cols: 8, rows: 4 },
+  combat:    { cols: 2, rows: 4 },
+};
+
+export type CustomLayerMeta = {
+  category: string;              // "custom/<group>[/<sub>]"
+  variant: string;               // layer id within the category
+  name: string;
+  z?: number;                    // draw order among ULPC layers (zPos scale)
+  animations: string[];          // animations with a sheet on disk (<animation>.png)
+  credits?: string;
+  updatedAt: string;
+};
+
+const SEGMENT = /^[a-z0-9][a-z0-9_-]*$/;
+
+export const isCustomCategory = (category: string) =>
+  category.replace(/\\/g, "/").toLowerCase().startsWith(CUSTOM_CATEGORY_PREFIX);
+
+/** Checks a category/variant pair; throws `invalid_custom_layer:<code>`. */
+export function assertCustomLayerKey(category: string, variant: string): void {
+  const segs = category.split("/");
+  if (!isCustomCategory(category) || segs.length < 2 || !segs.slice(1).every((s) => SEGMENT.test(s))) {
+    throw new Error("invalid_custom_layer:invalid_category");
+  }
+  if (!SEGMENT.test(variant)) throw new Error("invalid_custom_layer:invalid_variant");
+}
+
+export function customLayerDir(category: string, variant: string, root = CUSTOM_LAYER_ROOT): string {
+  return path.join(root, ...category.slice(CUSTOM_CATEGORY_PREFIX.length).split("/"), variant);
+}
+
+/** Layer metadata, or null when the pair is not in the library (sync: used by the ULPC resolver). */
+export function readCustomLayer(category: string, variant: string, root = CUSTOM_LAYER_ROOT): CustomLayerMeta | null {
+  try {
+    assertCustomLayerKey(category, variant);
+    const meta = JSON.parse(fs.readFileSync(path.join(customLayerDir(category, variant, root), "layer.json"), "utf8"));
+    return meta && Array.isArray(meta.animations) ? (meta as CustomLayerMeta) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function customLayerSheet(meta: CustomLayerMeta, animation: string, root = CUSTOM_LAYER_ROOT): string {
+  return path.join(customLayerDir(meta.category, meta.variant, root), `${animation}.png`);
+}
+
+export const isCustomLayerSheet = (file: string, root = CUSTOM_LAYER_ROOT) =>
+  path.resolve(file).startsWith(path.resolve(root) + path.sep);
+
+export async function listCustomLayers(root = CUSTOM_LAYER_ROOT): Promise<CustomLayerMeta[]> {
+  const out: CustomLayerMeta[] = [];
+  async function walk(dir: string): Promise<void> {
+    let entries: fs.Dirent[] = [];
+    try { entries = await fsp.readdir(dir, { withFileTypes: true }); } catch { return; }
+    for (const e of entries) {
+      if (e.isDirectory()) await walk(path.join(dir, e.name));
+      else if (e.isFile() && e.name === "layer.json") {
+        try {
+          const meta = JSON.parse(await fsp.readFile(path.join(dir, e.name), "utf8"));
+          if (meta?.category && meta?.variant && Array.isArray(meta.animations)) out.push(meta);
+        } catch { /* skip unreadable entries */ }
+      }
+    }
+  }
+  await walk(root);
+  return out.sort((a, b) => a.category.localeCompare(b.category) || a.variant.localeCompare(b.variant));
+}
+
+/**
+ * Checks that a sheet sits on the 64×64 LPC grid for `animation`. Sizes off the grid or a row
+ * count that does not match the animation throw `invalid_custom_layer:<code>`; a frame count that
+ * differs from the standard sheet is only reported, since some packs trim or extend animations.
+ */
+export async function validateCustomSheet(buf: Buffer, animation: string): Promise<{ width: number; height: number; cols: number; rows: number; warnings: string[] }> {
+  let meta: sharp.Metadata;
+  try { meta = await sharp(buf).metadata(); } catch { throw new Error(`invalid_custom_layer:unreadable_image:${animation}`); }
+  if (meta.format !== "png") throw new Error(`invalid_custom_layer:not_png:${animation}`);
+  const width = meta.width ?? 0, height = meta.height ?? 0;
+  if (!width || !height || width % LPC_FRAME || height % LPC_FRAME) {
+    throw new Error(`invalid_custom_layer:off_grid:${animation}:${width}x${height}`);
+  }
+  const cols = width / LPC_FRAME, rows = height / LPC_FRAME;
+  const expected = LPC_ANIMATION_GRID[animation];
+  const warnings: string[] = [];
+  if (expected) {
+    if (rows !== expected.rows) throw new Error(`invalid_custom_layer:rows:${animation}:${rows}!=${expected.rows}`);
+    if (cols !== expected.cols) warnings.push(`${animation}: ${cols} frames per row (LPC uses ${expected.cols})`);
+  } else if (rows !== 4 && rows !== 1) {
+    warnings.push(`${animation}: ${rows} rows (LPC sheets use 4 facings)`);
+  }
+  return { width, height, cols, rows, warnings };
+}
+
+/**
+ * Validates and stores sheets for one layer. Sheets are merged into an existing layer, so
+ * animations can be uploaded one at a time; metadata fields left undefined keep their value.
+ */
+export async function saveCustomLayer(
+  input: { category: string; variant: string; name?: string; z?: number; credits?: string; sheets: Record<string, Buffer> },
+  root = CUSTOM_LAYER_ROOT,
+): Promise<{ layer: CustomLayerMeta; warnings: string[] }> {
+  const { category, variant, sheets } = input;
+  assertCustomLayerKey(category, variant);
+  const anims = Object.keys(sheets);
+  if (anims.some((a) => !SEGMENT.test(a))) throw new Error("invalid_custom_layer:invalid_animation");
+
+  const existing = readCustomLayer(category, variant, root);
+  if (!anims.length && !existing) throw new Error("invalid_custom_layer:no_sheets");
+
+  const warnings: string[] = [];
+  for (const a of anims) warnings.push(...(await validateCustomSheet(sheets[a], a)).warnings);
+
+  const dir = customLayerDir(category, variant, root);
+  await fsp.mkdir(dir, { recursive: true });
+  for (const a of anims) await fsp.writeFile(path.join(dir, `${a}.png`), sheets[a]);
+
+  const layer: CustomLayerMeta = {
+    category,
+    variant,
+    name: input.name?.trim() || existing?.name || variant,
+    z: Number.isFinite(input.z) ? input.z : existing?.z,
+    animations: Array.from(new Set([...(existing?.animations ?? []), ...anims])).sort(),
+    credits: input.credits ?? existing?.credits,
+    updatedAt: new Date().toISOString(),
+  };
+  await fsp.writeFile(path.join(dir, "layer.json"), JSON.stringify(layer, null, 2), "utf8");
+  return { layer, warnings };
+}
+
+export async function deleteCustomLayer(category: string, variant: string, root = CUSTOM_LAYER_ROOT): Promise<boolean> {
+  if (!readCustomLayer(category, variant, root)) return false;
+  await fsp.rm(customLayerDir(category, variant, root), { recursive: true, force: true });
+  return true;
+}
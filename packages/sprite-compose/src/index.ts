@@ -1 +1,22 @@
-export { composeULPCExport } from "./ulpc.js";
+export { composeULPCExport, importULPCAseprite, clearULPCEdits, ulpcAsepritePaths, ULPC_EDITED_SHEET } from "./ulpc.js";
+export {
+  renderAsepriteSheet, writeAsepriteSheet, asepriteJsonPath, parseAsepriteSheet, matchAsepriteFrames, importAsepriteSheet,
+  ASEPRITE_DEFAULT_DURATION,
+  type AsepriteRect, type AsepriteFrameSpec, type AsepriteTag, type AsepriteSection, type AsepriteSheetJson,
+  type ParsedAsepriteFrame, type AsepriteImportResult,
+} from "./aseprite.js";
+export { RAMPS, resolveRamp, paletteSwap, blendTint, type TintMode, type RampRef, type PaletteSwap } from "./recolor.js";
+export { rowPlacements, shiftFrames, facingOfRow, LPC_ROW_FACINGS, type Facing, type PlacementOverride, type LayerPlacementSpec, type RowPlacement } from "./placement.js";
+export {
+  CUSTOM_CATEGORY_PREFIX, LPC_FRAME, LPC_ANIMATION_GRID, isCustomCategory, assertCustomLayerKey, customLayerDir,
+  readCustomLayer, customLayerSheet, isCustomLayerSheet, listCustomLayers, validateCustomSheet, saveCustomLayer, deleteCustomLayer,
+  type CustomLayerMeta,
+} from "./customLayers.js";
+export {
+  packAtlas, writeAtlas, resolveAtlasSettings, ulpcManifestSprites, DEFAULT_ATLAS_SETTINGS,
+  type AtlasSettings, type AtlasSpriteInput, type AtlasSprite, type AtlasSequence, type AtlasDescriptor,
+} from "./atlas.js";
+export {
+  encodeAnimation, renderManifestPreviews, resolvePreviewOptions, previewScale, PREVIEW_FORMATS, PREVIEW_INDEX,
+  type PreviewFormat, type PreviewEntry, type PreviewIndex,
+} from "./preview.js";
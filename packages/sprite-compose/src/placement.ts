@@ -0,0 +1,82 @@
+// packages/sprite-compose/src/placement.ts
+// Per-frame layer offsets and z order, optionally overridden per animation and facing
+import type { GridInfo } from "./slicer.js";
+
+export type Facing = "north" | "west" | "south" | "east";
+
+// LPC sheets stack facings as rows: up (north), left (west), down (south), right (east)
+export const LPC_ROW_FACINGS: Facing[] = ["north", "west", "south", "east"];
+
+export type PlacementOverride = {
+  animation?: string;          // omit = every animation
+  direction?: Facing;          // omit = every row
+  offset?: { x: number; y: number };
+  z_override?: number;
+};
+
+export type LayerPlacementSpec = {
+  offset?: { x: number; y: number };
+  z_override?: number;
+  overrides?: PlacementOverride[];
+};
+
+export type RowPlacement = { dx: number; dy: number; z: number };
+
+const FACING_BY_GRID: Record<string, Facing> = { back: "north", left: "west", front: "south", right: "east" };
+
+/**
+ * Facing of sheet row r: LPC row order for 4-row blocks, else from grid directions when known.
+ * Directions are not trusted for LPC blocks: the fallback grids label their rows
+ * front/left/back/right, and those labels name exported frame folders, so they stay as they are.
+ */
+export function facingOfRow(grid: GridInfo, r: number): Facing | undefined {
+  if (grid.rows >= 4 && grid.rows % 4 === 0) return LPC_ROW_FACINGS[r % 4];
+  return grid.directions?.length ? FACING_BY_GRID[grid.directions[r % grid.directions.length]] : undefined;
+}
+
+/**
+ * Offset and z for every sheet row. Base values come from the layer; matching overrides apply in
+ * list order (later wins), so an animation+direction entry can refine an animation-wide one.
+ * `zDelta` keeps a companion sheet (e.g. "behind") at its distance from the overridden z.
+ */
+export function rowPlacements(spec: LayerPlacementSpec, grid: GridInfo, animation: string, zBase: number, zDelta = 0): RowPlacement[] {
+  return Array.from({ length: grid.rows }, (_, r) => {
+    const facing = facingOfRow(grid, r);
+    let dx = spec.offset?.x ?? 0, dy = spec.offset?.y ?? 0, z = zBase;
+    for (const o of spec.overrides ?? []) {
+      if (o.animation && o.animation !== animation) continue;
+      if (o.direction && o.direction !== facing) continue;
+      if (o.offset) { dx = o.offset.x ?? 0; dy = o.offset.y ?? 0; }
+      if (typeof o.z_override === "number") z = o.z_override + zDelta;
+    }
+    return { dx: Math.round(dx), dy: Math.round(dy), z };
+  });
+}
+
+/**
+ * Raw RGBA copy of the rows in `rows`, each frame shifted by its row's offset and clipped to its
+ * own cell so pixels never bleed into the neighbouring frame. Other rows stay transparent.
+ */
+export function shiftFrames(
+  src: Buffer, width: number, height: number, grid: GridInfo,
+  placements: RowPlacement[], rows: Set<number>,
+): Buffer {
+  const out = Buffer.alloc(width * height * 4);
+  const { frame_w: fw, frame_h: fh } = grid;
+  for (const r of rows) {
+    const { dx, dy } = placements[r];
+    for (let c = 0; c < grid.cols; c++) {
+      const x0 = c * fw, y0 = r * fh;
+      for (let y = 0; y < fh; y++) {
+        const ty = y + dy;
+        if (ty < 0 || ty >= fh || y0 + y >= height || y0 + ty >= height) continue;
+        for (let x = 0; x < fw; x++) {
+          const tx = x + dx;
+          if (tx < 0 || tx >= fw || x0 + x >= width || x0 + tx >= width) continue;
+          src.copy(out, ((y0 + ty) * width + x0 + tx) * 4, ((y0 + y) * width + x0 + x) * 4, ((y0 + y) * width + x0 + x) * 4 + 4);
+        }
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,242 @@
+// packages/sprite-compose/src/preview.ts
+// Animated previews of sliced ULPC frames. sharp (0.33) cannot assemble animations from separate
+// frames, so APNG and animated WebP are written here around frames sharp encoded one by one;
+// GIF is converted by sharp from the WebP.
+import fsp from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { readProjectSettings } from "@pixelart/config";
+
+export type PreviewFormat = "apng" | "gif" | "webp";
+export const PREVIEW_FORMATS: PreviewFormat[] = ["apng", "gif", "webp"];
+
+export type PreviewEntry = {
+  animation: string;
+  fps: number;
+  loop: boolean;
+  frames: number;
+  size: { w: number; h: number };          // after scaling
+  files: Partial<Record<PreviewFormat, string>>;   // relative to the previews dir
+};
+
+export type PreviewIndex = {
+  schema: "ulpc.previews/1.0";
+  slug: string;
+  scale: number;
+  formats: PreviewFormat[];
+  previews: Record<string, PreviewEntry>;  // Animation_Orientation folder → files
+};
+
+export const PREVIEW_INDEX = "previews.json";
+
+type RawFrame = { data: Buffer; w: number; h: number };
+
+/** Throws `invalid_preview:<field>` on unknown formats or a scale outside 1–16. */
+export function resolvePreviewOptions(raw?: { formats?: unknown; scale?: unknown } | null): { formats: PreviewFormat[]; scale: number } {
+  const formats = raw?.formats ?? PREVIEW_FORMATS;
+  if (!Array.isArray(formats) || !formats.length || formats.some((f) => !PREVIEW_FORMATS.includes(f))) {
+    throw new Error("invalid_preview:formats");
+  }
+  const scale = raw?.scale ?? 1;
+  if (typeof scale !== "number" || !Number.isInteger(scale) || scale < 1 || scale > 16) throw new Error("invalid_preview:scale");
+  return { formats: Array.from(new Set(formats as PreviewFormat[])), scale };
+}
+
+/** `scale` if given, else the project's `pixel_scale` (1 when unset or invalid). */
+export async function previewScale(scale?: number): Promise<number> {
+  if (scale !== undefined) return scale;
+  const settings = await readProjectSettings().catch(() => ({} as Record<string, unknown>));
+  const n = Number(settings.pixel_scale);
+  return Number.isInteger(n) && n >= 1 && n <= 16 ? n : 1;
+}
+
+async function loadFrame(image: string | Buffer, scale: number): Promise<RawFrame> {
+  let img = sharp(image).ensureAlpha();
+  if (scale > 1) {
+    const meta = await sharp(image).metadata();
+    img = img.resize((meta.width ?? 1) * scale, (meta.height ?? 1) * scale, { kernel: "nearest" });
+  }
+  const { data, info } = await img.raw().toBuffer({ resolveWithObject: true });
+  return { data, w: info.width, h: info.height };
+}
+
+const rawImage = (f: RawFrame) => sharp(f.data, { raw: { width: f.w, height: f.h, channels: 4 } });
+
+// ───────────── PNG / APNG ─────────────
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+function readPngChunks(png: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  for (let at = 8; at + 8 <= png.length;) {
+    const len = png.readUInt32BE(at);
+    chunks.push({ type: png.toString("ascii", at + 4, at + 8), data: png.subarray(at + 8, at + 8 + len) });
+    at += 12 + len;
+  }
+  return chunks;
+}
+
+/** APNG with every frame drawn over a cleared canvas; `loop: false` plays once. */
+async function encodeApng(frames: RawFrame[], opts: { fps: number; loop: boolean }): Promise<Buffer> {
+  const { w, h } = frames[0];
+  const pngs = await Promise.all(frames.map((f) => rawImage(f).png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer()));
+  const out: Buffer[] = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames.length, 0);
+  actl.writeUInt32BE(opts.loop ? 0 : 1, 4);
+  // frame delay in milliseconds (num/den seconds)
+  const den = 1000, num = Math.max(1, Math.round(den / opts.fps));
+  let seq = 0;
+
+  pngs.forEach((png, i) => {
+    const chunks = readPngChunks(png);
+    if (i === 0) {
+      out.push(pngChunk("IHDR", chunks.find((c) => c.type === "IHDR")!.data), pngChunk("acTL", actl));
+      for (const c of chunks) if (c.type === "PLTE" || c.type === "tRNS") out.push(pngChunk(c.type, c.data));
+    }
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(seq++, 0);
+    fctl.writeUInt32BE(w, 4);
+    fctl.writeUInt32BE(h, 8);
+    fctl.writeUInt16BE(num, 20);
+    fctl.writeUInt16BE(den, 22);
+    fctl.writeUInt8(1, 24);   // dispose: clear to transparent
+    fctl.writeUInt8(0, 25);   // blend: replace
+    out.push(pngChunk("fcTL", fctl));
+    for (const c of chunks) {
+      if (c.type !== "IDAT") continue;
+      if (i === 0) out.push(pngChunk("IDAT", c.data));
+      else {
+        const head = Buffer.alloc(4);
+        head.writeUInt32BE(seq++, 0);
+        out.push(pngChunk("fdAT", Buffer.concat([head, c.data])));
+      }
+    }
+  });
+  out.push(pngChunk("IEND", Buffer.alloc(0)));
+  return Buffer.concat(out);
+}
+
+// ───────────── WebP ─────────────
+function riffChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.write(type, 0, "ascii");
+  head.writeUInt32LE(data.length, 4);
+  return Buffer.concat([head, data, data.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0)]);
+}
+
+const uint24 = (n: number) => Buffer.from([n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff]);
+
+/** Lossless animated WebP; every frame replaces the canvas. `loop: false` plays once. */
+async function encodeAnimatedWebp(frames: RawFrame[], opts: { fps: number; loop: boolean }): Promise<Buffer> {
+  const { w, h } = frames[0];
+  const duration = Math.max(1, Math.round(1000 / opts.fps));
+  const anmf: Buffer[] = [];
+  for (const f of frames) {
+    const webp = await rawImage(f).webp({ lossless: true }).toBuffer();
+    // image data of a still WebP: VP8L, or ALPH + VP8 (skip VP8X and metadata chunks)
+    const data: Buffer[] = [];
+    for (let at = 12; at + 8 <= webp.length;) {
+      const type = webp.toString("ascii", at, at + 4);
+      const len = webp.readUInt32LE(at + 4);
+      if (type === "VP8L" || type === "VP8 " || type === "ALPH") data.push(webp.subarray(at, at + 8 + len + (len % 2)));
+      at += 8 + len + (len % 2);
+    }
+    anmf.push(riffChunk("ANMF", Buffer.concat([
+      uint24(0), uint24(0), uint24(w - 1), uint24(h - 1), uint24(duration),
+      Buffer.from([0b10]),    // no blending, no disposal
+      ...data,
+    ])));
+  }
+  const vp8x = Buffer.concat([Buffer.from([0x10 | 0x02, 0, 0, 0]), uint24(w - 1), uint24(h - 1)]);   // alpha + animation
+  const anim = Buffer.alloc(6);
+  anim.writeUInt16LE(opts.loop ? 0 : 1, 4);
+  const body = Buffer.concat([Buffer.from("WEBP", "ascii"), riffChunk("VP8X", vp8x), riffChunk("ANIM", anim), ...anmf]);
+  const head = Buffer.alloc(8);
+  head.write("RIFF", 0, "ascii");
+  head.writeUInt32LE(body.length, 4);
+  return Buffer.concat([head, body]);
+}
+
+/** Encodes one animation; frames are image paths or buffers of the same size. */
+export async function encodeAnimation(params: {
+  frames: Array<string | Buffer>;
+  fps: number;
+  loop?: boolean;
+  scale?: number;
+  format: PreviewFormat;
+}): Promise<Buffer> {
+  const raw = await Promise.all(params.frames.map((f) => loadFrame(f, params.scale ?? 1)));
+  return encodeRawAnimation(raw, params.format, { fps: params.fps, loop: params.loop ?? true });
+}
+
+async function encodeRawAnimation(raw: RawFrame[], format: PreviewFormat, opts: { fps: number; loop: boolean }): Promise<Buffer> {
+  if (!raw.length) throw new Error("invalid_preview:no_frames");
+  const { w, h } = raw[0];
+  if (raw.some((f) => f.w !== w || f.h !== h)) throw new Error("invalid_preview:frame_size_mismatch");
+  if (format === "apng") return encodeApng(raw, opts);
+  const webp = await encodeAnimatedWebp(raw, opts);
+  if (format === "webp") return webp;
+  const delay = Math.max(1, Math.round(1000 / opts.fps));
+  return sharp(webp, { animated: true })
+    .gif({ loop: opts.loop ? 0 : 1, delay: raw.map(() => delay), dither: 0, effort: 10 })
+    .toBuffer();
+}
+
+const EXTENSIONS: Record<PreviewFormat, string> = { apng: "apng", gif: "gif", webp: "webp" };
+
+/**
+ * Renders every Animation_Orientation folder of a ULPC manifest to `outDir/<folder>.<ext>` at the
+ * manifest fps, upscaled by `scale` (nearest neighbour), and writes `previews.json` listing them.
+ * Earlier previews in `outDir` are replaced.
+ */
+export async function renderManifestPreviews(params: {
+  manifestPath: string;
+  outDir: string;
+  formats?: PreviewFormat[];
+  scale?: number;
+}): Promise<{ index: PreviewIndex; indexPath: string }> {
+  const { formats, scale } = resolvePreviewOptions({ formats: params.formats, scale: params.scale });
+  const manifest = JSON.parse(await fsp.readFile(params.manifestPath, "utf8"));
+  if (manifest?.schema !== "ulpc.manifest/1.0") throw new Error(`invalid_preview:unsupported_manifest:${manifest?.schema}`);
+
+  await fsp.rm(params.outDir, { recursive: true, force: true });
+  await fsp.mkdir(params.outDir, { recursive: true });
+  const index: PreviewIndex = { schema: "ulpc.previews/1.0", slug: manifest.slug, scale, formats, previews: {} };
+  for (const [animation, def] of Object.entries<any>(manifest.animations ?? {})) {
+    const fps = Number(def.fps) || 8;
+    const loop = def.loop ?? true;
+    for (const [folder, files] of Object.entries<string[]>(def.folders ?? {})) {
+      if (!files.length) continue;
+      const raw = await Promise.all(files.map((f) => loadFrame(path.resolve(path.dirname(params.manifestPath), f), scale)));
+      const entry: PreviewEntry = { animation, fps, loop, frames: raw.length, size: { w: raw[0].w, h: raw[0].h }, files: {} };
+      for (const format of formats) {
+        const file = `${folder}.${EXTENSIONS[format]}`;
+        await fsp.writeFile(path.join(params.outDir, file), await encodeRawAnimation(raw, format, { fps, loop }));
+        entry.files[format] = file;
+      }
+      index.previews[folder] = entry;
+    }
+  }
+  const indexPath = path.join(params.outDir, PREVIEW_INDEX);
+  await fsp.writeFile(indexPath, JSON.stringify(index, null, 2), "utf8");
+  return { index, indexPath };
+}
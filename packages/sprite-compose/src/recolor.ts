@@ -0,0 +1,95 @@
+// packages/sprite-compose/src/recolor.ts
+// Layer recolouring on raw RGBA buffers: tint blend modes and ULPC-style palette (ramp) swaps
+
+export type RGB = [number, number, number];
+export type TintMode = "multiply" | "overlay" | "screen" | "replace";
+export type RampRef = string | string[];                      // ramp name or "#rrggbb" list, dark → light
+export type PaletteSwap = string | { source?: RampRef; target: RampRef };
+
+/** Built-in target ramps, dark → light (4 shades, like the LPC material ramps). */
+export const RAMPS: Record<string, string[]> = {
+  "hair.black":  ["#0b0a0d", "#1c1a21", "#2e2b35", "#45414f"],
+  "hair.brown":  ["#2a160c", "#4a2a16", "#6e4224", "#935e36"],
+  "hair.blonde": ["#5c3d12", "#9c6f26", "#d3a443", "#f2d77c"],
+  "hair.ginger": ["#4a160a", "#862d12", "#c2501f", "#e9853f"],
+  "hair.white":  ["#6d6a73", "#a29fa8", "#d3d1d6", "#f5f4f7"],
+  "hair.blue":   ["#101a4a", "#1e3384", "#3559c4", "#6c8ee8"],
+  "skin.light":  ["#6b3a2a", "#b06c4c", "#e0a07a", "#f6cfae"],
+  "skin.tan":    ["#55301f", "#8e5635", "#c08456", "#e2b280"],
+  "skin.brown":  ["#2f190f", "#5b321d", "#87512f", "#ad7248"],
+  "skin.dark":   ["#170c07", "#321a10", "#4f2c1b", "#714229"],
+  "cloth.red":   ["#3a0a0d", "#6e141a", "#a8222a", "#d9484c"],
+  "cloth.blue":  ["#0d1836", "#1a2f66", "#2b4d9c", "#4f78cf"],
+  "cloth.green": ["#0f2412", "#1d4322", "#2f6a34", "#4f974f"],
+  "cloth.gray":  ["#1f2024", "#3b3d44", "#62656e", "#9598a2"],
+  "cloth.brown": ["#24160d", "#432a18", "#684327", "#8f6139"],
+};
+
+const HEX = /^#?([0-9a-f]{6})$/i;
+
+export function hexToRgb(hex: string): RGB {
+  const m = HEX.exec(hex.trim());
+  if (!m) throw new Error(`invalid_ramp_color:${hex}`);
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/**
+ * Colours of a ramp reference: a RAMPS name, a comma-separated "#a,#b,…" string or a hex list.
+ * Throws `unknown_ramp:<name>` / `invalid_ramp_color:<value>`.
+ */
+export function resolveRamp(ref: RampRef): RGB[] {
+  if (Array.isArray(ref)) return ref.map(hexToRgb);
+  if (Object.hasOwn(RAMPS, ref)) return RAMPS[ref].map(hexToRgb);
+  if (ref.includes("#")) return ref.split(",").map((s) => hexToRgb(s));
+  throw new Error(`unknown_ramp:${ref}`);
+}
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+const key = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b;
+
+/**
+ * Palette swap in place. With an explicit source ramp, pixels that exactly match source shade i
+ * take the target shade at the same relative position; other colours (outlines, eyes) are kept.
+ * Without one, the layer's own opaque colours are ranked by luminance and spread over the target
+ * ramp, so the shading survives the recolour.
+ */
+export function paletteSwap(data: Buffer, spec: PaletteSwap): void {
+  const target = resolveRamp(typeof spec === "string" ? spec : spec.target);
+  const sourceRef = typeof spec === "string" ? undefined : spec.source;
+  const at = (i: number, n: number) => target[n <= 1 ? Math.floor((target.length - 1) / 2) : Math.round((i * (target.length - 1)) / (n - 1))];
+
+  const map = new Map<number, RGB>();
+  if (sourceRef !== undefined) {
+    const source = resolveRamp(sourceRef);
+    source.forEach(([r, g, b], i) => map.set(key(r, g, b), at(i, source.length)));
+  } else {
+    const seen = new Map<number, number>();
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      const k = key(data[i], data[i + 1], data[i + 2]);
+      if (!seen.has(k)) seen.set(k, luma(data[i], data[i + 1], data[i + 2]));
+    }
+    const ranked = [...seen.entries()].sort((a, b) => a[1] - b[1]).map(([k]) => k);
+    ranked.forEach((k, i) => map.set(k, at(i, ranked.length)));
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const to = map.get(key(data[i], data[i + 1], data[i + 2]));
+    if (to) { data[i] = to[0]; data[i + 1] = to[1]; data[i + 2] = to[2]; }
+  }
+}
+
+/** Per-channel blend of `rgb` over the layer in place (alpha untouched). */
+export function blendTint(data: Buffer, rgb: RGB, mode: TintMode): void {
+  const blend: (b: number, t: number) => number =
+    mode === "multiply" ? (b, t) => (b * t) / 255
+    : mode === "screen" ? (b, t) => 255 - ((255 - b) * (255 - t)) / 255
+    : mode === "overlay" ? (b, t) => (b < 128 ? (2 * b * t) / 255 : 255 - (2 * (255 - b) * (255 - t)) / 255)
+    : (_b, t) => t;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(blend(data[i + c], rgb[c]));
+  }
+}
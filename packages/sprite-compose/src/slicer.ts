@@ -49,6 +49,7 @@ export async function sliceSheetByGrid(opts: SliceOptions): Promise<{
     frame_size: { w: number; h: number };
     orientations?: OrientationName[];
     frames: Record<string, string[]>; // key: folder, value: ordered frames
+    rows: Record<string, number>;     // key: folder, value: its row on the sheet
   };
 }> {
   const {
@@ -103,6 +104,7 @@ export async function sliceSheetByGrid(opts: SliceOptions): Promise<{
 
   const written: Array<{ path: string; w: number; h: number }> = [];
   const framesByFolder: Record<string, string[]> = {};
+  const rowByFolder: Record<string, number> = {};
   let totalFrames = 0;
 
   for (const { orientation, rowIndex } of rowsWithOrientation) {
@@ -112,6 +114,7 @@ export async function sliceSheetByGrid(opts: SliceOptions): Promise<{
 
     const baseDir = path.join(outDir, folderBase);
     await fsp.mkdir(baseDir, { recursive: true });
+    rowByFolder[folderBase] ??= rowIndex;
 
     for (let c = 0; c < cols; c++) {
       const left = c * frame_w;
@@ -139,6 +142,7 @@ export async function sliceSheetByGrid(opts: SliceOptions): Promise<{
       frame_size: { w: grid.frame_w, h: grid.frame_h },
       orientations: rowsWithOrientation.length ? rowsWithOrientation.map((entry) => entry.orientation) : undefined,
       frames: framesByFolder,
+      rows: rowByFolder,
     }
   };
 }
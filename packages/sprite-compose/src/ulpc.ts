@@ -6,6 +6,14 @@ import sharp from "sharp";
 import { createLogger } from "@pixelart/log";
 import { resolveUlpcSheetDefs, resolveUlpcRoot } from "@pixelart/config";
 import { sliceSheetByGrid, type GridInfo } from "./slicer.js";
+import { paletteSwap, blendTint, hexToRgb, type PaletteSwap, type TintMode } from "./recolor.js";
+import { rowPlacements, shiftFrames, facingOfRow, type PlacementOverride } from "./placement.js";
+import { isCustomCategory, isCustomLayerSheet, readCustomLayer, customLayerSheet } from "./customLayers.js";
+import {
+  renderAsepriteSheet, writeAsepriteSheet, asepriteJsonPath, importAsepriteSheet,
+  type AsepriteFrameSpec, type AsepriteTag, type AsepriteSection, type AsepriteSheetJson,
+} from "./aseprite.js";
+import { renderManifestPreviews, previewScale, type PreviewFormat } from "./preview.js";
 
 const log = createLogger("@compose/ulpc");
 
@@ -14,8 +22,9 @@ type LayerSpec = {
   variant: string;
   visible?: boolean;
   z_override?: number;
-  offset?: { x: number; y: number };
-  color?: { palette?: string; tint?: { rgb?: string; mode?: "multiply"|"overlay"|"screen"|"replace" } };
+  offset?: { x: number; y: number };     // per-frame nudge in px (frames are clipped, never bleed)
+  overrides?: PlacementOverride[];       // per animation / facing offset and z
+  color?: { palette?: PaletteSwap; tint?: { rgb?: string; mode?: TintMode } };
   credits_tag?: string;
 };
 
@@ -30,6 +39,8 @@ type BuildSpec = {
     frame_size?: { w: number; h: number }; // optional override
     zero_pad?: number;                      // default 3
     fps?: number;                           // default 8 (slicing manifest)
+    aseprite?: boolean;                     // also write ulpc/<slug>_aseprite.png + .json (needs sheets)
+    previews?: { formats?: PreviewFormat[]; scale?: number };   // animated previews/ per folder (needs frames); scale defaults to pixel_scale
   };
   animations?: string[]; // which animations to produce; REQUIRED for split_by_animation / split_by_frame
   layers: LayerSpec[];
@@ -85,11 +96,13 @@ async function resolveLayerPngDetailed(
     category = category.slice(0, -(variant.length + 1));
   }
 
+  const preferAnimations = buildAnimationPriority(animation);
+  if (isCustomCategory(category)) return resolveCustomLayerPng(category, variant, animation, preferAnimations);
+
   const defsDir = resolveUlpcSheetDefs();
   const catDir = path.join(defsDir, category);
   const directJson = path.join(catDir, `${variant}.json`);
   const indexJson = path.join(catDir, "index.json");
-  const preferAnimations = buildAnimationPriority(animation);
 
   // 1) <category>/<variant>.json (non-animation specific)
   if (exists(directJson)) {
@@ -244,6 +257,24 @@ async function resolveLayerPngDetailed(
   throw new Error(`Unable to resolve PNG for ${category}/${variant}${animation ? ` (animation=${animation})` : ""}`);
 }
 
+// Custom library layers (see customLayers.ts) use the same animation fallback order as ULPC sheets
+function resolveCustomLayerPng(category: string, variant: string, animation: string, preferAnimations: string[]): ResolvedLayerImage {
+  const meta = readCustomLayer(category, variant);
+  if (meta) {
+    for (const anim of preferAnimations) {
+      if (!meta.animations.includes(anim)) continue;
+      const png = customLayerSheet(meta, anim);
+      if (exists(png)) {
+        return {
+          primary: { png, usedAnimation: anim, role: "primary", z: typeof meta.z === "number" ? meta.z : null },
+          availableAnimations: meta.animations,
+        };
+      }
+    }
+  }
+  throw new Error(`Unable to resolve PNG for ${category}/${variant}${animation ? ` (animation=${animation})` : ""}`);
+}
+
 function exists(p: string): boolean {
   try { fs.accessSync(p); return true; } catch { return false; }
 }
@@ -448,6 +479,9 @@ const DEFAULT_ANIMS = [
   "combat",
 ];
 
+// Cycles that repeat in game; one-shot actions (slash, hurt, …) play once
+const LOOPING_ANIMATIONS = new Set(["walk", "idle", "run", "climb", "combat"]);
+
 function animationsFallback(): string[] {
   const env = process.env.ULPC_ANIMS_FALLBACK;
   if (env && env.trim()) {
@@ -458,11 +492,28 @@ function animationsFallback(): string[] {
 }
 
 
-async function applyTintIfAny(img: sharp.Sharp, layer: LayerSpec): Promise<sharp.Sharp> {
+// Palette swap first (keeps the ramp's shading), then the tint. Multiply keeps sharp's tint
+// (luminance-preserving); the other modes blend per pixel on the raw buffer.
+async function applyColorIfAny(img: sharp.Sharp, layer: LayerSpec): Promise<sharp.Sharp> {
+  const palette = layer.color?.palette;
   const hex = layer.color?.tint?.rgb;
-  const mode = layer.color?.tint?.mode ?? "multiply";
-  if (!hex || mode !== "multiply") return img;
-  return img.tint(hex as any);
+  const mode: TintMode = layer.color?.tint?.mode ?? "multiply";
+  if (!palette && !hex) return img;
+  if (!palette && mode === "multiply") return img.tint(hex as any);
+
+  const { data, info } = await img.raw().toBuffer({ resolveWithObject: true });
+  if (palette) paletteSwap(data, palette);
+  if (hex && mode !== "multiply") blendTint(data, hexToRgb(hex), mode);
+  const out = sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } });
+  return hex && mode === "multiply" ? out.tint(hex as any) : out;
+}
+
+// Sheet-definition z unless the build overrides it. A "behind" sheet keeps its distance below the
+// primary, so an overridden cape still draws its back part behind the body.
+function layerZ(L: LayerSpec, entry: ResolvedLayerEntry, primary: ResolvedLayerEntry, i: number): { z: number; delta: number } {
+  const delta = entry !== primary && typeof entry.z === "number" && typeof primary.z === "number" ? entry.z - primary.z : 0;
+  if (typeof L.z_override === "number") return { z: L.z_override + delta, delta };
+  return { z: typeof entry.z === "number" && Number.isFinite(entry.z) ? entry.z : i, delta };
 }
 
 export async function composeULPCExport(params: {
@@ -473,6 +524,8 @@ export async function composeULPCExport(params: {
   sheets?: Record<string, { outPath: string; width: number; height: number; }>;
   frames?: Record<string, number>; // animation (or Animation_Orientation) → count
   manifestPath?: string;
+  aseprite?: { image: string; json: string };
+  previews?: string;
   warnings: LayerWarning[];
 }> {
   const { build, outBaseDir, slug } = params;
@@ -506,13 +559,17 @@ export async function composeULPCExport(params: {
     animations: {} as Record<string, {
       frames: number;
       fps: number;
+      loop: boolean;
       sheet?: string;
+      frame_size: { w: number; h: number };
       orientations?: string[];
       folders: Record<string, string[]>;
+      rows: Record<string, number>;       // folder → row on `sheet`
     }>
   };
 
   const allWarnings: LayerWarning[] = [];
+  const asepriteParts: AsepritePart[] = [];
 
   // Resolve per-animation PNG for each layer, compose, optionally slice
   for (const animation of anims) {
@@ -603,19 +660,29 @@ export async function composeULPCExport(params: {
           }
 
           let img = workingSharp.ensureAlpha();
-          img = await applyTintIfAny(img, L);
-          const zBaseRaw = L.z_override ?? entry.z ?? i;
-          const zValue = typeof zBaseRaw === "number" ? zBaseRaw : Number(zBaseRaw ?? i);
-          overlayQueue.push({
-            overlay: {
-              input: await img.toBuffer(),
-              left: L.offset?.x ?? 0,
-              top:  L.offset?.y ?? 0,
-            },
-            z: Number.isFinite(zValue) ? zValue : i,
-            order: overlayOrder++,
-            role: entry.role,
-          });
+          img = await applyColorIfAny(img, L);
+          const { z: zValue, delta: zDelta } = layerZ(L, entry, resolvedImage.primary, i);
+          if (!(L.offset?.x || L.offset?.y || L.overrides?.length)) {
+            overlayQueue.push({ overlay: { input: await img.toBuffer() }, z: zValue, order: overlayOrder++, role: entry.role });
+          } else {
+            const grid = await resolveGridInfo({ animation, sheetsW: targetWidth, sheetsH: targetHeight, resolvedPngs: [png], frameSizeOverride: build.output?.frame_size });
+            const raw = await img.raw().toBuffer();
+            const rows = rowPlacements(L, grid, animation, zValue, zDelta);
+            // one overlay per distinct z, so e.g. a cape's north-facing row can sit above the body
+            const rowsByZ = new Map<number, Set<number>>();
+            rows.forEach((p, r) => rowsByZ.set(p.z, (rowsByZ.get(p.z) ?? new Set<number>()).add(r)));
+            for (const [z, set] of rowsByZ) {
+              overlayQueue.push({
+                overlay: {
+                  input: shiftFrames(raw, targetWidth, targetHeight, grid, rows, set),
+                  raw: { width: targetWidth, height: targetHeight, channels: 4 },
+                },
+                z,
+                order: overlayOrder++,
+                role: entry.role,
+              });
+            }
+          }
 
           if (entry === resolvedImage.primary) {
             resolvedPngs.push(png);
@@ -623,7 +690,9 @@ export async function composeULPCExport(params: {
         }
       } catch (err: any) {
         const message = err?.message ?? "";
-        const reason = message.includes("Unable to resolve PNG") ? "missing_animation" : "resolve_failed";
+        const reason = message.includes("Unable to resolve PNG") ? "missing_animation"
+          : /^(unknown_ramp|invalid_ramp_color):/.test(message) ? "invalid_color"
+          : "resolve_failed";
         animationWarnings.push({ category: L.category, variant: L.variant, animation, reason, detail: message });
         log.warn?.({ msg: "layer.resolve_failed", category: L.category, variant: L.variant, animation, error: err?.message });
       }
@@ -647,21 +716,39 @@ export async function composeULPCExport(params: {
       continue;
     }
 
+    // A hand-edited sheet (Aseprite import) stands in for the layers until it is deleted
+    const edited = path.join(sheetsDir, animation, ULPC_EDITED_SHEET);
+    let useEdited = exists(edited);
+    if (useEdited) {
+      const meta = await sharp(edited).metadata();
+      useEdited = meta.width === W && meta.height === H;
+      allWarnings.push(useEdited
+        ? { category: "ulpc", variant: ULPC_EDITED_SHEET, animation, reason: "hand_edited" }
+        : { category: "ulpc", variant: ULPC_EDITED_SHEET, animation, reason: "hand_edit_ignored", detail: `edited ${meta.width}x${meta.height}, layers ${W}x${H}` });
+    }
+    const sheetImage = () => useEdited
+      ? sharp(edited).ensureAlpha()
+      : sharp({ create: { width: W, height: H, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } }).composite(overlays);
+
     // 2) Compose to a sheet if needed
     let composedPath = "";
     if (needSheets) {
       const outPath = path.join(sheetsDir, animation, "sheet.png");
       await fsp.mkdir(path.dirname(outPath), { recursive: true });
-      await sharp({ create: { width: W, height: H, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
-        .composite(overlays).png().toFile(outPath);
+      await sheetImage().png().toFile(outPath);
       sheets[animation] = { outPath, width: W, height: H };
       composedPath = outPath;
       log.info({ msg: "compose.sheet.done", animation, outPath, width: W, height: H });
+      if (build.output?.aseprite) {
+        const grid = resolvedPngs.length
+          ? await resolveGridInfo({ animation, sheetsW: W, sheetsH: H, resolvedPngs, frameSizeOverride: build.output?.frame_size })
+          : { frame_w: W, frame_h: H, rows: 1, cols: 1 };
+        asepriteParts.push({ animation, outPath, width: W, height: H, grid });
+      }
     } else {
       const tmp = path.join(sheetsDir, animation, `__tmp_${Date.now()}.png`);
       await fsp.mkdir(path.dirname(tmp), { recursive: true });
-      await sharp({ create: { width: W, height: H, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
-        .composite(overlays).png().toFile(tmp);
+      await sheetImage().png().toFile(tmp);
       composedPath = tmp;
     }
 
@@ -691,9 +778,12 @@ export async function composeULPCExport(params: {
       manifest.animations[animation] = {
         frames: result.totalFrames,
         fps,
+        loop: LOOPING_ANIMATIONS.has(animation),
         sheet: needSheets ? sheets[animation]?.outPath : undefined,
+        frame_size: result.manifest.frame_size,
         orientations: result.manifest.orientations,
         folders: result.manifest.frames,
+        rows: result.manifest.rows,
       };
     }
   }
@@ -706,14 +796,129 @@ export async function composeULPCExport(params: {
     manifestPath = p;
   }
 
+  const aseprite = asepriteParts.length ? await writeULPCAseprite(sheetsDir, slug, asepriteParts, fps) : undefined;
+
+  // previews are a convenience: a failure is logged, not thrown
+  let previews: string | undefined;
+  if (manifestPath && build.output?.previews) {
+    try {
+      const { formats, scale } = build.output.previews;
+      const rendered = await renderManifestPreviews({
+        manifestPath, outDir: path.join(outBaseDir, "previews"), formats, scale: await previewScale(scale),
+      });
+      previews = rendered.indexPath;
+    } catch (err: any) {
+      log.warn?.({ msg: "compose.previews_failed", slug, error: err?.message });
+    }
+  }
+
   return {
     sheets: Object.keys(sheets).length ? sheets : undefined,
     frames: Object.keys(framesCount).length ? framesCount : undefined,
     manifestPath,
+    aseprite,
+    previews,
     warnings: allWarnings,
   };
 }
 
+// ────────────────────────────────────────────────────────────────────────────
+// Aseprite round trip – every animation sheet stacked into one atlas, one tag per sheet row
+// ────────────────────────────────────────────────────────────────────────────
+export const ULPC_EDITED_SHEET = "edited.png";
+
+type AsepritePart = { animation: string; outPath: string; width: number; height: number; grid: GridInfo };
+
+/** Atlas and JSON written by `output.aseprite`, under <character>/ulpc/. */
+export function ulpcAsepritePaths(outBaseDir: string, slug: string): { image: string; json: string } {
+  const image = path.join(outBaseDir, "ulpc", `${slug}_aseprite.png`);
+  return { image, json: asepriteJsonPath(image) };
+}
+
+// "walk_south" for LPC four-facing sheets, "hurt" for single-row sheets, else "<animation>_row<r>"
+function ulpcRowTag(animation: string, grid: GridInfo, r: number, used: Set<string>): string {
+  const facing = grid.rows > 1 ? facingOfRow(grid, r) : undefined;
+  let tag = grid.rows === 1 ? animation : facing ? `${animation}_${facing}` : `${animation}_row${r}`;
+  if (used.has(tag)) tag = `${animation}_row${r}`;
+  used.add(tag);
+  return tag;
+}
+
+async function writeULPCAseprite(sheetsDir: string, slug: string, parts: AsepritePart[], fps: number) {
+  const width = Math.max(...parts.map((p) => p.width));
+  const frames: AsepriteFrameSpec[] = [];
+  const tags: AsepriteTag[] = [];
+  const sections: AsepriteSection[] = [];
+  const composites: sharp.OverlayOptions[] = [];
+  const used = new Set<string>();
+  let top = 0;
+
+  for (const { animation, outPath, width: w, height: h, grid } of parts) {
+    composites.push({ input: outPath, left: 0, top });
+    sections.push({ file: `${animation}/sheet.png`, x: 0, y: top, w, h });
+    for (let r = 0; r < grid.rows; r++) {
+      const tag = ulpcRowTag(animation, grid, r, used);
+      const from = frames.length;
+      for (let c = 0; c < grid.cols; c++) {
+        frames.push({ name: `${tag} ${c}`, x: c * grid.frame_w, y: top + r * grid.frame_h, w: grid.frame_w, h: grid.frame_h, duration: 1000 / fps });
+      }
+      if (frames.length > from) tags.push({ name: tag, from, to: frames.length - 1 });
+    }
+    top += h;
+  }
+
+  const { image, json } = ulpcAsepritePaths(path.dirname(sheetsDir), slug);
+  await sharp({ create: { width, height: top, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite(composites).png().toFile(image);
+  await writeAsepriteSheet(sheetsDir, renderAsepriteSheet({ image: path.basename(image), size: { w: width, h: top }, frames, tags, sections }));
+  log.info({ msg: "compose.aseprite.done", image, frames: frames.length, tags: tags.length });
+  return { image, json };
+}
+
+/**
+ * Applies an artist's Aseprite sheet to the character: every animation with a replaced frame gets
+ * ulpc/<animation>/edited.png (used by composeULPCExport instead of the layers) and a new sheet.png.
+ * Needs a previous `output.aseprite` export as the layout. Throws `invalid_aseprite:<reason>`.
+ */
+export async function importULPCAseprite(params: { outBaseDir: string; slug: string; json: unknown; png: Buffer }) {
+  const { outBaseDir, slug } = params;
+  const paths = ulpcAsepritePaths(outBaseDir, slug);
+  let layout: AsepriteSheetJson;
+  try {
+    layout = JSON.parse(await fsp.readFile(paths.json, "utf8"));
+  } catch {
+    throw new Error("invalid_aseprite:no_previous_export");
+  }
+
+  const result = await importAsepriteSheet({ layout, base: paths.image, json: params.json, png: params.png });
+  const animations: string[] = [];
+  for (const s of result.sections) {
+    const animation = s.file.split("/")[0];
+    const dir = path.join(outBaseDir, "ulpc", animation);
+    await fsp.mkdir(dir, { recursive: true });
+    await fsp.writeFile(path.join(dir, ULPC_EDITED_SHEET), s.png);
+    await fsp.writeFile(path.join(dir, "sheet.png"), s.png);
+    animations.push(animation);
+  }
+  await fsp.writeFile(paths.image, result.atlas);
+  log.info({ msg: "import.aseprite.done", slug, animations, matched: result.matched });
+  return { animations, matched: result.matched, unmatched: result.unmatched, skipped: result.skipped };
+}
+
+/** Drops hand edits (all, or the listed animations) so the layers compose those sheets again. */
+export async function clearULPCEdits(outBaseDir: string, animations?: string[]): Promise<string[]> {
+  const dir = path.join(outBaseDir, "ulpc");
+  const names = animations ?? (await fsp.readdir(dir).catch(() => [] as string[]));
+  const cleared: string[] = [];
+  for (const animation of names) {
+    const file = path.join(dir, path.basename(animation), ULPC_EDITED_SHEET);
+    if (!exists(file)) continue;
+    await fsp.rm(file, { force: true });
+    cleared.push(animation);
+  }
+  return cleared;
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Grid resolution – try metadata from defs first, then safe fallbacks
 // ────────────────────────────────────────────────────────────────────────────
@@ -735,7 +940,8 @@ async function resolveGridInfo(params: {
   // 1) try reading adjacent JSON defs (variant or index) for the FIRST resolved layer
   // (Assumption: all layers are same grid layout; if not, the first layer dictates.)
   const first = resolvedPngs[0];
-  const defsDir = resolveUlpcSheetDefs();
+  // custom library sheets were checked against the 64×64 grid on upload; there are no defs for them
+  const defsDir = isCustomLayerSheet(first) ? null : resolveUlpcSheetDefs();
 
   // best-effort: walk back from spritesheets path to a parallel sheet_definitions json
   // category is not known here; but ULPC often mirrors tree structure so we try:
@@ -743,7 +949,7 @@ async function resolveGridInfo(params: {
 
   // If the resolved png is at .../spritesheets/<category>/<anim>/<variant>.png,
   // we try .../sheet_definitions/<category>/index.json then <variant>.json
-  try {
+  if (defsDir) try {
     const idxSprites = first.split(path.sep).reverse();
     const vFile = idxSprites[0];                      // {variant}.png
     const animDir = idxSprites[1];                    // {animation}
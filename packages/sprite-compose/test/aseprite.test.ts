@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import {
+  renderAsepriteSheet, writeAsepriteSheet, parseAsepriteSheet, matchAsepriteFrames, importAsepriteSheet, asepriteJsonPath,
+  type AsepriteSheetJson,
+} from "../src/aseprite";
+import { importULPCAseprite, clearULPCEdits, ulpcAsepritePaths, ULPC_EDITED_SHEET } from "../src/ulpc";
+
+let dir: string;
+
+type RGBA = [number, number, number, number];
+const solid = (w: number, h: number, [r, g, b, a]: RGBA) =>
+  sharp({ create: { width: w, height: h, channels: 4, background: { r, g, b, alpha: a / 255 } } }).png().toBuffer();
+const pixel = async (png: Buffer | string, x: number, y: number) => {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * 4;
+  return [data[i], data[i + 1], data[i + 2], data[i + 3]];
+};
+
+// Two rows of two 4×4 frames, one per animation sheet (section)
+const layout: AsepriteSheetJson = renderAsepriteSheet({
+  image: "hero_aseprite.png",
+  size: { w: 8, h: 8 },
+  frames: [
+    { name: "walk_north 0", x: 0, y: 0, w: 4, h: 4 }, { name: "walk_north 1", x: 4, y: 0, w: 4, h: 4 },
+    { name: "slash_north 0", x: 0, y: 4, w: 4, h: 4, duration: 80 }, { name: "slash_north 1", x: 4, y: 4, w: 4, h: 4, duration: 80 },
+  ],
+  tags: [{ name: "walk_north", from: 0, to: 1 }, { name: "slash_north", from: 2, to: 3 }],
+  sections: [{ file: "walk/sheet.png", x: 0, y: 0, w: 8, h: 4 }, { file: "slash/sheet.png", x: 0, y: 4, w: 8, h: 4 }],
+});
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "sprite-aseprite-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("Aseprite sheet JSON", () => {
+  it("writes json-array data next to the image and reads it back", async () => {
+    const file = await writeAsepriteSheet(dir, layout);
+    expect(file).toBe(asepriteJsonPath(path.join(dir, "hero_aseprite.png")));
+    const written = JSON.parse(await fs.readFile(file, "utf8"));
+    expect(written.frames[0]).toMatchObject({ filename: "walk_north 0", duration: 100, trimmed: false });
+    expect(written.meta.frameTags[1]).toEqual({ name: "slash_north", from: 2, to: 3, direction: "forward" });
+
+    const parsed = parseAsepriteSheet(written);
+    expect(parsed.frames.map((f) => f.name)).toEqual(layout.frames.map((f) => f.filename));
+    expect(parsed.frames[3]).toEqual({ name: "slash_north 1", frame: { x: 4, y: 4, w: 4, h: 4 }, offset: { x: 0, y: 0 }, source: { w: 4, h: 4 } });
+    expect(parsed.tags.map((t) => t.name)).toEqual(["walk_north", "slash_north"]);
+  });
+
+  it("reads json-hash frames and trim offsets, and rejects unusable data", () => {
+    const hash = parseAsepriteSheet({
+      frames: { "a.png": { frame: { x: 1, y: 1, w: 2, h: 3 }, trimmed: true, spriteSourceSize: { x: 1, y: 0, w: 2, h: 3 }, sourceSize: { w: 4, h: 4 } } },
+    });
+    expect(hash.frames).toEqual([{ name: "a.png", frame: { x: 1, y: 1, w: 2, h: 3 }, offset: { x: 1, y: 0 }, source: { w: 4, h: 4 } }]);
+    expect(() => parseAsepriteSheet(null)).toThrow("invalid_aseprite:frames_missing");
+    expect(() => parseAsepriteSheet({ frames: [] })).toThrow("invalid_aseprite:no_frames");
+    expect(() => parseAsepriteSheet({ frames: [{ filename: "x", frame: { x: 0, y: 0, w: 0, h: 4 } }] })).toThrow("invalid_aseprite:bad_frame:x");
+    expect(() => parseAsepriteSheet({ frames: [{ filename: "x", frame: { x: 0, y: 0, w: 4, h: 4 }, rotated: true }] })).toThrow("invalid_aseprite:rotated_frame:x");
+  });
+
+  it("matches frames by tag position, then name, then order", () => {
+    const frame = (name: string) => ({ name, frame: { x: 0, y: 0, w: 4, h: 4 }, offset: { x: 0, y: 0 }, source: { w: 4, h: 4 } });
+    // re-exported with Aseprite's own names, only the slash tag kept
+    expect(matchAsepriteFrames({ frames: [frame("Sprite 0"), frame("Sprite 1")], tags: [{ name: "slash_north", from: 0, to: 1 }] }, layout)).toEqual([2, 3]);
+    expect(matchAsepriteFrames({ frames: [frame("walk_north 1"), frame("other")], tags: [] }, layout)).toEqual([1, -1]);
+    expect(matchAsepriteFrames({ frames: ["a", "b", "c", "d"].map(frame), tags: [] }, layout)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("importAsepriteSheet", () => {
+  it("replaces matched cells, keeps the others and reports what it could not place", async () => {
+    const base = await solid(8, 8, [0, 0, 255, 255]);
+    // artist sheet: a trimmed red frame for slash_north 1 and a frame of the wrong size
+    const png = await solid(6, 2, [255, 0, 0, 255]);
+    const json = {
+      frames: [
+        { filename: "slash_north 1", frame: { x: 0, y: 0, w: 2, h: 2 }, trimmed: true, spriteSourceSize: { x: 1, y: 1, w: 2, h: 2 }, sourceSize: { w: 4, h: 4 } },
+        { filename: "walk_north 0", frame: { x: 2, y: 0, w: 2, h: 2 } },
+        { filename: "extra", frame: { x: 4, y: 0, w: 2, h: 2 } },
+      ],
+    };
+    const result = await importAsepriteSheet({ layout, base, json, png });
+    expect(result.matched).toBe(1);
+    expect(result.unmatched).toEqual(["extra"]);
+    expect(result.skipped).toEqual([{ frame: "walk_north 0", reason: "size 2x2, expected 4x4" }]);
+
+    expect(await pixel(result.atlas, 5, 5)).toEqual([255, 0, 0, 255]);   // trimmed pixels land at their offset
+    expect(await pixel(result.atlas, 4, 4)).toEqual([0, 0, 0, 0]);       // the rest of the cell is cleared
+    expect(await pixel(result.atlas, 0, 4)).toEqual([0, 0, 255, 255]);   // untouched cell
+    expect(result.sections.map((s) => s.file)).toEqual(["slash/sheet.png"]);
+    expect(await pixel(result.sections[0].png, 5, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("rejects a sheet with nothing in common with the layout", async () => {
+    const json = { frames: [{ filename: "a", frame: { x: 0, y: 0, w: 4, h: 4 } }] };
+    await expect(importAsepriteSheet({ layout, base: await solid(8, 8, [0, 0, 0, 0]), json, png: await solid(4, 4, [0, 0, 0, 255]) }))
+      .rejects.toThrow("invalid_aseprite:no_matching_frames");
+  });
+});
+
+describe("ULPC Aseprite round trip", () => {
+  it("writes edited sheets for the animations an artist touched, and clears them again", async () => {
+    const outBaseDir = path.join(dir, "hero");
+    await expect(importULPCAseprite({ outBaseDir, slug: "hero", json: {}, png: Buffer.alloc(0) })).rejects.toThrow("invalid_aseprite:no_previous_export");
+
+    const paths = ulpcAsepritePaths(outBaseDir, "hero");
+    await fs.mkdir(path.dirname(paths.image), { recursive: true });
+    await fs.writeFile(paths.image, await solid(8, 8, [0, 0, 255, 255]));
+    expect(await writeAsepriteSheet(path.dirname(paths.image), layout)).toBe(paths.json);
+
+    // the artist repaints walk_north 0 in green and exports that tag only
+    const png = await sharp(await solid(8, 4, [0, 0, 255, 255])).composite([{ input: await solid(4, 4, [0, 255, 0, 255]), left: 0, top: 0 }]).png().toBuffer();
+    const json = {
+      frames: [{ filename: "Sprite 0", frame: { x: 0, y: 0, w: 4, h: 4 } }, { filename: "Sprite 1", frame: { x: 4, y: 0, w: 4, h: 4 } }],
+      meta: { frameTags: [{ name: "walk_north", from: 0, to: 1 }] },
+    };
+    const result = await importULPCAseprite({ outBaseDir, slug: "hero", json, png });
+    expect(result).toEqual({ animations: ["walk"], matched: 2, unmatched: [], skipped: [] });
+
+    const edited = path.join(outBaseDir, "ulpc", "walk", ULPC_EDITED_SHEET);
+    expect(await pixel(edited, 1, 1)).toEqual([0, 255, 0, 255]);
+    expect(await pixel(path.join(outBaseDir, "ulpc", "walk", "sheet.png"), 5, 1)).toEqual([0, 0, 255, 255]);
+    expect(await pixel(paths.image, 1, 1)).toEqual([0, 255, 0, 255]);
+
+    expect(await clearULPCEdits(outBaseDir, ["slash"])).toEqual([]);
+    expect(await clearULPCEdits(outBaseDir)).toEqual(["walk"]);
+    await expect(fs.stat(edited)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+
+import { packAtlas, resolveAtlasSettings, type AtlasSprite } from "../src/atlas";
+
+type Px = [number, number, number, number];
+
+/** W×H PNG, transparent except a w×h block of `color` at (x, y). */
+function sprite(W: number, H: number, color: Px, block = { x: 0, y: 0, w: W, h: H }) {
+  const data = Buffer.alloc(W * H * 4);
+  for (let y = block.y; y < block.y + block.h; y++) for (let x = block.x; x < block.x + block.w; x++) data.set(color, (y * W + x) * 4);
+  return sharp(data, { raw: { width: W, height: H, channels: 4 } }).png().toBuffer();
+}
+
+async function pagePixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * 4;
+  return [...data.subarray(i, i + 4)];
+}
+
+const overlaps = (a: AtlasSprite, b: AtlasSprite, gap: number) =>
+  a.page === b.page && a.x < b.x + b.w + gap && b.x < a.x + a.w + gap && a.y < b.y + b.h + gap && b.y < a.y + a.h + gap;
+
+describe("resolveAtlasSettings", () => {
+  it("fills defaults and rejects bad values", () => {
+    expect(resolveAtlasSettings({ padding: undefined, extrude: 0 })).toEqual({ maxSize: 2048, padding: 2, extrude: 0, trim: true, pot: true });
+    expect(() => resolveAtlasSettings({ maxSize: 1000 })).toThrow("invalid_atlas_settings:maxSize");
+    expect(resolveAtlasSettings({ maxSize: 1000, pot: false }).maxSize).toBe(1000);
+    expect(() => resolveAtlasSettings({ padding: -1 })).toThrow("invalid_atlas_settings:padding");
+  });
+});
+
+describe("packAtlas", () => {
+  it("trims transparent borders, keeps the offset and extrudes the edges", async () => {
+    const red: Px = [255, 0, 0, 255];
+    const { descriptor, pages } = await packAtlas({
+      name: "hero",
+      sprites: [{ key: "a", image: await sprite(8, 8, red, { x: 3, y: 2, w: 2, h: 3 }) }],
+      settings: { padding: 0, extrude: 1 },
+    });
+    const a = descriptor.sprites.a;
+    expect(a).toEqual({ page: 0, x: 1, y: 1, w: 2, h: 3, offset: { x: 3, y: 2 }, source: { w: 8, h: 8 } });
+    expect(descriptor.pages).toEqual([{ file: "hero_0.png", w: 4, h: 8 }]);
+    expect(await pagePixel(pages[0], a.x, a.y)).toEqual(red);
+    expect(await pagePixel(pages[0], a.x - 1, a.y - 1)).toEqual(red);
+    expect(await pagePixel(pages[0], a.x + a.w, a.y + a.h)).toEqual(red);
+  });
+
+  it("stores identical frames once", async () => {
+    const img = await sprite(4, 4, [0, 0, 255, 255]);
+    const { descriptor } = await packAtlas({
+      name: "dup",
+      sprites: [{ key: "a", image: img }, { key: "b", image: img }, { key: "c", image: await sprite(4, 4, [0, 255, 0, 255]) }],
+    });
+    const { a, b, c } = descriptor.sprites;
+    expect(b).toEqual(a);
+    expect(overlaps(a, c, 0)).toBe(false);
+  });
+
+  it("packs without overlap, keeping padding, inside power-of-two pages", async () => {
+    const sprites = [];
+    for (let i = 0; i < 24; i++) {
+      const w = 3 + ((i * 7) % 13), h = 3 + ((i * 5) % 11);
+      sprites.push({ key: `s${i}`, image: await sprite(w, h, [i * 10, 100, 200 - i * 5, 255]) });
+    }
+    const padding = 2, extrude = 1;
+    const { descriptor } = await packAtlas({ name: "many", sprites, settings: { maxSize: 64, padding, extrude } });
+    const placed = Object.values(descriptor.sprites);
+    for (const [i, a] of placed.entries()) {
+      const page = descriptor.pages[a.page];
+      expect(a.x - extrude).toBeGreaterThanOrEqual(0);
+      expect(a.y - extrude).toBeGreaterThanOrEqual(0);
+      expect(a.x + a.w + extrude).toBeLessThanOrEqual(page.w);
+      expect(a.y + a.h + extrude).toBeLessThanOrEqual(page.h);
+      for (const b of placed.slice(i + 1)) expect(overlaps(a, b, 2 * extrude + padding)).toBe(false);
+    }
+    for (const p of descriptor.pages) {
+      expect(p.w & (p.w - 1)).toBe(0);
+      expect(p.h & (p.h - 1)).toBe(0);
+      expect(Math.max(p.w, p.h)).toBeLessThanOrEqual(64);
+    }
+  });
+
+  it("opens new pages when one is full, and rejects sprites larger than a page", async () => {
+    const sprites = await Promise.all([0, 1, 2].map(async (i) => ({ key: `f${i}`, image: await sprite(16, 16, [i * 80, 0, 0, 255]) })));
+    const { descriptor, pages } = await packAtlas({ name: "full", sprites, settings: { maxSize: 16, padding: 0, extrude: 0 } });
+    expect(pages).toHaveLength(3);
+    expect(descriptor.sprites.f2).toMatchObject({ page: 2, x: 0, y: 0 });
+
+    await expect(packAtlas({ name: "big", sprites: [{ key: "huge", image: await sprite(20, 4, [1, 1, 1, 255]) }], settings: { maxSize: 16 } }))
+      .rejects.toThrow("atlas:sprite_too_large:huge");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import {
+  LPC_FRAME, assertCustomLayerKey, customLayerDir, readCustomLayer, customLayerSheet, isCustomLayerSheet,
+  listCustomLayers, validateCustomSheet, saveCustomLayer, deleteCustomLayer,
+} from "../src/customLayers";
+
+let root: string;
+
+const sheet = (cols: number, rows: number, format: "png" | "jpeg" = "png") =>
+  sharp({ create: { width: cols * LPC_FRAME, height: rows * LPC_FRAME, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .toFormat(format)
+    .toBuffer();
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "custom-layers-"));
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("validateCustomSheet", () => {
+  it("accepts the standard LPC grid for an animation", async () => {
+    await expect(validateCustomSheet(await sheet(9, 4), "walk")).resolves.toEqual({ width: 576, height: 256, cols: 9, rows: 4, warnings: [] });
+    expect((await validateCustomSheet(await sheet(6, 1), "hurt")).warnings).toEqual([]);
+  });
+
+  it("rejects sheets off the 64px grid, with the wrong rows, or not PNG", async () => {
+    const offGrid = await sharp({ create: { width: 100, height: 64, channels: 4, background: "#000" } }).png().toBuffer();
+    await expect(validateCustomSheet(offGrid, "walk")).rejects.toThrow("invalid_custom_layer:off_grid:walk:100x64");
+    await expect(validateCustomSheet(await sheet(9, 2), "walk")).rejects.toThrow("invalid_custom_layer:rows:walk:2!=4");
+    await expect(validateCustomSheet(await sheet(9, 4, "jpeg"), "walk")).rejects.toThrow("invalid_custom_layer:not_png:walk");
+    await expect(validateCustomSheet(Buffer.from("not an image"), "walk")).rejects.toThrow("invalid_custom_layer:unreadable_image:walk");
+  });
+
+  it("only warns about frame counts and unknown animations", async () => {
+    expect((await validateCustomSheet(await sheet(8, 4), "walk")).warnings).toEqual(["walk: 8 frames per row (LPC uses 9)"]);
+    expect((await validateCustomSheet(await sheet(4, 1), "wave")).warnings).toEqual([]);
+    expect((await validateCustomSheet(await sheet(4, 2), "wave")).warnings).toEqual(["wave: 2 rows (LPC sheets use 4 facings)"]);
+  });
+});
+
+describe("assertCustomLayerKey", () => {
+  it("requires a custom/ category and slug segments", () => {
+    expect(() => assertCustomLayerKey("custom/badges", "eagle")).not.toThrow();
+    expect(() => assertCustomLayerKey("custom/weapons/unique", "gladius_2")).not.toThrow();
+    expect(() => assertCustomLayerKey("body", "eagle")).toThrow("invalid_custom_layer:invalid_category");
+    expect(() => assertCustomLayerKey("custom/../etc", "eagle")).toThrow("invalid_custom_layer:invalid_category");
+    expect(() => assertCustomLayerKey("custom/", "eagle")).toThrow("invalid_custom_layer:invalid_category");
+    expect(() => assertCustomLayerKey("custom/badges", "Eagle")).toThrow("invalid_custom_layer:invalid_variant");
+  });
+});
+
+describe("custom layer library", () => {
+  it("merges uploads into one layer and resolves its sheets under the root", async () => {
+    const first = await saveCustomLayer({ category: "custom/badges", variant: "eagle", name: "Eagle", z: 95, sheets: { walk: await sheet(9, 4) } }, root);
+    expect(first.layer).toMatchObject({ name: "Eagle", z: 95, animations: ["walk"] });
+
+    const second = await saveCustomLayer({ category: "custom/badges", variant: "eagle", sheets: { hurt: await sheet(6, 1) } }, root);
+    expect(second.layer).toMatchObject({ name: "Eagle", z: 95, animations: ["hurt", "walk"] });
+
+    const meta = readCustomLayer("custom/badges", "eagle", root)!;
+    expect(meta.animations).toEqual(["hurt", "walk"]);
+    const walk = customLayerSheet(meta, "walk", root);
+    expect(walk).toBe(path.join(root, "badges", "eagle", "walk.png"));
+    expect(isCustomLayerSheet(walk, root)).toBe(true);
+    expect(isCustomLayerSheet(path.join(os.tmpdir(), "walk.png"), root)).toBe(false);
+    expect((await sharp(walk).metadata()).width).toBe(576);
+  });
+
+  it("rejects bad sheets and empty first uploads without writing anything", async () => {
+    await expect(saveCustomLayer({ category: "custom/badges", variant: "wolf", sheets: {} }, root)).rejects.toThrow("invalid_custom_layer:no_sheets");
+    await expect(saveCustomLayer({ category: "custom/badges", variant: "wolf", sheets: { "../walk": await sheet(9, 4) } }, root))
+      .rejects.toThrow("invalid_custom_layer:invalid_animation");
+    await expect(saveCustomLayer({ category: "custom/badges", variant: "wolf", sheets: { walk: await sheet(9, 3) } }, root))
+      .rejects.toThrow("invalid_custom_layer:rows:walk:3!=4");
+    expect(readCustomLayer("custom/badges", "wolf", root)).toBeNull();
+  });
+
+  it("lists layers sorted by category and variant, and deletes them", async () => {
+    await saveCustomLayer({ category: "custom/weapons/unique", variant: "gladius", sheets: { slash: await sheet(6, 4) } }, root);
+    await saveCustomLayer({ category: "custom/badges", variant: "bear", sheets: { walk: await sheet(9, 4) } }, root);
+    const keys = (await listCustomLayers(root)).map((l) => `${l.category}:${l.variant}`);
+    expect(keys).toEqual(["custom/badges:bear", "custom/badges:eagle", "custom/weapons/unique:gladius"]);
+
+    expect(await deleteCustomLayer("custom/badges", "bear", root)).toBe(true);
+    expect(await deleteCustomLayer("custom/badges", "bear", root)).toBe(false);
+    await expect(fs.stat(customLayerDir("custom/badges", "bear", root))).rejects.toThrow();
+    expect(await listCustomLayers(path.join(root, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+
+import { facingOfRow, rowPlacements, shiftFrames } from "../src/placement";
+import type { GridInfo } from "../src/slicer";
+
+const lpc: GridInfo = { frame_w: 4, frame_h: 4, rows: 4, cols: 2 };
+
+describe("facingOfRow", () => {
+  it("uses LPC row order for 4-row blocks and grid directions otherwise", () => {
+    expect([0, 1, 2, 3].map((r) => facingOfRow(lpc, r))).toEqual(["north", "west", "south", "east"]);
+    // fallback grids keep their historical folder labels; the rows are still LPC order
+    const labelled: GridInfo = { ...lpc, directions: ["front", "left", "back", "right"] };
+    expect([0, 1, 2, 3].map((r) => facingOfRow(labelled, r))).toEqual(["north", "west", "south", "east"]);
+    expect(facingOfRow({ ...lpc, rows: 3 }, 0)).toBeUndefined();
+    expect(facingOfRow({ ...lpc, rows: 2, directions: ["front", "back"] }, 1)).toBe("north");
+  });
+});
+
+describe("rowPlacements", () => {
+  it("applies the layer offset to every row", () => {
+    expect(rowPlacements({ offset: { x: 1.4, y: -2 } }, lpc, "walk", 10)).toEqual(
+      Array(4).fill({ dx: 1, dy: -2, z: 10 })
+    );
+  });
+
+  it("applies matching overrides in order, later ones winning", () => {
+    const spec = {
+      offset: { x: 1, y: 1 },
+      overrides: [
+        { animation: "walk", offset: { x: 0, y: -1 } },
+        { animation: "walk", direction: "east" as const, z_override: 3 },
+        { direction: "north" as const, offset: { x: 2, y: 2 } },
+        { animation: "slash", z_override: 99 },
+      ],
+    };
+    expect(rowPlacements(spec, lpc, "walk", 10, 1)).toEqual([
+      { dx: 2, dy: 2, z: 10 },
+      { dx: 0, dy: -1, z: 10 },
+      { dx: 0, dy: -1, z: 10 },
+      { dx: 0, dy: -1, z: 4 },
+    ]);
+    expect(rowPlacements(spec, lpc, "idle", 10).map((p) => [p.dx, p.dy])).toEqual([[2, 2], [1, 1], [1, 1], [1, 1]]);
+  });
+});
+
+describe("shiftFrames", () => {
+  it("moves pixels within their own frame and drops what leaves it", () => {
+    const grid: GridInfo = { frame_w: 2, frame_h: 2, rows: 2, cols: 2 };
+    const W = 4, H = 4;
+    const src = Buffer.alloc(W * H * 4);
+    const set = (x: number, y: number, v: number) => src.fill(v, (y * W + x) * 4, (y * W + x) * 4 + 4);
+    set(0, 0, 1); set(1, 0, 2); set(2, 0, 3); set(0, 2, 4);
+
+    const out = shiftFrames(src, W, H, grid, [{ dx: 1, dy: 1, z: 0 }, { dx: 0, dy: 0, z: 0 }], new Set([0]));
+    const at = (x: number, y: number) => out[(y * W + x) * 4];
+    expect(at(1, 1)).toBe(1);     // frame (0,0): (0,0) → (1,1)
+    expect(at(3, 1)).toBe(3);     // frame (1,0): (2,0) → (3,1)
+    expect(at(2, 1)).toBe(0);     // (1,0) would cross into the next frame, clipped
+    expect(at(0, 2)).toBe(0);     // row 1 is not in `rows`
+    expect(out.reduce((n, v) => n + (v ? 1 : 0), 0)).toBe(8);
+  });
+});
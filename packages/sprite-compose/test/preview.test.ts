@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+
+import { encodeAnimation, resolvePreviewOptions } from "../src/preview";
+
+const COLORS: Array<[number, number, number, number]> = [[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 128]];
+
+/** 4×3 frame of one colour with a transparent top-left pixel. */
+function frame([r, g, b, a]: number[]) {
+  const data = Buffer.alloc(4 * 3 * 4);
+  for (let i = 4; i < data.length; i += 4) data.set([r, g, b, a], i);
+  return sharp(data, { raw: { width: 4, height: 3, channels: 4 } }).png().toBuffer();
+}
+
+function pngChunks(png: Buffer) {
+  const chunks: Array<{ type: string; data: Buffer; crc: number }> = [];
+  for (let at = 8; at + 8 <= png.length;) {
+    const len = png.readUInt32BE(at);
+    chunks.push({ type: png.toString("ascii", at + 4, at + 8), data: png.subarray(at + 8, at + 8 + len), crc: png.readUInt32BE(at + 8 + len) });
+    at += 12 + len;
+  }
+  return chunks;
+}
+
+async function pixel(image: Buffer, page: number, x: number, y: number) {
+  const { data, info } = await sharp(image, { page }).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * 4;
+  return [...data.subarray(i, i + 4)];
+}
+
+describe("resolvePreviewOptions", () => {
+  it("defaults to every format at scale 1 and rejects unknown formats", () => {
+    expect(resolvePreviewOptions()).toEqual({ formats: ["apng", "gif", "webp"], scale: 1 });
+    expect(resolvePreviewOptions({ formats: ["gif", "webp", "gif"], scale: 3 })).toEqual({ formats: ["gif", "webp"], scale: 3 });
+    expect(() => resolvePreviewOptions({ formats: ["mp4"] })).toThrow("invalid_preview:formats");
+    expect(() => resolvePreviewOptions({ scale: 0 })).toThrow("invalid_preview:scale");
+  });
+});
+
+describe("encodeAnimation", () => {
+  it("writes an APNG with one fcTL per frame, sequential sequence numbers and valid chunks", async () => {
+    const frames = await Promise.all(COLORS.map(frame));
+    const apng = await encodeAnimation({ frames, fps: 8, format: "apng" });
+    const chunks = pngChunks(apng);
+
+    expect(chunks.map((c) => c.type)).toEqual(["IHDR", "acTL", "fcTL", "IDAT", "fcTL", "fdAT", "fcTL", "fdAT", "IEND"]);
+    const actl = chunks[1].data;
+    expect([actl.readUInt32BE(0), actl.readUInt32BE(4)]).toEqual([3, 0]);
+    const seqs = chunks.filter((c) => c.type === "fcTL" || c.type === "fdAT").map((c) => c.data.readUInt32BE(0));
+    expect(seqs).toEqual([0, 1, 2, 3, 4]);
+    const fctl = chunks[2].data;
+    expect([fctl.readUInt32BE(4), fctl.readUInt32BE(8), fctl.readUInt16BE(20), fctl.readUInt16BE(22)]).toEqual([4, 3, 125, 1000]);
+
+    // the default image is the first frame, so plain PNG decoders still show something
+    expect(await pixel(apng, 0, 1, 1)).toEqual(COLORS[0]);
+    expect(await pixel(apng, 0, 0, 0)).toEqual([0, 0, 0, 0]);
+
+    const once = pngChunks(await encodeAnimation({ frames, fps: 8, loop: false, format: "apng" }));
+    expect(once[1].data.readUInt32BE(4)).toBe(1);
+  });
+
+  it("writes a lossless animated WebP with per-frame delays and loop count", async () => {
+    const frames = await Promise.all(COLORS.map(frame));
+    const webp = await encodeAnimation({ frames, fps: 10, format: "webp", scale: 2 });
+    expect(webp.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(webp.readUInt32LE(4)).toBe(webp.length - 8);
+
+    const meta = await sharp(webp, { animated: true }).metadata();
+    expect(meta).toMatchObject({ format: "webp", width: 8, pages: 3, pageHeight: 6, loop: 0, delay: [100, 100, 100] });
+    for (const [i, color] of COLORS.entries()) expect(await pixel(webp, i, 3, 3)).toEqual(color);
+    expect(await pixel(webp, 2, 1, 1)).toEqual([0, 0, 0, 0]);
+
+    const once = await sharp(await encodeAnimation({ frames, fps: 10, loop: false, format: "webp" }), { animated: true }).metadata();
+    expect(once.loop).toBe(1);
+  });
+
+  it("writes an animated GIF", async () => {
+    const frames = await Promise.all(COLORS.slice(0, 2).map(frame));
+    const meta = await sharp(await encodeAnimation({ frames, fps: 5, format: "gif" }), { animated: true }).metadata();
+    expect(meta).toMatchObject({ format: "gif", pages: 2, delay: [200, 200] });
+  });
+
+  it("rejects empty and mismatched frame lists", async () => {
+    await expect(encodeAnimation({ frames: [], fps: 8, format: "apng" })).rejects.toThrow("invalid_preview:no_frames");
+    const other = await sharp({ create: { width: 5, height: 3, channels: 4, background: "#000" } }).png().toBuffer();
+    await expect(encodeAnimation({ frames: [await frame(COLORS[0]), other], fps: 8, format: "webp" }))
+      .rejects.toThrow("invalid_preview:frame_size_mismatch");
+  });
+});
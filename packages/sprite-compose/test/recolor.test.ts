@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { blendTint, hexToRgb, paletteSwap, resolveRamp, RAMPS } from "../src/recolor";
+
+/** RGBA buffer from [r, g, b, a] pixels. */
+const rgba = (...px: number[][]) => Buffer.from(px.flat());
+const pixels = (buf: Buffer) => Array.from({ length: buf.length / 4 }, (_, i) => [...buf.subarray(i * 4, i * 4 + 4)]);
+
+describe("ramps", () => {
+  it("resolves names, hex lists and comma strings", () => {
+    expect(hexToRgb("#ff8000")).toEqual([255, 128, 0]);
+    expect(resolveRamp("hair.black")).toHaveLength(RAMPS["hair.black"].length);
+    expect(resolveRamp(["#000000", "ffffff"])).toEqual([[0, 0, 0], [255, 255, 255]]);
+    expect(resolveRamp("#000000, #ffffff")).toEqual([[0, 0, 0], [255, 255, 255]]);
+  });
+
+  it("rejects unknown names and bad colours", () => {
+    expect(() => resolveRamp("hair.purple")).toThrow("unknown_ramp:hair.purple");
+    expect(() => resolveRamp(["#12345"])).toThrow("invalid_ramp_color:#12345");
+    expect(() => resolveRamp("toString")).toThrow("unknown_ramp:toString");
+  });
+});
+
+describe("paletteSwap", () => {
+  it("spreads the layer's own shades over the target ramp by luminance", () => {
+    const data = rgba([200, 200, 200, 255], [20, 20, 20, 255], [100, 100, 100, 255], [20, 20, 20, 255], [9, 9, 9, 0]);
+    paletteSwap(data, { target: ["#100000", "#200000", "#300000", "#400000", "#500000"] });
+    expect(pixels(data)).toEqual([
+      [0x50, 0, 0, 255], [0x10, 0, 0, 255], [0x30, 0, 0, 255], [0x10, 0, 0, 255], [9, 9, 9, 0],
+    ]);
+  });
+
+  it("maps a single colour to the middle of the ramp", () => {
+    const data = rgba([50, 60, 70, 255]);
+    paletteSwap(data, "#000000,#111111,#222222,#333333");
+    expect(pixels(data)).toEqual([[0x11, 0x11, 0x11, 255]]);
+  });
+
+  it("with a source ramp only replaces its exact shades", () => {
+    const data = rgba([0, 0, 0, 255], [255, 255, 255, 255], [1, 2, 3, 255]);
+    paletteSwap(data, { source: ["#000000", "#ffffff"], target: ["#100000", "#200000", "#300000"] });
+    expect(pixels(data)).toEqual([[0x10, 0, 0, 255], [0x30, 0, 0, 255], [1, 2, 3, 255]]);
+  });
+});
+
+describe("blendTint", () => {
+  const base = () => rgba([0, 64, 255, 255], [200, 100, 50, 0]);
+
+  it.each([
+    ["multiply", [0, 32, 128]],
+    ["screen", [128, 160, 255]],
+    ["overlay", [0, 64, 255]],
+    ["replace", [128, 128, 128]],
+  ] as const)("%s", (mode, expected) => {
+    const data = base();
+    blendTint(data, [128, 128, 128], mode);
+    expect(pixels(data)).toEqual([[...expected, 255], [200, 100, 50, 0]]);
+  });
+});
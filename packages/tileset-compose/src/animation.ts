@@ -0,0 +1,98 @@
+// Animated tiles: F frames per slot, laid out as extra atlas columns
+// (frame f of slot i at column i % cols + f * cols, same row as frame 0).
+import type { TilesetManifest } from "./types.js";
+
+export const MAX_FRAMES = 8;
+export const DEFAULT_FRAME_DURATION = 0.15;
+export const MAX_FRAME_DURATION = 10;
+export const MAX_AMPLITUDE = 16;
+
+// scroll: the material drifts on a small circle; phase: rows ripple sideways (shimmer)
+export type AnimationMode = "scroll" | "phase";
+
+export type AnimationSettings = {
+  frames?: number;             // 2..8; 0/1 or missing disables animation
+  mode?: AnimationMode;        // default "scroll"
+  material?: "A" | "B" | "both"; // animated material (default "B", water/lava)
+  amplitude?: number;          // max texture displacement in px (default 2)
+  wavelength?: number;         // phase mode: rows per ripple period (default tileSize / 2)
+  duration?: number;           // seconds per frame (default 0.15)
+  durations?: number[];        // per-frame override
+};
+
+export type ResolvedAnimation = {
+  frames: number;
+  mode: AnimationMode;
+  material: "A" | "B" | "both";
+  amplitude: number;
+  wavelength: number;
+  durations: number[];
+};
+
+const positiveUpTo = (v: unknown, max: number) => typeof v === "number" && Number.isFinite(v) && v > 0 && v <= max;
+
+/** Returns an error code for animation settings a request may not carry, or null when they are usable. */
+export function validateAnimation(input: unknown): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "animation_must_be_object";
+  const s = input as Record<string, unknown>;
+  if (s.frames !== undefined && (!Number.isInteger(s.frames) || (s.frames as number) < 0 || (s.frames as number) > MAX_FRAMES)) return "invalid_frames";
+  if (s.mode !== undefined && s.mode !== "scroll" && s.mode !== "phase") return "invalid_mode";
+  if (s.material !== undefined && s.material !== "A" && s.material !== "B" && s.material !== "both") return "invalid_material";
+  if (s.amplitude !== undefined && !positiveUpTo(s.amplitude, MAX_AMPLITUDE)) return "invalid_amplitude";
+  if (s.wavelength !== undefined && !positiveUpTo(s.wavelength, 1024)) return "invalid_wavelength";
+  if (s.duration !== undefined && !positiveUpTo(s.duration, MAX_FRAME_DURATION)) return "invalid_duration";
+  if (s.durations !== undefined) {
+    if (!Array.isArray(s.durations) || s.durations.length > MAX_FRAMES) return "invalid_durations";
+    if (!s.durations.every((d) => positiveUpTo(d, MAX_FRAME_DURATION))) return "invalid_durations";
+  }
+  return null;
+}
+
+/** Normalised animation settings, or null when the tileset is static. */
+export function resolveAnimation(settings: AnimationSettings | undefined, tileSize: number): ResolvedAnimation | null {
+  const frames = Math.min(MAX_FRAMES, Math.floor(Number(settings?.frames ?? 0)) || 0);
+  if (frames < 2) return null;
+  const base = Number(settings?.duration);
+  const fallback = Number.isFinite(base) && base > 0 ? base : DEFAULT_FRAME_DURATION;
+  const durations = Array.from({ length: frames }, (_, f) => {
+    const d = Number(settings?.durations?.[f]);
+    return Number.isFinite(d) && d > 0 ? d : fallback;
+  });
+  const amplitude = Number(settings?.amplitude);
+  const wavelength = Number(settings?.wavelength);
+  return {
+    frames,
+    mode: settings?.mode === "phase" ? "phase" : "scroll",
+    material: settings?.material === "A" || settings?.material === "both" ? settings.material : "B",
+    amplitude: Number.isFinite(amplitude) && amplitude > 0 ? amplitude : 2,
+    wavelength: Number.isFinite(wavelength) && wavelength > 0 ? wavelength : Math.max(2, tileSize / 2),
+    durations,
+  };
+}
+
+/** File-name tag for a frame: "" for frame 0, "_f1", "_f2", … for the rest. */
+export function frameTag(f: number): string {
+  return f > 0 ? `_f${f}` : "";
+}
+
+/**
+ * Texture displacement for frame f at tile pixel row y. Both modes are periodic in f, so the
+ * last frame flows back into frame 0, and frame 0 is always the unshifted (static) tile.
+ */
+export function frameTextureOffset(anim: ResolvedAnimation | null, f: number, y: number): { x: number; y: number } {
+  if (!anim || f <= 0) return { x: 0, y: 0 };
+  const t = (2 * Math.PI * f) / anim.frames;
+  if (anim.mode === "phase") {
+    const p = (2 * Math.PI * y) / anim.wavelength;
+    return { x: Math.round(anim.amplitude * (Math.sin(t + p) - Math.sin(p))), y: 0 };
+  }
+  return { x: Math.round(anim.amplitude * (Math.cos(t) - 1)), y: Math.round(anim.amplitude * Math.sin(t)) };
+}
+
+export function animatesMaterial(anim: ResolvedAnimation | null, m: "A" | "B"): boolean {
+  return !!anim && (anim.material === "both" || anim.material === m);
+}
+
+export function animationBlock(anim: ResolvedAnimation | null): Pick<TilesetManifest, "animation"> {
+  return anim ? { animation: { frames: anim.frames, durations: anim.durations, mode: anim.mode, material: anim.material, layout: "columns" } } : {};
+}
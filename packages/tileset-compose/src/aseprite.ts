@@ -0,0 +1,48 @@
+// Aseprite frames/tags for a stitched tileset sheet: one tag per variant and animation frame block,
+// one frame per slot, and a section per tile file so an import can rewrite tiles_32/ as well.
+import path from "node:path";
+import type { TilesetManifest } from "./types.js";
+import { variantTag } from "./variants.js";
+import { frameTag } from "./animation.js";
+
+// Same shapes as @pixelart/sprite-compose's AsepriteFrameSpec / AsepriteTag / AsepriteSection
+export type TilesetAsepriteLayout = {
+  image: string;                         // sheet file name, relative to the tileset dir
+  size: { w: number; h: number };
+  frames: Array<{ name: string; x: number; y: number; w: number; h: number; duration: number }>;
+  tags: Array<{ name: string; from: number; to: number }>;
+  sections: Array<{ file: string; x: number; y: number; w: number; h: number }>;
+};
+
+/**
+ * Sheet layout from the manifest: tags "tiles", "tiles_v1"… (stacked alternates) and "tiles_f1"…
+ * (animation frames in the column blocks to the right); frame `n` of a tag is slot n, in tile id order.
+ */
+export function tilesetAsepriteLayout(manifest: TilesetManifest): TilesetAsepriteLayout {
+  const { cols, rows, tile } = manifest.grid;
+  const variants = manifest.variants?.count ?? 1;
+  const frameCount = manifest.animation?.frames ?? 1;
+  const durations = manifest.animation?.durations ?? [];
+  const layout: TilesetAsepriteLayout = {
+    image: manifest.sheet.file,
+    size: { w: cols * tile * frameCount, h: rows * tile * variants },
+    frames: [],
+    tags: [],
+    sections: [],
+  };
+
+  const tiles = [...manifest.tiles].sort((a, b) => a.id - b.id);
+  for (let f = 0; f < frameCount; f++) for (let k = 0; k < variants; k++) {
+    const tag = `tiles${variantTag(k)}${frameTag(f)}`;
+    const from = layout.frames.length;
+    tiles.forEach((t, i) => {
+      const rect = { x: (i % cols + f * cols) * tile, y: (Math.floor(i / cols) + k * rows) * tile, w: tile, h: tile };
+      layout.frames.push({ name: `${tag} ${i}`, ...rect, duration: Math.round(1000 * (durations[f] ?? 0.1)) });
+      // the manifest only lists files for alternates of frame 0 and frames of the base tile
+      const file = f === 0 ? (k === 0 ? t.file : t.alternates?.find((a) => a.variant === k)?.file) : k === 0 ? t.frames?.[f - 1] : undefined;
+      if (file) layout.sections.push({ file: path.posix.normalize(file), ...rect });
+    });
+    if (layout.frames.length > from) layout.tags.push({ name: tag, from, to: layout.frames.length - 1 });
+  }
+  return layout;
+}
@@ -0,0 +1,108 @@
+// Colour spaces and perceptual distances used by palette quantization
+import type { RGB } from "./types.js";
+
+export type Vec3 = [number, number, number];
+
+// rgb: squared sRGB Euclidean; lab76: CIELAB ΔE*76; lab2000: CIEDE2000; oklab: Euclidean in OKLab
+export type ColorDistance = "rgb" | "lab76" | "lab2000" | "oklab";
+
+export const COLOR_DISTANCES: ColorDistance[] = ["rgb", "lab76", "lab2000", "oklab"];
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+/** sRGB (0..255) → CIELAB, D65 white. */
+export function rgbToLab([r, g, b]: RGB): Vec3 {
+  const R = toLinear(r), G = toLinear(g), B = toLinear(b);
+  const x = (0.4124564 * R + 0.3575761 * G + 0.1804375 * B) / 0.95047;
+  const y = 0.2126729 * R + 0.7151522 * G + 0.0721750 * B;
+  const z = (0.0193339 * R + 0.1191920 * G + 0.9503041 * B) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x), fy = f(y), fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/** sRGB (0..255) → OKLab (Björn Ottosson, 2020). */
+export function rgbToOklab([r, g, b]: RGB): Vec3 {
+  const R = toLinear(r), G = toLinear(g), B = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * R + 0.5363325363 * G + 0.0514459929 * B);
+  const m = Math.cbrt(0.2119034982 * R + 0.6806995451 * G + 0.1073969566 * B);
+  const s = Math.cbrt(0.0883024619 * R + 0.2817188376 * G + 0.6299787005 * B);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+const sq3 = (a: Vec3, b: Vec3) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+/** CIEDE2000 ΔE between two Lab colours (kL = kC = kH = 1). */
+export function deltaE2000(a: Vec3, b: Vec3): number {
+  const [L1, a1, b1] = a, [L2, a2, b2] = b;
+  const rad = Math.PI / 180;
+  const C1 = Math.hypot(a1, b1), C2 = Math.hypot(a2, b2);
+  const Cm = (C1 + C2) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Cm ** 7 / (Cm ** 7 + 25 ** 7)));
+  const a1p = (1 + G) * a1, a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1), C2p = Math.hypot(a2p, b2);
+  const hue = (x: number, y: number) => (x === 0 && y === 0 ? 0 : (Math.atan2(y, x) / rad + 360) % 360);
+  const h1p = hue(a1p, b1), h2p = hue(a2p, b2);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lpm = (L1 + L2) / 2;
+  const Cpm = (C1p + C2p) / 2;
+  let hpm = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpm /= 2;
+    else hpm = h1p + h2p < 360 ? (hpm + 360) / 2 : (hpm - 360) / 2;
+  }
+  const T = 1 - 0.17 * Math.cos((hpm - 30) * rad) + 0.24 * Math.cos(2 * hpm * rad)
+    + 0.32 * Math.cos((3 * hpm + 6) * rad) - 0.20 * Math.cos((4 * hpm - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hpm - 275) / 25) ** 2));
+  const Rc = 2 * Math.sqrt(Cpm ** 7 / (Cpm ** 7 + 25 ** 7));
+  const Sl = 1 + (0.015 * (Lpm - 50) ** 2) / Math.sqrt(20 + (Lpm - 50) ** 2);
+  const Sc = 1 + 0.045 * Cpm;
+  const Sh = 1 + 0.015 * Cpm * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+  return Math.sqrt((dLp / Sl) ** 2 + (dCp / Sc) ** 2 + (dHp / Sh) ** 2 + Rt * (dCp / Sc) * (dHp / Sh));
+}
+
+/**
+ * Nearest-palette-index lookup for one distance metric. Palette colours are converted once and
+ * results are cached per input colour (generated art repeats colours heavily).
+ */
+export function createColorMatcher(palette: RGB[], distance: ColorDistance = "rgb"): (r: number, g: number, b: number) => number {
+  const convert: (c: RGB) => Vec3 =
+    distance === "oklab" ? rgbToOklab : distance === "lab76" || distance === "lab2000" ? rgbToLab : (c) => [c[0], c[1], c[2]];
+  const dist = distance === "lab2000" ? deltaE2000 : sq3;
+  const pal = palette.map(convert);
+  const cache = new Map<number, number>();
+  return (r, g, b) => {
+    r = Math.max(0, Math.min(255, Math.round(r)));
+    g = Math.max(0, Math.min(255, Math.round(g)));
+    b = Math.max(0, Math.min(255, Math.round(b)));
+    const key = (r << 16) | (g << 8) | b;
+    const hit = cache.get(key);
+    if (hit !== undefined) return hit;
+    const c = convert([r, g, b]);
+    let best = 0, bestD = Infinity;
+    for (let i = 0; i < pal.length; i++) {
+      const d = dist(c, pal[i]);
+      if (d < bestD) { bestD = d; best = i; }
+    }
+    cache.set(key, best);
+    return best;
+  };
+}
@@ -3,19 +3,29 @@ import fs from "node:fs/promises";
 import sharp from "sharp";
 import { createLogger } from "@pixelart/log";
 import { generatePortraitOpenAI } from "@pixelart/adapters"; // generic image generate
-import { loadPromptDictionary, loadMaskDictionary, loadCoast16PromptDictionary } from "./promptLoader.js";
-import { quantizeToPalette } from "./quantize.js";
+import { loadPromptDictionary, loadMaskDictionary, loadCoast16PromptDictionary, loadPatternPrompts } from "./promptLoader.js";
+import { quantizeToPalette, resolveQuantizeOptions, type ResolvedQuantize } from "./quantize.js";
 import { writeManifest, promptHash } from "./manifest.js";
 import type {
   PromptDictionary, MaskDictionary, TilesetComposeOptions, TilesetComposeResult,
   TilesetManifest, RGB, MaskFirstOptions
 } from "./types.js";
-import { ROMAN_STEAMPUNK_32 } from "./palettes.js";
+import { resolvePaletteColors } from "./palettes.js";
+import {
+  resolveVariantWeights, variantTag, variantPromptLine, stitchVariantSheet, variantFields, variantsBlock,
+} from "./variants.js";
+import type { TilesetPattern } from "./patterns/registry.js";
 
 const log = createLogger("@tileset/generator");
 
+// Explicit colors win; otherwise the named palette (throws `unknown_palette:<name>`)
 function resolvePalette(opt: TilesetComposeOptions): RGB[] {
-  return (opt.paletteRGB && opt.paletteRGB.length) ? opt.paletteRGB : ROMAN_STEAMPUNK_32;
+  return (opt.paletteRGB && opt.paletteRGB.length) ? opt.paletteRGB : resolvePaletteColors(opt.paletteName);
+}
+
+// Distance/dither from the compose options; recorded in the manifest so outputs are reproducible
+function resolveQuantize(opt: TilesetComposeOptions): ResolvedQuantize {
+  return resolveQuantizeOptions({ distance: opt.colorDistance, dither: opt.dither, ditherStrength: opt.ditherStrength });
 }
 
 async function ensureDir(p: string) {
@@ -40,6 +50,7 @@ export async function generateBlob47Tileset(params: {
   const ROWS = options.sheetRows ?? 6;
   const transparentBG = options.transparentBG !== false;
   const quant = options.quantize !== false;
+  const qopts = resolveQuantize(options);
 
   await ensureDir(outDir);
   const rawDir = path.join(outDir, "raw");
@@ -48,53 +59,47 @@ export async function generateBlob47Tileset(params: {
   await ensureDir(tilesDir);
 
   const global = dict.global_preamble.trim();
+  const weights = resolveVariantWeights(options.variants, options.variantWeights);
 
-  // 1) generate 47 images (per-tile)
-  const tileOut: string[] = [];
+  // 1) generate 47 images (per-tile), plus reprompted alternates when variants > 1
+  const variantOut: string[][] = weights.map(() => []);
   for (const spec of dict.tiles.slice(0, 47)) {
-    const prompt = `${global}\n${spec.prompt}\nCanvas must be exactly ${size}.`;
-    const buf = await generatePortraitOpenAI({
-      prompt,
-      size,                                   // uses your adapters normalizeSize()
-      background: transparentBG ? "transparent" : undefined
-    });
-
-    const rawPath = path.join(rawDir, `${spec.id}_${spec.name}.png`);
-    await fs.writeFile(rawPath, buf);
-
-    let processed = buf;
-    if (quant) processed = await quantizeToPalette(processed, palette);
-    processed = await downscaleNearest(processed, tile, tile);
-
-    const tilePath = path.join(tilesDir, `${spec.id}_${spec.name}_32.png`);
-    await fs.writeFile(tilePath, processed);
-    tileOut.push(tilePath);
-    log.info({ id: spec.id, name: spec.name, bytes: processed.length }, "tile.done");
+    for (let k = 0; k < weights.length; k++) {
+      const prompt = [`${global}\n${spec.prompt}`, variantPromptLine(k, weights.length), `Canvas must be exactly ${size}.`]
+        .filter(Boolean)
+        .join("\n");
+      const buf = await generatePortraitOpenAI({
+        prompt,
+        size,                                   // uses your adapters normalizeSize()
+        background: transparentBG ? "transparent" : undefined
+      });
+
+      const rawPath = path.join(rawDir, `${spec.id}_${spec.name}${variantTag(k)}.png`);
+      await fs.writeFile(rawPath, buf);
+
+      let processed = buf;
+      if (quant) processed = await quantizeToPalette(processed, palette, qopts);
+      processed = await downscaleNearest(processed, tile, tile);
+
+      const tilePath = path.join(tilesDir, `${spec.id}_${spec.name}${variantTag(k)}_32.png`);
+      await fs.writeFile(tilePath, processed);
+      variantOut[k].push(tilePath);
+      log.info({ id: spec.id, name: spec.name, variant: k, bytes: processed.length }, "tile.done");
+    }
   }
+  const tileOut = variantOut[0];
 
-  // 2) stitch 8×6 sheet (slot 48 empty)
-  const sheetW = COLS * tile, sheetH = ROWS * tile;
-  const composites: sharp.OverlayOptions[] = [];
-  for (let i = 0; i < 47; i++) {
-    const row = Math.floor(i / COLS), col = i % COLS;
-    composites.push({
-      input: tileOut[i],
-      left: col * tile,
-      top: row * tile
-    });
-  }
+  // 2) stitch 8×6 sheet (slot 48 empty), alternates stacked below
   const sheetPath = path.join(outDir, `${dict.material}_blob47_${tile}.png`);
-  await sharp({ create: { width: sheetW, height: sheetH, channels: 4, background: { r:0,g:0,b:0,alpha:0 } } })
-    .composite(composites)
-    .png()
-    .toFile(sheetPath);
+  await stitchVariantSheet(sheetPath, variantOut, COLS, ROWS, tile);
 
   // 3) manifest
   const tilesForManifest = dict.tiles.slice(0, 47).map((t, idx) => ({
     id: t.id,
     name: t.name,
     file: path.relative(outDir, tileOut[idx]).replaceAll("\\", "/"),
-    promptHash: promptHash(`${global}\n${t.prompt}`)
+    promptHash: promptHash(`${global}\n${t.prompt}`),
+    ...variantFields(outDir, variantOut, weights, idx),
   }));
 
   const manifest: TilesetManifest = {
@@ -102,16 +107,17 @@ export async function generateBlob47Tileset(params: {
     material: String(dict.material),
     engine_order: "blob47",
     grid: { cols: COLS, rows: ROWS, tile },
-    palette: { name: options.paletteName, rgb: resolvePalette(options) },
+    palette: { name: options.paletteName, rgb: palette, ...(quant ? { quantize: qopts } : {}) },
     openai: { model: "gpt-image-1", size, transparent: transparentBG },
     tiles: tilesForManifest,
-    sheet: { file: path.basename(sheetPath), layout: "row-major" }
+    sheet: { file: path.basename(sheetPath), layout: "row-major" },
+    ...variantsBlock(weights),
   };
 
   const manifestPath = path.join(outDir, `${dict.material}_blob47_manifest.json`);
   await writeManifest(manifestPath, manifest);
 
-  return { sheetPath, tilePaths: tileOut, manifestPath };
+  return { sheetPath, tilePaths: variantOut.flat(), manifestPath };
 }
 
 /**
@@ -172,7 +178,7 @@ export async function generateBlob47MaskFirst(params: {
       .toBuffer();
 
     // TODO (optional): add 1px inside outline along mask edge in code.
-    const q = await quantizeToPalette(composed, palette);
+    const q = await quantizeToPalette(composed, palette, resolveQuantize(options));
     const small = await downscaleNearest(q, tile, tile);
 
     const tilePath = path.join(tilesDir, `${i+1}_${maskDict.tiles[i].name}_32.png`);
@@ -197,7 +203,7 @@ export async function generateBlob47MaskFirst(params: {
     material: "mask-first",
     engine_order: "blob47",
     grid: { cols: COLS, rows: ROWS, tile },
-    palette: { name: options.paletteName, rgb: palette },
+    palette: { name: options.paletteName, rgb: palette, quantize: resolveQuantize(options) },
     openai: { model: "gpt-image-1", size, transparent: true },
     tiles: maskDict.tiles.slice(0, 47).map((t, idx) => ({
       id: t.id, name: t.name, file: path.relative(outDir, tileOut[idx]).replaceAll("\\","/"),
@@ -227,6 +233,7 @@ export async function generateCoast16Tileset(params: {
   const ROWS = options.sheetRows ?? 4;
   const transparentBG = options.transparentBG !== false;
   const quant = options.quantize !== false;
+  const qopts = resolveQuantize(options);
 
   await ensureDir(outDir);
   const rawDir = path.join(outDir, "raw");
@@ -239,44 +246,41 @@ export async function generateCoast16Tileset(params: {
   const abLine = ab ? `[MATERIALS] A=${ab.A.name}; B=${ab.B.name}.` : "";
   const travLine = ab ? `[TRAVERSAL] ${ab.A.name}: ${(ab.A.vehicles ?? []).join(", ") || "none"}; ${ab.B.name}: ${(ab.B.vehicles ?? []).join(", ") || "none"}.` : "";
 
-  // 1) generate 16 images (per-tile)
-  const tileOut: string[] = [];
+  const weights = resolveVariantWeights(options.variants, options.variantWeights);
+
+  // 1) generate 16 images (per-tile), plus reprompted alternates when variants > 1
+  const variantOut: string[][] = weights.map(() => []);
   for (const spec of dict.tiles.slice(0, 16)) {
-    const prompt = [global, abLine, travLine, spec.prompt, `Canvas must be exactly ${size}.`]
-      .filter(Boolean)
-      .join("\n");
-    const buf = await generatePortraitOpenAI({ prompt, size, background: transparentBG ? "transparent" : undefined });
-    const rawPath = path.join(rawDir, `${spec.id}_${spec.name}.png`);
-    await fs.writeFile(rawPath, buf);
-
-    let processed = buf;
-    if (quant) processed = await quantizeToPalette(processed, palette);
-    processed = await downscaleNearest(processed, tile, tile);
-    const tilePath = path.join(tilesDir, `${spec.id}_${spec.name}_32.png`);
-    await fs.writeFile(tilePath, processed);
-    tileOut.push(tilePath);
-    log.info({ id: spec.id, name: spec.name, bytes: processed.length }, "coast16.tile.done");
+    for (let k = 0; k < weights.length; k++) {
+      const prompt = [global, abLine, travLine, spec.prompt, variantPromptLine(k, weights.length), `Canvas must be exactly ${size}.`]
+        .filter(Boolean)
+        .join("\n");
+      const buf = await generatePortraitOpenAI({ prompt, size, background: transparentBG ? "transparent" : undefined });
+      const rawPath = path.join(rawDir, `${spec.id}_${spec.name}${variantTag(k)}.png`);
+      await fs.writeFile(rawPath, buf);
+
+      let processed = buf;
+      if (quant) processed = await quantizeToPalette(processed, palette, qopts);
+      processed = await downscaleNearest(processed, tile, tile);
+      const tilePath = path.join(tilesDir, `${spec.id}_${spec.name}${variantTag(k)}_32.png`);
+      await fs.writeFile(tilePath, processed);
+      variantOut[k].push(tilePath);
+      log.info({ id: spec.id, name: spec.name, variant: k, bytes: processed.length }, "coast16.tile.done");
+    }
   }
+  const tileOut = variantOut[0];
 
-  // 2) stitch 4×4 sheet
-  const sheetW = COLS * tile, sheetH = ROWS * tile;
-  const composites: sharp.OverlayOptions[] = [];
-  for (let i = 0; i < 16; i++) {
-    const row = Math.floor(i / COLS), col = i % COLS;
-    composites.push({ input: tileOut[i], left: col * tile, top: row * tile });
-  }
+  // 2) stitch 4×4 sheet, alternates stacked below
   const sheetPath = path.join(outDir, `coast16_${tile}.png`);
-  await sharp({ create: { width: sheetW, height: sheetH, channels: 4, background: { r:0,g:0,b:0,alpha:0 } } })
-    .composite(composites)
-    .png()
-    .toFile(sheetPath);
+  await stitchVariantSheet(sheetPath, variantOut, COLS, ROWS, tile);
 
   // 3) manifest
   const tilesForManifest = dict.tiles.slice(0, 16).map((t, idx) => ({
     id: t.id,
     name: t.name,
     file: path.relative(outDir, tileOut[idx]).replaceAll("\\", "/"),
-    promptHash: promptHash(`${global}\n${abLine}\n${travLine}\n${t.prompt}`)
+    promptHash: promptHash(`${global}\n${abLine}\n${travLine}\n${t.prompt}`),
+    ...variantFields(outDir, variantOut, weights, idx),
   }));
 
   const manifest: TilesetManifest = {
@@ -284,14 +288,97 @@ export async function generateCoast16Tileset(params: {
     material: ab ? `${ab.A.name}+${ab.B.name}` : "coast16",
     engine_order: "coast16",
     grid: { cols: COLS, rows: ROWS, tile },
-    palette: { name: options.paletteName, rgb: palette },
+    palette: { name: options.paletteName, rgb: palette, ...(quant ? { quantize: qopts } : {}) },
     openai: { model: "gpt-image-1", size, transparent: transparentBG },
     tiles: tilesForManifest,
     sheet: { file: path.basename(sheetPath), layout: "row-major" },
     materialsAB: ab,
+    ...variantsBlock(weights),
   };
 
   const manifestPath = path.join(outDir, `coast16_manifest.json`);
   await writeManifest(manifestPath, manifest);
-  return { sheetPath, tilePaths: tileOut, manifestPath };
+  return { sheetPath, tilePaths: variantOut.flat(), manifestPath };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Any registered pattern — one AI image per slot, stitched on the pattern grid
+// ──────────────────────────────────────────────────────────────────────────────
+export async function generatePatternTileset(params: {
+  pattern: TilesetPattern;
+  options: TilesetComposeOptions;
+  variant?: string;
+}): Promise<TilesetComposeResult> {
+  const { pattern, options, variant } = params;
+  const dict = await loadPatternPrompts(pattern, variant);
+  const palette = resolvePalette(options);
+
+  const outDir = options.outDir;
+  const size = options.size ?? "1024x1024";
+  const tile = options.tileSize ?? pattern.tileSize;
+  const COLS = options.sheetCols ?? pattern.grid.cols;
+  const ROWS = options.sheetRows ?? pattern.grid.rows;
+  const transparentBG = options.transparentBG !== false;
+  const quant = options.quantize !== false;
+  const qopts = resolveQuantize(options);
+
+  await ensureDir(outDir);
+  const rawDir = path.join(outDir, "raw");
+  const tilesDir = path.join(outDir, "tiles_32");
+  await ensureDir(rawDir);
+  await ensureDir(tilesDir);
+
+  const global = dict.global_preamble.trim();
+  const ab = options.materialsAB;
+  const abLine = ab ? `[MATERIALS] A=${ab.A.name}; B=${ab.B.name}.` : "";
+
+  const weights = resolveVariantWeights(options.variants, options.variantWeights);
+
+  // 1) generate one image per slot (and per alternate)
+  const specs = dict.tiles.slice(0, Math.min(pattern.slots, COLS * ROWS));
+  const variantOut: string[][] = weights.map(() => []);
+  for (const spec of specs) {
+    for (let k = 0; k < weights.length; k++) {
+      const prompt = [global, abLine, spec.prompt, variantPromptLine(k, weights.length), `Canvas must be exactly ${size}.`].filter(Boolean).join("\n");
+      const buf = await generatePortraitOpenAI({ prompt, size, background: transparentBG ? "transparent" : undefined });
+      await fs.writeFile(path.join(rawDir, `${spec.id}_${spec.name}${variantTag(k)}.png`), buf);
+
+      let processed = buf;
+      if (quant) processed = await quantizeToPalette(processed, palette, qopts);
+      processed = await downscaleNearest(processed, tile, tile);
+      const tilePath = path.join(tilesDir, `${spec.id}_${spec.name}${variantTag(k)}_32.png`);
+      await fs.writeFile(tilePath, processed);
+      variantOut[k].push(tilePath);
+      log.info({ pattern: pattern.id, id: spec.id, name: spec.name, variant: k, bytes: processed.length }, "pattern.tile.done");
+    }
+  }
+  const tileOut = variantOut[0];
+
+  // 2) stitch on the pattern grid (row-major), alternates stacked below
+  const sheetPath = path.join(outDir, `${pattern.id}_${tile}.png`);
+  await stitchVariantSheet(sheetPath, variantOut, COLS, ROWS, tile);
+
+  // 3) manifest
+  const manifest: TilesetManifest = {
+    schema: "tileset.manifest/1.0",
+    material: ab ? `${ab.A.name}+${ab.B.name}` : String(dict.material ?? pattern.id),
+    engine_order: pattern.id,
+    grid: { cols: COLS, rows: ROWS, tile },
+    palette: { name: options.paletteName, rgb: palette, ...(quant ? { quantize: qopts } : {}) },
+    openai: { model: "gpt-image-1", size, transparent: transparentBG },
+    tiles: specs.map((t, idx) => ({
+      id: t.id,
+      name: t.name,
+      file: path.relative(outDir, tileOut[idx]).replaceAll("\\", "/"),
+      promptHash: promptHash(`${global}\n${abLine}\n${t.prompt}`),
+      ...variantFields(outDir, variantOut, weights, idx),
+    })),
+    sheet: { file: path.basename(sheetPath), layout: "row-major" },
+    materialsAB: ab,
+    ...variantsBlock(weights),
+  };
+
+  const manifestPath = path.join(outDir, `${pattern.id}_manifest.json`);
+  await writeManifest(manifestPath, manifest);
+  return { sheetPath, tilePaths: variantOut.flat(), manifestPath };
 }
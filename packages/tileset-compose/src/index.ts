@@ -1,3 +1,28 @@
-export { PATTERNS, listPatterns, hasPattern, type TilesetPatternId } from "./patterns/registry.js";
-export { generateBlob47Tileset, generateBlob47MaskFirst, generateCoast16Tileset } from "./generator.js";
+export {
+  PATTERNS, listPatterns, hasPattern, getPattern, isBuiltinPattern, isValidPatternId, validatePattern, registerPattern, unregisterPattern,
+  type TilesetPatternId, type BuiltinPatternId, type TilesetPattern, type PatternSlot,
+} from "./patterns/registry.js";
+export { loadUserPatterns, saveUserPattern, deleteUserPattern } from "./patterns/userPatterns.js";
+export {
+  patternHandler,
+  type PatternHandler, type PatternRulesInput, type ProceduralInputs, type TilesetGenerateMode,
+} from "./patterns/handlers.js";
+export { loadPatternPrompts, patternDictPath } from "./promptLoader.js";
+export { generateBlob47Tileset, generateBlob47MaskFirst, generateCoast16Tileset, generatePatternTileset } from "./generator.js";
 export { generateCoast16Procedural } from "./procedural/coast16.js";
+export { generateBlob47Procedural } from "./procedural/blob47.js";
+export type { TilesetComposeOptions, TilesetComposeResult, MaterialsAB } from "./types.js";
+export { validateAnimation, MAX_FRAMES, type AnimationSettings } from "./animation.js";
+export { tilesetAsepriteLayout, type TilesetAsepriteLayout } from "./aseprite.js";
+export {
+  ROMAN_STEAMPUNK_32, DEFAULT_PALETTE_ID, MAX_PALETTE_COLORS, BUILTIN_PALETTES,
+  listPalettes, hasPalette, getPalette, isBuiltinPalette, validatePalette, registerPalette, unregisterPalette, resolvePaletteColors,
+  type Palette, type PaletteSource,
+} from "./palettes.js";
+export { parsePalette, parseGpl, parseHex, parsePal, detectPaletteFormat, rgbToHex, type PaletteFormat } from "./paletteFormats.js";
+export { loadUserPalettes, saveUserPalette, deleteUserPalette } from "./userPalettes.js";
+export {
+  quantizeToPalette, nearestColor, resolveQuantizeOptions, DITHER_MODES,
+  type DitherMode, type QuantizeOptions, type ResolvedQuantize,
+} from "./quantize.js";
+export { COLOR_DISTANCES, rgbToLab, rgbToOklab, deltaE2000, createColorMatcher, type ColorDistance } from "./color.js";
@@ -0,0 +1,87 @@
+// Palette file formats: GIMP .gpl, Lospec .hex and JASC .pal
+import type { RGB } from "./types.js";
+
+export type PaletteFormat = "gpl" | "hex" | "pal";
+
+export type ParsedPalette = { name?: string; colors: RGB[] };
+
+const channel = (s: string) => {
+  const n = Number(s);
+  return Number.isInteger(n) && n >= 0 && n <= 255 ? n : null;
+};
+
+function rgbTriple(parts: string[]): RGB | null {
+  if (parts.length < 3) return null;
+  const [r, g, b] = parts.slice(0, 3).map(channel);
+  return r === null || g === null || b === null ? null : [r, g, b];
+}
+
+/** GIMP palette: "GIMP Palette" header, optional Name:/Columns:, then "r g b [label]" rows. */
+export function parseGpl(text: string): ParsedPalette {
+  const lines = text.split(/\r?\n/);
+  if (!/^GIMP Palette\s*$/i.test(lines[0]?.trim() ?? "")) throw new Error("invalid_palette:missing_gpl_header");
+  let name: string | undefined;
+  const colors: RGB[] = [];
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const meta = /^(Name|Columns):\s*(.*)$/i.exec(line);
+    if (meta) {
+      if (meta[1].toLowerCase() === "name") name = meta[2].trim() || undefined;
+      continue;
+    }
+    const rgb = rgbTriple(line.split(/\s+/));
+    if (!rgb) throw new Error(`invalid_palette:bad_gpl_row:${line.slice(0, 32)}`);
+    colors.push(rgb);
+  }
+  return { name, colors };
+}
+
+/** Lospec hex list: one RRGGBB per line, "#" optional. */
+export function parseHex(text: string): ParsedPalette {
+  const colors: RGB[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim().replace(/^#/, "");
+    if (!line) continue;
+    if (!/^[0-9a-f]{6}$/i.test(line)) throw new Error(`invalid_palette:bad_hex_row:${line.slice(0, 32)}`);
+    colors.push([parseInt(line.slice(0, 2), 16), parseInt(line.slice(2, 4), 16), parseInt(line.slice(4, 6), 16)]);
+  }
+  return { colors };
+}
+
+/** JASC-PAL: header, version "0100", color count, then "r g b" rows. */
+export function parsePal(text: string): ParsedPalette {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines[0]?.toUpperCase() !== "JASC-PAL") throw new Error("invalid_palette:missing_pal_header");
+  const count = Number(lines[2]);
+  if (!Number.isInteger(count) || count < 0) throw new Error("invalid_palette:bad_pal_count");
+  const colors: RGB[] = [];
+  for (const line of lines.slice(3, 3 + count)) {
+    const rgb = rgbTriple(line.split(/\s+/));
+    if (!rgb) throw new Error(`invalid_palette:bad_pal_row:${line.slice(0, 32)}`);
+    colors.push(rgb);
+  }
+  if (colors.length !== count) throw new Error("invalid_palette:pal_count_mismatch");
+  return { colors };
+}
+
+/** Format from a file name's extension, falling back to the content's header. */
+export function detectPaletteFormat(text: string, fileName?: string): PaletteFormat | null {
+  const ext = fileName?.toLowerCase().match(/\.(gpl|hex|pal)$/)?.[1];
+  if (ext) return ext as PaletteFormat;
+  const head = text.trimStart().slice(0, 16).toUpperCase();
+  if (head.startsWith("GIMP PALETTE")) return "gpl";
+  if (head.startsWith("JASC-PAL")) return "pal";
+  if (/^#?[0-9a-f]{6}$/i.test(text.trim().split(/\r?\n/)[0]?.trim() ?? "")) return "hex";
+  return null;
+}
+
+export function parsePalette(text: string, format: PaletteFormat): ParsedPalette {
+  if (format === "gpl") return parseGpl(text);
+  if (format === "pal") return parsePal(text);
+  return parseHex(text);
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return `#${[r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+}
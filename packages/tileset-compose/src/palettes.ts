@@ -18,3 +18,93 @@ export const ROMAN_STEAMPUNK_32: RGB[] = [
   // Utility (4)
   [26,15,13],[64,40,40],[120,72,72],[255,255,255]
 ];
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Palette registry: built-ins plus user palettes loaded from disk (see userPalettes.ts)
+// ──────────────────────────────────────────────────────────────────────────────
+export type PaletteSource = "builtin" | "json" | "gpl" | "hex" | "pal";
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: RGB[];
+  builtin?: boolean;
+  source?: PaletteSource;     // format the palette was imported from
+}
+
+export const DEFAULT_PALETTE_ID = "roman_steampunk";
+export const MAX_PALETTE_COLORS = 256;
+
+export const BUILTIN_PALETTES: Record<string, Palette> = {
+  roman_steampunk: { id: "roman_steampunk", name: "Roman Steampunk 32", colors: ROMAN_STEAMPUNK_32, builtin: true, source: "builtin" },
+};
+
+const USER_PALETTES = new Map<string, Palette>();
+const SAFE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export function listPalettes(): Palette[] { return [...Object.values(BUILTIN_PALETTES), ...USER_PALETTES.values()]; }
+export function isBuiltinPalette(id: string): boolean { return Object.hasOwn(BUILTIN_PALETTES, id); }
+export function hasPalette(id: string): boolean { return isBuiltinPalette(id) || USER_PALETTES.has(id); }
+export function getPalette(id: string): Palette | undefined {
+  return isBuiltinPalette(id) ? BUILTIN_PALETTES[id] : USER_PALETTES.get(id);
+}
+
+/** Returns an error code for an invalid user palette, or null when it can be registered. */
+export function validatePalette(def: any): string | null {
+  if (!def || typeof def !== "object") return "palette_must_be_object";
+  if (typeof def.id !== "string" || !SAFE_ID.test(def.id)) return "invalid_id";
+  if (isBuiltinPalette(def.id)) return "builtin_palette_id";
+  if (def.name !== undefined && typeof def.name !== "string") return "invalid_name";
+  if (!Array.isArray(def.colors) || def.colors.length < 2) return "too_few_colors";
+  if (def.colors.length > MAX_PALETTE_COLORS) return "too_many_colors";
+  const ok = (c: any) => Array.isArray(c) && c.length === 3 && c.every((v: any) => Number.isInteger(v) && v >= 0 && v <= 255);
+  if (!def.colors.every(ok)) return "invalid_color";
+  return null;
+}
+
+/** Validates a user palette without registering it. Throws `invalid_palette:<code>` on bad input. */
+export function createPalette(def: any): Palette {
+  const err = validatePalette(def);
+  if (err) throw new Error(`invalid_palette:${err}`);
+  return {
+    id: def.id,
+    name: typeof def.name === "string" && def.name.trim() ? def.name.trim() : def.id,
+    colors: def.colors.map((c: RGB) => [c[0], c[1], c[2]] as RGB),
+    builtin: false,
+    source: def.source,
+  };
+}
+
+/** Validates and registers (or replaces) a user palette. Throws `invalid_palette:<code>` on bad input. */
+export function registerPalette(def: any): Palette {
+  const palette = createPalette(def);
+  USER_PALETTES.set(palette.id, palette);
+  return palette;
+}
+
+export function unregisterPalette(id: string): boolean {
+  return USER_PALETTES.delete(id);
+}
+
+export function clearUserPalettes(): void {
+  USER_PALETTES.clear();
+}
+
+/** Replaces every user palette in one step, so lookups never see a partially loaded registry. */
+export function replaceUserPalettes(palettes: Iterable<Palette>): void {
+  const next = new Map<string, Palette>();
+  for (const p of palettes) next.set(p.id, p);
+  USER_PALETTES.clear();
+  for (const [id, p] of next) USER_PALETTES.set(id, p);
+}
+
+/**
+ * Colors of a named palette (default `roman_steampunk` when no name is given).
+ * Throws `unknown_palette:<name>` instead of silently substituting another palette.
+ */
+export function resolvePaletteColors(name?: string | null): RGB[] {
+  const id = name || DEFAULT_PALETTE_ID;
+  const p = getPalette(id);
+  if (!p) throw new Error(`unknown_palette:${id}`);
+  return p.colors;
+}
@@ -0,0 +1,118 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// packages/tileset-compose/src/patterns/handlers.ts
+// ──────────────────────────────────────────────────────────────────────────────
+import {
+  deriveBlob47Rules, deriveCoast16Rules, derivePatternRules,
+  type EngineProfileInput, type RulesConfig,
+} from "@pixelart/godot-res";
+import {
+  generateBlob47Tileset, generateBlob47MaskFirst, generateCoast16Tileset, generatePatternTileset,
+} from "../generator.js";
+import { generateBlob47Procedural } from "../procedural/blob47.js";
+import { generateCoast16Procedural } from "../procedural/coast16.js";
+import { patternDictPath } from "../promptLoader.js";
+import type { MaterialsAB, TilesetComposeOptions, TilesetComposeResult } from "../types.js";
+import type { BuiltinPatternId, TilesetPattern } from "./registry.js";
+
+export type TilesetGenerateMode = "direct" | "mask" | "procedural";
+
+export type ProceduralInputs = {
+  textures: { A?: string | null; B?: string | null; T?: string | null };
+  settings?: NonNullable<Parameters<typeof generateCoast16Procedural>[0]["settings"]>
+    & NonNullable<Parameters<typeof generateBlob47Procedural>[0]["settings"]>;
+  materialsAB?: MaterialsAB;
+  engineProfile?: EngineProfileInput;
+};
+
+export type PatternRulesInput = {
+  name: string;
+  tileSize: number;
+  grid: { cols: number; rows: number };
+  tilesByIndex: Array<{ id: number; name: string }>; // row-major sheet order
+  materialsAB?: { A: { name: string }; B: { name: string } };
+};
+
+export interface PatternHandler {
+  procedural: boolean;        // has an offline generator (mode "procedural")
+  animation: boolean;         // procedural generator renders animation frames
+  generate(pattern: TilesetPattern, params: {
+    mode: TilesetGenerateMode;
+    options: TilesetComposeOptions;
+    procedural?: ProceduralInputs;   // required for mode "procedural"
+    baseTexturePrompt?: string;      // material texture for mode "mask"; required where mask-first is supported
+  }): Promise<TilesetComposeResult>;
+  deriveRules(pattern: TilesetPattern, input: PatternRulesInput): RulesConfig;
+}
+
+function proceduralInputs(pattern: TilesetPattern, inputs?: ProceduralInputs): ProceduralInputs {
+  if (!inputs) throw new Error(`procedural_inputs_required:${pattern.id}`);
+  return inputs;
+}
+
+// Any registered pattern: one AI image per slot, rules from the pattern's mask/peering data
+const GENERIC: PatternHandler = {
+  procedural: false,
+  animation: false,
+  generate: (pattern, { options }) => generatePatternTileset({ pattern, options }),
+  deriveRules(pattern, { tilesByIndex, ...rest }) {
+    const byName = new Map(pattern.tiles.map((t) => [t.name, t]));
+    const tiles = tilesByIndex.map((t) => ({ ...t, mask: byName.get(t.name)?.mask ?? [] }));
+    return derivePatternRules({ ...rest, tiles, maskBits: pattern.maskBits, godot: pattern.godot });
+  },
+};
+
+// Built-ins keep their dedicated prompt dictionaries, mask-first/procedural paths and rule derivation
+const BUILTIN_HANDLERS: Record<BuiltinPatternId, PatternHandler> = {
+  blob47: {
+    procedural: true,
+    animation: false,
+    generate(pattern, { mode, options, procedural, baseTexturePrompt }) {
+      if (mode === "procedural") {
+        const { textures, settings, engineProfile } = proceduralInputs(pattern, procedural);
+        return generateBlob47Procedural({ outDir: options.outDir, textures, settings, engineProfile });
+      }
+      if (mode === "mask") {
+        if (!baseTexturePrompt) throw new Error(`base_texture_prompt_required:${pattern.id}`);
+        return generateBlob47MaskFirst({
+          options: {
+            ...options,
+            baseTexturePrompt,
+            maskDictPath: patternDictPath(pattern, "mask")!,
+          },
+        });
+      }
+      return generateBlob47Tileset({ dictPath: patternDictPath(pattern)!, options: { tileSize: 32, ...options } });
+    },
+    deriveRules: (_pattern, input) => deriveBlob47Rules(input),
+  },
+  coast16: {
+    procedural: true,
+    animation: true,
+    generate(pattern, { mode, options, procedural }) {
+      if (mode === "procedural") {
+        const { textures, settings, materialsAB, engineProfile } = proceduralInputs(pattern, procedural);
+        return generateCoast16Procedural({ outDir: options.outDir, textures, settings, materialsAB, engineProfile });
+      }
+      const m = options.materialsAB;
+      return generateCoast16Tileset({
+        dictPath: patternDictPath(pattern)!,
+        options: {
+          tileSize: 32,
+          sheetCols: 4,
+          sheetRows: 4,
+          ...options,
+          materialsAB: {
+            A: { name: m?.A?.name || "Land", vehicles: m?.A?.vehicles || ["foot", "wheels"] },
+            B: { name: m?.B?.name || "Water", vehicles: m?.B?.vehicles || ["boat"] },
+          },
+        },
+      });
+    },
+    deriveRules: (_pattern, input) => deriveCoast16Rules(input),
+  },
+};
+
+/** Generation and Godot rule derivation for a registered pattern (built-in or user-defined). */
+export function patternHandler(pattern: TilesetPattern): PatternHandler {
+  return pattern.builtin ? BUILTIN_HANDLERS[pattern.id as BuiltinPatternId] ?? GENERIC : GENERIC;
+}
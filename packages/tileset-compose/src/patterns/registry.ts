@@ -1,8 +1,27 @@
 // ──────────────────────────────────────────────────────────────────────────────
 // packages/tileset-compose/src/patterns/registry.ts
 // ──────────────────────────────────────────────────────────────────────────────
-export type TilesetPatternId = "blob47" | "coast16";
+import {
+  BLOB47_SLOT_MASKS, BLOB_BITS,
+  type BlobNeighbor, type PeerKey, type PatternMaskBits, type PatternPeeringDef,
+} from "@pixelart/godot-res";
 
+export type BuiltinPatternId = "blob47" | "coast16";
+// Built-ins plus anything registered at runtime (user layouts)
+export type TilesetPatternId = BuiltinPatternId | (string & {});
+
+export type PatternSlot = {
+  id: number;
+  name: string;               // stable slot name, used in tile file names
+  mask: string[];             // mask positions that are set for this slot
+  prompt?: string;            // per-slot prompt (user patterns without a dictionary)
+};
+
+export type PatternPrompts = {
+  dictionary?: string;        // file name under prompts/ (built-ins)
+  variants?: Record<string, string>; // e.g. { mask: "blob47_mask.json" }
+  global_preamble?: string;   // inline preamble (user patterns)
+};
 
 export interface TilesetPattern {
 id: TilesetPatternId;
@@ -11,11 +30,31 @@ tileSize: 32 | 16;
 grid: { cols: number; rows: number };
 slots: number;
 immutable: true;
+builtin?: boolean;
 docs?: string;
+maskBits: PatternMaskBits;
+tiles: PatternSlot[];         // row-major sheet order
+prompts?: PatternPrompts;
+godot: PatternPeeringDef;
 }
 
 
-export const PATTERNS: Record<TilesetPatternId, TilesetPattern> = {
+const BLOB_ORDER: BlobNeighbor[] = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+const COAST_ORDER = ["NW", "NE", "SE", "SW"];
+
+const blob47Tiles: PatternSlot[] = Object.entries(BLOB47_SLOT_MASKS).map(([name, mask], i) => ({
+  id: i + 1,
+  name,
+  mask: BLOB_ORDER.filter((n) => mask & BLOB_BITS[n]),
+}));
+
+const coast16Tiles: PatternSlot[] = Array.from({ length: 16 }, (_, id) => {
+  const nib = id.toString(2).padStart(4, "0");
+  return { id, name: `mask_${nib}`, mask: COAST_ORDER.filter((_, i) => nib[i] === "1") };
+});
+
+
+export const PATTERNS: Record<BuiltinPatternId, TilesetPattern> = {
 blob47: {
 id: "blob47",
 displayName: "Blob 47 (8×6)",
@@ -23,7 +62,19 @@ tileSize: 32,
 grid: { cols: 8, rows: 6 },
 slots: 47,
 immutable: true,
+builtin: true,
 docs: "Autotile blob-style. 8×6 sheet; 47 used tiles.",
+maskBits: { positions: BLOB_ORDER, set: "A", meaning: "1 = neighbour continues material A" },
+tiles: blob47Tiles,
+prompts: { dictionary: "blob47_grass.json", variants: { mask: "blob47_mask.json" } },
+godot: {
+  mode: "MATCH_CORNERS_AND_SIDES",
+  center: "A",
+  peering: {
+    top_side: ["N"], top_right_corner: ["NE"], right_side: ["E"], bottom_right_corner: ["SE"],
+    bottom_side: ["S"], bottom_left_corner: ["SW"], left_side: ["W"], top_left_corner: ["NW"],
+  },
+},
 },
 coast16: {
 id: "coast16",
@@ -32,11 +83,136 @@ tileSize: 32,
 grid: { cols: 4, rows: 4 },
 slots: 16,
 immutable: true,
+builtin: true,
 docs: "Orthogonal stepped coastline with A/B materials (Land/Water); Wang corner mask order NW,NE,SE,SW.",
+maskBits: { positions: COAST_ORDER, set: "B", meaning: "1 = Water (B) at that corner" },
+tiles: coast16Tiles,
+prompts: { dictionary: "coast16_ab.json" },
+godot: {
+  mode: "MATCH_CORNERS_AND_SIDES",
+  center: "all_set",
+  peering: {
+    top_left_corner: ["NW"], top_right_corner: ["NE"], bottom_right_corner: ["SE"], bottom_left_corner: ["SW"],
+    top_side: ["NW", "NE"], right_side: ["NE", "SE"], bottom_side: ["SE", "SW"], left_side: ["NW", "SW"],
+  },
+},
 },
 };
 
+const USER_PATTERNS = new Map<string, TilesetPattern>();
 
 export type PatternKey = keyof typeof PATTERNS;
-export function listPatterns() { return Object.values(PATTERNS); }
-export function hasPattern(id: string): id is TilesetPatternId { return id in PATTERNS; }
+export function listPatterns(): TilesetPattern[] { return [...Object.values(PATTERNS), ...USER_PATTERNS.values()]; }
+export function isBuiltinPattern(id: string): id is BuiltinPatternId { return id in PATTERNS; }
+export function hasPattern(id: string): id is TilesetPatternId { return isBuiltinPattern(id) || USER_PATTERNS.has(id); }
+export function getPattern(id: string): TilesetPattern | undefined {
+  return isBuiltinPattern(id) ? PATTERNS[id] : USER_PATTERNS.get(id);
+}
+
+
+// ──────────────────────────────────────────────────────────────────────────────
+// User-defined patterns
+// ──────────────────────────────────────────────────────────────────────────────
+const PEER_KEYS: PeerKey[] = [
+  "top_left_corner", "top_side", "top_right_corner", "right_side",
+  "bottom_right_corner", "bottom_side", "bottom_left_corner", "left_side",
+];
+const MODES = ["MATCH_CORNERS_AND_SIDES", "MATCH_CORNERS", "MATCH_SIDES"];
+const SAFE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+/** True for ids usable as a user pattern file name (`<id>.json`). */
+export function isValidPatternId(id: unknown): id is string {
+  return typeof id === "string" && SAFE_ID.test(id);
+}
+
+/** Returns an error code for an invalid user pattern definition, or null when it can be registered. */
+export function validatePattern(input: unknown): string | null {
+  if (!input || typeof input !== "object") return "pattern_must_be_object";
+  const def = input as Record<string, any>;
+  if (!isValidPatternId(def.id)) return "invalid_id";
+  if (isBuiltinPattern(def.id)) return "builtin_pattern_id";
+  if (typeof def.displayName !== "string" || !def.displayName.trim()) return "invalid_displayName";
+  if (def.tileSize !== 16 && def.tileSize !== 32) return "invalid_tileSize";
+  const cols = def.grid?.cols, rows = def.grid?.rows;
+  if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 1 || rows < 1 || cols > 64 || rows > 64) return "invalid_grid";
+
+  const positions = def.maskBits?.positions;
+  if (!Array.isArray(positions) || !positions.length || positions.some((p: any) => typeof p !== "string")) return "invalid_maskBits_positions";
+  if (new Set(positions).size !== positions.length) return "duplicate_maskBits_position";
+  if (def.maskBits.set !== "A" && def.maskBits.set !== "B") return "invalid_maskBits_set";
+  const known = new Set<string>(positions);
+
+  if (!Array.isArray(def.tiles) || !def.tiles.length) return "tiles_required";
+  if (def.tiles.length > cols * rows) return "tiles_exceed_grid";
+  const names = new Set<string>();
+  for (const t of def.tiles) {
+    if (!Number.isInteger(t?.id)) return "invalid_tile_id";
+    if (!isValidPatternId(t.name)) return "invalid_tile_name";
+    if (names.has(t.name)) return `duplicate_tile_name:${t.name}`;
+    names.add(t.name);
+    if (!Array.isArray(t.mask) || t.mask.some((p: any) => !known.has(p))) return `invalid_tile_mask:${t.name}`;
+    if (t.prompt !== undefined && typeof t.prompt !== "string") return `invalid_tile_prompt:${t.name}`;
+  }
+
+  if (def.prompts !== undefined) {
+    if (typeof def.prompts !== "object" || def.prompts === null) return "invalid_prompts";
+    // user patterns carry prompts inline; dictionaries are reserved for the packaged prompts/
+    if (def.prompts.dictionary !== undefined || def.prompts.variants !== undefined) return "prompt_dictionary_not_allowed";
+    if (def.prompts.global_preamble !== undefined && typeof def.prompts.global_preamble !== "string") return "invalid_global_preamble";
+  }
+
+  const g = def.godot;
+  if (!g || typeof g !== "object") return "godot_required";
+  if (!MODES.includes(g.mode)) return "invalid_godot_mode";
+  if (!["A", "B", "all_set"].includes(g.center)) return "invalid_godot_center";
+  if (!g.peering || typeof g.peering !== "object") return "invalid_godot_peering";
+  for (const [peer, list] of Object.entries(g.peering)) {
+    if (!PEER_KEYS.includes(peer as PeerKey)) return `invalid_peering_bit:${peer}`;
+    if (!Array.isArray(list) || !list.length || list.some((p: any) => !known.has(p))) return `invalid_peering_positions:${peer}`;
+  }
+  return null;
+}
+
+/** Validates a user pattern definition without registering it. Throws `invalid_pattern:<code>` on bad input. */
+export function createPattern(input: unknown): TilesetPattern {
+  const err = validatePattern(input);
+  if (err) throw new Error(`invalid_pattern:${err}`);
+  const def = input as Record<string, any>;
+  return {
+    id: def.id,
+    displayName: def.displayName,
+    tileSize: def.tileSize,
+    grid: { cols: def.grid.cols, rows: def.grid.rows },
+    slots: def.tiles.length,
+    immutable: true,
+    builtin: false,
+    docs: typeof def.docs === "string" ? def.docs : undefined,
+    maskBits: { positions: [...def.maskBits.positions], set: def.maskBits.set, meaning: def.maskBits.meaning },
+    tiles: def.tiles.map((t: any) => ({ id: t.id, name: t.name, mask: [...t.mask], prompt: t.prompt })),
+    prompts: def.prompts ? { global_preamble: def.prompts.global_preamble } : undefined,
+    godot: { mode: def.godot.mode, center: def.godot.center, peering: { ...def.godot.peering } },
+  };
+}
+
+/** Validates and registers (or replaces) a user pattern. Throws `invalid_pattern:<code>` on bad input. */
+export function registerPattern(def: unknown): TilesetPattern {
+  const pattern = createPattern(def);
+  USER_PATTERNS.set(pattern.id, pattern);
+  return pattern;
+}
+
+export function unregisterPattern(id: string): boolean {
+  return USER_PATTERNS.delete(id);
+}
+
+export function clearUserPatterns(): void {
+  USER_PATTERNS.clear();
+}
+
+/** Replaces every user pattern in one step, so lookups never see a partially loaded registry. */
+export function replaceUserPatterns(patterns: Iterable<TilesetPattern>): void {
+  const next = new Map<string, TilesetPattern>();
+  for (const p of patterns) next.set(p.id, p);
+  USER_PATTERNS.clear();
+  for (const [id, p] of next) USER_PATTERNS.set(id, p);
+}
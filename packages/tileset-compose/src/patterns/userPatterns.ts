@@ -0,0 +1,51 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createLogger } from "@pixelart/log";
+import {
+  registerPattern, createPattern, replaceUserPatterns, isBuiltinPattern, isValidPatternId, type TilesetPattern,
+} from "./registry.js";
+
+const log = createLogger("@tileset/userPatterns");
+
+/**
+ * (Re)load user patterns from `<dir>/*.json`. The registry is swapped in one step once every
+ * file has been read, so it mirrors the directory; invalid files are skipped.
+ */
+export async function loadUserPatterns(dir: string): Promise<TilesetPattern[]> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.toLowerCase().endsWith(".json"));
+  } catch {
+    files = [];
+  }
+  const loaded: TilesetPattern[] = [];
+  for (const f of files.sort()) {
+    try {
+      const def = JSON.parse(await fs.readFile(path.join(dir, f), "utf8"));
+      loaded.push(createPattern(def));
+    } catch (err: any) {
+      log.warn({ file: f, err: String(err?.message ?? err) }, "user_pattern_skipped");
+    }
+  }
+  replaceUserPatterns(loaded);
+  return loaded;
+}
+
+export async function saveUserPattern(dir: string, def: unknown): Promise<TilesetPattern> {
+  const pattern = createPattern(def);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${pattern.id}.json`), JSON.stringify(def, null, 2), "utf8");
+  return registerPattern(def);
+}
+
+/** Removes a user pattern file; returns false when it did not exist. Built-ins are never touched. */
+export async function deleteUserPattern(dir: string, id: string): Promise<boolean> {
+  if (isBuiltinPattern(id) || !isValidPatternId(id)) return false;
+  try {
+    await fs.unlink(path.join(dir, `${id}.json`));
+  } catch {
+    return false;
+  }
+  await loadUserPatterns(dir);
+  return true;
+}
@@ -0,0 +1,295 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { createLogger } from "@pixelart/log";
+import {
+  writeTileSetTres, deriveBlob47Rules, expandVariantRules, resolveEngineProfile, engineResPath, type EngineProfileInput,
+} from "@pixelart/godot-res";
+import { writeManifest } from "../manifest.js";
+import type { TilesetComposeResult, TilesetManifest, RGB } from "../types.js";
+import { resolvePaletteColors } from "../palettes.js";
+import { PATTERNS } from "../patterns/registry.js";
+import {
+  resolveVariantWeights, variantTag, variantTextureOffset, stitchVariantSheet, variantFields, variantsBlock,
+} from "../variants.js";
+import {
+  loadImage, sampleWrap, over, normalize, modulatePolyline, defaultStyleParams,
+  type CornerStyle, type TransitionMode, type LineStyle, type Pt,
+} from "./shared.js";
+
+const log = createLogger("@tileset/proc-blob47");
+
+/**
+ * The tile is split into a 3×3 cell grid at `inset` from each edge. The center cell is
+ * always A; side cells are A when that neighbour continues A, corner cells when the
+ * (normalized) diagonal does. The A/B boundary runs along cell edges, so it crosses tile
+ * borders at fixed points and neighbouring tiles line up.
+ */
+function cellsForMask(mask: Set<string>): boolean[][] {
+  // cells[row][col]
+  return [
+    [mask.has("NW"), mask.has("N"), mask.has("NE")],
+    [mask.has("W"), true, mask.has("E")],
+    [mask.has("SW"), mask.has("S"), mask.has("SE")],
+  ];
+}
+
+type Seg = { a: Pt; b: Pt };
+const key = (p: Pt) => `${p.x},${p.y}`;
+
+// Boundary segments oriented so that A lies on the positive side of signedDistanceToPolyline
+function boundarySegments(cells: boolean[][], lines: number[]): Seg[] {
+  const segs: Seg[] = [];
+  for (let r = 0; r < 3; r++) for (let c = 0; c < 2; c++) {
+    const l = cells[r][c], rt = cells[r][c + 1];
+    if (l === rt) continue;
+    const x = lines[c + 1], y0 = lines[r], y1 = lines[r + 1];
+    segs.push(l ? { a: { x, y: y0 }, b: { x, y: y1 } } : { a: { x, y: y1 }, b: { x, y: y0 } });
+  }
+  for (let r = 0; r < 2; r++) for (let c = 0; c < 3; c++) {
+    const up = cells[r][c], dn = cells[r + 1][c];
+    if (up === dn) continue;
+    const y = lines[r + 1], x0 = lines[c], x1 = lines[c + 1];
+    segs.push(dn ? { a: { x: x0, y }, b: { x: x1, y } } : { a: { x: x1, y }, b: { x: x0, y } });
+  }
+  return segs;
+}
+
+// Chain segments head-to-tail into open paths (tile border to tile border) and closed loops
+function chainSegments(segs: Seg[]): Array<{ pts: Pt[]; closed: boolean }> {
+  const byStart = new Map<string, Seg>();
+  const ends = new Set<string>();
+  for (const s of segs) { byStart.set(key(s.a), s); ends.add(key(s.b)); }
+  const used = new Set<Seg>();
+  const out: Array<{ pts: Pt[]; closed: boolean }> = [];
+  const follow = (first: Seg) => {
+    const pts: Pt[] = [first.a];
+    let cur: Seg | undefined = first;
+    while (cur && !used.has(cur)) {
+      used.add(cur);
+      pts.push(cur.b);
+      cur = byStart.get(key(cur.b));
+    }
+    const closed = key(pts[0]) === key(pts[pts.length - 1]);
+    return { pts: closed ? pts.slice(0, -1) : pts, closed };
+  };
+  for (const s of segs) if (!ends.has(key(s.a))) out.push(follow(s));
+  for (const s of segs) if (!used.has(s)) out.push(follow(s));
+  return out;
+}
+
+function dropCollinear(pts: Pt[], closed: boolean): Pt[] {
+  const n = pts.length;
+  return pts.filter((p, i) => {
+    if (!closed && (i === 0 || i === n - 1)) return true;
+    const a = pts[(i - 1 + n) % n], b = pts[(i + 1) % n];
+    return (p.x - a.x) * (b.y - p.y) - (p.y - a.y) * (b.x - p.x) !== 0;
+  });
+}
+
+// Replace each interior turn with the corner style: square keeps it, stepped cuts a 1px
+// staircase, quarter swaps in a quarter-circle arc of radius r
+function shapeCorners(pts: Pt[], closed: boolean, style: CornerStyle, radius: number): Pt[] {
+  if (style === "square") return closed ? [...pts, pts[0]] : pts;
+  const n = pts.length;
+  const out: Pt[] = [];
+  for (let i = 0; i < n; i++) {
+    const v = pts[i];
+    if (!closed && (i === 0 || i === n - 1)) { out.push(v); continue; }
+    const prev = pts[(i - 1 + n) % n], next = pts[(i + 1) % n];
+    const lenIn = Math.hypot(v.x - prev.x, v.y - prev.y), lenOut = Math.hypot(next.x - v.x, next.y - v.y);
+    const r = Math.max(0, Math.min(radius, Math.floor(lenIn / 2), Math.floor(lenOut / 2)));
+    if (r <= 0) { out.push(v); continue; }
+    const [ix, iy] = normalize(v.x - prev.x, v.y - prev.y);
+    const [ox, oy] = normalize(next.x - v.x, next.y - v.y);
+    const p0 = { x: v.x - ix * r, y: v.y - iy * r };
+    if (style === "stepped") {
+      let p = p0;
+      out.push(p);
+      for (let s = 0; s < r; s++) {
+        p = { x: p.x + ox, y: p.y + oy }; out.push(p);
+        p = { x: p.x + ix, y: p.y + iy }; out.push(p);
+      }
+    } else {
+      const c = { x: p0.x + ox * r, y: p0.y + oy * r };
+      const steps = Math.max(2, r * 2);
+      for (let s = 0; s <= steps; s++) {
+        const th = (s / steps) * (Math.PI / 2);
+        out.push({ x: c.x + (-ox * Math.cos(th) + ix * Math.sin(th)) * r, y: c.y + (-oy * Math.cos(th) + iy * Math.sin(th)) * r });
+      }
+    }
+  }
+  if (closed) out.push(out[0]);
+  return out;
+}
+
+// Line style applies to the straight runs only; the short corner pieces keep their shape,
+// otherwise every 1px stair step gets its own wave and the outline folds over itself
+function modulateRuns(pl: Pt[], style: LineStyle): Pt[] {
+  const params = defaultStyleParams(style);
+  const out: Pt[] = [pl[0]];
+  for (let i = 0; i < pl.length - 1; i++) {
+    const a = pl[i], b = pl[i + 1];
+    const run = Math.hypot(b.x - a.x, b.y - a.y) > 2 ? modulatePolyline([a, b], style, params) : [a, b];
+    out.push(...run.slice(1));
+  }
+  return out;
+}
+
+// Signed distance like signedDistanceToPolyline, but when the nearest point is a vertex the
+// side comes from the summed normals of both adjacent segments; jittered sharp turns
+// otherwise flip the sign on the outside of the corner.
+function signedDistanceToPath(x: number, y: number, pl: Pt[]): number {
+  const leftNormal = (i: number): [number, number] => {
+    const a = pl[i], b = pl[i + 1];
+    const [ux, uy] = normalize(b.x - a.x, b.y - a.y);
+    return [-uy, ux];
+  };
+  let minD2 = Infinity; let sign = 1;
+  for (let i = 0; i < pl.length - 1; i++) {
+    const a = pl[i], b = pl[i + 1]; const vx = b.x - a.x, vy = b.y - a.y;
+    const L2 = vx*vx + vy*vy || 1; const t = Math.max(0, Math.min(1, ((x - a.x)*vx + (y - a.y)*vy) / L2));
+    const qx = a.x + vx * t, qy = a.y + vy * t; const d2 = (x - qx) ** 2 + (y - qy) ** 2;
+    if (d2 >= minD2) continue;
+    minD2 = d2;
+    let [nx, ny] = leftNormal(i);
+    const j = t <= 0 ? i - 1 : t >= 1 ? i + 1 : -1; // other segment sharing the vertex
+    if (j >= 0 && j < pl.length - 1) { const [mx, my] = leftNormal(j); nx += mx; ny += my; }
+    sign = Math.sign((x - qx) * nx + (y - qy) * ny) || 1;
+  }
+  return sign * Math.sqrt(minD2);
+}
+
+export async function generateBlob47Procedural(params: {
+  outDir: string;
+  textures: { A?: string | null; B?: string | null; T?: string | null };
+  settings?: {
+    tileSize?: number; bandWidth?: number; cornerStyle?: CornerStyle; lineStyle?: LineStyle;
+    transitionMode?: TransitionMode; textureScale?: number; inset?: number; paletteName?: string;
+    variants?: number; variantWeights?: number[];
+  };
+  engineProfile?: EngineProfileInput;    // project settings engine_profile (res:// location of the .tres)
+}): Promise<TilesetComposeResult> {
+  const outDir = params.outDir;
+  await fs.mkdir(outDir, { recursive: true });
+  const tilesDir = path.join(outDir, "tiles_32");
+  await fs.mkdir(tilesDir, { recursive: true });
+
+  const tileSize = params.settings?.tileSize ?? 32;
+  const bandWidth = params.settings?.bandWidth ?? 4;
+  const cornerStyle = params.settings?.cornerStyle ?? "stepped";
+  const lineStyle: LineStyle = params.settings?.lineStyle ?? "straight_line";
+  const transitionMode: TransitionMode = params.settings?.transitionMode ?? "texture";
+  const textureScale = params.settings?.textureScale ?? 1.0;
+  const paletteName = params.settings?.paletteName ?? "roman_steampunk";
+  const palette: RGB[] = resolvePaletteColors(paletteName); // fail before rendering on unknown names
+  const inset = Math.max(2, Math.min(Math.floor(tileSize / 2) - 1, Math.round(params.settings?.inset ?? tileSize / 4)));
+  const cornerRadius = Math.max(1, Math.round(inset / 2));
+  const lines = [0, inset, tileSize - inset, tileSize];
+  const weights = resolveVariantWeights(params.settings?.variants, params.settings?.variantWeights);
+
+  const pathA = params.textures.A ? path.resolve(outDir, params.textures.A) : null;
+  const pathB = params.textures.B ? path.resolve(outDir, params.textures.B) : null;
+  const pathT = params.textures.T ? path.resolve(outDir, params.textures.T) : null;
+  const imgA = await loadImage(pathA);
+  const imgB = await loadImage(pathB);
+  const imgT = await loadImage(pathT);
+  try {
+    const line = `${new Date().toISOString()} proc_blob47_inputs A=${pathA || 'none'} ${imgA ? `(${imgA.width}x${imgA.height})` : '(missing)'} B=${pathB || 'none'} ${imgB ? `(${imgB.width}x${imgB.height})` : '(missing)'} T=${pathT || 'none'} ${imgT ? `(${imgT.width}x${imgT.height})` : '(missing)'}\n`;
+    await fs.appendFile(path.join(outDir, "debug.log"), line, "utf8");
+  } catch {}
+
+  const pattern = PATTERNS.blob47;
+  const tiles: { id: number; name: string; file: string }[] = [];
+  const variantOut: string[][] = weights.map(() => []);
+
+  for (const slot of pattern.tiles) {
+    const cells = cellsForMask(new Set(slot.mask));
+    const paths = chainSegments(boundarySegments(cells, lines))
+      .map(({ pts, closed }) => {
+        const simple = dropCollinear(pts, closed);
+        return modulateRuns(shapeCorners(simple, closed, cornerStyle, cornerRadius), lineStyle);
+      });
+
+    // Nearest boundary decides the side; no boundary means the tile is solid A
+    const sdMap = new Float32Array(tileSize * tileSize).fill(Infinity);
+    for (let y = 0; y < tileSize; y++) for (let x = 0; x < tileSize; x++) {
+      for (const pl of paths) {
+        const d = signedDistanceToPath(x + 0.5, y + 0.5, pl);
+        if (Math.abs(d) < Math.abs(sdMap[y * tileSize + x])) sdMap[y * tileSize + x] = d;
+      }
+    }
+
+    // Alternates share the mask geometry and reseed where the textures are sampled
+    for (let k = 0; k < weights.length; k++) {
+      const off = variantTextureOffset(k);
+      const buf = Buffer.alloc(tileSize * tileSize * 4);
+      let alphaSum = 0;
+      for (let y = 0; y < tileSize; y++) {
+        for (let x = 0; x < tileSize; x++) {
+          const idx = (y * tileSize + x) * 4;
+          const sd = sdMap[y * tileSize + x];
+          const isA = sd >= 0;
+          const inBand = Math.abs(sd) <= bandWidth / 2;
+          const u = x + off.x, v = y + off.y;
+          let outPix: [number, number, number, number] = isA ? sampleWrap(imgA, u, v, textureScale) : sampleWrap(imgB, u, v, textureScale);
+          if (transitionMode === "texture" && inBand) outPix = over(outPix, sampleWrap(imgT, u, v, textureScale));
+          buf[idx] = outPix[0]; buf[idx + 1] = outPix[1]; buf[idx + 2] = outPix[2]; buf[idx + 3] = outPix[3];
+          alphaSum += outPix[3];
+        }
+      }
+
+      const tilePath = path.join(tilesDir, `${slot.id.toString().padStart(2, "0")}_${slot.name}${variantTag(k)}_32.png`);
+      await sharp(buf, { raw: { width: tileSize, height: tileSize, channels: 4 } }).png().toFile(tilePath);
+      variantOut[k].push(tilePath);
+      if (k === 0) tiles.push({ id: slot.id, name: slot.name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
+      try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} tile_${slot.id}_${slot.name}${variantTag(k)} paths=${paths.length} alphaSum=${alphaSum}\n`, "utf8"); } catch {}
+    }
+  }
+
+  // Stitch sheet 8×6 (slot 48 empty), alternates stacked below
+  const { cols: COLS, rows: ROWS } = pattern.grid;
+  const sheetPath = path.join(outDir, `blob47_${tileSize}.png`);
+  await stitchVariantSheet(sheetPath, variantOut, COLS, ROWS, tileSize);
+
+  // Godot 4 TileSet .tres next to the sheet, same basename
+  try {
+    const slug = path.basename(outDir);
+    const sheetName = path.basename(sheetPath);
+    const base = deriveBlob47Rules({ name: `${slug}_blob47`, tileSize, grid: { cols: COLS, rows: ROWS }, tilesByIndex: tiles });
+    const rules = expandVariantRules(base, { cols: COLS, rows: ROWS }, weights);
+    await writeTileSetTres({
+      outDir,
+      atlasPngName: sheetName,
+      extResourcePath: engineResPath(resolveEngineProfile(params.engineProfile), "proceduralTileset", { slug }, sheetName),
+      rules,
+      fileName: sheetName.replace(/\.png$/i, ".tres"),
+    });
+  } catch (err: any) {
+    log.warn({ err: String(err?.message ?? err) }, "blob47 procedural tres failed");
+  }
+
+  // Manifest
+  const manifest: TilesetManifest = {
+    schema: "tileset.manifest/1.0",
+    material: "procedural",
+    engine_order: "blob47",
+    grid: { cols: COLS, rows: ROWS, tile: tileSize },
+    palette: { name: paletteName, rgb: palette },
+    openai: { model: "gpt-image-1", size: "1024x1024", transparent: true },
+    tiles: tiles.map((t, idx) => ({ id: t.id, name: t.name, file: t.file, promptHash: undefined, ...variantFields(outDir, variantOut, weights, idx) })),
+    sheet: { file: path.basename(sheetPath), layout: "row-major" },
+    ...variantsBlock(weights),
+  };
+  (manifest as any).procedural = {
+    pattern: "blob47",
+    settings: { tileSize, bandWidth, cornerStyle, lineStyle, transitionMode, textureScale, inset, variants: weights.length },
+    textures: { A: params.textures.A ?? null, B: params.textures.B ?? null, T: params.textures.T ?? null }
+  };
+
+  const manifestPath = path.join(outDir, `blob47_manifest.json`);
+  await writeManifest(manifestPath, manifest);
+
+  log.info({ sheetPath }, "blob47 procedural sheet written");
+  return { sheetPath, tilePaths: variantOut.flat(), manifestPath };
+}
@@ -3,46 +3,22 @@ import path from "node:path";
 import sharp from "sharp";
 import { createLogger } from "@pixelart/log";
 import { writeManifest, promptHash } from "../manifest.js";
-import type { TilesetComposeResult, TilesetManifest, RGB } from "../types.js";
-import { ROMAN_STEAMPUNK_32 } from "../palettes.js";
+import {
+  applyRegionShapes, renderTileShapes, applyMaterialData, renderCustomData, regionCoverageA, type TileRegions,
+  resolveEngineProfile, engineResPath, type EngineProfileInput,
+} from "@pixelart/godot-res";
+import type { TilesetComposeResult, TilesetManifest, RGB, MaterialsAB } from "../types.js";
+import { resolvePaletteColors } from "../palettes.js";
+import { resolveVariantWeights, variantTag, variantTextureOffset, variantFields, variantsBlock } from "../variants.js";
+import { resolveAnimation, frameTag, frameTextureOffset, animatesMaterial, animationBlock, type AnimationSettings } from "../animation.js";
+import {
+  loadImage, sampleWrap, over, lerp, modulatePolyline, signedDistanceToPolyline, defaultStyleParams,
+  type CornerStyle, type TransitionMode, type LineStyle, type Pt,
+} from "./shared.js";
+import { traceRegionOutlines } from "./regions.js";
 
 const log = createLogger("@tileset/proc-coast16");
 
-type CornerStyle = "stepped" | "quarter" | "square";
-type TransitionMode = "texture"; // v1: respect T alpha only
-type LineStyle = "straight_line" | "wavy_smooth" | "craggy" | "zigzag";
-
-type Img = { data: Buffer; width: number; height: number; channels: number } | null;
-
-async function loadImage(p?: string | null): Promise<Img> {
-  if (!p) return null;
-  try {
-    const { data, info } = await sharp(p).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
-    return { data, width: info.width, height: info.height, channels: info.channels };
-  } catch {
-    return null;
-  }
-}
-
-function sampleWrap(img: Img, u: number, v: number, scale = 1): [number, number, number, number] {
-  if (!img) return [0, 0, 0, 0];
-  const { data, width, height, channels } = img;
-  const U = Math.floor(((u * scale) % width + width) % width);
-  const V = Math.floor(((v * scale) % height + height) % height);
-  const idx = (V * width + U) * channels;
-  return [data[idx] ?? 0, data[idx + 1] ?? 0, data[idx + 2] ?? 0, data[idx + 3] ?? 255];
-}
-
-function over(bg: [number, number, number, number], fg: [number, number, number, number]): [number, number, number, number] {
-  const ba = bg[3] / 255, fa = fg[3] / 255;
-  const outA = fa + ba * (1 - fa);
-  if (outA <= 0) return [0, 0, 0, 0];
-  const r = Math.round((fg[0] * fa + bg[0] * ba * (1 - fa)) / outA);
-  const g = Math.round((fg[1] * fa + bg[1] * ba * (1 - fa)) / outA);
-  const b = Math.round((fg[2] * fa + bg[2] * ba * (1 - fa)) / outA);
-  return [r, g, b, Math.round(outA * 255)];
-}
-
 function edgesFromNibble(nibble: number) {
   // nibble bits: NW(8), NE(4), SE(2), SW(1)
   const NW = (nibble & 0b1000) !== 0;
@@ -57,7 +33,6 @@ function edgesFromNibble(nibble: number) {
   } as { N: 0|1; E:0|1; S:0|1; W:0|1 };
 }
 
-type Pt = { x: number; y: number };
 type Endpoint = { type: "edge_mid" | "corner"; edge?: "N"|"E"|"S"|"W"; corner?: "NW"|"NE"|"SE"|"SW" };
 type TileRecipe = {
   id: number; name: string;
@@ -90,9 +65,6 @@ function endpointPt(N: number, e: Endpoint): Pt {
   return e.type === "edge_mid" ? edgeMid(N, e.edge!) : cornerPt(N, e.corner!);
 }
 
-function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
-function length(a: Pt, b: Pt) { const dx = b.x - a.x, dy = b.y - a.y; return Math.hypot(dx, dy); }
-function normalize(dx: number, dy: number): [number, number] { const L = Math.hypot(dx, dy) || 1; return [dx / L, dy / L]; }
 
 // Build base polyline between endpoints, inserting a corner turn if needed
 function buildBasePolyline(N: number, from: Endpoint, to: Endpoint, policy: "rounded"|"bevel" = "bevel"): Pt[] {
@@ -110,72 +82,6 @@ function buildBasePolyline(N: number, from: Endpoint, to: Endpoint, policy: "rou
   return [a, c, b];
 }
 
-// Modulate polyline by lineStyle (returns densified polyline)
-function modulatePolyline(base: Pt[], style: LineStyle, params: { amplitude?: number; wavelength?: number; jitter?: number; stairStep?: number }): Pt[] {
-  if (style === "straight_line") return base;
-  const amp = params.amplitude ?? 1.5;
-  const wav = Math.max(1, params.wavelength ?? 8);
-  const jit = params.jitter ?? 1;
-  const step = Math.max(1, Math.round(params.stairStep ?? 1));
-
-  const out: Pt[] = [];
-  for (let si = 0; si < base.length - 1; si++) {
-    const p0 = base[si], p1 = base[si + 1];
-    const dx = p1.x - p0.x, dy = p1.y - p0.y; const segLen = Math.hypot(dx, dy) || 1;
-    const [ux, uy] = normalize(dx, dy);
-    // normal (left-of-dir) in screen coords (y down): (uy, -ux)
-    const nx = uy, ny = -ux;
-    const samples = Math.max(2, Math.ceil(segLen));
-    for (let i = 0; i <= samples; i++) {
-      const t = i / samples;
-      let off = 0;
-      if (style === "wavy_smooth") {
-        const phase = (t * segLen) / wav * (2 * Math.PI);
-        off = amp * Math.sin(phase);
-      } else if (style === "zigzag") {
-        const tri = 2 * Math.abs((t * segLen / wav) % 1 - 0.5) - 0.5; // -0.5..0.5
-        off = amp * tri * 2;
-      } else if (style === "craggy") {
-        const k = Math.floor((t * segLen) / Math.max(1, wav / 2));
-        const v = ((k * 9301 + 49297) % 233280) / 233280; // LCG-based deterministic
-        const s = v < 0.5 ? -1 : 1;
-        off = s * jit;
-      }
-      // taper to ensure exact endpoints
-      off *= Math.sin(Math.PI * t);
-      // stair step quantization
-      let x = p0.x + dx * t + nx * off;
-      let y = p0.y + dy * t + ny * off;
-      if (step > 1 && (style === "craggy")) {
-        x = Math.round(x / step) * step;
-        y = Math.round(y / step) * step;
-      }
-      if (out.length === 0 || x !== out[out.length - 1].x || y !== out[out.length - 1].y) out.push({ x, y });
-    }
-  }
-  return out;
-}
-
-// Signed distance to polyline; positive if point is to the left of nearest segment
-function signedDistanceToPolyline(x: number, y: number, pl: Pt[]): number {
-  let minD2 = Infinity; let sign = 1;
-  for (let i = 0; i < pl.length - 1; i++) {
-    const a = pl[i], b = pl[i + 1]; const vx = b.x - a.x, vy = b.y - a.y;
-    const L2 = vx*vx + vy*vy || 1; const t = Math.max(0, Math.min(1, ((x - a.x)*vx + (y - a.y)*vy) / L2));
-    const qx = a.x + vx * t, qy = a.y + vy * t; const dx = x - qx, dy = y - qy;
-    const d2 = dx*dx + dy*dy;
-    if (d2 < minD2) { minD2 = d2; sign = Math.sign(vx * (y - qy) - vy * (x - qx)) || 1; }
-  }
-  return Math.sign(sign) * Math.sqrt(minD2);
-}
-
-function defaultStyleParams(style: LineStyle) {
-  if (style === "wavy_smooth") return { amplitude: 1.5, wavelength: 8 };
-  if (style === "zigzag") return { amplitude: 2.0, wavelength: 8 };
-  if (style === "craggy") return { jitter: 1, stairStep: 1 };
-  return {};
-}
-
 function recipeForNib(N: number, nib: number, globalStyle: LineStyle, cornerStyle: CornerStyle): TileRecipe {
   const style = globalStyle;
   const rounded = cornerStyle === "quarter" ? "rounded" : "bevel";
@@ -237,10 +143,44 @@ function inCorner(style: CornerStyle, N: number, x: number, y: number, corner: "
   const dx = (x) - (r - 1); const dy = (y) - (N - r); return (dx*dx + dy*dy) < r*r;
 }
 
+// Repeat the per-tile .tres lines for each alternate block (rows shifted by k * rows) and
+// attach the variant weight as the tile probability
+function withVariantRows(rules: string[], rows: number, weights: number[]): string[] {
+  if (weights.length <= 1) return rules;
+  const out: string[] = [];
+  weights.forEach((w, k) => {
+    for (const line of rules) {
+      const shifted = line.replace(/^(\d+):(\d+)\//, (_m, c, r) => `${c}:${Number(r) + k * rows}/`);
+      out.push(shifted);
+      const head = /^(\d+:\d+)\/0 = 0$/.exec(shifted);
+      if (head && w !== 1) out.push(`${head[1]}/0/probability = ${w}`);
+    }
+  });
+  return out;
+}
+
+// Give every tile head (`c:r/0 = 0`) its atlas animation; frame f sits f * cols columns right
+function withAnimationColumns(rules: string[], cols: number, durations: number[]): string[] {
+  if (durations.length <= 1) return rules;
+  return rules.flatMap((line) => {
+    const head = /^(\d+:\d+)\/0 = 0$/.exec(line);
+    if (!head) return [line];
+    return [
+      `${head[1]}/animation_columns = ${durations.length}`,
+      `${head[1]}/animation_separation = Vector2i(${cols - 1}, 0)`,
+      `${head[1]}/animation_frames_count = ${durations.length}`,
+      ...durations.map((d, i) => `${head[1]}/animation_frame_${i}/duration = ${d}`),
+      line,
+    ];
+  });
+}
+
 export async function generateCoast16Procedural(params: {
   outDir: string;
   textures: { A?: string | null; B?: string | null; T?: string | null };
-  settings?: { tileSize?: number; bandWidth?: number; cornerStyle?: CornerStyle; transitionMode?: TransitionMode; textureScale?: number; paletteName?: string };
+  materialsAB?: MaterialsAB;             // vehicles drive the navigation layers
+  settings?: { tileSize?: number; bandWidth?: number; cornerStyle?: CornerStyle; transitionMode?: TransitionMode; textureScale?: number; paletteName?: string; variants?: number; variantWeights?: number[]; animation?: AnimationSettings; collision?: "A" | "B" | "none" };
+  engineProfile?: EngineProfileInput;    // project settings engine_profile (res:// location of the .tres)
 }): Promise<TilesetComposeResult> {
   const outDir = params.outDir;
   await fs.mkdir(outDir, { recursive: true });
@@ -254,6 +194,15 @@ export async function generateCoast16Procedural(params: {
   const transitionMode: TransitionMode = params.settings?.transitionMode ?? "texture";
   const textureScale = params.settings?.textureScale ?? 1.0;
   const paletteName = params.settings?.paletteName ?? "roman_steampunk";
+  const palette: RGB[] = resolvePaletteColors(paletteName); // fail before rendering on unknown names
+  const weights = resolveVariantWeights(params.settings?.variants, params.settings?.variantWeights);
+  const anim = resolveAnimation(params.settings?.animation, tileSize);
+  const collision = params.settings?.collision ?? "A";
+  const materialsAB: MaterialsAB = params.materialsAB ?? {
+    A: { name: "Land", vehicles: ["foot", "wheels"] },
+    B: { name: "Water", vehicles: ["boat"] },
+  };
+  const frameCount = anim?.frames ?? 1;
 
   const pathA = params.textures.A ? path.resolve(outDir, params.textures.A) : null;
   const pathB = params.textures.B ? path.resolve(outDir, params.textures.B) : null;
@@ -269,24 +218,45 @@ export async function generateCoast16Procedural(params: {
   const bExterior = Math.max(1, bandWidth * 2);
 
   const tiles: { id: number; name: string; file: string }[] = [];
+  // frameOut[f][k][slot]: frame f of variant k; frame 0 holds the static tiles
+  const frameOut: string[][][] = Array.from({ length: frameCount }, () => weights.map(() => []));
+  const variantOut = frameOut[0];
+  // Which side of the shoreline each pixel belongs to (1 = A), traced once per slot
+  const regions = new Map<number, { A: number[][]; B: number[][] }>();
+  const recordRegions = (nib: number, side: Uint8Array) => {
+    regions.set(nib, {
+      A: traceRegionOutlines(side, tileSize),
+      B: traceRegionOutlines(side.map((v) => 1 - v), tileSize),
+    });
+  };
   const nibs: number[] = Array.from({ length: 16 }, (_, i) => i);
+  // Alternates (k > 0) reuse the mask recipe and reseed where the textures are sampled;
+  // animation frames (f > 0) displace the animated material per frame
+  const jobs = nibs.flatMap((nib) => weights.flatMap((_, k) => Array.from({ length: frameCount }, (_, f) => ({ nib, k, f }))));
 
-  for (const nib of nibs) {
+  for (const { nib, k, f } of jobs) {
     const id = nib;
+    const off = variantTextureOffset(k);
+    const sampleMat = (img: typeof imgA, m: "A" | "B", x: number, y: number) => {
+      const d = animatesMaterial(anim, m) ? frameTextureOffset(anim, f, y) : { x: 0, y: 0 };
+      return sampleWrap(img, x + off.x + d.x, y + off.y + d.y, textureScale);
+    };
     const name = `mask_${(nib >>> 0).toString(2).padStart(4, "0")}`;
     const recipe = recipeForNib(tileSize, nib, lineStyle, cornerStyle);
     if (recipe.fill) {
       // Short-circuit fill
+      if (!regions.has(nib)) recordRegions(nib, new Uint8Array(tileSize * tileSize).fill(recipe.fill === 'A' ? 1 : 0));
       const buf = Buffer.alloc(tileSize * tileSize * 4);
       let alphaSum = 0;
       for (let y = 0; y < tileSize; y++) for (let x = 0; x < tileSize; x++) {
         const idx = (y * tileSize + x) * 4;
-        const pix = recipe.fill === 'A' ? sampleWrap(imgA, x, y, textureScale) : sampleWrap(imgB, x, y, textureScale);
+        const pix = recipe.fill === 'A' ? sampleMat(imgA, "A", x, y) : sampleMat(imgB, "B", x, y);
         buf[idx] = pix[0]; buf[idx+1] = pix[1]; buf[idx+2] = pix[2]; buf[idx+3] = pix[3]; alphaSum += pix[3];
       }
-      const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}_32.png`);
+      const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}${variantTag(k)}${frameTag(f)}_32.png`);
       await sharp(buf, { raw: { width: tileSize, height: tileSize, channels: 4 } }).png().toFile(tilePath);
-      tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
+      frameOut[f][k].push(tilePath);
+      if (k === 0 && f === 0) tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
       try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} tile_${id}_${name}_fill=${recipe.fill} alphaSum=${alphaSum}\n`, "utf8"); } catch {}
       continue;
     }
@@ -296,6 +266,7 @@ export async function generateCoast16Procedural(params: {
       const mods = bases.map(b => modulatePolyline(b, recipe.lineStyle || lineStyle, defaultStyleParams(recipe.lineStyle || lineStyle)));
       // Precompute probe signs per base
       const probeSigns = bases.map(b => Math.sign(signedDistanceToPolyline(recipe.aProbe.x, recipe.aProbe.y, b)) || 1);
+      const side = new Uint8Array(tileSize * tileSize);
       const buf = Buffer.alloc(tileSize * tileSize * 4);
       let alphaSum = 0;
       for (let y = 0; y < tileSize; y++) for (let x = 0; x < tileSize; x++) {
@@ -306,16 +277,19 @@ export async function generateCoast16Procedural(params: {
         // equal: A if all sideMatches equal (for 2 lines, sideMatches[0]===sideMatches[1])
         // xor: A if sideMatches differ
         const Acond = recipe.multi!.combiner === 'equal' ? (sideMatches[0] === sideMatches[1]) : (sideMatches[0] !== sideMatches[1]);
-        let outPix: [number, number, number, number] = Acond ? sampleWrap(imgA, x, y, textureScale) : sampleWrap(imgB, x, y, textureScale);
+        side[y * tileSize + x] = Acond ? 1 : 0;
+        let outPix: [number, number, number, number] = Acond ? sampleMat(imgA, "A", x, y) : sampleMat(imgB, "B", x, y);
         if (transitionMode === 'texture' && inBand) {
-          const tPix = sampleWrap(imgT, x, y, textureScale);
+          const tPix = sampleWrap(imgT, x + off.x, y + off.y, textureScale);
           outPix = over(outPix, tPix);
         }
         buf[idx] = outPix[0]; buf[idx+1] = outPix[1]; buf[idx+2] = outPix[2]; buf[idx+3] = outPix[3]; alphaSum += outPix[3];
       }
-      const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}_32.png`);
+      if (!regions.has(nib)) recordRegions(nib, side);
+      const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}${variantTag(k)}${frameTag(f)}_32.png`);
       await sharp(buf, { raw: { width: tileSize, height: tileSize, channels: 4 } }).png().toFile(tilePath);
-      tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
+      frameOut[f][k].push(tilePath);
+      if (k === 0 && f === 0) tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
       try { await fs.appendFile(path.join(outDir, "debug.log"), `${new Date().toISOString()} tile_${id}_${name}_multi alphaSum=${alphaSum}\n`, "utf8"); } catch {}
       continue;
     }
@@ -336,6 +310,7 @@ export async function generateCoast16Procedural(params: {
     } catch {}
     const mod = modulatePolyline(base, recipe.lineStyle || lineStyle, defaultStyleParams(recipe.lineStyle || lineStyle));
     const buf = Buffer.alloc(tileSize * tileSize * 4);
+    const side = new Uint8Array(tileSize * tileSize);
 
     let alphaSum = 0;
     for (let y = 0; y < tileSize; y++) {
@@ -348,10 +323,11 @@ export async function generateCoast16Procedural(params: {
         const aIsPositive = probeSign >= 0;
         const isA = aIsPositive ? (sd >= 0 && !inBand) : (sd <= 0 && !inBand);
         const isB = !inBand && !isA;
+        side[y * tileSize + x] = (aIsPositive ? sd >= 0 : sd <= 0) ? 1 : 0;
 
-        let outPix: [number, number, number, number] = isA ? sampleWrap(imgA, x, y, textureScale) : sampleWrap(imgB, x, y, textureScale);
+        let outPix: [number, number, number, number] = isA ? sampleMat(imgA, "A", x, y) : sampleMat(imgB, "B", x, y);
         if (transitionMode === "texture" && inBand) {
-          const tPix = sampleWrap(imgT, x, y, textureScale);
+          const tPix = sampleWrap(imgT, x + off.x, y + off.y, textureScale);
           outPix = over(outPix, tPix);
         }
 
@@ -360,9 +336,11 @@ export async function generateCoast16Procedural(params: {
       }
     }
 
-    const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}_32.png`);
+    if (!regions.has(nib)) recordRegions(nib, side);
+    const tilePath = path.join(tilesDir, `${id.toString().padStart(2, "0")}_${name}${variantTag(k)}${frameTag(f)}_32.png`);
     await sharp(buf, { raw: { width: tileSize, height: tileSize, channels: 4 } }).png().toFile(tilePath);
-    tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
+    frameOut[f][k].push(tilePath);
+    if (k === 0 && f === 0) tiles.push({ id, name, file: path.relative(outDir, tilePath).replaceAll("\\", "/") });
     try {
       if (id === 0 || id === 1 || id === 3) {
         const a00 = sampleWrap(imgA, 0, 0, textureScale);
@@ -380,14 +358,14 @@ export async function generateCoast16Procedural(params: {
     } catch {}
   }
 
-  // Stitch sheet 4×4
+  // Stitch sheet 4×4, alternates stacked below, animation frames to the right
   const COLS = 4, ROWS = 4;
   // Preload and normalize all overlays to buffers of tileSize for a single composite call
   const prepared: sharp.OverlayOptions[] = [];
   tiles.sort((a, b) => a.id - b.id);
-  for (let i = 0; i < tiles.length; i++) {
-    const row = Math.floor(i / COLS), col = i % COLS;
-    const fp = path.join(outDir, tiles[i].file);
+  for (let f = 0; f < frameOut.length; f++) for (let k = 0; k < frameOut[f].length; k++) for (let i = 0; i < frameOut[f][k].length; i++) {
+    const row = Math.floor(i / COLS) + k * ROWS, col = i % COLS + f * COLS;
+    const fp = frameOut[f][k][i];
     let buf: Buffer;
     try {
       const md = await sharp(fp).metadata();
@@ -402,7 +380,7 @@ export async function generateCoast16Procedural(params: {
     prepared.push({ input: buf, left: col * tileSize, top: row * tileSize });
   }
   const sheetPath = path.join(outDir, `coast16_${tileSize}.png`);
-  await sharp({ create: { width: COLS * tileSize, height: ROWS * tileSize, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+  await sharp({ create: { width: COLS * tileSize * frameCount, height: ROWS * tileSize * weights.length, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
     .composite(prepared)
     .png()
     .toFile(sheetPath);
@@ -415,12 +393,28 @@ try {
     const extId = "1_tex";
     const atlasId = "TileSetAtlasSource_main";
 
+    // Collision and navigation come from the traced A/B split of each slot
+    const coordOf = (n: number): [number, number] => [n % COLS, Math.floor(n / COLS)];
+    const traced: TileRegions[] = nibs.map((n) => ({ coord: coordOf(n), ...(regions.get(n) ?? { A: [], B: [] }) }));
+    const shapes = renderTileShapes(applyRegionShapes(
+      { meta: { name: slug, tileSize }, terrainSets: [], tiles: nibs.map((n) => ({ coord: coordOf(n) })) },
+      traced,
+      { tileSize, collision, materialsAB },
+    ).rules);
+    const customData = renderCustomData(applyMaterialData(
+      { meta: { name: slug, tileSize }, terrainSets: [], tiles: nibs.map((n) => ({ coord: coordOf(n) })) },
+      traced.map((g) => ({ coord: g.coord, a: regionCoverageA(g, tileSize) })),
+      { materialsAB },
+    ));
+    const navCount = shapes.subResources.filter((l) => l.startsWith("[sub_resource")).length;
+
     // Header stays dynamic so it points to the sheet we just wrote.
     const header = [
-      `[gd_resource type="TileSet" load_steps=3 format=3 uid="uid://auto_${slug}_coast16"]`,
+      `[gd_resource type="TileSet" load_steps=${3 + navCount} format=3 uid="uid://auto_${slug}_coast16"]`,
       "",
-      `[ext_resource type="Texture2D" path="res://Assets/Tilesets/TilesetRessources/${slug}/${sheetName}" id="${extId}"]`,
+      `[ext_resource type="Texture2D" path="${engineResPath(resolveEngineProfile(params.engineProfile), "proceduralTileset", { slug }, sheetName)}" id="${extId}"]`,
       "",
+      ...shapes.subResources,
       `[sub_resource type="TileSetAtlasSource" id="${atlasId}"]`,
       `texture = ExtResource("${extId}")`,
       `texture_region_size = Vector2i(${tileSize}, ${tileSize})`,
@@ -428,32 +422,28 @@ try {
 
     // Exact per-tile rules copied from the provided .tres (only the 4×4 we export).
     // NOTE: These coordinates and peering bits are verbatim from your resource.
-    const rules = [
+    const handRules = [
       // row 0
       `0:0/0 = 0`,
       `0:0/0/terrain_set = 0`,
-      `0:0/0/physics_layer_0/polygon_0/points = PackedVector2Array(-11.7415, -16, -16, -16, -16, -2.10296, 16, -1.40198, 16, -16)`,
       `0:0/0/terrains_peering_bit/bottom_right_corner = 0`,
       `0:0/0/terrains_peering_bit/bottom_side = 0`,
       `0:0/0/terrains_peering_bit/bottom_left_corner = 0`,
 
       `1:0/0 = 0`,
       `1:0/0/terrain_set = 0`,
-      `1:0/0/physics_layer_0/polygon_0/points = PackedVector2Array(-16, 2.45346, -16, -2.10296, -16, 14.7908, 14.3878, 16, 18.4009, 2.10296)`,
       `1:0/0/terrains_peering_bit/top_left_corner = 0`,
       `1:0/0/terrains_peering_bit/top_side = 0`,
       `1:0/0/terrains_peering_bit/top_right_corner = 0`,
 
       `2:0/0 = 0`,
       `2:0/0/terrain_set = 0`,
-      `2:0/0/physics_layer_0/polygon_0/points = PackedVector2Array(-11.7415, -16, -16, -16, -16, 16, -3.68019, 17.5247, -2.45346, -16)`,
       `2:0/0/terrains_peering_bit/right_side = 0`,
       `2:0/0/terrains_peering_bit/bottom_right_corner = 0`,
       `2:0/0/terrains_peering_bit/top_right_corner = 0`,
 
       `3:0/0 = 0`,
       `3:0/0/terrain_set = 0`,
-      `3:0/0/physics_layer_0/polygon_0/points = PackedVector2Array(9.46333, -14.5455, 0.525742, -16, 0.350494, 16, 16, 16, 16, -16)`,
       `3:0/0/terrains_peering_bit/bottom_left_corner = 0`,
       `3:0/0/terrains_peering_bit/left_side = 0`,
       `3:0/0/terrains_peering_bit/top_left_corner = 0`,
@@ -461,7 +451,6 @@ try {
       // row 1
       `0:1/0 = 0`,
       `0:1/0/terrain_set = 0`,
-      `0:1/0/physics_layer_0/polygon_0/points = PackedVector2Array(-11.7415, -16, -16, -16, -16, -2.10296, -0.700989, -1.22673, -0.525742, -16)`,
       `0:1/0/terrains_peering_bit/right_side = 0`,
       `0:1/0/terrains_peering_bit/bottom_right_corner = 0`,
       `0:1/0/terrains_peering_bit/bottom_side = 0`,
@@ -470,7 +459,6 @@ try {
 
       `1:1/0 = 0`,
       `1:1/0/terrain_set = 0`,
-      `1:1/0/physics_layer_0/polygon_0/points = PackedVector2Array(7.18512, -16, -0.175247, -16, 0.175247, 0.350494, 16, -1.40198, 16, -16)`,
       `1:1/0/terrains_peering_bit/bottom_right_corner = 0`,
       `1:1/0/terrains_peering_bit/bottom_side = 0`,
       `1:1/0/terrains_peering_bit/bottom_left_corner = 0`,
@@ -479,7 +467,6 @@ try {
 
       `2:1/0 = 0`,
       `2:1/0/terrain_set = 0`,
-      `2:1/0/physics_layer_0/polygon_0/points = PackedVector2Array(7.18512, 0.876236, 0, -0.876236, -0.525742, 16, 16, 16, 16, -1.05148)`,
       `2:1/0/terrains_peering_bit/bottom_left_corner = 0`,
       `2:1/0/terrains_peering_bit/left_side = 0`,
       `2:1/0/terrains_peering_bit/top_left_corner = 0`,
@@ -488,7 +475,6 @@ try {
 
       `3:1/0 = 0`,
       `3:1/0/terrain_set = 0`,
-      `3:1/0/physics_layer_0/polygon_0/points = PackedVector2Array(-11.5663, -2.10296, -16, -1.75247, -16, 16, 1.22673, 16, 1.40197, -1.92772)`,
       `3:1/0/terrains_peering_bit/right_side = 0`,
       `3:1/0/terrains_peering_bit/bottom_right_corner = 0`,
       `3:1/0/terrains_peering_bit/top_left_corner = 0`,
@@ -498,41 +484,32 @@ try {
       // row 2
       `0:2/0 = 0`,
       `0:2/0/terrain_set = 0`,
-      `0:2/0/physics_layer_0/polygon_0/points = PackedVector2Array(-0.175247, -16, 16, -16, 16, 16, -17.1742, 16.999, -16, 0.350494, 1.92772, -0.350494)`,
       `0:2/0/terrains_peering_bit/top_left_corner = 0`,
 
       `1:2/0 = 0`,
       `1:2/0/terrain_set = 0`,
-      `1:2/0/physics_layer_0/polygon_0/points = PackedVector2Array(-1.57722, -16, -1.05148, -0.175247, 16, 1.40197, 16, 16, -16, 16, -16, -16)`,
       `1:2/0/terrains_peering_bit/top_right_corner = 0`,
 
       `2:2/0 = 0`,
       `2:2/0/terrain_set = 0`,
-      `2:2/0/physics_layer_0/polygon_0/points = PackedVector2Array(16, -1.22673, -0.350494, -0.525742, -0.700989, 16, -16, 16, -16, -14.7207, 16, -16)`,
       `2:2/0/terrains_peering_bit/bottom_right_corner = 0`,
 
       `3:2/0 = 0`,
       `3:2/0/terrain_set = 0`,
-      `3:2/0/physics_layer_0/polygon_0/points = PackedVector2Array(-16, -3.68019, -16, -16, 16, -16, 16, 16, 2.80395, 16, 2.9792, -2.27821)`,
       `3:2/0/terrains_peering_bit/bottom_left_corner = 0`,
 
       // row 3
       `0:3/0 = 0`,
       `0:3/0/terrain_set = 0`,
-      `0:3/0/physics_layer_0/polygon_0/points = PackedVector2Array(0, -1.05148, -16, -1.40198, -17.5247, -18.0504, -1.05148, -17.5247)`,
-      `0:3/0/physics_layer_0/polygon_1/points = PackedVector2Array(0.700989, -1.22673, 17.5247, -0.876236, 16, 14.896, 0.350494, 16)`,
       `0:3/0/terrains_peering_bit/bottom_left_corner = 0`,
       `0:3/0/terrains_peering_bit/top_right_corner = 0`,
 
       `1:3/0 = 0`,
       `1:3/0/terrain_set = 0`,
-      `1:3/0/physics_layer_0/polygon_0/points = PackedVector2Array(0, -0.175247, -0.350494, -16, -16, -16, -16, -0.350494)`,
-      `1:3/0/physics_layer_0/polygon_1/points = PackedVector2Array(0.700989, 0.350494, 14.5455, 0.175247, 16.6485, 17.6999, 1.40197, 18.0504)`,
       `1:3/0/terrains_peering_bit/bottom_left_corner = 0`,
       `1:3/0/terrains_peering_bit/top_right_corner = 0`,
 
       `2:3/0 = 0`,
-      `2:3/0/physics_layer_0/polygon_0/points = PackedVector2Array(16, -16, -16, -16, -16, 16, 16, 16)`,
 
       `3:3/0 = 0`,
       `3:3/0/terrain_set = 0`,
@@ -546,6 +523,7 @@ try {
       `3:3/0/terrains_peering_bit/top_side = 0`,
       `3:3/0/terrains_peering_bit/top_right_corner = 0`,
     ];
+    const rules = [...handRules, ...[...shapes.tileLines.values()].flat(), ...[...customData.tileLines.values()].flat()];
 
     const footer = [
       "",
@@ -558,15 +536,16 @@ try {
       `terrain_set_0/mode = 0`,
       `terrain_set_0/terrain_0/name = "Terrain 0"`,
       `terrain_set_0/terrain_0/color = Color(0.5, 0.34375, 0.25, 1)`,
+      ...shapes.resourceLines,
+      ...customData.resourceLines,
       `sources/0 = SubResource("${atlasId}")`,
     ];
 
-    const tres = [...header, ...rules, ...footer, ""].join("\n");
+    const tres = [...header, ...withAnimationColumns(withVariantRows(rules, ROWS, weights), COLS, anim?.durations ?? []), ...footer, ""].join("\n");
     await fs.writeFile(path.join(outDir, tresName), tres, "utf8");
   } catch {}
 
   // Manifest
-  const palette: RGB[] = ROMAN_STEAMPUNK_32;
   const manifest: TilesetManifest = {
     schema: "tileset.manifest/1.0",
     material: "procedural",
@@ -574,13 +553,17 @@ try {
     grid: { cols: COLS, rows: ROWS, tile: tileSize },
     palette: { name: paletteName, rgb: palette },
     openai: { model: "gpt-image-1", size: "1024x1024", transparent: true },
-    tiles: tiles.map(t => ({ id: t.id, name: t.name, file: t.file, promptHash: undefined })),
+    tiles: tiles.map((t, idx) => ({ id: t.id, name: t.name, file: t.file, promptHash: undefined, regions: regions.get(t.id), ...variantFields(outDir, variantOut, weights, idx),
+      ...(anim ? { frames: frameOut.slice(1).map((fr) => path.relative(outDir, fr[0][idx]).replaceAll("\\", "/")) } : {}) })),
     sheet: { file: path.basename(sheetPath), layout: "row-major" },
+    ...variantsBlock(weights),
+    ...animationBlock(anim),
+    materialsAB,
     // embed procedural block for tightness
   } as any;
   (manifest as any).procedural = {
     pattern: "coast16",
-    settings: { tileSize, bandWidth, cornerStyle, transitionMode, textureScale },
+    settings: { tileSize, bandWidth, cornerStyle, transitionMode, textureScale, variants: weights.length, animation: anim, collision },
     textures: { A: params.textures.A ?? null, B: params.textures.B ?? null, T: params.textures.T ?? null }
   };
 
@@ -588,5 +571,5 @@ try {
   await writeManifest(manifestPath, manifest);
 
   log.info({ sheetPath }, "coast16 procedural sheet written");
-  return { sheetPath, tilePaths: tiles.map(t => path.join(outDir, t.file)), manifestPath };
+  return { sheetPath, tilePaths: frameOut.flat(2), manifestPath };
 }
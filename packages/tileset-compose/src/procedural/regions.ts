@@ -0,0 +1,105 @@
+// Trace a per-pixel material mask into simplified outlines for Godot collision/navigation
+import type { Pt } from "./shared.js";
+
+type Edge = { a: Pt; b: Pt; used?: boolean };
+const key = (x: number, y: number) => `${x},${y}`;
+
+// Pixel-edge boundary of the set pixels, directed so the region is on the right (y down):
+// outer loops come out clockwise on screen, holes counter-clockwise
+function boundaryEdges(mask: ArrayLike<boolean | number>, N: number): Edge[] {
+  const on = (x: number, y: number) => x >= 0 && y >= 0 && x < N && y < N && !!mask[y * N + x];
+  const edges: Edge[] = [];
+  for (let y = 0; y < N; y++) for (let x = 0; x < N; x++) {
+    if (!on(x, y)) continue;
+    if (!on(x, y - 1)) edges.push({ a: { x, y }, b: { x: x + 1, y } });
+    if (!on(x + 1, y)) edges.push({ a: { x: x + 1, y }, b: { x: x + 1, y: y + 1 } });
+    if (!on(x, y + 1)) edges.push({ a: { x: x + 1, y: y + 1 }, b: { x, y: y + 1 } });
+    if (!on(x - 1, y)) edges.push({ a: { x, y: y + 1 }, b: { x, y } });
+  }
+  return edges;
+}
+
+// Chain edges into closed loops; at diagonal pinch points prefer the right turn so regions
+// that only touch at a corner stay separate (4-connectivity)
+function chainLoops(edges: Edge[]): Pt[][] {
+  const byStart = new Map<string, Edge[]>();
+  for (const e of edges) {
+    const k = key(e.a.x, e.a.y);
+    byStart.set(k, [...(byStart.get(k) ?? []), e]);
+  }
+  const loops: Pt[][] = [];
+  for (const first of edges) {
+    if (first.used) continue;
+    const pts: Pt[] = [];
+    let cur: Edge | undefined = first;
+    while (cur && !cur.used) {
+      cur.used = true;
+      pts.push(cur.a);
+      const dx = cur.b.x - cur.a.x, dy = cur.b.y - cur.a.y;
+      const next: Edge[] = (byStart.get(key(cur.b.x, cur.b.y)) ?? []).filter((e) => !e.used);
+      const turn = (e: Edge) => {
+        const ex = e.b.x - e.a.x, ey = e.b.y - e.a.y;
+        if (ex === -dy && ey === dx) return 0;    // right
+        if (ex === dx && ey === dy) return 1;     // straight
+        return 2;                                 // left
+      };
+      cur = next.sort((p, q) => turn(p) - turn(q))[0];
+    }
+    if (pts.length >= 3) loops.push(pts);
+  }
+  return loops;
+}
+
+function signedArea(pts: Pt[]): number {
+  let s = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i], b = pts[(i + 1) % pts.length];
+    s += a.x * b.y - b.x * a.y;
+  }
+  return s / 2;
+}
+
+function distToSegment(p: Pt, a: Pt, b: Pt): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const L2 = dx * dx + dy * dy;
+  const t = L2 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / L2)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Douglas–Peucker on an open run (endpoints kept)
+function simplifyRun(pts: Pt[], tol: number): Pt[] {
+  if (pts.length <= 2) return pts;
+  let idx = 0, dmax = 0;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const d = distToSegment(pts[i], pts[0], pts[pts.length - 1]);
+    if (d > dmax) { dmax = d; idx = i; }
+  }
+  if (dmax <= tol) return [pts[0], pts[pts.length - 1]];
+  return [...simplifyRun(pts.slice(0, idx + 1), tol).slice(0, -1), ...simplifyRun(pts.slice(idx), tol)];
+}
+
+// Closed loop: split at the vertex farthest from the first one and simplify both halves
+function simplifyLoop(pts: Pt[], tol: number): Pt[] {
+  let far = 0, dmax = -1;
+  for (let i = 1; i < pts.length; i++) {
+    const d = Math.hypot(pts[i].x - pts[0].x, pts[i].y - pts[0].y);
+    if (d > dmax) { dmax = d; far = i; }
+  }
+  const a = simplifyRun(pts.slice(0, far + 1), tol);
+  const b = simplifyRun([...pts.slice(far), pts[0]], tol);
+  return [...a.slice(0, -1), ...b.slice(0, -1)];
+}
+
+/**
+ * Outer outlines of the set pixels of an N×N mask as flat tile-centred x,y lists (Godot tile
+ * polygon space). Holes are dropped — Godot tile polygons cannot carry them — and stair steps
+ * within `tolerance` px collapse into straight edges.
+ */
+export function traceRegionOutlines(mask: ArrayLike<boolean | number>, N: number, tolerance = 1): number[][] {
+  const h = N / 2;
+  return chainLoops(boundaryEdges(mask, N))
+    .filter((loop) => signedArea(loop) > 0)
+    .map((loop) => simplifyLoop(loop, tolerance))
+    .filter((loop) => loop.length >= 3 && signedArea(loop) > 0)
+    .map((loop) => loop.flatMap((p) => [p.x - h, p.y - h]));
+}
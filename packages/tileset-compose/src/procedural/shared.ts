@@ -0,0 +1,108 @@
+// Shared helpers for the procedural (offline) tileset generators
+import sharp from "sharp";
+
+export type CornerStyle = "stepped" | "quarter" | "square";
+export type TransitionMode = "texture"; // v1: respect T alpha only
+export type LineStyle = "straight_line" | "wavy_smooth" | "craggy" | "zigzag";
+
+export type Img = { data: Buffer; width: number; height: number; channels: number } | null;
+
+export async function loadImage(p?: string | null): Promise<Img> {
+  if (!p) return null;
+  try {
+    const { data, info } = await sharp(p).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, channels: info.channels };
+  } catch {
+    return null;
+  }
+}
+
+export function sampleWrap(img: Img, u: number, v: number, scale = 1): [number, number, number, number] {
+  if (!img) return [0, 0, 0, 0];
+  const { data, width, height, channels } = img;
+  const U = Math.floor(((u * scale) % width + width) % width);
+  const V = Math.floor(((v * scale) % height + height) % height);
+  const idx = (V * width + U) * channels;
+  return [data[idx] ?? 0, data[idx + 1] ?? 0, data[idx + 2] ?? 0, data[idx + 3] ?? 255];
+}
+
+export function over(bg: [number, number, number, number], fg: [number, number, number, number]): [number, number, number, number] {
+  const ba = bg[3] / 255, fa = fg[3] / 255;
+  const outA = fa + ba * (1 - fa);
+  if (outA <= 0) return [0, 0, 0, 0];
+  const r = Math.round((fg[0] * fa + bg[0] * ba * (1 - fa)) / outA);
+  const g = Math.round((fg[1] * fa + bg[1] * ba * (1 - fa)) / outA);
+  const b = Math.round((fg[2] * fa + bg[2] * ba * (1 - fa)) / outA);
+  return [r, g, b, Math.round(outA * 255)];
+}
+
+export type Pt = { x: number; y: number };
+
+export function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
+export function normalize(dx: number, dy: number): [number, number] { const L = Math.hypot(dx, dy) || 1; return [dx / L, dy / L]; }
+
+// Modulate polyline by lineStyle (returns densified polyline)
+export function modulatePolyline(base: Pt[], style: LineStyle, params: { amplitude?: number; wavelength?: number; jitter?: number; stairStep?: number }): Pt[] {
+  if (style === "straight_line") return base;
+  const amp = params.amplitude ?? 1.5;
+  const wav = Math.max(1, params.wavelength ?? 8);
+  const jit = params.jitter ?? 1;
+  const step = Math.max(1, Math.round(params.stairStep ?? 1));
+
+  const out: Pt[] = [];
+  for (let si = 0; si < base.length - 1; si++) {
+    const p0 = base[si], p1 = base[si + 1];
+    const dx = p1.x - p0.x, dy = p1.y - p0.y; const segLen = Math.hypot(dx, dy) || 1;
+    const [ux, uy] = normalize(dx, dy);
+    // normal (left-of-dir) in screen coords (y down): (uy, -ux)
+    const nx = uy, ny = -ux;
+    const samples = Math.max(2, Math.ceil(segLen));
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      let off = 0;
+      if (style === "wavy_smooth") {
+        const phase = (t * segLen) / wav * (2 * Math.PI);
+        off = amp * Math.sin(phase);
+      } else if (style === "zigzag") {
+        const tri = 2 * Math.abs((t * segLen / wav) % 1 - 0.5) - 0.5; // -0.5..0.5
+        off = amp * tri * 2;
+      } else if (style === "craggy") {
+        const k = Math.floor((t * segLen) / Math.max(1, wav / 2));
+        const v = ((k * 9301 + 49297) % 233280) / 233280; // LCG-based deterministic
+        const s = v < 0.5 ? -1 : 1;
+        off = s * jit;
+      }
+      // taper to ensure exact endpoints
+      off *= Math.sin(Math.PI * t);
+      // stair step quantization
+      let x = p0.x + dx * t + nx * off;
+      let y = p0.y + dy * t + ny * off;
+      if (step > 1 && (style === "craggy")) {
+        x = Math.round(x / step) * step;
+        y = Math.round(y / step) * step;
+      }
+      if (out.length === 0 || x !== out[out.length - 1].x || y !== out[out.length - 1].y) out.push({ x, y });
+    }
+  }
+  return out;
+}
+
+// Signed distance to polyline; positive if point is to the left of nearest segment
+export function signedDistanceToPolyline(x: number, y: number, pl: Pt[]): number {
+  let minD2 = Infinity; let sign = 1;
+  for (let i = 0; i < pl.length - 1; i++) {
+    const a = pl[i], b = pl[i + 1]; const vx = b.x - a.x, vy = b.y - a.y;
+    const L2 = vx*vx + vy*vy || 1; const t = Math.max(0, Math.min(1, ((x - a.x)*vx + (y - a.y)*vy) / L2));
+    const qx = a.x + vx * t, qy = a.y + vy * t; const dx = x - qx, dy = y - qy;
+    const d2 = dx*dx + dy*dy;
+    if (d2 < minD2) { minD2 = d2; sign = Math.sign(vx * (y - qy) - vy * (x - qx)) || 1; }
+  }
+  return Math.sign(sign) * Math.sqrt(minD2);
+}
+
+export function defaultStyleParams(style: LineStyle) {
+  if (style === "wavy_smooth") return { amplitude: 1.5, wavelength: 8 };
+  if (style === "zigzag") return { amplitude: 2.0, wavelength: 8 };
+  if (style === "craggy") return { jitter: 1, stairStep: 1 };
+  return {};
+}
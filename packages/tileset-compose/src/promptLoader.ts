@@ -1,7 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { fileURLToPath } from "node:url";
 import { createLogger } from "@pixelart/log";
-import type { PromptDictionary, MaskDictionary, Coast16PromptDictionary } from "./types.js";
+import type { PromptDictionary, MaskDictionary, Coast16PromptDictionary, PatternPromptSet } from "./types.js";
+import type { TilesetPattern } from "./patterns/registry.js";
 
 const log = createLogger("@tileset/promptLoader");
 
@@ -45,3 +47,39 @@ export async function loadCoast16PromptDictionary(dictPath: string): Promise<Coa
   }
   return parsed as Coast16PromptDictionary;
 }
+
+const PACKAGE_PROMPTS_DIR = fileURLToPath(new URL("../prompts/", import.meta.url));
+
+/** Absolute path of a built-in pattern's prompt dictionary (optionally a named variant), if any. */
+export function patternDictPath(pattern: TilesetPattern, variant?: string): string | undefined {
+  const file = (variant && pattern.prompts?.variants?.[variant]) || pattern.prompts?.dictionary;
+  return file ? path.join(PACKAGE_PROMPTS_DIR, file) : undefined;
+}
+
+/**
+ * Prompts for every slot of a pattern, in slot order. Built-ins read their packaged
+ * dictionary; user patterns use inline prompts and fall back to a mask description.
+ */
+export async function loadPatternPrompts(pattern: TilesetPattern, variant?: string): Promise<PatternPromptSet> {
+  const dictPath = patternDictPath(pattern, variant);
+  if (dictPath) {
+    const parsed = JSON.parse(await fs.readFile(dictPath, "utf8"));
+    if (!Array.isArray(parsed?.tiles) || parsed.tiles.length < pattern.slots) {
+      throw new Error(`${pattern.id}_dictionary_requires_${pattern.slots}_tiles`);
+    }
+    return {
+      global_preamble: String(parsed.global_preamble ?? ""),
+      material: parsed.material,
+      tiles: parsed.tiles.slice(0, pattern.slots).map((t: any) => ({ id: t.id, name: t.name, prompt: String(t.prompt ?? "") })),
+    };
+  }
+  const { positions, set } = pattern.maskBits;
+  return {
+    global_preamble: pattern.prompts?.global_preamble ?? "",
+    tiles: pattern.tiles.map((t) => ({
+      id: t.id,
+      name: t.name,
+      prompt: t.prompt ?? `Material ${set} at mask positions [${t.mask.join(",")}] of [${positions.join(",")}]; the other material everywhere else.`,
+    })),
+  };
+}
@@ -1,29 +1,138 @@
 import sharp from "sharp";
 import type { RGB } from "./types.js";
+import { resolvePaletteColors } from "./palettes.js";
+import { createColorMatcher, type ColorDistance } from "./color.js";
 
-export function nearestColor(palette: RGB[], r: number, g: number, b: number): RGB {
-  let best = palette[0], bestD = Infinity;
-  for (const [pr, pg, pb] of palette) {
-    const d = (r-pr)*(r-pr) + (g-pg)*(g-pg) + (b-pb)*(b-pb);
-    if (d < bestD) { bestD = d; best = [pr, pg, pb]; }
+// none: nearest colour; bayerN: ordered N×N threshold map; floyd_steinberg: error diffusion;
+// pattern: Knoll pattern dithering (per-colour candidate mix picked by a 4×4 threshold map)
+export type DitherMode = "none" | "bayer2" | "bayer4" | "bayer8" | "floyd_steinberg" | "pattern";
+
+export const DITHER_MODES: DitherMode[] = ["none", "bayer2", "bayer4", "bayer8", "floyd_steinberg", "pattern"];
+
+export type QuantizeOptions = {
+  distance?: ColorDistance;    // default "rgb"
+  dither?: DitherMode;         // default "none"
+  ditherStrength?: number;     // 0..1 scale of the dither offset / diffused error (default 1)
+};
+
+/** Normalised options, as recorded in tileset manifests. */
+export type ResolvedQuantize = { distance: ColorDistance; dither: DitherMode; strength: number };
+
+export function resolveQuantizeOptions(opts?: QuantizeOptions): ResolvedQuantize {
+  const s = Number(opts?.ditherStrength);
+  return {
+    distance: opts?.distance && ["rgb", "lab76", "lab2000", "oklab"].includes(opts.distance) ? opts.distance : "rgb",
+    dither: opts?.dither && DITHER_MODES.includes(opts.dither) ? opts.dither : "none",
+    strength: Number.isFinite(s) ? Math.max(0, Math.min(1, s)) : 1,
+  };
+}
+
+export function nearestColor(palette: RGB[], r: number, g: number, b: number, distance: ColorDistance = "rgb"): RGB {
+  if (distance === "rgb") {
+    let best = palette[0], bestD = Infinity;
+    for (const [pr, pg, pb] of palette) {
+      const d = (r-pr)*(r-pr) + (g-pg)*(g-pg) + (b-pb)*(b-pb);
+      if (d < bestD) { bestD = d; best = [pr, pg, pb]; }
+    }
+    return best;
   }
-  return best;
+  const [pr, pg, pb] = palette[createColorMatcher(palette, distance)(r, g, b)];
+  return [pr, pg, pb];
+}
+
+// Recursive Bayer index matrix of size n (power of two), values 0..n²-1
+function bayerMatrix(n: number): number[][] {
+  if (n === 1) return [[0]];
+  const h = bayerMatrix(n / 2);
+  return Array.from({ length: n }, (_, y) => Array.from({ length: n }, (_, x) => {
+    const q = (y < n / 2 ? 0 : 2) + (x < n / 2 ? 0 : 1);
+    return 4 * h[y % (n / 2)][x % (n / 2)] + [0, 2, 3, 1][q];
+  }));
 }
 
-/** Quantize entire image buffer to a fixed palette (no dithering). Keeps alpha. */
-export async function quantizeToPalette(buf: Buffer, palette: RGB[]): Promise<Buffer> {
+const luma = ([r, g, b]: RGB) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Quantize entire image buffer to a fixed palette. Keeps alpha (pixels under 8 become fully
+ * transparent, the rest opaque). `palette` is either the colors or a registered palette name
+ * (see palettes.ts); `opts` picks the colour distance and dithering.
+ */
+export async function quantizeToPalette(buf: Buffer, palette: RGB[] | string, opts?: QuantizeOptions): Promise<Buffer> {
+  const colors = typeof palette === "string" ? resolvePaletteColors(palette) : palette;
+  const { distance, dither, strength } = resolveQuantizeOptions(opts);
   const img = sharp(buf).ensureAlpha();
   const { data, info } = await img.raw().toBuffer({ resolveWithObject: true });
+  const W = info.width, H = info.height;
+  const match = createColorMatcher(colors, distance);
 
   const out = Buffer.alloc(data.length);
-  for (let i=0; i<data.length; i+=4) {
-    const r = data[i], g = data[i+1], b = data[i+2], a = data[i+3];
-    if (a < 8) { out[i]=0; out[i+1]=0; out[i+2]=0; out[i+3]=0; continue; }
-    const [nr, ng, nb] = nearestColor(palette, r, g, b);
-    out[i]=nr; out[i+1]=ng; out[i+2]=nb; out[i+3]=255;
+  const put = (i: number, k: number) => {
+    out[i] = colors[k][0]; out[i+1] = colors[k][1]; out[i+2] = colors[k][2]; out[i+3] = 255;
+  };
+  const opaque = (i: number) => data[i+3] >= 8;
+
+  if (dither === "floyd_steinberg") {
+    const work = Float32Array.from(data);
+    const spread = (x: number, y: number, er: number, eg: number, eb: number, w: number) => {
+      if (x < 0 || x >= W || y >= H) return;
+      const j = (y * W + x) * 4;
+      if (!opaque(j)) return;
+      work[j] += er * w; work[j+1] += eg * w; work[j+2] += eb * w;
+    };
+    for (let y = 0; y < H; y++) for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      if (!opaque(i)) continue;
+      const k = match(work[i], work[i+1], work[i+2]);
+      put(i, k);
+      const er = (work[i] - colors[k][0]) * strength;
+      const eg = (work[i+1] - colors[k][1]) * strength;
+      const eb = (work[i+2] - colors[k][2]) * strength;
+      spread(x + 1, y, er, eg, eb, 7 / 16);
+      spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+    }
+  } else if (dither === "pattern") {
+    // Knoll: accumulate the error of 16 successive picks into a candidate list sorted by luma;
+    // the threshold map chooses which candidate each pixel shows
+    const M = bayerMatrix(4);
+    const plans = new Map<number, number[]>();
+    const plan = (r: number, g: number, b: number) => {
+      const key = (r << 16) | (g << 8) | b;
+      let p = plans.get(key);
+      if (!p) {
+        p = [];
+        let er = 0, eg = 0, eb = 0;
+        for (let n = 0; n < 16; n++) {
+          const k = match(r + er * strength, g + eg * strength, b + eb * strength);
+          p.push(k);
+          er += r - colors[k][0]; eg += g - colors[k][1]; eb += b - colors[k][2];
+        }
+        p.sort((a, c) => luma(colors[a]) - luma(colors[c]));
+        plans.set(key, p);
+      }
+      return p;
+    };
+    for (let y = 0; y < H; y++) for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      if (opaque(i)) put(i, plan(data[i], data[i+1], data[i+2])[M[y & 3][x & 3]]);
+    }
+  } else if (dither !== "none") {
+    const n = dither === "bayer2" ? 2 : dither === "bayer4" ? 4 : 8;
+    const M = bayerMatrix(n);
+    // offset range ≈ one palette step per channel
+    const range = (strength * 255) / Math.max(1, Math.cbrt(colors.length));
+    for (let y = 0; y < H; y++) for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      if (!opaque(i)) continue;
+      const t = ((M[y % n][x % n] + 0.5) / (n * n) - 0.5) * range;
+      put(i, match(data[i] + t, data[i+1] + t, data[i+2] + t));
+    }
+  } else {
+    for (let i = 0; i < data.length; i += 4) if (opaque(i)) put(i, match(data[i], data[i+1], data[i+2]));
   }
 
-  return sharp(out, { raw: { width: info.width, height: info.height, channels: 4 } })
+  return sharp(out, { raw: { width: W, height: H, channels: 4 } })
     .png()
     .toBuffer();
 }
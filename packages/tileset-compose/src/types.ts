@@ -1,3 +1,6 @@
+import type { ColorDistance } from "./color.js";
+import type { DitherMode, ResolvedQuantize } from "./quantize.js";
+
 export type RGB = [number, number, number];
 
 export type OpenAIImageSize =
@@ -57,6 +60,13 @@ export type Coast16PromptDictionary = {
   tiles: Coast16TileSpec[];    // 16 entries
 };
 
+// Normalised per-slot prompts for any registered pattern
+export type PatternPromptSet = {
+  global_preamble: string;
+  material?: string;
+  tiles: Array<{ id: number; name: string; prompt: string }>;
+};
+
 export type TilesetComposeOptions = {
   outDir: string;                        // output directory for generated tileset
   paletteName?: string;                  // e.g. "roman_steampunk"
@@ -67,7 +77,12 @@ export type TilesetComposeOptions = {
   sheetRows?: number;                    // default 6
   transparentBG?: boolean;               // default true
   quantize?: boolean;                    // default true
+  colorDistance?: ColorDistance;         // quantization metric (default "rgb")
+  dither?: DitherMode;                   // quantization dithering (default "none")
+  ditherStrength?: number;               // 0..1 (default 1)
   materialsAB?: MaterialsAB;             // optional A/B materials + vehicles
+  variants?: number;                     // alternates per slot incl. base (default 1)
+  variantWeights?: number[];             // Godot probability per variant (default 1 each)
 };
 
 export type TilesetComposeResult = {
@@ -84,11 +99,12 @@ export type MaskFirstOptions = TilesetComposeOptions & {
 export type TilesetManifest = {
   schema: "tileset.manifest/1.0";
   material: string;
-  engine_order: "blob47" | "coast16";
+  engine_order: "blob47" | "coast16" | (string & {}); // registered pattern id
   grid: { cols: number; rows: number; tile: number };
   palette: {
     name?: string;
     rgb: RGB[];
+    quantize?: ResolvedQuantize;   // distance/dither used; absent when output was not quantized
   };
   openai: {
     model: string;           // e.g. gpt-image-1
@@ -100,10 +116,26 @@ export type TilesetManifest = {
     name: string;
     file: string;            // relative path to 32×32 tile
     promptHash?: string;     // basic hash of prompt used
+    weight?: number;         // base tile probability when alternates exist
+    alternates?: Array<{ variant: number; file: string; weight: number }>;
+    frames?: string[];       // animation frames 1..F-1 of the base tile
+    regions?: { A: number[][]; B: number[][] }; // traced outlines, tile-centred x,y pairs (procedural)
   }>;
   sheet: {
     file: string;            // relative path to 8×6 sheet
     layout: "row-major";
   };
+  variants?: {
+    count: number;           // including the base tile
+    weights: number[];       // index 0 = base
+    layout: "stacked";       // variant k occupies rows [k*grid.rows, (k+1)*grid.rows)
+  };
+  animation?: {
+    frames: number;          // including frame 0
+    durations: number[];     // seconds per frame
+    mode: "scroll" | "phase";
+    material: "A" | "B" | "both";
+    layout: "columns";       // frame f occupies columns [f*grid.cols, (f+1)*grid.cols)
+  };
   materialsAB?: MaterialsAB;             // if applicable to the pattern (e.g., coast16)
 };
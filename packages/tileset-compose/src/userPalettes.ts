@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createLogger } from "@pixelart/log";
+import {
+  registerPalette, createPalette, replaceUserPalettes, isBuiltinPalette, validatePalette, type Palette,
+} from "./palettes.js";
+import { parsePalette, rgbToHex, type PaletteFormat } from "./paletteFormats.js";
+
+const log = createLogger("@tileset/userPalettes");
+
+const RAW_FORMATS: PaletteFormat[] = ["gpl", "hex", "pal"];
+
+/**
+ * (Re)load user palettes from `<dir>`: `<id>.json` written by the import endpoint, plus raw
+ * `<id>.gpl` / `.hex` / `.pal` files dropped in by hand. JSON wins when both exist; invalid
+ * files are skipped. The registry is swapped in one step once every file has been read.
+ */
+export async function loadUserPalettes(dir: string): Promise<Palette[]> {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    files = [];
+  }
+  const loaded = new Map<string, Palette>();
+  // raw formats first so a same-named .json replaces them
+  const rank = (f: string) => (f.toLowerCase().endsWith(".json") ? 1 : 0);
+  for (const f of files.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))) {
+    const ext = path.extname(f).slice(1).toLowerCase();
+    const id = path.basename(f, path.extname(f));
+    if (ext !== "json" && !RAW_FORMATS.includes(ext as PaletteFormat)) continue;
+    try {
+      const text = await fs.readFile(path.join(dir, f), "utf8");
+      let def: any;
+      if (ext === "json") {
+        const json = JSON.parse(text);
+        def = { ...json, colors: (json.colors ?? []).map(hexToRgb) };
+      } else {
+        const parsed = parsePalette(text, ext as PaletteFormat);
+        def = { id, name: parsed.name ?? id, colors: parsed.colors, source: ext };
+      }
+      const palette = createPalette(def);
+      loaded.set(palette.id, palette);
+    } catch (err: any) {
+      log.warn({ file: f, err: String(err?.message ?? err) }, "user_palette_skipped");
+    }
+  }
+  replaceUserPalettes(loaded.values());
+  return [...loaded.values()];
+}
+
+function hexToRgb(c: unknown): unknown {
+  if (typeof c !== "string") return c;
+  const m = /^#?([0-9a-f]{6})$/i.exec(c.trim());
+  if (!m) return c;
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Writes `<dir>/<id>.json` (colors as "#rrggbb") and registers the palette. */
+export async function saveUserPalette(dir: string, def: any): Promise<Palette> {
+  const err = validatePalette(def);
+  if (err) throw new Error(`invalid_palette:${err}`);
+  const palette = registerPalette(def);
+  await fs.mkdir(dir, { recursive: true });
+  const file = { id: palette.id, name: palette.name, source: palette.source, colors: palette.colors.map(rgbToHex) };
+  await fs.writeFile(path.join(dir, `${palette.id}.json`), JSON.stringify(file, null, 2), "utf8");
+  return palette;
+}
+
+/** Removes every file backing a user palette; returns false when none existed. Built-ins are never touched. */
+export async function deleteUserPalette(dir: string, id: string): Promise<boolean> {
+  if (isBuiltinPalette(id) || validatePalette({ id, colors: [[0, 0, 0], [0, 0, 0]] }) === "invalid_id") return false;
+  let removed = false;
+  for (const ext of ["json", ...RAW_FORMATS]) {
+    try {
+      await fs.unlink(path.join(dir, `${id}.${ext}`));
+      removed = true;
+    } catch {
+      // not present in this format
+    }
+  }
+  if (removed) await loadUserPalettes(dir);
+  return removed;
+}
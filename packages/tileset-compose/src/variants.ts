@@ -0,0 +1,60 @@
+// Tile variations: N alternates per slot, stacked below the base grid in the sheet
+// (variant k of slot i at column i % cols, row floor(i / cols) + k * rows).
+import path from "node:path";
+import sharp from "sharp";
+import type { TilesetManifest } from "./types.js";
+
+export const MAX_VARIANTS = 8;
+
+/** One weight per variant (index 0 = base tile); missing/invalid weights default to 1. */
+export function resolveVariantWeights(count?: number, weights?: number[]): number[] {
+  const n = Math.max(1, Math.min(MAX_VARIANTS, Math.floor(Number(count ?? weights?.length ?? 1)) || 1));
+  return Array.from({ length: n }, (_, k) => {
+    const w = Number(weights?.[k]);
+    return Number.isFinite(w) && w > 0 ? w : 1;
+  });
+}
+
+/** File-name tag for a variant: "" for the base tile, "_v1", "_v2", … for alternates. */
+export function variantTag(k: number): string {
+  return k > 0 ? `_v${k}` : "";
+}
+
+/** Deterministic texture origin for procedural alternates (reseeds where sampleWrap starts). */
+export function variantTextureOffset(k: number): { x: number; y: number } {
+  if (k <= 0) return { x: 0, y: 0 };
+  const h = (k * 9301 + 49297) % 233280;
+  return { x: (h % 997) + 17 * k, y: (Math.floor(h / 997) % 991) + 31 * k };
+}
+
+/** Extra prompt line asking the model for an alternate of the same slot. */
+export function variantPromptLine(k: number, count: number): string {
+  if (k <= 0) return "";
+  return `[VARIATION] Alternate ${k + 1} of ${count} for this exact tile: identical mask, edges and silhouette; vary only small interior details (clusters, pebbles, tufts, cracks) so repeated tiles do not look identical.`;
+}
+
+// Stitch base tiles (tiles[0]) and alternates (tiles[k]) — variant k sits k grid-heights down
+export async function stitchVariantSheet(sheetPath: string, tiles: string[][], cols: number, rows: number, tile: number): Promise<void> {
+  const composites: sharp.OverlayOptions[] = tiles.flatMap((paths, k) => paths.map((input, i) => ({
+    input, left: (i % cols) * tile, top: (Math.floor(i / cols) + k * rows) * tile,
+  })));
+  await sharp({ create: { width: cols * tile, height: rows * tile * tiles.length, channels: 4, background: { r:0,g:0,b:0,alpha:0 } } })
+    .composite(composites)
+    .png()
+    .toFile(sheetPath);
+}
+
+// Manifest fields for alternates of slot `idx` (empty when only the base tile exists)
+export function variantFields(outDir: string, tiles: string[][], weights: number[], idx: number) {
+  if (weights.length <= 1) return {};
+  return {
+    weight: weights[0],
+    alternates: tiles.slice(1).map((paths, j) => ({
+      variant: j + 1, file: path.relative(outDir, paths[idx]).replaceAll("\\", "/"), weight: weights[j + 1],
+    })),
+  };
+}
+
+export function variantsBlock(weights: number[]): Pick<TilesetManifest, "variants"> {
+  return weights.length > 1 ? { variants: { count: weights.length, weights, layout: "stacked" } } : {};
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import { validateAnimation, resolveAnimation, frameTextureOffset, MAX_FRAMES } from "../src/animation";
+import { generateCoast16Procedural } from "../src/procedural/coast16";
+
+let dir: string;
+
+/** 64×64 texture whose every pixel differs from its neighbours, so any shift shows. */
+async function writeNoise(file: string) {
+  const data = Buffer.alloc(64 * 64 * 4);
+  for (let i = 0; i < 64 * 64; i++) {
+    data[i * 4] = (i * 37) % 256; data[i * 4 + 1] = (i * 91) % 256; data[i * 4 + 2] = (i * 13) % 256; data[i * 4 + 3] = 255;
+  }
+  await sharp(data, { raw: { width: 64, height: 64, channels: 4 } }).png().toFile(path.join(dir, file));
+}
+
+const rawOf = async (file: string) => (await sharp(path.join(dir, file)).raw().toBuffer());
+
+async function generate(outDir: string, animation: Record<string, unknown>) {
+  const result = await generateCoast16Procedural({
+    outDir,
+    textures: { A: "../A.png", B: "../B.png" },
+    settings: { tileSize: 16, animation },
+  });
+  const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+  return { result, manifest };
+}
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tileset-anim-"));
+  await writeNoise("A.png");
+  await writeNoise("B.png");
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("validateAnimation", () => {
+  it("accepts a complete block and an empty one", () => {
+    expect(validateAnimation({ frames: 4, mode: "phase", material: "both", amplitude: 2, duration: 0.2, durations: [0.1, 0.2] })).toBeNull();
+    expect(validateAnimation({})).toBeNull();
+  });
+
+  it("rejects each malformed field with its own code", () => {
+    expect(validateAnimation([])).toBe("animation_must_be_object");
+    expect(validateAnimation({ frames: MAX_FRAMES + 1 })).toBe("invalid_frames");
+    expect(validateAnimation({ frames: 2.5 })).toBe("invalid_frames");
+    expect(validateAnimation({ mode: "spin" })).toBe("invalid_mode");
+    expect(validateAnimation({ material: "C" })).toBe("invalid_material");
+    expect(validateAnimation({ amplitude: 0 })).toBe("invalid_amplitude");
+    expect(validateAnimation({ duration: -1 })).toBe("invalid_duration");
+    expect(validateAnimation({ durations: [0.1, "0.2"] })).toBe("invalid_durations");
+    expect(validateAnimation({ durations: Array(MAX_FRAMES + 1).fill(0.1) })).toBe("invalid_durations");
+  });
+});
+
+describe("resolveAnimation / frameTextureOffset", () => {
+  it("is static below two frames and fills per-frame durations from the default", () => {
+    expect(resolveAnimation({ frames: 1 }, 32)).toBeNull();
+    const anim = resolveAnimation({ frames: 3, duration: 0.25, durations: [0.1] }, 32)!;
+    expect(anim).toMatchObject({ frames: 3, mode: "scroll", material: "B", amplitude: 2, durations: [0.1, 0.25, 0.25] });
+  });
+
+  it("leaves frame 0 unshifted; scroll moves the whole tile, phase ripples by row", () => {
+    const scroll = resolveAnimation({ frames: 4, amplitude: 3 }, 32);
+    const phase = resolveAnimation({ frames: 4, mode: "phase", amplitude: 3 }, 32);
+    expect(frameTextureOffset(scroll, 0, 5)).toEqual({ x: 0, y: 0 });
+    expect(frameTextureOffset(scroll, 1, 0)).toEqual(frameTextureOffset(scroll, 1, 9));
+    expect(frameTextureOffset(scroll, 1, 0)).not.toEqual({ x: 0, y: 0 });
+    const rows = Array.from({ length: 16 }, (_, y) => frameTextureOffset(phase, 1, y));
+    expect(rows.every((o) => o.y === 0)).toBe(true);
+    expect(new Set(rows.map((o) => o.x)).size).toBeGreaterThan(1);
+  });
+});
+
+describe("coast16 procedural animation", () => {
+  it("renders frames as extra columns and only moves the animated material", async () => {
+    const { result, manifest } = await generate(path.join(dir, "scroll"), { frames: 3, durations: [0.1, 0.2, 0.3] });
+    const meta = await sharp(result.sheetPath).metadata();
+    expect([meta.width, meta.height]).toEqual([4 * 16 * 3, 4 * 16]);
+    expect(manifest.animation).toEqual({ frames: 3, durations: [0.1, 0.2, 0.3], mode: "scroll", material: "B", layout: "columns" });
+
+    const allB = manifest.tiles.find((t: any) => t.name === "mask_1111");
+    const allA = manifest.tiles.find((t: any) => t.name === "mask_1110");
+    expect(allB.frames).toHaveLength(2);
+    expect((await rawOf(path.join("scroll", allB.frames[0]))).equals(await rawOf(path.join("scroll", allB.file)))).toBe(false);
+    expect((await rawOf(path.join("scroll", allA.frames[0]))).equals(await rawOf(path.join("scroll", allA.file)))).toBe(true);
+  });
+
+  it("renders phase frames that differ from the base tile", async () => {
+    const { manifest } = await generate(path.join(dir, "phase"), { frames: 2, mode: "phase", material: "both", amplitude: 3 });
+    const tile = manifest.tiles.find((t: any) => t.name === "mask_1110");
+    expect((await rawOf(path.join("phase", tile.frames[0]))).equals(await rawOf(path.join("phase", tile.file)))).toBe(false);
+  });
+
+  it("gives every atlas tile its animation frames count and durations in the .tres", async () => {
+    const { result } = await generate(path.join(dir, "tres"), { frames: 3, durations: [0.1, 0.2, 0.3] });
+    const tres = await fs.readFile(result.sheetPath.replace(/\.png$/, ".tres"), "utf8");
+    for (const head of ["0:0", "3:3"]) {
+      expect(tres).toContain(`${head}/animation_columns = 3`);
+      expect(tres).toContain(`${head}/animation_separation = Vector2i(3, 0)`);
+      expect(tres).toContain(`${head}/animation_frames_count = 3`);
+      expect(tres).toContain(`${head}/animation_frame_2/duration = 0.3`);
+    }
+    expect(tres).not.toMatch(/^4:0\/0 = 0$/m);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import { tilesetAsepriteLayout } from "../src/aseprite";
+import { generateBlob47Procedural } from "../src/procedural/blob47";
+import { generateCoast16Procedural } from "../src/procedural/coast16";
+
+let dir: string;
+
+async function writeNoise(file: string, seed: number) {
+  const data = Buffer.alloc(32 * 32 * 4);
+  for (let i = 0; i < 32 * 32; i++) {
+    data[i * 4] = (i * seed) % 256; data[i * 4 + 1] = (i * 91) % 256; data[i * 4 + 2] = (i * 13) % 256; data[i * 4 + 3] = 255;
+  }
+  await sharp(data, { raw: { width: 32, height: 32, channels: 4 } }).png().toFile(path.join(dir, file));
+}
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tileset-aseprite-"));
+  await writeNoise("A.png", 37);
+  await writeNoise("B.png", 53);
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("tilesetAsepriteLayout", () => {
+  it("tags each variant block and maps every frame to the tile file it was stitched from", async () => {
+    const outDir = path.join(dir, "blob");
+    const result = await generateBlob47Procedural({ outDir, textures: { A: "../A.png", B: "../B.png" }, settings: { tileSize: 8, variants: 2 } });
+    const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+    const layout = tilesetAsepriteLayout(manifest);
+
+    expect(layout.image).toBe(path.basename(result.sheetPath));
+    expect(layout.size).toEqual({ w: 8 * 8, h: 6 * 8 * 2 });
+    expect(layout.tags).toEqual([{ name: "tiles", from: 0, to: 46 }, { name: "tiles_v1", from: 47, to: 93 }]);
+    expect(layout.frames[48]).toMatchObject({ name: "tiles_v1 1", x: 8, y: 48, w: 8, h: 8, duration: 100 });
+    expect(layout.sections).toHaveLength(47 * 2);
+
+    // cutting a section out of the sheet gives back its tile: an import can rewrite tiles from the sheet
+    const sheet = await sharp(result.sheetPath).raw().toBuffer({ resolveWithObject: true });
+    for (const s of [layout.sections[0], layout.sections[20], layout.sections[93]]) {
+      const cell = await sharp(sheet.data, { raw: sheet.info }).extract({ left: s.x, top: s.y, width: s.w, height: s.h }).raw().toBuffer();
+      expect(cell.equals(await sharp(path.join(outDir, s.file)).ensureAlpha().raw().toBuffer())).toBe(true);
+    }
+  });
+
+  it("puts animation frames in tags of their own with the frame durations", async () => {
+    const outDir = path.join(dir, "coast");
+    const result = await generateCoast16Procedural({
+      outDir,
+      textures: { A: "../A.png", B: "../B.png" },
+      settings: { tileSize: 8, animation: { frames: 2, durations: [0.25, 0.5] } },
+    });
+    const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+    const layout = tilesetAsepriteLayout(manifest);
+    expect(layout.size).toEqual({ w: 4 * 8 * 2, h: 4 * 8 });
+    expect(layout.tags).toEqual([{ name: "tiles", from: 0, to: 15 }, { name: "tiles_f1", from: 16, to: 31 }]);
+    expect(layout.frames[16]).toMatchObject({ name: "tiles_f1 0", x: 32, y: 0, duration: 500 });
+    expect(layout.frames[0].duration).toBe(250);
+    const first = [...manifest.tiles].sort((a: any, b: any) => a.id - b.id)[0];
+    expect(layout.sections.find((s) => s.x === 32 && s.y === 0)?.file).toBe(path.posix.normalize(first.frames[0]));
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { parseGpl, parseHex, parsePal, parsePalette, detectPaletteFormat, rgbToHex } from "../src/paletteFormats";
+import { loadUserPalettes, saveUserPalette, deleteUserPalette } from "../src/userPalettes";
+import { getPalette, hasPalette, DEFAULT_PALETTE_ID } from "../src/palettes";
+
+describe("palette file formats", () => {
+  it("parses GIMP .gpl with its name, comments and labels", () => {
+    const gpl = "GIMP Palette\nName: Dusk\nColumns: 4\n# comment\n  0   0   0\tBlack\n255 128 7 Orange\n\n";
+    expect(parseGpl(gpl)).toEqual({ name: "Dusk", colors: [[0, 0, 0], [255, 128, 7]] });
+  });
+
+  it("parses Lospec .hex with or without #", () => {
+    expect(parseHex("#000000\r\nff8007\n\n")).toEqual({ colors: [[0, 0, 0], [255, 128, 7]] });
+  });
+
+  it("parses JASC .pal up to the declared count", () => {
+    expect(parsePal("JASC-PAL\n0100\n2\n0 0 0\n255 128 7\n")).toEqual({ colors: [[0, 0, 0], [255, 128, 7]] });
+  });
+
+  it.each([
+    ["gpl", "Name: x\n0 0 0", "invalid_palette:missing_gpl_header"],
+    ["gpl", "GIMP Palette\n0 0", "invalid_palette:bad_gpl_row:0 0"],
+    ["gpl", "GIMP Palette\n0 0 256", "invalid_palette:bad_gpl_row:0 0 256"],
+    ["hex", "#00000\n", "invalid_palette:bad_hex_row:00000"],
+    ["hex", "zzzzzz", "invalid_palette:bad_hex_row:zzzzzz"],
+    ["pal", "0100\n1\n0 0 0", "invalid_palette:missing_pal_header"],
+    ["pal", "JASC-PAL\n0100\nmany\n0 0 0", "invalid_palette:bad_pal_count"],
+    ["pal", "JASC-PAL\n0100\n3\n0 0 0\n1 1 1", "invalid_palette:pal_count_mismatch"],
+    ["pal", "JASC-PAL\n0100\n1\n0 -1 0", "invalid_palette:bad_pal_row:0 -1 0"],
+  ] as const)("rejects malformed %s input %j", (format, text, error) => {
+    expect(() => parsePalette(text, format)).toThrow(error);
+  });
+
+  it("detects the format from the extension, then the content", () => {
+    expect(detectPaletteFormat("anything", "x.PAL")).toBe("pal");
+    expect(detectPaletteFormat("GIMP Palette\n")).toBe("gpl");
+    expect(detectPaletteFormat("JASC-PAL\n0100")).toBe("pal");
+    expect(detectPaletteFormat("#a0b0c0\n")).toBe("hex");
+    expect(detectPaletteFormat("not a palette")).toBeNull();
+    expect(rgbToHex([255, 128, 7])).toBe("#ff8007");
+  });
+});
+
+describe("user palettes", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "palettes-"));
+  });
+
+  afterEach(async () => {
+    await loadUserPalettes(path.join(dir, "none"));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads raw files dropped in by hand and lets a same-named .json win", async () => {
+    await fs.writeFile(path.join(dir, "dusk.gpl"), "GIMP Palette\nName: Dusk\n0 0 0\n255 255 255\n");
+    await fs.writeFile(path.join(dir, "sea.hex"), "001020\n304050\n");
+    await fs.writeFile(path.join(dir, "broken.pal"), "JASC-PAL\n0100\n5\n0 0 0\n");
+    await fs.writeFile(path.join(dir, "notes.txt"), "ignored");
+    expect((await loadUserPalettes(dir)).map((p) => p.id).sort()).toEqual(["dusk", "sea"]);
+    expect(getPalette("dusk")).toMatchObject({ name: "Dusk", colors: [[0, 0, 0], [255, 255, 255]], builtin: false, source: "gpl" });
+
+    await fs.writeFile(path.join(dir, "sea.json"), JSON.stringify({ id: "sea", name: "Deep Sea", colors: ["#000000", "#ffffff"] }));
+    await loadUserPalettes(dir);
+    expect(getPalette("sea")).toMatchObject({ name: "Deep Sea", colors: [[0, 0, 0], [255, 255, 255]] });
+  });
+
+  it("mirrors the directory on reload: saved palettes appear, deleted ones disappear", async () => {
+    await saveUserPalette(dir, { id: "mono", colors: [[0, 0, 0], [255, 255, 255]], source: "hex" });
+    expect(JSON.parse(await fs.readFile(path.join(dir, "mono.json"), "utf8")).colors).toEqual(["#000000", "#ffffff"]);
+    expect(hasPalette("mono")).toBe(true);
+
+    await fs.rm(path.join(dir, "mono.json"));
+    await loadUserPalettes(dir);
+    expect(hasPalette("mono")).toBe(false);
+
+    await fs.writeFile(path.join(dir, "mono.hex"), "000000\nffffff\n");
+    await loadUserPalettes(dir);
+    expect(await deleteUserPalette(dir, "mono")).toBe(true);
+    expect(hasPalette("mono")).toBe(false);
+    expect(await deleteUserPalette(dir, "mono")).toBe(false);
+    expect(await deleteUserPalette(dir, DEFAULT_PALETTE_ID)).toBe(false);
+    expect(hasPalette(DEFAULT_PALETTE_ID)).toBe(true);
+  });
+});
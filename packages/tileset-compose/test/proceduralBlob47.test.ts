@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import { generateBlob47Procedural } from "../src/procedural/blob47";
+import { generateCoast16Procedural } from "../src/procedural/coast16";
+import { PATTERNS } from "../src/patterns/registry";
+import type { CornerStyle, LineStyle } from "../src/procedural/shared";
+
+const TS = 16;
+const RED = [255, 0, 0];
+let dir: string;
+
+async function writeSolid(file: string, [r, g, b]: number[]) {
+  await sharp({ create: { width: 8, height: 8, channels: 4, background: { r, g, b, alpha: 1 } } }).png().toFile(path.join(dir, file));
+}
+
+async function writeNoise(file: string) {
+  const data = Buffer.alloc(32 * 32 * 4);
+  for (let i = 0; i < 32 * 32; i++) {
+    data[i * 4] = (i * 37) % 256; data[i * 4 + 1] = (i * 91) % 256; data[i * 4 + 2] = (i * 13) % 256; data[i * 4 + 3] = 255;
+  }
+  await sharp(data, { raw: { width: 32, height: 32, channels: 4 } }).png().toFile(path.join(dir, file));
+}
+
+async function blob47(name: string, settings: Parameters<typeof generateBlob47Procedural>[0]["settings"], textures = { A: "../A.png", B: "../B.png" }) {
+  const outDir = path.join(dir, name);
+  const result = await generateBlob47Procedural({ outDir, textures, settings: { tileSize: TS, ...settings } });
+  const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+  const tile = async (slot: string, variant = 0) => {
+    const t = manifest.tiles.find((x: any) => x.name === slot);
+    const file = variant ? t.alternates[variant - 1].file : t.file;
+    return sharp(path.join(outDir, file)).raw().toBuffer();
+  };
+  return { result, manifest, tile };
+}
+
+const isA = (raw: Buffer, x: number, y: number) => {
+  const i = (y * TS + x) * 4;
+  return raw[i] === RED[0] && raw[i + 1] === RED[1] && raw[i + 2] === RED[2];
+};
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tileset-blob47-"));
+  await writeSolid("A.png", RED);
+  await writeSolid("B.png", [0, 0, 255]);
+  await writeNoise("noise.png");
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("procedural blob47", () => {
+  it("renders all 47 slots into the 8×6 sheet and leaves slot 48 empty", async () => {
+    const { result, manifest } = await blob47("all", {});
+    expect(manifest.tiles.map((t: any) => t.name)).toEqual(PATTERNS.blob47.tiles.map((t) => t.name));
+    const { data, info } = await sharp(result.sheetPath).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([8 * TS, 6 * TS]);
+    const last = (y: number, x: number) => data[((5 * TS + y) * info.width + 7 * TS + x) * 4 + 3];
+    expect(last(0, 0) + last(TS - 1, TS - 1) + last(TS / 2, TS / 2)).toBe(0);
+    await expect(fs.stat(result.sheetPath.replace(/\.png$/, ".tres"))).resolves.toBeTruthy();
+  });
+
+  it("puts material A wherever the slot mask continues it, so edges line up with neighbours", async () => {
+    const { tile } = await blob47("square", { cornerStyle: "square" });
+    const mid = TS / 2, end = TS - 1;
+    const probes: Record<string, [number, number]> = {
+      N: [mid, 0], NE: [end, 0], E: [end, mid], SE: [end, end], S: [mid, end], SW: [0, end], W: [0, mid], NW: [0, 0],
+    };
+    for (const slot of PATTERNS.blob47.tiles) {
+      const raw = await tile(slot.name);
+      expect(isA(raw, mid, mid)).toBe(true);
+      for (const [side, [x, y]] of Object.entries(probes)) {
+        expect([slot.name, side, isA(raw, x, y)]).toEqual([slot.name, side, slot.mask.includes(side)]);
+      }
+    }
+  });
+
+  it("is deterministic, and alternates reseed the textures without moving the mask", async () => {
+    const settings = { variants: 2, lineStyle: "craggy" as const };
+    const noisy = { A: "../noise.png", B: "../B.png" };
+    const a = await blob47("det-a", settings, noisy);
+    const b = await blob47("det-b", settings, noisy);
+    const sheet = async (r: typeof a) => sharp(r.result.sheetPath).raw().toBuffer();
+    expect((await sheet(a)).equals(await sheet(b))).toBe(true);
+    expect((await a.tile("center", 1)).equals(await a.tile("center", 0))).toBe(false);
+
+    const solid = await blob47("det-solid", { variants: 2 });
+    expect((await solid.tile("edge_north", 1)).equals(await solid.tile("edge_north", 0))).toBe(true);
+  });
+
+  it("shapes the boundary with the same line and corner styles as coast16", async () => {
+    const base = await (await blob47("style-base", { cornerStyle: "square" })).tile("corner_NE");
+    const lineStyles: LineStyle[] = ["wavy_smooth", "craggy", "zigzag"];
+    for (const lineStyle of lineStyles) {
+      const styled = await (await blob47(`line-${lineStyle}`, { cornerStyle: "square", lineStyle })).tile("corner_NE");
+      expect([lineStyle, styled.equals(base)]).toEqual([lineStyle, false]);
+    }
+    const cornerStyles: CornerStyle[] = ["stepped", "quarter"];
+    for (const cornerStyle of cornerStyles) {
+      const styled = await (await blob47(`corner-${cornerStyle}`, { cornerStyle })).tile("corner_NE");
+      expect([cornerStyle, styled.equals(base)]).toEqual([cornerStyle, false]);
+    }
+    // coast16 takes the same option values
+    const coast = await generateCoast16Procedural({
+      outDir: path.join(dir, "coast"),
+      textures: { A: "../A.png", B: "../B.png" },
+      settings: { tileSize: TS, cornerStyle: "quarter", lineStyle: "zigzag" } as any,
+    });
+    const manifest = JSON.parse(await fs.readFile(coast.manifestPath, "utf8"));
+    expect(manifest.procedural.settings.cornerStyle).toBe("quarter");
+  });
+});
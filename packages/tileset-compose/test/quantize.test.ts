@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+
+import { deltaE2000, rgbToLab, createColorMatcher } from "../src/color";
+import { quantizeToPalette, resolveQuantizeOptions, nearestColor, type DitherMode } from "../src/quantize";
+import type { RGB } from "../src/types";
+
+const BW: RGB[] = [[0, 0, 0], [255, 255, 255]];
+
+/** W×H RGBA image filled with one colour; pixels for which `clear` returns true are transparent. */
+async function solid(W: number, H: number, [r, g, b]: RGB, clear: (x: number, y: number) => boolean = () => false) {
+  const data = Buffer.alloc(W * H * 4);
+  for (let y = 0; y < H; y++) for (let x = 0; x < W; x++) {
+    const i = (y * W + x) * 4;
+    data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = clear(x, y) ? 0 : 255;
+  }
+  return sharp(data, { raw: { width: W, height: H, channels: 4 } }).png().toBuffer();
+}
+
+async function pixels(png: Buffer) {
+  const { data } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const out: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) out.push([data[i], data[i + 1], data[i + 2], data[i + 3]]);
+  return out;
+}
+
+describe("deltaE2000", () => {
+  // Sharma, Wu & Dalal (2005) test data
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  ] as Array<[[number, number, number], [number, number, number], number]>)("%j vs %j = %d", (a, b, expected) => {
+    expect(deltaE2000(a, b)).toBeCloseTo(expected, 4);
+    expect(deltaE2000(b, a)).toBeCloseTo(expected, 4);
+  });
+
+  it("is zero for identical colours", () => {
+    expect(deltaE2000(rgbToLab([12, 200, 99]), rgbToLab([12, 200, 99]))).toBe(0);
+  });
+});
+
+describe("colour matching", () => {
+  it("maps white to L*=100 and black to L*=0", () => {
+    expect(rgbToLab([255, 255, 255])[0]).toBeCloseTo(100, 2);
+    expect(rgbToLab([0, 0, 0])[0]).toBeCloseTo(0, 6);
+  });
+
+  it("finds exact palette entries with every distance", () => {
+    const palette: RGB[] = [[0, 0, 0], [200, 30, 30], [30, 200, 30], [30, 30, 200]];
+    for (const distance of ["rgb", "lab76", "lab2000", "oklab"] as const) {
+      const match = createColorMatcher(palette, distance);
+      expect(palette.map(([r, g, b]) => match(r, g, b))).toEqual([0, 1, 2, 3]);
+      expect(nearestColor(palette, 190, 40, 35, distance)).toEqual([200, 30, 30]);
+    }
+  });
+
+  it("normalizes options", () => {
+    expect(resolveQuantizeOptions()).toEqual({ distance: "rgb", dither: "none", strength: 1 });
+    expect(resolveQuantizeOptions({ distance: "oklab", dither: "bayer4", ditherStrength: 3 }))
+      .toEqual({ distance: "oklab", dither: "bayer4", strength: 1 });
+    expect(resolveQuantizeOptions({ distance: "xyz" as any, dither: "noise" as DitherMode, ditherStrength: -1 }))
+      .toEqual({ distance: "rgb", dither: "none", strength: 0 });
+  });
+});
+
+describe("quantizeToPalette", () => {
+  it("maps mid grey to the nearest colour without dithering and keeps transparency", async () => {
+    const img = await solid(4, 4, [140, 140, 140], (x) => x === 0);
+    const px = await pixels(await quantizeToPalette(img, BW));
+    expect(px.filter((p) => p[3] === 0)).toHaveLength(4);
+    expect(px.filter((p) => p[3] === 255).every((p) => p.join() === "255,255,255,255")).toBe(true);
+  });
+
+  it.each(["bayer2", "bayer4", "bayer8", "floyd_steinberg", "pattern"] as DitherMode[])(
+    "%s mixes black and white in proportion to the grey level",
+    async (dither) => {
+      const px = await pixels(await quantizeToPalette(await solid(16, 16, [128, 128, 128]), BW, { dither }));
+      expect(px.every((p) => (p[0] === 0 || p[0] === 255) && p[3] === 255)).toBe(true);
+      const white = px.filter((p) => p[0] === 255).length / px.length;
+      expect(white).toBeGreaterThan(0.35);
+      expect(white).toBeLessThan(0.65);
+    }
+  );
+
+  it("dithers nothing at strength 0", async () => {
+    const px = await pixels(await quantizeToPalette(await solid(8, 8, [128, 128, 128]), BW, { dither: "bayer4", ditherStrength: 0 }));
+    expect(new Set(px.map((p) => p[0]))).toEqual(new Set([255]));
+  });
+});
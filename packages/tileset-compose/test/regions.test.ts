@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { traceRegionOutlines } from "../src/procedural/regions";
+import { generateCoast16Procedural } from "../src/procedural/coast16";
+
+const N = 8;
+
+/** N×N mask from a predicate on pixel coordinates. */
+const maskOf = (on: (x: number, y: number) => boolean) =>
+  Array.from({ length: N * N }, (_, i) => on(i % N, Math.floor(i / N)));
+
+// Outline as [x, y] pairs, rotated to start at its smallest point so comparisons ignore the start
+function normalized(flat: number[]): Array<[number, number]> {
+  const pts = Array.from({ length: flat.length / 2 }, (_, i) => [flat[i * 2], flat[i * 2 + 1]] as [number, number]);
+  const start = pts.reduce((best, p, i) => (p[1] < pts[best][1] || (p[1] === pts[best][1] && p[0] < pts[best][0]) ? i : best), 0);
+  return [...pts.slice(start), ...pts.slice(0, start)];
+}
+
+describe("traceRegionOutlines", () => {
+  it("traces a full tile as one tile-centred square, clockwise on screen", () => {
+    const [outline, ...rest] = traceRegionOutlines(maskOf(() => true), N);
+    expect(rest).toEqual([]);
+    expect(normalized(outline)).toEqual([[-4, -4], [4, -4], [4, 4], [-4, 4]]);
+  });
+
+  it("returns nothing for an empty mask", () => {
+    expect(traceRegionOutlines(maskOf(() => false), N)).toEqual([]);
+  });
+
+  it("keeps regions touching only at a corner apart and drops holes", () => {
+    const diagonal = traceRegionOutlines(maskOf((x, y) => (x < 4) === (y < 4)), N);
+    expect(diagonal.map(normalized)).toEqual(expect.arrayContaining([
+      [[-4, -4], [0, -4], [0, 0], [-4, 0]],
+      [[0, 0], [4, 0], [4, 4], [0, 4]],
+    ]));
+    expect(diagonal).toHaveLength(2);
+
+    const ring = traceRegionOutlines(maskOf((x, y) => !(x >= 3 && x < 5 && y >= 3 && y < 5)), N);
+    expect(ring.map(normalized)).toEqual([[[-4, -4], [4, -4], [4, 4], [-4, 4]]]);
+  });
+
+  it("collapses 1px stair steps into a straight diagonal within the tolerance", () => {
+    const [stairs] = traceRegionOutlines(maskOf((x, y) => x <= y), N);
+    expect(stairs.length / 2).toBeLessThanOrEqual(4);
+    const [exact] = traceRegionOutlines(maskOf((x, y) => x <= y), N, 0);
+    expect(exact.length / 2).toBeGreaterThan(10);
+  });
+});
+
+describe("coast16 traced shapes", () => {
+  it("records A/B outlines per tile and writes collision and per-vehicle navigation", async () => {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), "tileset-regions-"));
+    try {
+      const result = await generateCoast16Procedural({
+        outDir,
+        textures: {},
+        settings: { tileSize: N, collision: "B" },
+        materialsAB: { A: { name: "Land", vehicles: ["foot"] }, B: { name: "Water", vehicles: ["boat"] } },
+      });
+      const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+      const land = manifest.tiles.find((t: any) => t.name === "mask_1110");   // fill A
+      expect(land.regions).toEqual({ A: [[-4, -4, 4, -4, 4, 4, -4, 4]], B: [] });
+
+      const tres = await fs.readFile(result.sheetPath.replace(/\.png$/, ".tres"), "utf8");
+      expect(tres).toContain("navigation_layer_0/layers = 1");
+      expect(tres).toContain("navigation_layer_1/layers = 2");
+      // mask_1111 (all water, slot 15 at 3:3) collides everywhere and only boats navigate it
+      expect(tres).toContain("3:3/0/physics_layer_0/polygon_0/points = PackedVector2Array(-4, -4, 4, -4, 4, 4, -4, 4)");
+      expect(tres).toMatch(/^3:3\/0\/navigation_layer_1\/polygon = /m);
+      expect(tres).not.toMatch(/^3:3\/0\/navigation_layer_0\/polygon = /m);
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
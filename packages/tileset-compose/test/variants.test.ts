@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { expandVariantRules, writeTileSetTres, type RulesConfig } from "@pixelart/godot-res";
+
+import { resolveVariantWeights, variantTag, variantFields, variantsBlock, stitchVariantSheet, MAX_VARIANTS } from "../src/variants";
+import { generateBlob47Procedural } from "../src/procedural/blob47";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tileset-variants-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("variant weights", () => {
+  it("defaults to one weight of 1 per variant and clamps the count", () => {
+    expect(resolveVariantWeights()).toEqual([1]);
+    expect(resolveVariantWeights(3, [2, -1])).toEqual([2, 1, 1]);
+    expect(resolveVariantWeights(undefined, [4, 0.5])).toEqual([4, 0.5]);
+    expect(resolveVariantWeights(99)).toHaveLength(MAX_VARIANTS);
+  });
+
+  it("tags alternates and lists them per slot in the manifest", () => {
+    expect([0, 1, 2].map(variantTag)).toEqual(["", "_v1", "_v2"]);
+    const tiles = [["/o/a.png", "/o/b.png"], ["/o/a_v1.png", "/o/b_v1.png"]];
+    expect(variantFields("/o", tiles, [3, 1], 1)).toEqual({ weight: 3, alternates: [{ variant: 1, file: "b_v1.png", weight: 1 }] });
+    expect(variantFields("/o", tiles.slice(0, 1), [1], 0)).toEqual({});
+    expect(variantsBlock([3, 1])).toEqual({ variants: { count: 2, weights: [3, 1], layout: "stacked" } });
+    expect(variantsBlock([1])).toEqual({});
+  });
+});
+
+describe("stacked variant sheet", () => {
+  it("places variant k of each slot k grid-heights below the base tile", async () => {
+    const solid = async (name: string, r: number) => {
+      const file = path.join(dir, name);
+      await sharp({ create: { width: 4, height: 4, channels: 4, background: { r, g: 0, b: 0, alpha: 1 } } }).png().toFile(file);
+      return file;
+    };
+    const sheet = path.join(dir, "sheet.png");
+    await stitchVariantSheet(sheet, [[await solid("a.png", 10), await solid("b.png", 20)], [await solid("a1.png", 30), await solid("b1.png", 40)]], 2, 1, 4);
+    const { data, info } = await sharp(sheet).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([8, 8]);
+    const red = (x: number, y: number) => data[(y * info.width + x) * info.channels];
+    expect([red(0, 0), red(4, 0), red(0, 4), red(4, 4)]).toEqual([10, 20, 30, 40]);
+  });
+});
+
+describe("Godot probability", () => {
+  const rules: RulesConfig = {
+    meta: { name: "t", tileSize: 16 },
+    terrainSets: [],
+    tiles: [{ coord: [0, 0], terrainSet: 0, terrain: 0 }, { coord: [1, 0], terrainSet: 0, terrain: 0 }],
+  };
+
+  it("copies each tile into its variant block with the variant weight", async () => {
+    const expanded = expandVariantRules(rules, { cols: 2, rows: 1 }, [2, 0.5]);
+    expect(expanded.tiles.map((t) => [t.coord, t.probability])).toEqual([
+      [[0, 0], 2], [[1, 0], 2], [[0, 1], 0.5], [[1, 1], 0.5],
+    ]);
+    const tresPath = await writeTileSetTres({
+      outDir: dir, atlasPngName: "t.png", extResourcePath: "res://t.png", rules: expanded, fileName: "expanded.tres",
+    });
+    const lines = (await fs.readFile(tresPath, "utf8")).split("\n");
+    expect(lines).toContain("0:0/0/probability = 2");
+    expect(lines).toContain("1:1/0/probability = 0.5");
+    expect(expandVariantRules(rules, { cols: 2, rows: 1 }, [1])).toBe(rules);
+  });
+
+  it("writes a probability for every alternate of a procedural sheet", async () => {
+    const outDir = path.join(dir, "blob");
+    const result = await generateBlob47Procedural({ outDir, textures: {}, settings: { tileSize: 8, variants: 3, variantWeights: [4, 2, 1] } });
+    const manifest = JSON.parse(await fs.readFile(result.manifestPath, "utf8"));
+    expect(manifest.variants).toEqual({ count: 3, weights: [4, 2, 1], layout: "stacked" });
+    expect(manifest.tiles[0].alternates.map((a: any) => a.weight)).toEqual([2, 1]);
+    expect(result.tilePaths).toHaveLength(47 * 3);
+
+    const tres = await fs.readFile(result.sheetPath.replace(/\.png$/, ".tres"), "utf8");
+    expect(tres).toContain("0:0/0/probability = 4");
+    expect(tres).toContain("0:6/0/probability = 2");
+    expect(tres).not.toContain("0:12/0/probability");   // weight 1 is Godot's default
+    expect(tres).toMatch(/^0:12\/0 = 0$/m);
+    const meta = await sharp(result.sheetPath).metadata();
+    expect([meta.width, meta.height]).toEqual([8 * 8, 6 * 8 * 3]);
+  });
+});